@@ -14,11 +14,12 @@ pragma solidity ^0.8.20;
  *    - Using UUPSUpgradeable proxy pattern (more gas efficient, more secure)
  *      使用 UUPSUpgradeable 代理模式（更省 gas，更安全）
  * 
- * 2. AccessControlUpgradeable: Role management / 角色管理
+ * 2. AccessControlEnumerableUpgradeable: Role management / 角色管理
  *    - Provides fine-grained permission control
  *      提供细粒度的权限控制
  *    - Can define multiple roles (admin, police, lawyer, etc.)
  *      可以定义多种角色（管理员、警察、律师等）
+ *    - Role members can be listed on-chain / 可以在链上列出角色成员
  * 
  * 3. ReentrancyGuardUpgradeable: Prevents reentrancy attacks / 防止重入攻击
  *    - nonReentrant modifier prevents recursive calls
@@ -37,13 +38,30 @@ pragma solidity ^0.8.20;
  * 6. Initializable: Initializer / 初始化器
  *    - Replaces constructor for upgradeable contracts
  *      替代构造函数，用于可升级合约的初始化
+ * 
+ * 7. EIP712Upgradeable + NoncesUpgradeable + ECDSA: Typed signatures / 类型化签名
+ *    - Lets signers and witnesses sign off-chain, a relayer submits the transaction
+ *      允许签约者和见证者链下签名，由中继者提交交易
+ *    - Nonces prevent a signature from being replayed / nonce 防止签名被重放
+ * 
+ * 8. ParticipantLib: Linked external library / 链接的外部库
+ *    - Participant validation and views live in the library to keep this contract under 24KB
+ *      参与者验证和查询放在库中，使本合约保持在 24KB 以内
  */
-import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/extensions/AccessControlEnumerableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
-import "hardhat/console.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/NoncesUpgradeable.sol";
+import {IAccessControl} from "@openzeppelin/contracts/access/IAccessControl.sol";
+import {ParticipantLib} from "./libraries/ParticipantLib.sol";
+import {ReviewLib} from "./libraries/ReviewLib.sol";
+import {LifecycleLib} from "./libraries/LifecycleLib.sol";
+import {SigningLib} from "./libraries/SigningLib.sol";
+import {MembershipLib} from "./libraries/MembershipLib.sol";
+import {UpgradeLib} from "./libraries/UpgradeLib.sol";
 
 /**
  * @title CommitmentChain
@@ -56,8 +74,8 @@ import "hardhat/console.sol";
  * Main Features / 主要功能：
  * 1. Create Commitment: Initiator uploads file hash and automatically signs
  *    创建承诺：发起人上传文件哈希并自动签名
- * 2. Signer Signature: Designated signer signs
- *    签约者签名：指定的签约者进行签名
+ * 2. Signer Signature: One or more designated signers sign
+ *    签约者签名：一个或多个指定的签约者进行签名
  * 3. Witness Signature: Optional multiple witnesses sign
  *    见证者签名：可选的多个见证者签名
  * 4. Role Management: Different roles have different permissions
@@ -67,9 +85,11 @@ import "hardhat/console.sol";
  */
 contract CommitmentChain is 
     Initializable,              // Initializer (must be first) / 初始化器（必须放在第一位）
-    AccessControlUpgradeable,   // Access control / 访问控制
+    AccessControlEnumerableUpgradeable, // Access control with member lists / 可枚举成员的访问控制
     ReentrancyGuardUpgradeable, // Reentrancy guard / 防重入
     PausableUpgradeable,        // Pausable / 暂停功能
+    EIP712Upgradeable,          // Typed structured data signing / 类型化结构数据签名
+    NoncesUpgradeable,          // Replay protection nonces / 防重放 nonce
     UUPSUpgradeable             // Upgradeable proxy / 可升级代理
 {
     // ============================================================================
@@ -81,7 +101,7 @@ contract CommitmentChain is
      * 
      * DEFAULT_ADMIN_ROLE (inherited from AccessControl / 继承自 AccessControl)
      * - Super admin with highest authority / 超级管理员，拥有最高权限
-     * - Can grant/revoke all roles / 可以授予/撤销所有角色
+     * - Can grant/revoke the admin roles below and EMERGENCY_ROLE / 可以授予/撤销下列管理角色及 EMERGENCY_ROLE
      * - Can upgrade contract / 可以升级合约
      * - Can pause/unpause contract / 可以暂停/恢复合约
      * 
@@ -100,16 +120,155 @@ contract CommitmentChain is
      * EMERGENCY_ROLE - Emergency admin / 紧急管理员
      * - Can freeze commitments in emergency / 可以在紧急情况下冻结承诺
      * - Can pause contract / 可以暂停合约
+     * 
+     * Admin roles (granted by DEFAULT_ADMIN_ROLE) / 管理角色（由 DEFAULT_ADMIN_ROLE 授予）：
+     * - POLICE_ADMIN_ROLE: Department heads, grant/revoke POLICE_ROLE / 部门负责人，授予/撤销 POLICE_ROLE
+     * - BAR_ADMIN_ROLE: Bar associations, grant/revoke LAWYER_ROLE / 律师协会，授予/撤销 LAWYER_ROLE
+     * - VERIFIER_ADMIN_ROLE: Grant/revoke VERIFIER_ROLE / 授予/撤销 VERIFIER_ROLE
+     * 
+     * Organizations / 组织：
+     * - Accounts assigned to an organization create commitments in it, and as verifier or
+     *   emergency admin only act on its commitments; unassigned accounts act across organizations
+     *   分配到组织的账户在该组织中创建承诺，作为验证员或紧急管理员时只能处理该组织的承诺；
+     *   未分配的账户可跨组织操作
      */
-    bytes32 public constant POLICE_ROLE = keccak256("POLICE_ROLE");
-    bytes32 public constant LAWYER_ROLE = keccak256("LAWYER_ROLE");
-    bytes32 public constant VERIFIER_ROLE = keccak256("VERIFIER_ROLE");
+    bytes32 public constant POLICE_ROLE = MembershipLib.POLICE_ROLE;
+    bytes32 public constant LAWYER_ROLE = MembershipLib.LAWYER_ROLE;
+    bytes32 public constant VERIFIER_ROLE = MembershipLib.VERIFIER_ROLE;
     bytes32 public constant EMERGENCY_ROLE = keccak256("EMERGENCY_ROLE");
+    bytes32 public constant POLICE_ADMIN_ROLE = keccak256("POLICE_ADMIN_ROLE");
+    bytes32 public constant BAR_ADMIN_ROLE = keccak256("BAR_ADMIN_ROLE");
+    bytes32 public constant VERIFIER_ADMIN_ROLE = keccak256("VERIFIER_ADMIN_ROLE");
+    
+    // ============================================================================
+    // Upgrade Timelock / 升级时间锁
+    // ============================================================================
+    
+    /// @dev Lower bound of the upgrade delay / 升级延迟的下限
+    uint256 public constant MIN_UPGRADE_DELAY = UpgradeLib.MIN_UPGRADE_DELAY;
+    
+    // ============================================================================
+    // Batch Limits / 批量限制
+    // ============================================================================
+    
+    /// @dev Maximum number of commitments per batch call / 每次批量调用的最大承诺数
+    uint256 public constant MAX_BATCH_SIZE = SigningLib.MAX_BATCH_SIZE;
+    
+    // ============================================================================
+    // EIP-712 Typed Signatures / EIP-712 类型化签名
+    // ============================================================================
+    
+    /// @dev EIP-712 domain name and version / EIP-712 域名称和版本
+    string private constant EIP712_NAME = "CommitmentChain";
+    string private constant EIP712_VERSION = "1";
+    
+    /// @dev Role codes used in typed signatures / 类型化签名中使用的角色代码
+    uint8 public constant SIGNATURE_ROLE_SIGNER = 1;
+    uint8 public constant SIGNATURE_ROLE_WITNESS = 2;
+    
+    /// @dev Typehash of the signed message / 签名消息的类型哈希
+    bytes32 public constant SIGN_COMMITMENT_TYPEHASH = SigningLib.SIGN_COMMITMENT_TYPEHASH;
     
     // ============================================================================
     // Data Structures / 数据结构
     // ============================================================================
     
+    /**
+     * @dev Commitment lifecycle status / 承诺生命周期状态
+     * @notice Derived from stored flags in one place (see LifecycleLib.getStatus), never stored directly
+     *         由存储的标志位统一推导（见 LifecycleLib.getStatus），不直接存储
+     * 
+     * Pending         - Only initiator has signed / 仅发起人已签名
+     * PartiallySigned - Some but not all parties have signed / 部分参与方已签名
+     * Completed       - All parties have signed / 所有参与方均已签名
+     * Verified        - Completed and verified by verifier / 已完成且已被验证员验证
+     * Frozen          - Frozen by emergency admin, until unfrozen or the unfreeze time passes
+     *                   被紧急管理员冻结，直到解冻或自动解冻时间已过
+     * Cancelled       - Cancelled before completion / 在完成前被取消
+     * Expired         - Signing deadline passed before completion / 完成前签名截止时间已过
+     * Superseded      - Replaced by a completed amendment / 已被完成的修订版本取代
+     * Declined        - Signer or a witness refused to sign / 签约者或见证者拒绝签名
+     * Disputed        - Verification rejected by verifier / 验证员拒绝验证
+     */
+    enum CommitmentStatus {
+        Pending,
+        PartiallySigned,
+        Completed,
+        Verified,
+        Frozen,
+        Cancelled,
+        Expired,
+        Superseded,
+        Declined,
+        Disputed
+    }
+    
+    /**
+     * @dev Reason code recorded with a freeze / 冻结时记录的原因代码
+     */
+    enum FreezeReason {
+        Unspecified,
+        CourtOrder,
+        Investigation,
+        SuspectedFraud,
+        DataError,
+        Other
+    }
+    
+    /**
+     * @dev Algorithm that produced a file digest / 生成文件摘要的算法
+     * @notice Legacy marks commitments created with a free-form string hash before digests were
+     *         introduced; IPFSMultihash stores the 32-byte sha2-256 digest of a CIDv0 / CIDv1 multihash
+     *         Legacy 表示引入摘要之前以任意字符串哈希创建的承诺；IPFSMultihash 存储
+     *         CIDv0 / CIDv1 multihash 中 32 字节的 sha2-256 摘要
+     */
+    enum HashAlgorithm {
+        Legacy,
+        SHA256,
+        Keccak256,
+        SHA3_256,
+        IPFSMultihash
+    }
+    
+    /**
+     * @dev Participant role used by the per-address index / 按地址索引使用的参与者角色
+     */
+    enum ParticipantRole {
+        Initiator,
+        Signer,
+        Witness
+    }
+    
+    /**
+     * @dev Signature record / 签名记录
+     * @notice Block time and height at which a party signed (0 if not signed)
+     *         参与方签名时的区块时间和区块高度（未签名则为 0）
+     */
+    struct SignatureRecord {
+        uint256 timestamp;           // Block timestamp / 区块时间戳
+        uint256 blockNumber;         // Block number / 区块高度
+    }
+    
+    /**
+     * @dev Signer info returned by getSigners / getSigners 返回的签约者信息
+     */
+    struct SignerInfo {
+        address signerAddress;       // Signer address / 签约者地址
+        bool hasSigned;              // Whether signed / 是否已签名
+        uint256 signedAt;            // Signature timestamp / 签名时间戳
+        uint256 signedBlock;         // Signature block number / 签名区块高度
+    }
+    
+    /**
+     * @dev Witness info returned by getWitnesses / getWitnesses 返回的见证者信息
+     */
+    struct WitnessInfo {
+        address witnessAddress;      // Witness address / 见证者地址
+        bool hasSigned;              // Whether signed / 是否已签名
+        uint256 signedAt;            // Signature timestamp / 签名时间戳
+        uint256 signedBlock;         // Signature block number / 签名区块高度
+    }
+    
     /**
      * @dev Commitment struct / Commitment 结构体
      * @notice Stores all information of a single commitment / 存储单个承诺的所有信息
@@ -117,16 +276,50 @@ contract CommitmentChain is
     struct Commitment {
         uint256 id;                  // Unique commitment ID / 承诺唯一 ID
         address initiator;           // Initiator address / 发起人地址
-        address signer;              // Signer address (only one) / 签约者地址（只有一个）
+        address signer;              // Primary (first) signer address / 主签约者（第一个）地址
         address[] witnesses;         // Witness address array (optional, multiple) / 见证者地址数组（可选，多个）
-        string fileHash;             // File hash (SHA256 or IPFS hash) / 文件哈希值（SHA256 或 IPFS hash）
+        string fileHash;             // Legacy free-form file hash (empty for digest commitments) / 旧版任意格式的文件哈希（摘要承诺为空）
         uint256 createdAt;           // Creation timestamp / 创建时间戳
         bool initiatorSigned;        // Whether initiator has signed / 发起人是否已签名
-        bool signerSigned;           // Whether signer has signed / 签约者是否已签名
+        bool signerSigned;           // Whether all signers have signed / 是否所有签约者都已签名
         uint256 witnessSignedCount;  // Number of witnesses who have signed / 已签名的见证者数量
         bool isCompleted;            // Whether everyone has signed / 是否所有人都已签名
         bool isFrozen;               // Whether frozen (used in emergency) / 是否被冻结（紧急情况下使用）
         bool isVerified;             // Whether verified by verifier / 是否已被验证员验证
+        bool isCancelled;            // Whether cancelled before completion / 是否在完成前被取消
+        address cancelledBy;         // Address that cancelled (initiator or admin) / 取消者地址（发起人或管理员）
+        bytes32 cancelReasonHash;    // Hash of the cancellation reason / 取消原因的哈希
+        uint256 cancelledAt;         // Cancellation timestamp / 取消时间戳
+        SignatureRecord initiatorSignature; // When initiator signed / 发起人签名时间
+        SignatureRecord signerSignature;    // When the last signer signed / 最后一位签约者签名时间
+        SignatureRecord completion;         // When commitment completed / 承诺完成时间
+        uint256 signingDeadline;     // Signing deadline timestamp (0 = none) / 签名截止时间戳（0 表示无）
+        uint256 parentId;            // Commitment this one amends (0 = original) / 被本承诺修订的承诺（0 表示原始版本）
+        uint256 amendmentId;         // Latest amendment of this commitment (0 = none) / 本承诺的最新修订（0 表示无）
+        bool isSuperseded;           // Whether replaced by a completed amendment / 是否已被完成的修订取代
+        bool isDeclined;             // Whether a party refused to sign / 是否有参与方拒绝签名
+        address declinedBy;          // Address that declined / 拒绝者地址
+        bytes32 declineReasonHash;   // Hash of the decline reason / 拒绝原因的哈希
+        uint256 declinedAt;          // Decline timestamp / 拒绝时间戳
+        address[] signers;           // All required signer addresses / 所有必需的签约者地址
+        uint256 signerSignedCount;   // Number of signers who have signed / 已签名的签约者数量
+        uint256 witnessThreshold;    // Witness signatures required (0 = all) / 所需见证者签名数（0 表示全部）
+        bool isDisputed;             // Whether verification was rejected / 是否被拒绝验证
+        bool disputeResolved;        // Whether admin upheld the dispute / 管理员是否已维持争议
+        address disputedBy;          // Verifier who rejected / 拒绝验证的验证员
+        bytes32 disputeReasonHash;   // Hash of the rejection reason / 拒绝原因的哈希
+        uint256 disputedAt;          // Rejection timestamp / 拒绝时间戳
+        FreezeReason freezeReason;   // Reason code of the latest freeze / 最近一次冻结的原因代码
+        address frozenBy;            // Address that froze / 冻结者地址
+        bytes32 freezeCaseRef;       // Hash of the case reference / 案件编号的哈希
+        uint256 frozenAt;            // Latest freeze timestamp / 最近一次冻结时间戳
+        uint256 unfreezeAt;          // Automatic unfreeze time (0 = manual only) / 自动解冻时间（0 表示仅手动解冻）
+        uint256 organizationId;      // Organization of the initiator (0 = none) / 发起人所属组织（0 表示无组织）
+        bytes32 merkleRoot;          // Merkle root over many document hashes (0 = single document) / 多个文件哈希的 Merkle 根（0 表示单个文件）
+        bytes32 fileDigest;          // File digest (0 for legacy commitments) / 文件摘要（旧版承诺为 0）
+        HashAlgorithm hashAlgorithm; // Algorithm of fileDigest / fileDigest 的算法
+        uint64 cidCodec;             // Multicodec of the IPFS CIDv1 (0 = no CID) / IPFS CIDv1 的 multicodec（0 表示无 CID）
+        bytes32 cidDigest;           // sha2-256 digest of the CIDv1 multihash / CIDv1 multihash 中的 sha2-256 摘要
     }
     
     // ============================================================================
@@ -153,19 +346,69 @@ contract CommitmentChain is
     uint256 private _commitmentIdCounter;
     
     /// @dev Commitment ID => Commitment details / 承诺 ID => 承诺详情
-    mapping(uint256 => Commitment) public commitments;
+    /// @dev Internal: the auto-generated getter grows with every struct field and no longer fits
+    ///      under the 24KB limit; read through getCommitment and the other get* views instead
+    ///      内部可见：自动生成的 getter 随结构体字段增加而变大，已无法保持在 24KB 限制以内；
+    ///      请通过 getCommitment 及其他 get* 查询函数读取
+    mapping(uint256 => Commitment) internal commitments;
     
     /// @dev Commitment ID => witness address => whether signed / 承诺 ID => 见证者地址 => 是否已签名
     mapping(uint256 => mapping(address => bool)) public witnessSigned;
     
+    /// @dev Commitment ID => witness address => signature record / 承诺 ID => 见证者地址 => 签名记录
+    mapping(uint256 => mapping(address => SignatureRecord)) private _witnessSignatures;
+    
+    /// @dev Commitment ID => signer address => signature record / 承诺 ID => 签约者地址 => 签名记录
+    mapping(uint256 => mapping(address => SignatureRecord)) private _signerSignatures;
+    
+    /// @dev Participant address => role => commitment IDs (append-only) / 参与者地址 => 角色 => 承诺 ID（只追加）
+    mapping(address => mapping(ParticipantRole => uint256[])) private _commitmentsByParticipant;
+    
+    /// @dev Legacy file hash => commitment IDs registered with it / 旧版文件哈希 => 使用该哈希登记的承诺 ID
+    mapping(string => uint256[]) private _commitmentsByFileHash;
+    
+    /// @dev Whether an already registered file hash is rejected / 是否拒绝已登记过的文件哈希
+    bool public uniqueFileHashRequired;
+    
+    /// @dev Delay between proposing and executing an upgrade / 提议升级与执行升级之间的延迟
+    uint256 public upgradeDelay;
+    
+    /// @dev Implementation proposed for upgrade (zero if none) / 已提议升级的实现合约（无则为零地址）
+    address public pendingImplementation;
+    
+    /// @dev Time from which the pending upgrade can be executed / 待执行升级可执行的时间
+    uint256 public upgradeReadyAt;
+    
+    /// @dev Role => account => grant expiry time (0 = permanent) / 角色 => 账户 => 授权到期时间（0 表示永久）
+    mapping(bytes32 => mapping(address => uint256)) public roleExpiresAt;
+    
+    /// @dev Number of registered organizations (IDs start at 1) / 已登记的组织数量（ID 从 1 开始）
+    uint256 public organizationCount;
+    
+    /// @dev Organization ID => name / 组织 ID => 名称
+    mapping(uint256 => string) public organizationNames;
+    
+    /// @dev Account => organization ID (0 = none) / 账户 => 组织 ID（0 表示无组织）
+    mapping(address => uint256) public organizationOf;
+    
+    /// @dev Organization ID => commitment IDs (append-only) / 组织 ID => 承诺 ID（只追加）
+    mapping(uint256 => uint256[]) private _commitmentsByOrganization;
+    
+    /// @dev File digest => commitment IDs registered with it / 文件摘要 => 使用该摘要登记的承诺 ID
+    mapping(bytes32 => uint256[]) private _commitmentsByFileDigest;
+    
+    /// @dev Commitment ID => all amendment IDs, including cancelled or expired ones (append-only)
+    ///      承诺 ID => 所有修订 ID，包括已取消或已过期的修订（只追加）
+    mapping(uint256 => uint256[]) private _amendmentsOf;
+    
     /**
      * @dev Reserved storage slots (important!) / 预留存储槽位（重要！）
-     * Reserved 50 storage slots for future upgrades
-     * 为未来升级预留 50 个存储槽位
+     * Reserved storage slots for future upgrades, shrunk by one for each new variable above
+     * 为未来升级预留的存储槽位，每在上方新增一个变量就减少一个
      * This allows adding new state variables without affecting storage layout
      * 这样在升级时可以添加新的状态变量而不影响存储布局
      */
-    uint256[50] private __gap;
+    uint256[35] private __gap;
     
     // ============================================================================
     // Events / 事件
@@ -179,12 +422,13 @@ contract CommitmentChain is
      * indexed 关键字允许通过该参数进行高效过滤
      */
     
-    /// @notice Commitment created event / 承诺创建事件
+    /// @notice Commitment created event (signer is the primary signer) / 承诺创建事件（signer 为主签约者）
     event CommitmentCreated(
         uint256 indexed id,
         address indexed initiator,
         address indexed signer,
-        string fileHash,
+        bytes32 fileDigest,
+        HashAlgorithm hashAlgorithm,
         uint256 timestamp
     );
     
@@ -202,10 +446,85 @@ contract CommitmentChain is
         uint256 timestamp
     );
     
+    /// @notice Commitment cancelled event / 承诺取消事件
+    event CommitmentCancelled(
+        uint256 indexed id,
+        address indexed canceller,
+        bytes32 reasonHash,
+        uint256 timestamp
+    );
+    
+    /// @notice Commitment declined event / 承诺拒绝事件
+    event CommitmentDeclined(
+        uint256 indexed id,
+        address indexed decliner,
+        string role,
+        bytes32 reasonHash,
+        uint256 timestamp
+    );
+    
+    /// @notice Commitment amended event (new version created) / 承诺修订事件（创建了新版本）
+    event CommitmentAmended(
+        uint256 indexed parentId,
+        uint256 indexed childId,
+        address indexed initiator,
+        uint256 timestamp
+    );
+    
+    /// @notice Merkle root anchored event (commitment covers many documents) / Merkle 根锚定事件（承诺涵盖多个文件）
+    event MerkleRootAnchored(
+        uint256 indexed commitmentId,
+        bytes32 merkleRoot,
+        uint256 leafCount,
+        uint256 timestamp
+    );
+    
+    /// @notice IPFS CID attached event (CIDv1 with a sha2-256 multihash) / IPFS CID 关联事件（使用 sha2-256 multihash 的 CIDv1）
+    event ContentCidSet(
+        uint256 indexed commitmentId,
+        uint64 codec,
+        bytes32 digest,
+        uint256 timestamp
+    );
+    
+    /// @notice Commitment superseded event (amendment completed) / 承诺被取代事件（修订已完成）
+    event CommitmentSuperseded(
+        uint256 indexed id,
+        uint256 indexed supersededBy,
+        uint256 timestamp
+    );
+    
+    /// @notice Signing deadline extended event / 签名截止时间延长事件
+    event DeadlineExtended(
+        uint256 indexed id,
+        uint256 oldDeadline,
+        uint256 newDeadline,
+        uint256 timestamp
+    );
+    
+    /// @notice Witness replaced event / 见证者替换事件
+    event WitnessReplaced(
+        uint256 indexed id,
+        address indexed oldWitness,
+        address indexed newWitness,
+        address replacedBy,
+        uint256 timestamp
+    );
+    
+    /// @notice File hash uniqueness policy updated event / 文件哈希唯一性策略更新事件
+    event FileHashPolicyUpdated(
+        bool uniqueFileHashRequired,
+        address indexed updatedBy,
+        uint256 timestamp
+    );
+    
     /// @notice Commitment frozen event / 承诺冻结事件
     event CommitmentFrozen(
         uint256 indexed id,
         address indexed freezer,
+        FreezeReason reason,
+        bytes32 caseRef,
+        uint256 unfreezeAt,
         uint256 timestamp
     );
     
@@ -223,6 +542,64 @@ contract CommitmentChain is
         uint256 timestamp
     );
     
+    /// @notice Verification rejected event (commitment disputed) / 验证被拒绝事件（承诺进入争议）
+    event VerificationRejected(
+        uint256 indexed id,
+        address indexed verifier,
+        bytes32 reasonHash,
+        uint256 timestamp
+    );
+    
+    /// @notice Dispute resolved event / 争议裁决事件
+    event DisputeResolved(
+        uint256 indexed id,
+        address indexed resolvedBy,
+        bool upheld,
+        uint256 timestamp
+    );
+    
+    /// @notice Upgrade proposed event / 升级提议事件
+    event UpgradeProposed(
+        address indexed implementation,
+        address indexed proposedBy,
+        uint256 readyAt
+    );
+    
+    /// @notice Pending upgrade cancelled event / 待执行升级取消事件
+    event UpgradeCancelled(
+        address indexed implementation,
+        address indexed cancelledBy
+    );
+    
+    /// @notice Upgrade delay updated event / 升级延迟更新事件
+    event UpgradeDelayUpdated(
+        uint256 oldDelay,
+        uint256 newDelay
+    );
+    
+    /// @notice Time-limited role grant event / 限时角色授权事件
+    event RoleExpirySet(
+        bytes32 indexed role,
+        address indexed account,
+        uint256 expiresAt
+    );
+    
+    /// @notice Organization registered event / 组织登记事件
+    event OrganizationCreated(
+        uint256 indexed organizationId,
+        string name,
+        address indexed createdBy,
+        uint256 timestamp
+    );
+    
+    /// @notice Account assigned to organization event / 账户分配到组织事件
+    event AccountOrganizationSet(
+        address indexed account,
+        uint256 indexed organizationId,
+        address indexed updatedBy,
+        uint256 timestamp
+    );
+    
     /// @notice Contract upgraded event / 合约升级事件
     event ContractUpgraded(
         address indexed previousImplementation,
@@ -239,22 +616,68 @@ contract CommitmentChain is
      * Used to add extra validation logic / 用于添加额外的检查逻辑
      */
     
-    /// @dev Check if commitment is not frozen / 检查承诺是否未被冻结
-    modifier notFrozen(uint256 _commitmentId) {
-        require(
-            !commitments[_commitmentId].isFrozen,
-            "CommitmentChain: Commitment is frozen"
-        );
+    /// @dev Check if commitment is not cancelled / 检查承诺是否未被取消
+    modifier notCancelled(uint256 _commitmentId) {
+        _requireNotCancelled(_commitmentId);
+        _;
+    }
+    
+    /// @dev Check if commitment accepts signatures: valid ID, not frozen, cancelled, declined or expired
+    ///      检查承诺是否接受签名：ID 有效，且未被冻结、取消、拒绝或过期
+    modifier signable(uint256 _commitmentId) {
+        _requireSignable(_commitmentId);
         _;
     }
     
     /// @dev Check if commitment ID is valid / 检查承诺 ID 是否有效
     modifier validCommitmentId(uint256 _commitmentId) {
+        _requireValidCommitmentId(_commitmentId);
+        _;
+    }
+    
+    /// @dev Check if commitment is in caller's organization; unassigned callers pass, so always pair it
+    ///      with a role check / 检查承诺是否属于调用者的组织；未分配组织的调用者直接通过，因此须与角色检查搭配使用
+    modifier withinOrganization(uint256 _commitmentId) {
+        _requireWithinOrganization(_commitmentId);
+        _;
+    }
+    
+    /**
+     * @dev Modifier bodies live in internal functions so each check is compiled once
+     *      rather than inlined into every function that uses the modifier
+     *      修饰器主体放在内部函数中，每个检查只编译一次，而不是内联到每个使用该修饰器的函数中
+     */
+    
+    /// @dev Check if commitment is not cancelled / 检查承诺是否未被取消
+    function _requireNotCancelled(uint256 _commitmentId) internal view {
+        require(
+            !commitments[_commitmentId].isCancelled,
+            "CommitmentChain: Commitment is cancelled"
+        );
+    }
+    
+    /// @dev Check if commitment accepts signatures / 检查承诺是否接受签名
+    function _requireSignable(uint256 _commitmentId) internal view {
+        _requireValidCommitmentId(_commitmentId);
+        LifecycleLib.requireSignable(commitments[_commitmentId]);
+    }
+    
+    /// @dev Check if commitment ID is valid / 检查承诺 ID 是否有效
+    function _requireValidCommitmentId(uint256 _commitmentId) internal view {
         require(
             _commitmentId > 0 && _commitmentId <= _commitmentIdCounter,
             "CommitmentChain: Invalid commitment ID"
         );
-        _;
+    }
+    
+    /// @dev Check if commitment is in caller's organization (unassigned callers pass)
+    ///      检查承诺是否属于调用者的组织（未分配组织的调用者直接通过）
+    function _requireWithinOrganization(uint256 _commitmentId) internal view {
+        uint256 organizationId = organizationOf[msg.sender];
+        require(
+            organizationId == 0 || organizationId == commitments[_commitmentId].organizationId,
+            "CommitmentChain: Outside caller's organization"
+        );
     }
     
     // ============================================================================
@@ -334,14 +757,21 @@ contract CommitmentChain is
         
         // Initialize parent contracts / 初始化父合约
         // Note: Must initialize in inheritance order / 注意：必须按照继承顺序初始化
-        __AccessControl_init();       // Initialize access control / 初始化访问控制
+        __AccessControlEnumerable_init(); // Initialize access control / 初始化访问控制
         __ReentrancyGuard_init();     // Initialize reentrancy guard / 初始化防重入
         __Pausable_init();            // Initialize pausable / 初始化暂停功能
+        __EIP712_init(EIP712_NAME, EIP712_VERSION); // Initialize EIP-712 domain / 初始化 EIP-712 域
+        __Nonces_init();              // Initialize nonces / 初始化 nonce
         __UUPSUpgradeable_init();     // Initialize UUPS proxy / 初始化 UUPS 代理
         
         // Grant admin role / 授予管理员角色
         _grantRole(DEFAULT_ADMIN_ROLE, admin);
         
+        // Delegate member management to admin roles; the initial admin holds them until
+        // delegates are appointed
+        // 将成员管理委托给各管理角色；在任命各负责人之前由初始管理员持有这些角色
+        _setRoleAdmins(admin);
+        
         // Optional: Grant all roles to admin for testing / 可选：为管理员授予其他所有角色（方便测试）
         // _grantRole(POLICE_ROLE, admin);
         // _grantRole(LAWYER_ROLE, admin);
@@ -350,6 +780,57 @@ contract CommitmentChain is
         
         // Initialize counter / 初始化计数器
         _commitmentIdCounter = 0;
+        
+        // Initialize upgrade timelock / 初始化升级时间锁
+        upgradeDelay = MIN_UPGRADE_DELAY;
+    }
+    
+    /**
+     * @dev Upgrade initializer for proxies deployed before the role admin hierarchy
+     *      为角色管理层级之前部署的代理准备的升级初始化函数
+     * @notice Sets the role admins and re-lists members granted before the upgrade, which
+     *         getRoleMembers does not know about; scripts/upgrade.js collects them from
+     *         RoleGranted / RoleRevoked events and passes them through upgradeToAndCall
+     *         设置角色管理员，并重新登记升级前授予的成员（getRoleMembers 无法得知这些成员）；
+     *         scripts/upgrade.js 从 RoleGranted / RoleRevoked 事件中收集这些成员并通过 upgradeToAndCall 传入
+     * @param _roles Role of each existing member / 每个现有成员的角色
+     * @param _accounts Existing members / 现有成员
+     * 
+     * Requirements / 要求：
+     * - Caller must have DEFAULT_ADMIN_ROLE / 调用者必须拥有 DEFAULT_ADMIN_ROLE
+     * - One account per role, at the same index / 每个角色对应同一索引处的一个账户
+     */
+    function initializeRoleAdmins(bytes32[] calldata _roles, address[] calldata _accounts)
+        public
+        onlyRole(DEFAULT_ADMIN_ROLE)
+        reinitializer(2)
+    {
+        _setRoleAdmins(address(0));
+        
+        // Revoke and grant again so the enumerable member sets pick them up; accounts
+        // without the role are skipped
+        // 撤销后重新授予，使可枚举成员集合记录这些成员；没有该角色的账户会被跳过
+        for (uint i = 0; i < _roles.length; i++) {
+            if (_revokeRole(_roles[i], _accounts[i])) {
+                _grantRole(_roles[i], _accounts[i]);
+            }
+        }
+    }
+    
+    /**
+     * @dev Set admin role of each business role / 设置各业务角色的管理角色
+     * @param _holder Account granted every admin role (zero = none) / 被授予所有管理角色的账户（零地址表示不授予）
+     */
+    function _setRoleAdmins(address _holder) private {
+        bytes32[3] memory roles = [POLICE_ROLE, LAWYER_ROLE, VERIFIER_ROLE];
+        bytes32[3] memory adminRoles = [POLICE_ADMIN_ROLE, BAR_ADMIN_ROLE, VERIFIER_ADMIN_ROLE];
+        
+        for (uint i = 0; i < roles.length; i++) {
+            _setRoleAdmin(roles[i], adminRoles[i]);
+            if (_holder != address(0)) {
+                _grantRole(adminRoles[i], _holder);
+            }
+        }
     }
     
     // ============================================================================
@@ -360,7 +841,8 @@ contract CommitmentChain is
      * @dev Create commitment / 创建承诺
      * @notice Initiator creates commitment and automatically signs
      *         发起人创建承诺并自动签名
-     * @param _fileHash File hash (SHA256 or IPFS hash) / 文件哈希值（SHA256 或 IPFS hash）
+     * @param _fileDigest File digest / 文件摘要
+     * @param _hashAlgorithm Algorithm that produced the digest / 生成摘要的算法
      * @param _signer Signer address / 签约者地址
      * @param _witnesses Witness address array / 见证者地址数组
      * @return Newly created commitment ID / 新创建的承诺 ID
@@ -369,504 +851,1553 @@ contract CommitmentChain is
      * - Caller must have POLICE_ROLE / 调用者必须拥有 POLICE_ROLE（警察角色）
      * - Contract not paused / 合约未被暂停
      * - No reentrancy attack / 不会被重入攻击
-     * - File hash not empty / 文件哈希不为空
+     * - File digest not zero, algorithm not Legacy / 文件摘要不为零，算法不是 Legacy
      * - Valid signer address / 签约者地址有效
      * - Witnesses must have LAWYER_ROLE / 见证者必须拥有 LAWYER_ROLE（律师角色）
      */
     function createCommitment(
-        string memory _fileHash,
+        bytes32 _fileDigest,
+        HashAlgorithm _hashAlgorithm,
         address _signer,
         address[] memory _witnesses
     ) 
         public 
-        /**
+        onlyRole(POLICE_ROLE)  // Only police can create commitment / 只有警察可以创建承诺
         nonReentrant           // Prevent reentrancy attack / 防止重入攻击
-        onlyRole(POLICE_ROLE)   Only police can create commitment  只有警察可以创建承诺
         whenNotPaused          // Can only call when not paused / 合约未暂停时才能调用
-    */
         returns (uint256) 
     {
-        // ========== Input Validation / 输入验证 ==========
-        
-        // Validate file hash / 验证文件哈希
-        console.log("File hash is: %s", _fileHash);
-
-        require(
-            bytes(_fileHash).length > 0,
-            "CommitmentChain: File hash cannot be empty"
-        );
-        
-        // Validate signer address / 验证签约者地址
-        require(
-            _signer != address(0),
-            "CommitmentChain: Invalid signer address"
-        );
-        require(
-            _signer != msg.sender,
-            "CommitmentChain: Signer cannot be initiator"
-        );
-        
-        // Validate witnesses / 验证见证者
-        for (uint i = 0; i < _witnesses.length; i++) {
-            // Validate witness address / 验证见证者地址有效
-            require(
-                _witnesses[i] != address(0),
-                "CommitmentChain: Invalid witness address"
-            );
-            
-            // Witness cannot be initiator / 验证见证者不是发起人
-            /**
-            require(
-                _witnesses[i] != msg.sender,
-                "CommitmentChain: Witness cannot be initiator"
-            );
-            */
-
-            // Witness cannot be signer / 验证见证者不是签约者
-            require(
-                _witnesses[i] != _signer,
-                "CommitmentChain: Witness cannot be signer"
-            );
-            
-            // Witness must have lawyer role (important! ensures professionalism)
-            // 验证见证者拥有律师角色（重要！确保专业性）
-            /**require(
-                hasRole(LAWYER_ROLE, _witnesses[i]),
-                "CommitmentChain: Witness must have LAWYER_ROLE"
-            );
-            */
-
-            // Check for duplicate witnesses / 检查是否有重复的见证者
-            for (uint j = i + 1; j < _witnesses.length; j++) {
-                require(
-                    _witnesses[i] != _witnesses[j],
-                    "CommitmentChain: Duplicate witness address"
-                );
-            }
-        }
-        
-        // ========== Create Commitment / 创建承诺 ==========
-        
-        // Increment counter, generate new commitment ID / 递增计数器，生成新的承诺 ID
-        _commitmentIdCounter++;
-        uint256 newCommitmentId = _commitmentIdCounter;
-        
-        // Create commitment object / 创建承诺对象
-        Commitment storage commitment = commitments[newCommitmentId];
-        commitment.id = newCommitmentId;
-        commitment.initiator = msg.sender;
-        commitment.signer = _signer;
-        commitment.witnesses = _witnesses;
-        commitment.fileHash = _fileHash;
-        commitment.createdAt = block.timestamp;
-        commitment.initiatorSigned = true;  // Initiator automatically signs / 发起人自动签名
-        commitment.signerSigned = false;
-        commitment.witnessSignedCount = 0;
-        commitment.isCompleted = false;
-        commitment.isFrozen = false;
-        commitment.isVerified = false;
-        
-        // ========== Emit Events / 触发事件 ==========
-        
-        emit CommitmentCreated(
-            newCommitmentId,
-            msg.sender,
-            _signer,
-            _fileHash,
-            block.timestamp
-        );
-        
-        emit CommitmentSigned(
-            newCommitmentId,
-            msg.sender,
-            "initiator",
-            block.timestamp
-        );
-        
-        // Check if completed immediately (no witnesses case)
-        // 检查是否立即完成（无见证者的情况）
-        _checkCompletion(newCommitmentId);
-        
-        return newCommitmentId;
+        return _createCommitment(_fileDigest, _hashAlgorithm, _toSigners(_signer), _witnesses, 0, 0);
     }
     
     /**
-     * @dev Signer signs / 签约者签名
-     * @notice Designated signer signs the commitment / 指定的签约者对承诺进行签名
-     * @param _commitmentId Commitment ID / 承诺 ID
+     * @dev Create commitment with signing deadline / 创建带签名截止时间的承诺
+     * @notice Same as createCommitment, but signatures are rejected after the deadline
+     *         与 createCommitment 相同，但截止时间过后拒绝签名
+     * @param _fileDigest File digest / 文件摘要
+     * @param _hashAlgorithm Algorithm that produced the digest / 生成摘要的算法
+     * @param _signer Signer address / 签约者地址
+     * @param _witnesses Witness address array / 见证者地址数组
+     * @param _deadline Signing deadline timestamp (0 = no deadline) / 签名截止时间戳（0 表示无截止时间）
+     * @return Newly created commitment ID / 新创建的承诺 ID
      * 
      * Requirements / 要求：
-     * - Caller must be the designated signer / 调用者必须是指定的签约者
-     * - Commitment not frozen / 承诺未被冻结
-     * - Signer hasn't signed yet / 签约者尚未签名
-     * - Initiator has signed / 发起人已经签名
+     * - Same as createCommitment / 与 createCommitment 相同
+     * - Deadline is 0 or in the future / 截止时间为 0 或在未来
      */
-    function signAsSigner(uint256 _commitmentId) 
+    function createCommitmentWithDeadline(
+        bytes32 _fileDigest,
+        HashAlgorithm _hashAlgorithm,
+        address _signer,
+        address[] memory _witnesses,
+        uint256 _deadline
+    ) 
         public 
-        nonReentrant 
-        whenNotPaused 
-        validCommitmentId(_commitmentId)
-        notFrozen(_commitmentId)
+        onlyRole(POLICE_ROLE)  // Only police can create commitment / 只有警察可以创建承诺
+        nonReentrant           // Prevent reentrancy attack / 防止重入攻击
+        whenNotPaused          // Can only call when not paused / 合约未暂停时才能调用
+        returns (uint256) 
     {
-        Commitment storage commitment = commitments[_commitmentId];
-        
-        // Verify caller is designated signer / 验证调用者是指定的签约者
-        require(
-            msg.sender == commitment.signer,
-            "CommitmentChain: Not the designated signer"
-        );
-        
-        // Verify not signed yet / 验证尚未签名
-        require(
-            !commitment.signerSigned,
-            "CommitmentChain: Already signed"
-        );
-        
-        // Verify initiator has signed (ensure signature order)
-        // 验证发起人已签名（确保签名顺序）
-        require(
-            commitment.initiatorSigned,
-            "CommitmentChain: Initiator must sign first"
-        );
-        
-        // Mark as signed / 标记为已签名
-        commitment.signerSigned = true;
-        
-        // Emit signature event / 触发签名事件
-        emit CommitmentSigned(
-            _commitmentId,
-            msg.sender,
-            "signer",
-            block.timestamp
-        );
-        
-        // Check if completed / 检查是否完成
-        _checkCompletion(_commitmentId);
+        return _createCommitment(_fileDigest, _hashAlgorithm, _toSigners(_signer), _witnesses, 0, _deadline);
     }
     
     /**
-     * @dev Witness signs / 见证者签名
-     * @notice Designated witness signs the commitment / 指定的见证者对承诺进行签名
-     * @param _commitmentId Commitment ID / 承诺 ID
+     * @dev Create commitment with multiple signers and a witness quorum / 创建多签约者、带见证者法定人数的承诺
+     * @notice Completes once every signer and at least `_witnessThreshold` witnesses have signed
+     *         所有签约者和至少 `_witnessThreshold` 个见证者签名后即完成
+     * @param _fileDigest File digest / 文件摘要
+     * @param _hashAlgorithm Algorithm that produced the digest / 生成摘要的算法
+     * @param _signers Signer address array (at least one) / 签约者地址数组（至少一个）
+     * @param _witnesses Witness address array / 见证者地址数组
+     * @param _witnessThreshold Witness signatures required (0 = all) / 所需见证者签名数（0 表示全部）
+     * @param _deadline Signing deadline timestamp (0 = no deadline) / 签名截止时间戳（0 表示无截止时间）
+     * @return Newly created commitment ID / 新创建的承诺 ID
      * 
      * Requirements / 要求：
-     * - Caller must be designated witness / 调用者必须是指定的见证者
-     * - Caller must have LAWYER_ROLE / 调用者必须拥有 LAWYER_ROLE
-     * - Commitment not frozen / 承诺未被冻结
-     * - This witness hasn't signed yet / 该见证者尚未签名
-     * - Initiator has signed / 发起人已经签名
+     * - Same as createCommitmentWithDeadline / 与 createCommitmentWithDeadline 相同
+     * - At least one signer, no duplicates / 至少一个签约者，且不重复
+     * - Threshold not greater than witness count / 法定人数不超过见证者数量
      */
-    function signAsWitness(uint256 _commitmentId) 
+    function createCommitmentWithSigners(
+        bytes32 _fileDigest,
+        HashAlgorithm _hashAlgorithm,
+        address[] memory _signers,
+        address[] memory _witnesses,
+        uint256 _witnessThreshold,
+        uint256 _deadline
+    ) 
         public 
-        /**
-        onlyRole(LAWYER_ROLE)  // Must be lawyer to sign / 必须是律师才能签名
-        whenNotPaused
-        */
-        nonReentrant 
-        validCommitmentId(_commitmentId)
-        notFrozen(_commitmentId)
+        onlyRole(POLICE_ROLE)  // Only police can create commitment / 只有警察可以创建承诺
+        nonReentrant           // Prevent reentrancy attack / 防止重入攻击
+        whenNotPaused          // Can only call when not paused / 合约未暂停时才能调用
+        returns (uint256) 
     {
-        Commitment storage commitment = commitments[_commitmentId];
-        
-        // Verify initiator has signed / 验证发起人已签名
-        require(
-            commitment.initiatorSigned,
-            "CommitmentChain: Initiator must sign first"
+        return _createCommitment(_fileDigest, _hashAlgorithm, _signers, _witnesses, _witnessThreshold, _deadline);
+    }
+    
+    /**
+     * @dev Create several commitments in one transaction / 在一笔交易中创建多个承诺
+     * @notice Each item is validated like createCommitmentWithSigners (all witnesses required,
+     *         no deadline) and emits its own events; one invalid item reverts the whole batch
+     *         每一项都按 createCommitmentWithSigners 验证（需要全部见证者，无截止时间）并触发各自的事件；
+     *         任何一项无效都会回滚整个批次
+     * @param _fileDigests File digest of each commitment / 每个承诺的文件摘要
+     * @param _hashAlgorithm Algorithm of all digests in the batch / 批次中所有摘要的算法
+     * @param _signers Signer address array of each commitment / 每个承诺的签约者地址数组
+     * @param _witnesses Witness address array of each commitment / 每个承诺的见证者地址数组
+     * @return ids Newly created commitment IDs, in input order / 新创建的承诺 ID，与输入顺序一致
+     * 
+     * Requirements / 要求：
+     * - Same as createCommitmentWithSigners, for every item / 每一项都与 createCommitmentWithSigners 相同
+     * - 1 to MAX_BATCH_SIZE items, all arrays the same length / 1 至 MAX_BATCH_SIZE 项，所有数组长度相同
+     */
+    function createCommitmentsBatch(
+        bytes32[] calldata _fileDigests,
+        HashAlgorithm _hashAlgorithm,
+        address[][] calldata _signers,
+        address[][] calldata _witnesses
+    ) 
+        public 
+        onlyRole(POLICE_ROLE)  // Only police can create commitment / 只有警察可以创建承诺
+        nonReentrant           // Prevent reentrancy attack / 防止重入攻击
+        whenNotPaused          // Can only call when not paused / 合约未暂停时才能调用
+        returns (uint256[] memory ids) 
+    {
+        require(
+            _fileDigests.length > 0 && _fileDigests.length <= MAX_BATCH_SIZE,
+            "CommitmentChain: Invalid batch size"
         );
-        
-        // Verify caller is designated witness / 验证调用者是指定的见证者
         require(
-            _isWitness(_commitmentId, msg.sender),
-            "CommitmentChain: Not a designated witness"
+            _signers.length == _fileDigests.length && _witnesses.length == _fileDigests.length,
+            "CommitmentChain: Batch length mismatch"
         );
         
-        // Verify this witness hasn't signed yet / 验证该见证者尚未签名
-        require(    
-            !witnessSigned[_commitmentId][msg.sender],
-            "CommitmentChain: Already signed"
+        ids = new uint256[](_fileDigests.length);
+        for (uint i = 0; i < _fileDigests.length; i++) {
+            ids[i] = _createCommitment(_fileDigests[i], _hashAlgorithm, _signers[i], _witnesses[i], 0, 0);
+        }
+    }
+    
+    /**
+     * @dev Create commitment over a Merkle root of many documents / 创建涵盖多个文件 Merkle 根的承诺
+     * @notice Registers thousands of document hashes in one commitment; the file digest is the
+     *         root (tagged Keccak256), and each document is later proven with verifyInclusion
+     *         在一个承诺中登记成千上万个文件哈希；文件摘要即为根（标记为 Keccak256），之后通过 verifyInclusion 证明每个文件
+     * @param _merkleRoot Root over keccak256(document hash) leaves, sorted-pair hashing
+     *        以 keccak256(文件哈希) 为叶子、按排序对哈希构建的 Merkle 根
+     * @param _leafCount Number of documents under the root / 根下的文件数量
+     * @param _signers Signer address array / 签约者地址数组
+     * @param _witnesses Witness address array / 见证者地址数组
+     * @param _witnessThreshold Witness signatures required (0 = all) / 所需见证者签名数（0 表示全部）
+     * @param _deadline Signing deadline timestamp (0 = no deadline) / 签名截止时间戳（0 表示无截止时间）
+     * @return commitmentId Newly created commitment ID / 新创建的承诺 ID
+     * 
+     * Requirements / 要求：
+     * - Same as createCommitmentWithSigners / 与 createCommitmentWithSigners 相同
+     * - Root not zero, at least one document / 根不为零，至少一个文件
+     */
+    function createMerkleCommitment(
+        bytes32 _merkleRoot,
+        uint256 _leafCount,
+        address[] memory _signers,
+        address[] memory _witnesses,
+        uint256 _witnessThreshold,
+        uint256 _deadline
+    ) 
+        public 
+        onlyRole(POLICE_ROLE)  // Only police can create commitment / 只有警察可以创建承诺
+        nonReentrant           // Prevent reentrancy attack / 防止重入攻击
+        whenNotPaused          // Can only call when not paused / 合约未暂停时才能调用
+        returns (uint256 commitmentId) 
+    {
+        commitmentId = _createCommitment(
+            _merkleRoot,
+            HashAlgorithm.Keccak256,
+            _signers,
+            _witnesses,
+            _witnessThreshold,
+            _deadline
         );
+        LifecycleLib.anchorMerkleRoot(commitments[commitmentId], commitmentId, _merkleRoot, _leafCount);
+    }
+    
+    /**
+     * @dev Amend commitment with a new document version / 使用新文件版本修订承诺
+     * @notice Creates a child commitment linked to its parent; the parent becomes
+     *         Superseded once the child completes
+     *         创建链接到父承诺的子承诺；子承诺完成后父承诺变为已取代
+     * @param _parentId Commitment being amended / 被修订的承诺
+     * @param _newFileDigest Digest of the corrected document / 更正后文件的摘要
+     * @param _hashAlgorithm Algorithm that produced the digest / 生成摘要的算法
+     * @param _signers Signer address array / 签约者地址数组
+     * @param _witnesses Witness address array / 见证者地址数组
+     * @param _witnessThreshold Witness signatures required (0 = all) / 所需见证者签名数（0 表示全部）
+     * @param _deadline Signing deadline timestamp (0 = no deadline) / 签名截止时间戳（0 表示无截止时间）
+     * @return Newly created commitment ID / 新创建的承诺 ID
+     * 
+     * Requirements / 要求：
+     * - Same as createCommitmentWithSigners / 与 createCommitmentWithSigners 相同
+     * - Caller must be parent's initiator / 调用者必须是父承诺的发起人
+     * - Parent must be Completed, Verified or Disputed / 父承诺必须已完成、已验证或处于争议中
+     * - Parent has no amendment in progress / 父承诺没有进行中的修订
+     */
+    function amendCommitment(
+        uint256 _parentId,
+        bytes32 _newFileDigest,
+        HashAlgorithm _hashAlgorithm,
+        address[] memory _signers,
+        address[] memory _witnesses,
+        uint256 _witnessThreshold,
+        uint256 _deadline
+    ) 
+        public 
+        onlyRole(POLICE_ROLE)  // Only police can create commitment / 只有警察可以创建承诺
+        nonReentrant           // Prevent reentrancy attack / 防止重入攻击
+        whenNotPaused 
+        validCommitmentId(_parentId)
+        returns (uint256) 
+    {
+        LifecycleLib.requireAmendable(commitments, _parentId);
         
-        // Record signature / 记录签名
-        witnessSigned[_commitmentId][msg.sender] = true;
-        commitment.witnessSignedCount++;
+        uint256 childId = _createCommitment(
+            _newFileDigest,
+            _hashAlgorithm,
+            _signers,
+            _witnesses,
+            _witnessThreshold,
+            _deadline
+        );
+        LifecycleLib.linkAmendment(commitments, _amendmentsOf, _parentId, childId);
         
-        // Emit signature event / 触发签名事件
-        emit CommitmentSigned(
-            _commitmentId,
+        return childId;
+    }
+    
+    /**
+     * @dev Signer signs / 签约者签名
+     * @notice A designated signer signs the commitment / 指定的签约者之一对承诺进行签名
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * 
+     * Requirements / 要求：
+     * - Caller must be a designated signer / 调用者必须是指定的签约者之一
+     * - Commitment not frozen / 承诺未被冻结
+     * - This signer hasn't signed yet / 该签约者尚未签名
+     * - Initiator has signed / 发起人已经签名
+     * - Commitment not cancelled or declined / 承诺未被取消或拒绝
+     * - Signing deadline not passed / 签名截止时间未过
+     */
+    function signAsSigner(uint256 _commitmentId) 
+        public 
+        nonReentrant 
+        whenNotPaused 
+        signable(_commitmentId)
+    {
+        _signAsSigner(_commitmentId, msg.sender);
+    }
+    
+    /**
+     * @dev Witness signs / 见证者签名
+     * @notice Designated witness signs the commitment / 指定的见证者对承诺进行签名
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * 
+     * Requirements / 要求：
+     * - Caller must be designated witness / 调用者必须是指定的见证者
+     * - Caller must have LAWYER_ROLE / 调用者必须拥有 LAWYER_ROLE
+     * - Commitment not frozen / 承诺未被冻结
+     * - This witness hasn't signed yet / 该见证者尚未签名
+     * - Initiator has signed / 发起人已经签名
+     * - Commitment not cancelled or declined / 承诺未被取消或拒绝
+     * - Signing deadline not passed / 签名截止时间未过
+     */
+    function signAsWitness(uint256 _commitmentId) 
+        public 
+        onlyRole(LAWYER_ROLE)  // Must be lawyer to sign / 必须是律师才能签名
+        nonReentrant 
+        whenNotPaused 
+        signable(_commitmentId)
+    {
+        _signAsWitness(_commitmentId, msg.sender);
+    }
+    
+    /**
+     * @dev Signer signs several commitments at once / 签约者一次签署多个承诺
+     * @notice Signs every commitment in the list the caller can currently sign; the others
+     *         are skipped and reported as false instead of reverting the batch
+     *         签署列表中调用者当前可以签署的所有承诺；其余的被跳过并报告为 false，而不是回滚整个批次
+     * @param _commitmentIds Commitment IDs / 承诺 ID 列表
+     * @return Whether each ID was signed, in input order / 每个 ID 是否已签名，与输入顺序一致
+     * 
+     * Requirements / 要求：
+     * - 1 to MAX_BATCH_SIZE IDs / 1 至 MAX_BATCH_SIZE 个 ID
+     * - At least one ID passes every signAsSigner check / 至少有一个 ID 通过 signAsSigner 的全部检查
+     */
+    function signAsSignerBatch(uint256[] calldata _commitmentIds) 
+        public 
+        nonReentrant 
+        whenNotPaused 
+        returns (bool[] memory) 
+    {
+        return SigningLib.signBatch(
+            commitments,
+            witnessSigned,
+            _signerSignatures,
+            _commitmentIds,
+            msg.sender,
+            false
+        );
+    }
+    
+    /**
+     * @dev Witness signs several commitments at once / 见证者一次签署多个承诺
+     * @notice Signs every commitment in the list the caller can currently sign; the others
+     *         are skipped and reported as false instead of reverting the batch
+     *         签署列表中调用者当前可以签署的所有承诺；其余的被跳过并报告为 false，而不是回滚整个批次
+     * @param _commitmentIds Commitment IDs / 承诺 ID 列表
+     * @return Whether each ID was signed, in input order / 每个 ID 是否已签名，与输入顺序一致
+     * 
+     * Requirements / 要求：
+     * - Caller must have LAWYER_ROLE / 调用者必须拥有 LAWYER_ROLE
+     * - 1 to MAX_BATCH_SIZE IDs / 1 至 MAX_BATCH_SIZE 个 ID
+     * - At least one ID passes every signAsWitness check / 至少有一个 ID 通过 signAsWitness 的全部检查
+     */
+    function signAsWitnessBatch(uint256[] calldata _commitmentIds) 
+        public 
+        onlyRole(LAWYER_ROLE)  // Must be lawyer to sign / 必须是律师才能签名
+        nonReentrant 
+        whenNotPaused 
+        returns (bool[] memory) 
+    {
+        return SigningLib.signBatch(
+            commitments,
+            witnessSigned,
+            _witnessSignatures,
+            _commitmentIds,
             msg.sender,
-            "witness",
-            block.timestamp
+            true
+        );
+    }
+    
+    /**
+     * @dev Signer signs via EIP-712 typed signature / 签约者通过 EIP-712 类型化签名进行签名
+     * @notice Anyone (e.g. a relayer) may submit the signer's off-chain signature and pay the gas
+     *         任何人（例如中继者）都可以提交签约者的链下签名并支付 gas
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _signer Signer address that produced the signature / 生成签名的签约者地址
+     * @param _deadline Signature validity deadline / 签名有效截止时间
+     * @param _signature EIP-712 signature over SignCommitment / 对 SignCommitment 的 EIP-712 签名
+     * 
+     * Requirements / 要求：
+     * - Same as signAsSigner, checked against _signer / 与 signAsSigner 相同，针对 _signer 检查
+     * - Signature not expired, valid and using the current nonce / 签名未过期、有效且使用当前 nonce
+     */
+    function signAsSignerBySignature(
+        uint256 _commitmentId,
+        address _signer,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) 
+        public 
+        nonReentrant 
+        whenNotPaused 
+        signable(_commitmentId)
+    {
+        _verifyTypedSignature(_commitmentId, _signer, SIGNATURE_ROLE_SIGNER, _deadline, _signature);
+        _signAsSigner(_commitmentId, _signer);
+    }
+    
+    /**
+     * @dev Witness signs via EIP-712 typed signature / 见证者通过 EIP-712 类型化签名进行签名
+     * @notice Anyone (e.g. a relayer) may submit the witness's off-chain signature and pay the gas
+     *         任何人（例如中继者）都可以提交见证者的链下签名并支付 gas
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _witness Witness address that produced the signature / 生成签名的见证者地址
+     * @param _deadline Signature validity deadline / 签名有效截止时间
+     * @param _signature EIP-712 signature over SignCommitment / 对 SignCommitment 的 EIP-712 签名
+     * 
+     * Requirements / 要求：
+     * - Same as signAsWitness, checked against _witness / 与 signAsWitness 相同，针对 _witness 检查
+     * - Signature not expired, valid and using the current nonce / 签名未过期、有效且使用当前 nonce
+     */
+    function signAsWitnessBySignature(
+        uint256 _commitmentId,
+        address _witness,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) 
+        public 
+        nonReentrant 
+        whenNotPaused 
+        signable(_commitmentId)
+    {
+        // Witness must hold an unexpired lawyer role / 见证者必须拥有未过期的律师角色
+        _checkRole(LAWYER_ROLE, _witness);
+        _verifyTypedSignature(_commitmentId, _witness, SIGNATURE_ROLE_WITNESS, _deadline, _signature);
+        _signAsWitness(_commitmentId, _witness);
+    }
+    
+    /**
+     * @dev Signer declines / 签约者拒绝签名
+     * @notice A designated signer refuses to sign; the commitment becomes Declined (terminal)
+     *         指定的签约者之一拒绝签名；承诺变为已拒绝（终止状态）
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _reasonHash Hash of the decline reason / 拒绝原因的哈希
+     * 
+     * Requirements / 要求：
+     * - Caller must be a designated signer and not have signed / 调用者必须是指定的签约者之一且尚未签名
+     * - Commitment not frozen, cancelled, declined or expired / 承诺未被冻结、取消、拒绝或过期
+     */
+    function declineAsSigner(uint256 _commitmentId, bytes32 _reasonHash) 
+        public 
+        nonReentrant 
+        whenNotPaused 
+        signable(_commitmentId)
+    {
+        SigningLib.declineAsSigner(
+            commitments[_commitmentId],
+            _signerSignatures[_commitmentId],
+            _commitmentId,
+            _reasonHash
+        );
+    }
+    
+    /**
+     * @dev Witness declines / 见证者拒绝签名
+     * @notice Designated witness refuses to sign; the commitment becomes Declined (terminal)
+     *         指定的见证者拒绝签名；承诺变为已拒绝（终止状态）
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _reasonHash Hash of the decline reason / 拒绝原因的哈希
+     * 
+     * Requirements / 要求：
+     * - Caller must be a designated witness and not have signed / 调用者必须是指定的见证者且尚未签名
+     * - Commitment not completed (quorum not yet reached) / 承诺未完成（尚未达到法定人数）
+     * - Commitment not frozen, cancelled, declined or expired / 承诺未被冻结、取消、拒绝或过期
+     */
+    function declineAsWitness(uint256 _commitmentId, bytes32 _reasonHash) 
+        public 
+        nonReentrant 
+        whenNotPaused 
+        signable(_commitmentId)
+    {
+        SigningLib.declineAsWitness(
+            commitments[_commitmentId],
+            witnessSigned[_commitmentId],
+            _commitmentId,
+            _reasonHash
+        );
+    }
+    
+    /**
+     * @dev Cancel commitment / 取消承诺
+     * @notice Initiator (or admin) cancels a commitment that has not completed yet
+     *         发起人（或管理员）取消尚未完成的承诺
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _reasonHash Hash of the cancellation reason / 取消原因的哈希
+     * 
+     * Requirements / 要求：
+     * - Caller must be initiator or have DEFAULT_ADMIN_ROLE / 调用者必须是发起人或拥有 DEFAULT_ADMIN_ROLE
+     * - Commitment not frozen / 承诺未被冻结
+     * - Commitment not completed / 承诺尚未完成
+     * - Commitment not already cancelled or declined / 承诺尚未被取消或拒绝
+     */
+    function cancelCommitment(uint256 _commitmentId, bytes32 _reasonHash) 
+        public 
+        nonReentrant 
+        whenNotPaused 
+        validCommitmentId(_commitmentId)
+    {
+        LifecycleLib.cancel(
+            commitments[_commitmentId],
+            _commitmentId,
+            _reasonHash,
+            hasRole(DEFAULT_ADMIN_ROLE, msg.sender)
+        );
+    }
+    
+    /**
+     * @dev Extend signing deadline / 延长签名截止时间
+     * @notice Initiator pushes back the deadline of a commitment that is still pending
+     *         发起人延长仍在待签名状态的承诺的截止时间
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _newDeadline New deadline timestamp / 新的截止时间戳
+     * 
+     * Requirements / 要求：
+     * - Caller must be initiator / 调用者必须是发起人
+     * - Commitment has a deadline and is still Pending or PartiallySigned / 承诺有截止时间且仍处于待签名或部分签名状态
+     * - New deadline later than current deadline / 新截止时间晚于当前截止时间
+     */
+    function extendDeadline(uint256 _commitmentId, uint256 _newDeadline) 
+        public 
+        whenNotPaused 
+        validCommitmentId(_commitmentId)
+    {
+        LifecycleLib.extendDeadline(
+            commitments[_commitmentId],
+            _commitmentId,
+            _getStatus(_commitmentId),
+            _newDeadline
+        );
+    }
+    
+    /**
+     * @dev Attach the IPFS CID of the document / 关联文件的 IPFS CID
+     * @notice References the document by a CIDv1 as produced by an IPFS node; the CID is
+     *         given as its multicodec and sha2-256 digest
+     *         以 IPFS 节点生成的 CIDv1 引用文件；CID 以其 multicodec 和 sha2-256 摘要表示
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _codec Multicodec: 0x55 (raw) or 0x70 (dag-pb) / multicodec：0x55（raw）或 0x70（dag-pb）
+     * @param _digest sha2-256 digest of the CID multihash / CID multihash 中的 sha2-256 摘要
+     * 
+     * Requirements / 要求：
+     * - Caller is initiator / 调用者是发起人
+     * - Commitment still Pending and has no CID yet / 承诺仍处于待签名状态且尚未关联 CID
+     * - Single-document commitment / 单文件承诺
+     * - A raw CID matches a SHA-256 file digest; a dag-pb CID matches an IPFS multihash file digest
+     *   raw CID 与 SHA-256 文件摘要一致；dag-pb CID 与 IPFS multihash 文件摘要一致
+     */
+    function setContentCid(uint256 _commitmentId, uint64 _codec, bytes32 _digest) 
+        public 
+        whenNotPaused 
+        validCommitmentId(_commitmentId)
+    {
+        LifecycleLib.setContentCid(
+            commitments[_commitmentId],
+            _commitmentId,
+            _getStatus(_commitmentId),
+            _codec,
+            _digest
+        );
+    }
+    
+    /**
+     * @dev Replace a designated witness / 替换指定的见证者
+     * @notice Swaps a witness who has not signed (e.g. a lawyer who left the firm) for a new one
+     *         将尚未签名的见证者（例如已离职的律师）替换为新的见证者
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _oldWitness Witness being replaced / 被替换的见证者
+     * @param _newWitness Replacement witness / 新的见证者
+     * 
+     * Requirements / 要求：
+     * - Caller must be initiator or admin / 调用者必须是发起人或管理员
+     * - Commitment still Pending or PartiallySigned / 承诺仍处于待签名或部分签名状态
+     * - Old witness is designated and has not signed / 旧见证者是指定见证者且尚未签名
+     * - New witness passes createCommitment validation and has LAWYER_ROLE
+     *   新见证者通过 createCommitment 的验证且拥有 LAWYER_ROLE
+     */
+    function replaceWitness(uint256 _commitmentId, address _oldWitness, address _newWitness) 
+        public 
+        nonReentrant 
+        whenNotPaused 
+        validCommitmentId(_commitmentId)
+    {
+        ParticipantLib.replaceWitness(
+            commitments[_commitmentId],
+            witnessSigned[_commitmentId],
+            _commitmentsByParticipant,
+            _commitmentId,
+            _oldWitness,
+            _newWitness,
+            _getStatus(_commitmentId),
+            hasRole(DEFAULT_ADMIN_ROLE, msg.sender)
+        );
+    }
+    
+    // ============================================================================
+    // Admin Functions / 管理员功能
+    // ============================================================================
+    
+    /**
+     * @dev Freeze commitment / 冻结承诺
+     * @notice Freeze suspicious commitment in emergency, cannot continue signing after frozen
+     *         紧急情况下冻结可疑承诺，冻结后无法继续签名
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * 
+     * Only addresses with EMERGENCY_ROLE can call
+     * 只有拥有 EMERGENCY_ROLE 的地址可以调用
+     * Organization-scoped callers only for their organization's commitments
+     * 分配到组织的调用者只能处理本组织的承诺
+     */
+    function freezeCommitment(uint256 _commitmentId) 
+        public 
+        onlyRole(EMERGENCY_ROLE)
+        validCommitmentId(_commitmentId)
+        withinOrganization(_commitmentId)
+    {
+        ReviewLib.freeze(
+            commitments[_commitmentId],
+            _commitmentId,
+            FreezeReason.Unspecified,
+            bytes32(0),
+            0
+        );
+    }
+    
+    /**
+     * @dev Freeze commitment with reason / 带原因冻结承诺
+     * @notice Records why and for how long the commitment is frozen
+     *         记录冻结原因及冻结时长
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _reason Reason code / 原因代码
+     * @param _caseRef Hash of the case reference (reference kept off-chain) / 案件编号的哈希（编号原文保存在链下）
+     * @param _unfreezeAt Automatic unfreeze time (0 = until unfrozen manually) / 自动解冻时间（0 表示直到手动解冻）
+     * 
+     * Requirements / 要求：
+     * - Only addresses with EMERGENCY_ROLE can call / 只有拥有 EMERGENCY_ROLE 的地址可以调用
+     * - Commitment in caller's organization, if caller is assigned one / 若调用者已分配组织，承诺须属于该组织
+     * - Not currently frozen / 当前未被冻结
+     * - Unfreeze time is 0 or in the future / 自动解冻时间为 0 或在未来
+     */
+    function freezeCommitmentWithReason(
+        uint256 _commitmentId,
+        FreezeReason _reason,
+        bytes32 _caseRef,
+        uint256 _unfreezeAt
+    ) 
+        public 
+        onlyRole(EMERGENCY_ROLE)
+        validCommitmentId(_commitmentId)
+        withinOrganization(_commitmentId)
+    {
+        ReviewLib.freeze(
+            commitments[_commitmentId],
+            _commitmentId,
+            _reason,
+            _caseRef,
+            _unfreezeAt
+        );
+    }
+    
+    /**
+     * @dev Unfreeze commitment / 解冻承诺
+     * @notice Unfreeze commitment before its automatic unfreeze time / 在自动解冻时间之前解除承诺冻结状态
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * 
+     * Only addresses with EMERGENCY_ROLE can call
+     * 只有拥有 EMERGENCY_ROLE 的地址可以调用
+     * Organization-scoped callers only for their organization's commitments
+     * 分配到组织的调用者只能处理本组织的承诺
+     */
+    function unfreezeCommitment(uint256 _commitmentId) 
+        public 
+        onlyRole(EMERGENCY_ROLE)
+        validCommitmentId(_commitmentId)
+        withinOrganization(_commitmentId)
+    {
+        ReviewLib.unfreeze(commitments[_commitmentId], _commitmentId);
+    }
+    
+    /**
+     * @dev Verify commitment / 验证承诺
+     * @notice Verifier marks commitment as "verified" / 验证员标记承诺为"已验证"
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * 
+     * Only addresses with VERIFIER_ROLE can call
+     * 只有拥有 VERIFIER_ROLE 的地址可以调用
+     * Organization-scoped callers only for their organization's commitments
+     * 分配到组织的调用者只能处理本组织的承诺
+     */
+    function verifyCommitment(uint256 _commitmentId) 
+        public 
+        onlyRole(VERIFIER_ROLE)
+        validCommitmentId(_commitmentId)
+        withinOrganization(_commitmentId)
+        notCancelled(_commitmentId)
+    {
+        ReviewLib.verify(commitments[_commitmentId], _commitmentId);
+    }
+    
+    /**
+     * @dev Reject verification / 拒绝验证
+     * @notice Verifier flags a problem with a completed commitment, which becomes Disputed
+     *         验证员指出已完成承诺存在问题，承诺进入争议状态
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _reasonHash Hash of the rejection reason (text kept off-chain) / 拒绝原因的哈希（原文保存在链下）
+     * 
+     * Requirements / 要求：
+     * - Caller must have VERIFIER_ROLE / 调用者必须拥有 VERIFIER_ROLE
+     * - Commitment in caller's organization, if caller is assigned one / 若调用者已分配组织，承诺须属于该组织
+     * - Commitment must be completed, not verified and not already disputed
+     *   承诺必须已完成、未验证且未处于争议中
+     */
+    function rejectVerification(uint256 _commitmentId, bytes32 _reasonHash) 
+        public 
+        onlyRole(VERIFIER_ROLE)
+        validCommitmentId(_commitmentId)
+        withinOrganization(_commitmentId)
+        notCancelled(_commitmentId)
+    {
+        ReviewLib.reject(commitments[_commitmentId], _commitmentId, _reasonHash);
+    }
+    
+    /**
+     * @dev Resolve dispute / 裁决争议
+     * @notice Admin either upholds the rejection (commitment stays Disputed and can only be
+     *         amended) or dismisses it (commitment becomes Verified)
+     *         管理员维持拒绝（承诺保持争议状态，只能修订）或驳回拒绝（承诺变为已验证）
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _upheld Whether the rejection is upheld / 是否维持拒绝
+     * 
+     * Requirements / 要求：
+     * - Caller must have DEFAULT_ADMIN_ROLE / 调用者必须拥有 DEFAULT_ADMIN_ROLE
+     * - Commitment must have an unresolved dispute / 承诺必须有未裁决的争议
+     */
+    function resolveDispute(uint256 _commitmentId, bool _upheld) 
+        public 
+        onlyRole(DEFAULT_ADMIN_ROLE)
+        validCommitmentId(_commitmentId)
+    {
+        ReviewLib.resolveDispute(commitments[_commitmentId], _commitmentId, _upheld);
+    }
+    
+    /**
+     * @dev Pause contract / 暂停合约
+     * @notice Pause entire contract in emergency, cannot create or sign after paused
+     *         紧急情况下暂停整个合约，暂停后无法创建或签名
+     * 
+     * Only addresses with EMERGENCY_ROLE and no organization can call
+     * 只有拥有 EMERGENCY_ROLE 且未分配组织的地址可以调用
+     */
+    function pause() public onlyRole(EMERGENCY_ROLE) {
+        require(
+            organizationOf[msg.sender] == 0,
+            "CommitmentChain: Organization-scoped account"
+        );
+        _pause();
+    }
+    
+    /**
+     * @dev Unpause contract / 恢复合约
+     * @notice Cancel paused state / 取消暂停状态
+     * 
+     * Only addresses with DEFAULT_ADMIN_ROLE can call
+     * 只有拥有 DEFAULT_ADMIN_ROLE 的地址可以调用
+     */
+    function unpause() public onlyRole(DEFAULT_ADMIN_ROLE) {
+        _unpause();
+    }
+    
+    /**
+     * @dev Set file hash uniqueness policy / 设置文件哈希唯一性策略
+     * @notice When enabled, a file hash that was ever registered cannot be registered again
+     *         启用后，已登记过的文件哈希不能再次登记
+     * @param _required Whether to reject re-registering a file hash / 是否拒绝重复登记文件哈希
+     * 
+     * Only addresses with DEFAULT_ADMIN_ROLE can call
+     * 只有拥有 DEFAULT_ADMIN_ROLE 的地址可以调用
+     */
+    function setUniqueFileHashRequired(bool _required) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        uniqueFileHashRequired = _required;
+        emit FileHashPolicyUpdated(_required, msg.sender, block.timestamp);
+    }
+    
+    // ============================================================================
+    // Organizations / 组织
+    // ============================================================================
+    
+    /**
+     * @dev Register organization (department) / 登记组织（部门）
+     * @param _name Organization name / 组织名称
+     * @return New organization ID / 新组织的 ID
+     * 
+     * Only addresses with DEFAULT_ADMIN_ROLE can call
+     * 只有拥有 DEFAULT_ADMIN_ROLE 的地址可以调用
+     */
+    function createOrganization(string calldata _name) 
+        public 
+        onlyRole(DEFAULT_ADMIN_ROLE) 
+        returns (uint256) 
+    {
+        organizationCount++;
+        MembershipLib.createOrganization(organizationNames, organizationCount, _name);
+        return organizationCount;
+    }
+    
+    /**
+     * @dev Assign account to organization / 将账户分配到组织
+     * @notice Applies to every role the account holds; commitments already created keep
+     *         their organization
+     *         适用于该账户拥有的所有角色；已创建的承诺保留其原有组织
+     * @param _account Account / 账户
+     * @param _organizationId Organization ID (0 = none, acts across organizations) / 组织 ID（0 表示无组织，可跨组织操作）
+     * 
+     * Only addresses with DEFAULT_ADMIN_ROLE can call
+     * 只有拥有 DEFAULT_ADMIN_ROLE 的地址可以调用
+     */
+    function setAccountOrganization(address _account, uint256 _organizationId) 
+        public 
+        onlyRole(DEFAULT_ADMIN_ROLE) 
+    {
+        MembershipLib.assignOrganization(organizationOf, organizationCount, _account, _organizationId);
+    }
+    
+    // ============================================================================
+    // Role Expiry / 角色有效期
+    // ============================================================================
+    
+    /**
+     * @dev Grant role until an expiry time / 授予角色直至到期时间
+     * @notice After expiry the grant counts as missing in every onlyRole check; granting the
+     *         role again with grantRole makes it permanent
+     *         到期后该授权在所有 onlyRole 检查中都视为不存在；再次通过 grantRole 授予则变为永久
+     * @param _role POLICE_ROLE, LAWYER_ROLE or VERIFIER_ROLE / POLICE_ROLE、LAWYER_ROLE 或 VERIFIER_ROLE
+     * @param _account Account / 账户
+     * @param _expiresAt Expiry timestamp / 到期时间戳
+     * 
+     * Requirements / 要求：
+     * - Caller has the role's admin role / 调用者拥有该角色的管理角色
+     * - Expiry in the future / 到期时间在未来
+     */
+    function grantRoleWithExpiry(bytes32 _role, address _account, uint256 _expiresAt) 
+        public 
+        onlyRole(getRoleAdmin(_role)) 
+    {
+        // Granting clears any previous expiry, so set it afterwards / 授予角色会清除之前的到期时间，因此随后设置
+        _grantRole(_role, _account);
+        MembershipLib.setRoleExpiry(roleExpiresAt[_role], _role, _account, _expiresAt);
+    }
+    
+    /**
+     * @dev Members whose grant expires before a given time / 授权在指定时间之前到期的成员
+     * @notice Includes grants that have already expired but were not revoked
+     *         包括已到期但尚未撤销的授权
+     * @param _role Role / 角色
+     * @param _before Upper bound of expiry time / 到期时间上限
+     * @return accounts Expiring members / 即将到期的成员
+     * @return expiresAt Expiry time of each member / 各成员的到期时间
+     */
+    function getExpiringMembers(bytes32 _role, uint256 _before) 
+        public 
+        view 
+        returns (address[] memory accounts, uint256[] memory expiresAt) 
+    {
+        return MembershipLib.getExpiringMembers(getRoleMembers(_role), roleExpiresAt[_role], _before);
+    }
+    
+    /**
+     * @dev Expired grants count as missing / 已到期的授权视为不存在
+     */
+    function hasRole(bytes32 role, address account) 
+        public 
+        view 
+        override(AccessControlUpgradeable, IAccessControl) 
+        returns (bool) 
+    {
+        uint256 expiry = roleExpiresAt[role][account];
+        return super.hasRole(role, account) && (expiry == 0 || block.timestamp < expiry);
+    }
+    
+    /**
+     * @dev Granting clears any expiry (grantRoleWithExpiry sets it again afterwards)
+     *      授予角色时清除到期时间（grantRoleWithExpiry 随后重新设置）
+     */
+    function _grantRole(bytes32 role, address account) internal override returns (bool) {
+        delete roleExpiresAt[role][account];
+        return super._grantRole(role, account);
+    }
+    
+    /**
+     * @dev Clear expiry first so expired members are really removed from the member list
+     *      先清除到期时间，确保已到期的成员也会真正从成员列表中移除
+     */
+    function _revokeRole(bytes32 role, address account) internal override returns (bool) {
+        delete roleExpiresAt[role][account];
+        return super._revokeRole(role, account);
+    }
+    
+    // ============================================================================
+    // Internal Helper Functions / 内部辅助函数
+    // ============================================================================
+    
+    /**
+     * @dev Create commitment (shared implementation) / 创建承诺（共享实现）
+     * @param _fileDigest File digest / 文件摘要
+     * @param _hashAlgorithm Algorithm that produced the digest / 生成摘要的算法
+     * @param _signers Signer address array / 签约者地址数组
+     * @param _witnesses Witness address array / 见证者地址数组
+     * @param _witnessThreshold Witness signatures required (0 = all) / 所需见证者签名数（0 表示全部）
+     * @param _deadline Signing deadline timestamp (0 = no deadline) / 签名截止时间戳（0 表示无截止时间）
+     * @return Newly created commitment ID / 新创建的承诺 ID
+     */
+    function _createCommitment(
+        bytes32 _fileDigest,
+        HashAlgorithm _hashAlgorithm,
+        address[] memory _signers,
+        address[] memory _witnesses,
+        uint256 _witnessThreshold,
+        uint256 _deadline
+    ) 
+        internal 
+        returns (uint256) 
+    {
+        // ========== Input Validation / 输入验证 ==========
+        
+        // File digest and deadline are validated in LifecycleLib.create / 文件摘要和截止时间在 LifecycleLib.create 中验证
+        
+        // Increment counter, generate new commitment ID / 递增计数器，生成新的承诺 ID
+        _commitmentIdCounter++;
+        uint256 newCommitmentId = _commitmentIdCounter;
+        
+        // Validate signers, witnesses (lawyer role included) and witness threshold, then index participants
+        // 验证签约者、见证者（包括律师角色）及见证者法定人数，然后索引参与者
+        ParticipantLib.index(_commitmentsByParticipant, newCommitmentId, _signers, _witnesses, _witnessThreshold);
+        
+        // ========== Create Commitment / 创建承诺 ==========
+        
+        // Commitment belongs to the initiator's organization / 承诺属于发起人所在的组织
+        uint256 organizationId = organizationOf[msg.sender];
+        
+        // Create commitment object and index it by file digest and organization, initiator signs automatically
+        // 创建承诺对象并按文件摘要和组织建立索引，发起人自动签名
+        LifecycleLib.create(
+            commitments[newCommitmentId],
+            _commitmentsByFileDigest,
+            _commitmentsByOrganization,
+            uniqueFileHashRequired,
+            newCommitmentId,
+            _fileDigest,
+            _hashAlgorithm,
+            _signers,
+            _witnesses,
+            _witnessThreshold,
+            _deadline,
+            organizationId
+        );
+        
+        // Check if completed immediately (no witnesses case)
+        // 检查是否立即完成（无见证者的情况）
+        _checkCompletion(newCommitmentId);
+        
+        return newCommitmentId;
+    }
+    
+    /**
+     * @dev Record signer signature / 记录签约者签名
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _account Signing account (caller or typed-signature signatory) / 签名账户（调用者或类型化签名的签名人）
+     */
+    function _signAsSigner(uint256 _commitmentId, address _account) internal {
+        SigningLib.signAsSigner(commitments, _signerSignatures[_commitmentId], _commitmentId, _account);
+    }
+    
+    /**
+     * @dev Record witness signature / 记录见证者签名
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _account Signing account (caller or typed-signature signatory) / 签名账户（调用者或类型化签名的签名人）
+     */
+    function _signAsWitness(uint256 _commitmentId, address _account) internal {
+        SigningLib.signAsWitness(
+            commitments,
+            witnessSigned[_commitmentId],
+            _witnessSignatures[_commitmentId],
+            _commitmentId,
+            _account
+        );
+    }
+    
+    /**
+     * @dev Verify EIP-712 signature and consume nonce / 验证 EIP-712 签名并消耗 nonce
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _account Expected signatory / 预期的签名人
+     * @param _role Signature role code / 签名角色代码
+     * @param _deadline Signature validity deadline / 签名有效截止时间
+     * @param _signature Signature bytes / 签名字节
+     */
+    function _verifyTypedSignature(
+        uint256 _commitmentId,
+        address _account,
+        uint8 _role,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) 
+        internal 
+    {
+        SigningLib.verifyTypedSignature(
+            commitments[_commitmentId],
+            _domainSeparatorV4(),
+            _commitmentId,
+            _account,
+            _role,
+            _useNonce(_account),
+            _deadline,
+            _signature
+        );
+    }
+    
+    /**
+     * @dev EIP-712 domain name, constant so upgraded proxies need no re-initialization
+     *      EIP-712 域名称，使用常量，升级后的代理无需重新初始化
+     */
+    function _EIP712Name() internal pure override returns (string memory) {
+        return EIP712_NAME;
+    }
+    
+    /**
+     * @dev EIP-712 domain version / EIP-712 域版本
+     */
+    function _EIP712Version() internal pure override returns (string memory) {
+        return EIP712_VERSION;
+    }
+    
+    /**
+     * @dev Wrap a single signer into an array / 将单个签约者包装为数组
+     * @param _signer Signer address / 签约者地址
+     * @return Single-element signer array / 单元素签约者数组
+     */
+    function _toSigners(address _signer) internal pure returns (address[] memory) {
+        address[] memory signers = new address[](1);
+        signers[0] = _signer;
+        return signers;
+    }
+    
+    /**
+     * @dev Witness signatures required for completion / 完成所需的见证者签名数
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @return Required witness count (threshold, or all witnesses when 0) / 所需见证者数量（法定人数，为 0 时为全部）
+     */
+    function _requiredWitnesses(uint256 _commitmentId) internal view returns (uint256) {
+        Commitment storage commitment = commitments[_commitmentId];
+        return commitment.witnessThreshold == 0
+            ? commitment.witnesses.length
+            : commitment.witnessThreshold;
+    }
+    
+    /**
+     * @dev Check if commitment is currently frozen / 检查承诺当前是否被冻结
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @return Whether frozen and the automatic unfreeze time has not passed
+     *         是否被冻结且尚未到自动解冻时间
+     */
+    function _isFrozen(uint256 _commitmentId) internal view returns (bool) {
+        return ReviewLib.isFrozen(commitments[_commitmentId]);
+    }
+    
+    /**
+     * @dev Derive lifecycle status (see LifecycleLib.getStatus) / 推导生命周期状态（见 LifecycleLib.getStatus）
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @return Lifecycle status / 生命周期状态
+     */
+    function _getStatus(uint256 _commitmentId) 
+        internal 
+        view 
+        returns (CommitmentStatus) 
+    {
+        return LifecycleLib.getStatus(commitments[_commitmentId]);
+    }
+    
+    /**
+     * @dev Check if commitment is completed / 检查承诺是否完成
+     * @notice If all participants have signed, mark as completed
+     *         如果所有参与者都已签名，标记为完成
+     * @param _commitmentId Commitment ID / 承诺 ID
+     */
+    function _checkCompletion(uint256 _commitmentId) internal {
+        SigningLib.checkCompletion(commitments, _commitmentId);
+    }
+    
+    // ============================================================================
+    // Query Functions (View Functions) / 查询函数（View Functions）
+    // ============================================================================
+
+    /**
+     * Get commitment details / 获取承诺详情
+     */
+    function getCommitment(uint256 _commitmentId) 
+        public 
+        view 
+        validCommitmentId(_commitmentId)
+        returns (
+            uint256 id,
+            address initiator,
+            address[] memory signers,
+            address[] memory witnesses,
+            string memory fileHash,
+            uint256 createdAt,
+            bool initiatorSigned,
+            bool signerSigned,
+            uint256 signerSignedCount,
+            uint256 witnessSignedCount,
+            bool isCompleted,
+            bool isFrozen,
+            bool isVerified,
+            bool isCancelled
+        ) 
+    {
+        Commitment storage commitment = commitments[_commitmentId];
+        return (
+            commitment.id,
+            commitment.initiator,
+            commitment.signers,
+            commitment.witnesses,
+            commitment.fileHash,
+            commitment.createdAt,
+            commitment.initiatorSigned,
+            commitment.signerSigned,
+            commitment.signerSignedCount,
+            commitment.witnessSignedCount,
+            commitment.isCompleted,
+            _isFrozen(_commitmentId),
+            commitment.isVerified,
+            commitment.isCancelled
+        );
+    }
+    
+    /**
+     * @dev Get commitment lifecycle status / 获取承诺生命周期状态
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @return Lifecycle status (see CommitmentStatus) / 生命周期状态（见 CommitmentStatus）
+     */
+    function getCommitmentStatus(uint256 _commitmentId) 
+        public 
+        view 
+        validCommitmentId(_commitmentId)
+        returns (CommitmentStatus) 
+    {
+        return _getStatus(_commitmentId);
+    }
+    
+    /**
+     * @dev Get signing deadline / 获取签名截止时间
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @return Deadline timestamp (0 = no deadline) / 截止时间戳（0 表示无截止时间）
+     */
+    function getSigningDeadline(uint256 _commitmentId) 
+        public 
+        view 
+        validCommitmentId(_commitmentId)
+        returns (uint256) 
+    {
+        return commitments[_commitmentId].signingDeadline;
+    }
+    
+    /**
+     * @dev Get decline info / 获取拒绝信息
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @return declinedBy Address that declined / 拒绝者地址
+     * @return reasonHash Hash of the decline reason / 拒绝原因的哈希
+     * @return declinedAt Decline timestamp (0 if not declined) / 拒绝时间戳（未拒绝则为 0）
+     */
+    function getDeclineInfo(uint256 _commitmentId) 
+        public 
+        view 
+        validCommitmentId(_commitmentId)
+        returns (address declinedBy, bytes32 reasonHash, uint256 declinedAt) 
+    {
+        Commitment storage commitment = commitments[_commitmentId];
+        return (
+            commitment.declinedBy,
+            commitment.declineReasonHash,
+            commitment.declinedAt
+        );
+    }
+    
+    /**
+     * @dev Get dispute info / 获取争议信息
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @return disputedBy Verifier who rejected / 拒绝验证的验证员
+     * @return reasonHash Hash of the rejection reason / 拒绝原因的哈希
+     * @return disputedAt Rejection timestamp (0 if never disputed) / 拒绝时间戳（从未争议则为 0）
+     * @return resolved Whether the dispute was upheld by admin / 争议是否已被管理员维持
+     */
+    function getDisputeInfo(uint256 _commitmentId) 
+        public 
+        view 
+        validCommitmentId(_commitmentId)
+        returns (address disputedBy, bytes32 reasonHash, uint256 disputedAt, bool resolved) 
+    {
+        Commitment storage commitment = commitments[_commitmentId];
+        return (
+            commitment.disputedBy,
+            commitment.disputeReasonHash,
+            commitment.disputedAt,
+            commitment.disputeResolved
+        );
+    }
+    
+    /**
+     * @dev Get latest freeze info / 获取最近一次冻结信息
+     * @notice Earlier freezes are recorded in CommitmentFrozen / CommitmentUnfrozen events
+     *         更早的冻结记录在 CommitmentFrozen / CommitmentUnfrozen 事件中
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @return frozen Whether currently frozen / 当前是否被冻结
+     * @return reason Reason code / 原因代码
+     * @return caseRef Hash of the case reference / 案件编号的哈希
+     * @return frozenBy Address that froze / 冻结者地址
+     * @return frozenAt Freeze timestamp (0 if never frozen) / 冻结时间戳（从未冻结则为 0）
+     * @return unfreezeAt Automatic unfreeze time (0 = manual only) / 自动解冻时间（0 表示仅手动解冻）
+     */
+    function getFreezeInfo(uint256 _commitmentId) 
+        public 
+        view 
+        validCommitmentId(_commitmentId)
+        returns (
+            bool frozen,
+            FreezeReason reason,
+            bytes32 caseRef,
+            address frozenBy,
+            uint256 frozenAt,
+            uint256 unfreezeAt
+        ) 
+    {
+        Commitment storage commitment = commitments[_commitmentId];
+        return (
+            _isFrozen(_commitmentId),
+            commitment.freezeReason,
+            commitment.freezeCaseRef,
+            commitment.frozenBy,
+            commitment.frozenAt,
+            commitment.unfreezeAt
+        );
+    }
+    
+    
+    /**
+     * @dev Get version chain / 获取版本链
+     * @notice Returns every version from the original to the latest amendment, in order,
+     *         including cancelled or expired amendments that were retried
+     *         按顺序返回从原始版本到最新修订的所有版本，包括被重试的已取消或已过期修订
+     * @param _commitmentId Any commitment ID in the chain / 链中任意承诺 ID
+     * @return ids Commitment IDs from oldest to newest / 从最旧到最新的承诺 ID
+     */
+    function getVersionChain(uint256 _commitmentId) 
+        public 
+        view 
+        validCommitmentId(_commitmentId)
+        returns (uint256[] memory ids) 
+    {
+        return LifecycleLib.getVersionChain(commitments, _amendmentsOf, _commitmentId);
+    }
+    
+    /**
+     * @dev Get cancellation info / 获取取消信息
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @return cancelledBy Address that cancelled / 取消者地址
+     * @return reasonHash Hash of the cancellation reason / 取消原因的哈希
+     * @return cancelledAt Cancellation timestamp (0 if not cancelled) / 取消时间戳（未取消则为 0）
+     */
+    function getCancellationInfo(uint256 _commitmentId) 
+        public 
+        view 
+        validCommitmentId(_commitmentId)
+        returns (address cancelledBy, bytes32 reasonHash, uint256 cancelledAt) 
+    {
+        Commitment storage commitment = commitments[_commitmentId];
+        return (
+            commitment.cancelledBy,
+            commitment.cancelReasonHash,
+            commitment.cancelledAt
         );
-        
-        // Check if completed / 检查是否完成
-        _checkCompletion(_commitmentId);
     }
     
-    // ============================================================================
-    // Admin Functions / 管理员功能
-    // ============================================================================
+    /**
+     * @dev Check if specific witness has signed / 检查特定见证者是否已签名
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _witness Witness address / 见证者地址
+     * @return Whether signed / 是否已签名
+     */
+    function hasWitnessSigned(uint256 _commitmentId, address _witness) 
+        public 
+        view 
+        validCommitmentId(_commitmentId)
+        returns (bool) 
+    {
+        return witnessSigned[_commitmentId][_witness];
+    }
     
     /**
-     * @dev Freeze commitment / 冻结承诺
-     * @notice Freeze suspicious commitment in emergency, cannot continue signing after frozen
-     *         紧急情况下冻结可疑承诺，冻结后无法继续签名
+     * @dev Check if specific signer has signed / 检查特定签约者是否已签名
      * @param _commitmentId Commitment ID / 承诺 ID
-     * 
-     * Only addresses with EMERGENCY_ROLE can call
-     * 只有拥有 EMERGENCY_ROLE 的地址可以调用
+     * @param _signer Signer address / 签约者地址
+     * @return Whether signed / 是否已签名
      */
-    function freezeCommitment(uint256 _commitmentId) 
+    function hasSignerSigned(uint256 _commitmentId, address _signer) 
         public 
-        /** 
-        onlyRole(EMERGENCY_ROLE)
-        */
+        view 
+        validCommitmentId(_commitmentId)
+        returns (bool) 
+    {
+        return _signerSignatures[_commitmentId][_signer].timestamp != 0;
+    }
+    
+    /**
+     * @dev Get initiator signature info / 获取发起人签名信息
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @return initiator Initiator address / 发起人地址
+     * @return signedAt Signature timestamp / 签名时间戳
+     * @return signedBlock Signature block number / 签名区块高度
+     */
+    function getInitiatorInfo(uint256 _commitmentId) 
+        public 
+        view 
         validCommitmentId(_commitmentId)
+        returns (address initiator, uint256 signedAt, uint256 signedBlock) 
     {
         Commitment storage commitment = commitments[_commitmentId];
-        
-        require(
-            !commitment.isFrozen,
-            "CommitmentChain: Already frozen"
-        );
-        
-        commitment.isFrozen = true;
-        
-        emit CommitmentFrozen(
-            _commitmentId,
-            msg.sender,
-            block.timestamp
+        return (
+            commitment.initiator,
+            commitment.initiatorSignature.timestamp,
+            commitment.initiatorSignature.blockNumber
         );
     }
     
     /**
-     * @dev Unfreeze commitment / 解冻承诺
-     * @notice Unfreeze commitment / 解除承诺冻结状态
+     * @dev Get all signers with signature status / 获取所有签约者及其签名状态
      * @param _commitmentId Commitment ID / 承诺 ID
-     * 
-     * Only addresses with EMERGENCY_ROLE can call
-     * 只有拥有 EMERGENCY_ROLE 的地址可以调用
+     * @return Signer info array / 签约者信息数组
      */
-    function unfreezeCommitment(uint256 _commitmentId) 
+    function getSigners(uint256 _commitmentId) 
         public 
-        /**
-        onlyRole(EMERGENCY_ROLE)
-        */
+        view 
         validCommitmentId(_commitmentId)
+        returns (SignerInfo[] memory) 
     {
-        Commitment storage commitment = commitments[_commitmentId];
-        
-        require(
-            commitment.isFrozen,
-            "CommitmentChain: Not frozen"
+        return ParticipantLib.getSigners(
+            commitments[_commitmentId].signers,
+            _signerSignatures[_commitmentId]
         );
-        
-        commitment.isFrozen = false;
-        
-        emit CommitmentUnfrozen(
-            _commitmentId,
-            msg.sender,
-            block.timestamp
+    }
+    
+    /**
+     * @dev Get all witnesses with signature status / 获取所有见证者及其签名状态
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @return Witness info array / 见证者信息数组
+     */
+    function getWitnesses(uint256 _commitmentId) 
+        public 
+        view 
+        validCommitmentId(_commitmentId)
+        returns (WitnessInfo[] memory) 
+    {
+        return ParticipantLib.getWitnesses(
+            commitments[_commitmentId].witnesses,
+            witnessSigned[_commitmentId],
+            _witnessSignatures[_commitmentId]
         );
     }
     
     /**
-     * @dev Verify commitment / 验证承诺
-     * @notice Verifier marks commitment as "verified" / 验证员标记承诺为"已验证"
+     * @dev Get completion info / 获取完成信息
      * @param _commitmentId Commitment ID / 承诺 ID
-     * 
-     * Only addresses with VERIFIER_ROLE can call
-     * 只有拥有 VERIFIER_ROLE 的地址可以调用
+     * @return isCompleted Whether completed / 是否已完成
+     * @return completedAt Completion timestamp (0 if not completed) / 完成时间戳（未完成则为 0）
+     * @return completedBlock Completion block number (0 if not completed) / 完成区块高度（未完成则为 0）
      */
-    function verifyCommitment(uint256 _commitmentId) 
+    function getCompletionInfo(uint256 _commitmentId) 
         public 
-        /** 
-        onlyRole(VERIFIER_ROLE)
-        */
+        view 
         validCommitmentId(_commitmentId)
+        returns (bool isCompleted, uint256 completedAt, uint256 completedBlock) 
     {
         Commitment storage commitment = commitments[_commitmentId];
-        
-        require(
-            !commitment.isVerified,
-            "CommitmentChain: Already verified"
-        );
-        
-        require(
+        return (
             commitment.isCompleted,
-            "CommitmentChain: Not completed yet"
-        );
-        
-        commitment.isVerified = true;
-        
-        emit CommitmentVerified(
-            _commitmentId,
-            msg.sender,
-            block.timestamp
+            commitment.completion.timestamp,
+            commitment.completion.blockNumber
         );
     }
     
     /**
-     * @dev Pause contract / 暂停合约
-     * @notice Pause entire contract in emergency, cannot create or sign after paused
-     *         紧急情况下暂停整个合约，暂停后无法创建或签名
-     * 
-     * Only addresses with EMERGENCY_ROLE can call
-     * 只有拥有 EMERGENCY_ROLE 的地址可以调用
+     * @dev Get address role / 获取地址的角色
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _address Address to query / 要查询的地址
+     * @return Role name / 角色名称
      */
-    function pause() public onlyRole(EMERGENCY_ROLE) {
-        _pause();
+    function getRole(uint256 _commitmentId, address _address) 
+        public 
+        view 
+        validCommitmentId(_commitmentId)
+        returns (string memory) 
+    {
+        return ParticipantLib.getRole(commitments[_commitmentId], _address);
     }
     
     /**
-     * @dev Unpause contract / 恢复合约
-     * @notice Cancel paused state / 取消暂停状态
-     * 
-     * Only addresses with DEFAULT_ADMIN_ROLE can call
-     * 只有拥有 DEFAULT_ADMIN_ROLE 的地址可以调用
+     * @dev Get signer count / 获取签约者数量
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @return Signer count / 签约者数量
      */
-    function unpause() public onlyRole(DEFAULT_ADMIN_ROLE) {
-        _unpause();
+    function getSignerCount(uint256 _commitmentId) 
+        public 
+        view 
+        validCommitmentId(_commitmentId)
+        returns (uint256) 
+    {
+        return commitments[_commitmentId].signers.length;
     }
     
-    // ============================================================================
-    // Internal Helper Functions / 内部辅助函数
-    // ============================================================================
-    
     /**
-     * @dev Check if address is witness for specified commitment
-     *      检查地址是否为指定承诺的见证者
+     * @dev Get witness count / 获取见证者数量
      * @param _commitmentId Commitment ID / 承诺 ID
-     * @param _address Address to check / 要检查的地址
-     * @return Whether is witness / 是否为见证者
+     * @return Witness count / 见证者数量
      */
-    function _isWitness(uint256 _commitmentId, address _address) 
-        internal 
+    function getWitnessCount(uint256 _commitmentId) 
+        public 
         view 
-        returns (bool) 
+        validCommitmentId(_commitmentId)
+        returns (uint256) 
     {
-        Commitment storage commitment = commitments[_commitmentId];
-        for (uint i = 0; i < commitment.witnesses.length; i++) {
-            if (commitment.witnesses[i] == _address) {
-                return true;
-            }
-        }
-        return false;
+        return commitments[_commitmentId].witnesses.length;
     }
     
     /**
-     * @dev Check if commitment is completed / 检查承诺是否完成
-     * @notice If all participants have signed, mark as completed
-     *         如果所有参与者都已签名，标记为完成
+     * @dev Get witness signatures required for completion / 获取完成所需的见证者签名数
      * @param _commitmentId Commitment ID / 承诺 ID
+     * @return Required witness count / 所需见证者数量
      */
-    function _checkCompletion(uint256 _commitmentId) internal {
-        Commitment storage commitment = commitments[_commitmentId];
-        
-        // Check if everyone has signed / 检查是否所有人都已签名
-        if (commitment.initiatorSigned && 
-            commitment.signerSigned && 
-            commitment.witnessSignedCount == commitment.witnesses.length) 
-        {
-            commitment.isCompleted = true;
-            emit CommitmentCompleted(_commitmentId, block.timestamp);
-        }
+    function getWitnessThreshold(uint256 _commitmentId) 
+        public 
+        view 
+        validCommitmentId(_commitmentId)
+        returns (uint256) 
+    {
+        return _requiredWitnesses(_commitmentId);
     }
     
-    // ============================================================================
-    // Query Functions (View Functions) / 查询函数（View Functions）
-    // ============================================================================
-
     /**
-     * Get commitment details / 获取承诺详情
+     * @dev Get witnesses who have not signed / 获取未签名的见证者
+     * @notice After completion this is the final record of witnesses outside the quorum
+     *         完成后即为法定人数之外见证者的最终记录
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @return Unsigned witness addresses / 未签名的见证者地址
      */
-    function getCommitment(uint256 _commitmentId) 
+    function getUnsignedWitnesses(uint256 _commitmentId) 
         public 
         view 
         validCommitmentId(_commitmentId)
-        returns (
-            uint256 id,
-            address initiator,
-            address signer,
-            address[] memory witnesses,
-            string memory fileHash,
-            uint256 createdAt,
-            bool initiatorSigned,
-            bool signerSigned,
-            uint256 witnessSignedCount,
-            bool isCompleted,
-            bool isFrozen,
-            bool isVerified
-        ) 
+        returns (address[] memory) 
     {
-        Commitment storage commitment = commitments[_commitmentId];
-        return (
-            commitment.id,
-            commitment.initiator,
-            commitment.signer,
-            commitment.witnesses,
-            commitment.fileHash,
-            commitment.createdAt,
-            commitment.initiatorSigned,
-            commitment.signerSigned,
-            commitment.witnessSignedCount,
-            commitment.isCompleted,
-            commitment.isFrozen,
-            commitment.isVerified
+        return ParticipantLib.getUnsignedWitnesses(
+            commitments[_commitmentId].witnesses,
+            witnessSigned[_commitmentId],
+            commitments[_commitmentId].witnessSignedCount
         );
     }
     
     /**
-     * @dev Check if specific witness has signed / 检查特定见证者是否已签名
+     * @dev Get commitments involving an address, paginated / 分页获取与地址相关的承诺
+     * @notice IDs are in creation order; a replaced witness keeps its entry
+     *         ID 按创建顺序排列；被替换的见证者保留其记录
+     * @param _participant Participant address / 参与者地址
+     * @param _role Role of the participant / 参与者角色
+     * @param _offset Index of the first entry to return / 返回的第一条记录的索引
+     * @param _limit Maximum number of entries to return / 返回的最大记录数
+     * @return ids Commitment IDs in the requested page / 当前页的承诺 ID
+     * @return total Total number of entries for this address and role / 该地址和角色的记录总数
+     */
+    function getCommitmentsByParticipant(
+        address _participant,
+        ParticipantRole _role,
+        uint256 _offset,
+        uint256 _limit
+    ) 
+        public 
+        view 
+        returns (uint256[] memory ids, uint256 total) 
+    {
+        uint256[] storage index = _commitmentsByParticipant[_participant][_role];
+        return (ParticipantLib.paginate(index, _offset, _limit), index.length);
+    }
+    
+    /**
+     * @dev Get organization of a commitment / 获取承诺所属的组织
      * @param _commitmentId Commitment ID / 承诺 ID
-     * @param _witness Witness address / 见证者地址
-     * @return Whether signed / 是否已签名
+     * @return Organization ID (0 = none) / 组织 ID（0 表示无组织）
      */
-    function hasWitnessSigned(uint256 _commitmentId, address _witness) 
+    function getCommitmentOrganization(uint256 _commitmentId) 
         public 
         view 
         validCommitmentId(_commitmentId)
-        returns (bool) 
+        returns (uint256) 
     {
-        return witnessSigned[_commitmentId][_witness];
+        return commitments[_commitmentId].organizationId;
     }
     
     /**
-     * @dev Get address role / 获取地址的角色
+     * @dev Get commitments of an organization, paginated / 分页获取组织的承诺
+     * @param _organizationId Organization ID (0 = commitments without organization) / 组织 ID（0 表示无组织的承诺）
+     * @param _offset Index of the first entry to return / 返回的第一条记录的索引
+     * @param _limit Maximum number of entries to return / 返回的最大记录数
+     * @return ids Commitment IDs in the requested page / 当前页的承诺 ID
+     * @return total Number of commitments in the organization / 该组织的承诺总数
+     */
+    function getCommitmentsByOrganization(
+        uint256 _organizationId,
+        uint256 _offset,
+        uint256 _limit
+    ) 
+        public 
+        view 
+        returns (uint256[] memory ids, uint256 total) 
+    {
+        uint256[] storage index = _commitmentsByOrganization[_organizationId];
+        return (ParticipantLib.paginate(index, _offset, _limit), index.length);
+    }
+    
+    /**
+     * @dev Get legacy commitments registered with a string file hash / 获取使用旧版字符串文件哈希登记的承诺
+     * @param _fileHash Legacy file hash / 旧版文件哈希值
+     * @return Commitment IDs in creation order (empty if never registered) / 按创建顺序排列的承诺 ID（未登记则为空）
+     */
+    function getCommitmentsByFileHash(string calldata _fileHash) public view returns (uint256[] memory) {
+        return _commitmentsByFileHash[_fileHash];
+    }
+    
+    /**
+     * @dev Get commitments registered with a file digest / 获取使用某文件摘要登记的承诺
+     * @param _fileDigest File digest / 文件摘要
+     * @return Commitment IDs in creation order (empty if never registered) / 按创建顺序排列的承诺 ID（未登记则为空）
+     */
+    function getCommitmentsByFileDigest(bytes32 _fileDigest) public view returns (uint256[] memory) {
+        return _commitmentsByFileDigest[_fileDigest];
+    }
+    
+    /**
+     * @dev Get file digest and its algorithm / 获取文件摘要及其算法
      * @param _commitmentId Commitment ID / 承诺 ID
-     * @param _address Address to query / 要查询的地址
-     * @return Role name / 角色名称
+     * @return fileDigest File digest (0 for legacy commitments, see getCommitment().fileHash)
+     *         文件摘要（旧版承诺为 0，见 getCommitment().fileHash）
+     * @return hashAlgorithm Algorithm of the digest (Legacy for legacy commitments) / 摘要的算法（旧版承诺为 Legacy）
      */
-    function getRole(uint256 _commitmentId, address _address) 
+    function getFileDigest(uint256 _commitmentId) 
         public 
         view 
         validCommitmentId(_commitmentId)
-        returns (string memory) 
+        returns (bytes32 fileDigest, HashAlgorithm hashAlgorithm) 
     {
         Commitment storage commitment = commitments[_commitmentId];
-        
-        if (_address == commitment.initiator) {
-            return "initiator";
-        } else if (_address == commitment.signer) {
-            return "signer";
-        } else if (_isWitness(_commitmentId, _address)) {
-            return "witness";
-        } else {
-            return "none";
-        }
+        return (commitment.fileDigest, commitment.hashAlgorithm);
     }
     
     /**
-     * @dev Get witness count / 获取见证者数量
+     * @dev Get the IPFS CID of the document / 获取文件的 IPFS CID
      * @param _commitmentId Commitment ID / 承诺 ID
-     * @return Witness count / 见证者数量
+     * @return codec Multicodec of the CIDv1 (0 = no CID) / CIDv1 的 multicodec（0 表示无 CID）
+     * @return digest sha2-256 digest of the CID multihash / CID multihash 中的 sha2-256 摘要
      */
-    function getWitnessCount(uint256 _commitmentId) 
+    function getContentCid(uint256 _commitmentId) 
         public 
         view 
         validCommitmentId(_commitmentId)
-        returns (uint256) 
+        returns (uint64 codec, bytes32 digest) 
     {
-        return commitments[_commitmentId].witnesses.length;
+        Commitment storage commitment = commitments[_commitmentId];
+        return (commitment.cidCodec, commitment.cidDigest);
+    }
+    
+    /**
+     * @dev Verify a document is included in a Merkle commitment / 验证文件是否包含在 Merkle 承诺中
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _leafHash Document hash (hashed once more into the leaf) / 文件哈希（再哈希一次作为叶子）
+     * @param _proof Sibling hashes from leaf to root / 从叶子到根的兄弟节点哈希
+     * @return Whether the proof leads to the anchored root / 证明是否能推导出已锚定的根
+     * 
+     * Requirements / 要求：
+     * - Commitment was created with createMerkleCommitment / 承诺由 createMerkleCommitment 创建
+     */
+    function verifyInclusion(uint256 _commitmentId, bytes32 _leafHash, bytes32[] calldata _proof) 
+        public 
+        view 
+        validCommitmentId(_commitmentId)
+        returns (bool) 
+    {
+        return LifecycleLib.verifyInclusion(commitments[_commitmentId], _leafHash, _proof);
     }
     
     /**
@@ -881,10 +2412,56 @@ contract CommitmentChain is
     // Upgradeability Related Functions / 可升级性相关函数
     // ============================================================================
     
+    /**
+     * @dev Propose upgrade / 提议升级
+     * @notice Starts the timelock; the upgrade can be executed with upgradeToAndCall once
+     *         upgradeReadyAt has passed
+     *         启动时间锁；到达 upgradeReadyAt 后可通过 upgradeToAndCall 执行升级
+     * @param _implementation New implementation contract address / 新实现合约的地址
+     * 
+     * Requirements / 要求：
+     * - Caller must have DEFAULT_ADMIN_ROLE / 调用者必须拥有 DEFAULT_ADMIN_ROLE
+     * - Implementation is a contract / 实现合约地址必须是合约
+     * - No other upgrade pending / 没有其他待执行的升级
+     */
+    function proposeUpgrade(address _implementation) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        upgradeReadyAt = UpgradeLib.proposeUpgrade(_implementation, pendingImplementation, upgradeDelay);
+        pendingImplementation = _implementation;
+    }
+    
+    /**
+     * @dev Cancel pending upgrade / 取消待执行的升级
+     * 
+     * Requirements / 要求：
+     * - Caller must have DEFAULT_ADMIN_ROLE / 调用者必须拥有 DEFAULT_ADMIN_ROLE
+     * - An upgrade is pending / 存在待执行的升级
+     */
+    function cancelUpgrade() public onlyRole(DEFAULT_ADMIN_ROLE) {
+        UpgradeLib.cancelUpgrade(pendingImplementation);
+        
+        delete pendingImplementation;
+        delete upgradeReadyAt;
+    }
+    
+    /**
+     * @dev Set upgrade delay / 设置升级延迟
+     * @notice Applies to upgrades proposed afterwards / 对之后提议的升级生效
+     * @param _delay New delay in seconds / 新的延迟（秒）
+     * 
+     * Requirements / 要求：
+     * - Caller must have DEFAULT_ADMIN_ROLE / 调用者必须拥有 DEFAULT_ADMIN_ROLE
+     * - Delay not below MIN_UPGRADE_DELAY / 延迟不低于 MIN_UPGRADE_DELAY
+     */
+    function setUpgradeDelay(uint256 _delay) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        UpgradeLib.setUpgradeDelay(upgradeDelay, _delay);
+        upgradeDelay = _delay;
+    }
+    
     /**
      * @dev Authorize upgrade / 授权升级
-     * @notice Only addresses with DEFAULT_ADMIN_ROLE can upgrade contract
-     *         只有拥有 DEFAULT_ADMIN_ROLE 的地址可以升级合约
+     * @notice Only addresses with DEFAULT_ADMIN_ROLE can upgrade contract, and only to the
+     *         proposed implementation after its timelock has expired
+     *         只有拥有 DEFAULT_ADMIN_ROLE 的地址可以升级合约，且只能在时间锁到期后升级到已提议的实现合约
      * @param newImplementation New implementation contract address / 新实现合约的地址
      * 
      * This is the core function of UUPS proxy pattern
@@ -895,18 +2472,13 @@ contract CommitmentChain is
     function _authorizeUpgrade(address newImplementation) 
         internal 
         override 
-       /// onlyRole(DEFAULT_ADMIN_ROLE) 
+        onlyRole(DEFAULT_ADMIN_ROLE) 
     {
-        // Can add extra upgrade validation logic here
-        // 可以在这里添加额外的升级验证逻辑
-        // Example: timelock, multisig validation, etc.
-        // 例如：时间锁、多签验证等
+        UpgradeLib.authorizeUpgrade(newImplementation, pendingImplementation, upgradeReadyAt);
         
-        emit ContractUpgraded(
-            address(this),
-            newImplementation,
-            block.timestamp
-        );
+        // Consume the proposal / 消耗本次提议
+        delete pendingImplementation;
+        delete upgradeReadyAt;
     }
     
     /**
@@ -0,0 +1,202 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IAccessControl} from "@openzeppelin/contracts/access/IAccessControl.sol";
+
+/**
+ * @title ProfileRegistry
+ * @notice Identifies role holders of CommitmentChain (badge / bar number, issuing organization,
+ *         credential document) so auditors know which officer or lawyer an address belongs to
+ *         标识 CommitmentChain 角色持有人（警号 / 律师执业证号、发证机构、资质文件），
+ *         使审计人员知道某个地址属于哪位警官或律师
+ * @dev Separate contract: CommitmentChain is close to the 24KB size limit. Permissions are read
+ *      from CommitmentChain, so whoever administers a role (e.g. BAR_ADMIN_ROLE for LAWYER_ROLE)
+ *      maintains the profiles of its members
+ *      独立合约：CommitmentChain 已接近 24KB 大小限制。权限从 CommitmentChain 读取，
+ *      因此角色的管理者（例如 LAWYER_ROLE 的 BAR_ADMIN_ROLE）负责维护其成员的档案
+ *
+ * Privacy / 隐私：
+ * - Only the hash of the display name is stored; the name itself stays off-chain
+ *   只存储姓名的哈希，姓名本身保存在链下
+ */
+contract ProfileRegistry {
+
+    // ============================================================================
+    // Data Structures / 数据结构
+    // ============================================================================
+
+    /**
+     * @dev Role holder profile / 角色持有人档案
+     */
+    struct Profile {
+        bytes32 role;               // Role the profile was issued for / 档案对应的角色
+        bytes32 displayNameHash;    // Hash of display name / 姓名的哈希
+        string badgeNumber;         // Badge or bar number / 警号或律师执业证号
+        string organization;        // Issuing organization / 发证机构
+        bytes32 credentialHash;     // Hash of credential document / 资质文件的哈希
+        address updatedBy;          // Last role admin to update / 最后更新的角色管理员
+        uint256 updatedAt;          // Last update time (0 = no profile) / 最后更新时间（0 表示无档案）
+    }
+
+    // ============================================================================
+    // State Variables / 状态变量
+    // ============================================================================
+
+    /// @dev CommitmentChain proxy whose roles are profiled / 被建档角色所在的 CommitmentChain 代理合约
+    IAccessControl public immutable commitmentChain;
+
+    /// @dev Account => profile / 账户 => 档案
+    mapping(address => Profile) private _profiles;
+
+    // ============================================================================
+    // Events / 事件
+    // ============================================================================
+
+    /**
+     * @dev Profile created or updated event / 档案创建或更新事件
+     */
+    event ProfileUpdated(
+        address indexed account,
+        bytes32 indexed role,
+        address indexed updatedBy,
+        uint256 timestamp
+    );
+
+    /**
+     * @dev Profile removed event / 档案删除事件
+     */
+    event ProfileRemoved(
+        address indexed account,
+        bytes32 indexed role,
+        address indexed removedBy,
+        uint256 timestamp
+    );
+
+    // ============================================================================
+    // Modifiers / 修饰器
+    // ============================================================================
+
+    /**
+     * @dev Caller must hold the admin role of `_role` on CommitmentChain
+     *      调用者必须在 CommitmentChain 上拥有 `_role` 的管理角色
+     */
+    modifier onlyRoleAdmin(bytes32 _role) {
+        require(
+            commitmentChain.hasRole(commitmentChain.getRoleAdmin(_role), msg.sender),
+            "ProfileRegistry: Not role admin"
+        );
+        _;
+    }
+
+    /**
+     * @param _commitmentChain CommitmentChain proxy address / CommitmentChain 代理合约地址
+     */
+    constructor(address _commitmentChain) {
+        require(_commitmentChain != address(0), "ProfileRegistry: Invalid CommitmentChain address");
+        commitmentChain = IAccessControl(_commitmentChain);
+    }
+
+    // ============================================================================
+    // Profile Management / 档案管理
+    // ============================================================================
+
+    /**
+     * @dev Create or update a profile / 创建或更新档案
+     * @param _account Role holder / 角色持有人
+     * @param _role Role the profile is issued for / 档案对应的角色
+     * @param _displayNameHash Hash of display name / 姓名的哈希
+     * @param _badgeNumber Badge or bar number / 警号或律师执业证号
+     * @param _organization Issuing organization / 发证机构
+     * @param _credentialHash Hash of credential document / 资质文件的哈希
+     *
+     * Requirements / 要求：
+     * - Caller administers `_role` / 调用者管理 `_role`
+     * - Account holds `_role` / 账户拥有 `_role`
+     * - An existing profile for another role can only be replaced by that role's admin too
+     *   其他角色的已有档案，只有同时管理该角色的调用者才能替换
+     */
+    function setProfile(
+        address _account,
+        bytes32 _role,
+        bytes32 _displayNameHash,
+        string calldata _badgeNumber,
+        string calldata _organization,
+        bytes32 _credentialHash
+    )
+        external
+        onlyRoleAdmin(_role)
+    {
+        require(
+            commitmentChain.hasRole(_role, _account),
+            "ProfileRegistry: Account does not hold role"
+        );
+
+        Profile storage profile = _profiles[_account];
+        if (profile.updatedAt != 0 && profile.role != _role) {
+            require(
+                commitmentChain.hasRole(commitmentChain.getRoleAdmin(profile.role), msg.sender),
+                "ProfileRegistry: Not role admin"
+            );
+        }
+
+        profile.role = _role;
+        profile.displayNameHash = _displayNameHash;
+        profile.badgeNumber = _badgeNumber;
+        profile.organization = _organization;
+        profile.credentialHash = _credentialHash;
+        profile.updatedBy = msg.sender;
+        profile.updatedAt = block.timestamp;
+
+        emit ProfileUpdated(_account, _role, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Remove a profile / 删除档案
+     * @param _account Role holder / 角色持有人
+     *
+     * Requirements / 要求：
+     * - Profile exists / 档案存在
+     * - Caller administers the profile's role / 调用者管理该档案对应的角色
+     */
+    function removeProfile(address _account) external {
+        bytes32 role = _profiles[_account].role;
+        require(
+            _profiles[_account].updatedAt != 0,
+            "ProfileRegistry: No profile"
+        );
+        require(
+            commitmentChain.hasRole(commitmentChain.getRoleAdmin(role), msg.sender),
+            "ProfileRegistry: Not role admin"
+        );
+
+        delete _profiles[_account];
+
+        emit ProfileRemoved(_account, role, msg.sender, block.timestamp);
+    }
+
+    // ============================================================================
+    // Query Functions (View Functions) / 查询函数（View Functions）
+    // ============================================================================
+
+    /**
+     * @dev Get profile / 获取档案
+     * @param _account Role holder / 角色持有人
+     * @return Profile (updatedAt is 0 if none) / 档案（无档案时 updatedAt 为 0）
+     */
+    function getProfile(address _account) external view returns (Profile memory) {
+        return _profiles[_account];
+    }
+
+    /**
+     * @dev Get profiles of several accounts, e.g. all participants of a commitment
+     *      批量获取档案，例如某个承诺的所有参与者
+     * @param _accounts Accounts / 账户列表
+     * @return profiles Profiles in the same order / 顺序相同的档案列表
+     */
+    function getProfiles(address[] calldata _accounts) external view returns (Profile[] memory profiles) {
+        profiles = new Profile[](_accounts.length);
+        for (uint i = 0; i < _accounts.length; i++) {
+            profiles[i] = _profiles[_accounts[i]];
+        }
+    }
+}
@@ -0,0 +1,563 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import {CommitmentChain} from "../CommitmentChain.sol";
+import {ReviewLib} from "./ReviewLib.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+
+/**
+ * @title LifecycleLib
+ * @notice Creation, amendment, cancellation, deadline and status logic for CommitmentChain
+ *         CommitmentChain 的创建、修订、取消、截止时间及状态逻辑
+ * @dev External library linked like ParticipantLib and ReviewLib. CommitmentChain passes in
+ *      anything that needs its own state (roles, derived status)
+ *      与 ParticipantLib 和 ReviewLib 一样以外部库方式链接。需要 CommitmentChain 自身状态的信息
+ *      （角色、推导出的状态）由其作为参数传入
+ */
+library LifecycleLib {
+
+    /// @dev Multicodec of a single raw IPFS block / 单个 raw IPFS 块的 multicodec
+    uint64 private constant CID_CODEC_RAW = 0x55;
+
+    /// @dev Multicodec of a dag-pb (UnixFS) IPFS node / dag-pb（UnixFS）IPFS 节点的 multicodec
+    uint64 private constant CID_CODEC_DAG_PB = 0x70;
+
+    /**
+     * @dev Check if signing deadline has passed without completion / 检查是否在完成前已过签名截止时间
+     * @param _commitment Commitment / 承诺
+     * @return Whether expired / 是否已过期
+     */
+    function isExpired(CommitmentChain.Commitment storage _commitment) internal view returns (bool) {
+        return _commitment.signingDeadline != 0 &&
+            block.timestamp > _commitment.signingDeadline &&
+            !_commitment.isCompleted;
+    }
+
+    /**
+     * @dev Check that a commitment is still open / 检查承诺是否仍处于开放状态
+     * @param _commitment Commitment / 承诺
+     *
+     * Requirements / 要求：
+     * - Not frozen, cancelled or declined / 未被冻结、取消或拒绝
+     */
+    function requireOpen(CommitmentChain.Commitment storage _commitment) public view {
+        require(
+            !ReviewLib.isFrozen(_commitment),
+            "CommitmentChain: Commitment is frozen"
+        );
+        require(
+            !_commitment.isCancelled,
+            "CommitmentChain: Commitment is cancelled"
+        );
+        require(
+            !_commitment.isDeclined,
+            "CommitmentChain: Commitment is declined"
+        );
+    }
+
+    /**
+     * @dev Check that a commitment accepts signatures / 检查承诺是否接受签名
+     * @param _commitment Commitment / 承诺
+     *
+     * Requirements / 要求：
+     * - Open (see requireOpen) and not expired / 处于开放状态（见 requireOpen）且未过期
+     */
+    function requireSignable(CommitmentChain.Commitment storage _commitment) public view {
+        requireOpen(_commitment);
+        require(
+            !isExpired(_commitment),
+            "CommitmentChain: Signing deadline passed"
+        );
+    }
+
+    /**
+     * @dev Derive lifecycle status / 推导生命周期状态
+     * @notice Single source of truth for status; terminal and overriding states are checked first
+     *         状态的唯一来源；优先检查终止状态和覆盖状态
+     * @param _commitment Commitment / 承诺
+     * @return Lifecycle status / 生命周期状态
+     */
+    function getStatus(CommitmentChain.Commitment storage _commitment)
+        public
+        view
+        returns (CommitmentChain.CommitmentStatus)
+    {
+        if (_commitment.isCancelled) {
+            return CommitmentChain.CommitmentStatus.Cancelled;
+        }
+        if (_commitment.isDeclined) {
+            return CommitmentChain.CommitmentStatus.Declined;
+        }
+        if (ReviewLib.isFrozen(_commitment)) {
+            return CommitmentChain.CommitmentStatus.Frozen;
+        }
+        if (_commitment.isSuperseded) {
+            return CommitmentChain.CommitmentStatus.Superseded;
+        }
+        if (_commitment.isDisputed) {
+            return CommitmentChain.CommitmentStatus.Disputed;
+        }
+        if (_commitment.isVerified) {
+            return CommitmentChain.CommitmentStatus.Verified;
+        }
+        if (_commitment.isCompleted) {
+            return CommitmentChain.CommitmentStatus.Completed;
+        }
+        if (isExpired(_commitment)) {
+            return CommitmentChain.CommitmentStatus.Expired;
+        }
+        if (_commitment.signerSignedCount > 0 || _commitment.witnessSignedCount > 0) {
+            return CommitmentChain.CommitmentStatus.PartiallySigned;
+        }
+        return CommitmentChain.CommitmentStatus.Pending;
+    }
+
+    /**
+     * @dev Document digest bound by typed signatures / 类型化签名所绑定的文件摘要
+     * @notice Legacy commitments hash their string file hash, which is how EIP-712 encoded the
+     *         former `string fileHash` field
+     *         旧版承诺对其字符串文件哈希取哈希，与 EIP-712 此前对 `string fileHash` 字段的编码方式相同
+     * @param _commitment Commitment / 承诺
+     * @return Digest to sign / 用于签名的摘要
+     */
+    function signedDigest(CommitmentChain.Commitment storage _commitment) internal view returns (bytes32) {
+        return _commitment.hashAlgorithm == CommitmentChain.HashAlgorithm.Legacy
+            ? keccak256(bytes(_commitment.fileHash))
+            : _commitment.fileDigest;
+    }
+
+    /**
+     * @dev Initialize a new commitment / 初始化新承诺
+     * @notice The initiator signs automatically and the commitment is indexed by file digest and
+     *         organization; participant indexing and the completion check stay in CommitmentChain
+     *         发起人自动签名，承诺按文件摘要和组织建立索引；参与者索引和完成检查保留在 CommitmentChain 中
+     * @param _commitment Empty commitment slot / 空的承诺存储位置
+     * @param _byFileDigest File digest => commitment IDs / 文件摘要 => 承诺 ID
+     * @param _byOrganization Organization ID => commitment IDs / 组织 ID => 承诺 ID
+     * @param _uniqueFileHash Whether a file digest may only be registered once / 文件摘要是否只能登记一次
+     * @param _commitmentId New commitment ID / 新承诺 ID
+     * @param _fileDigest File digest / 文件摘要
+     * @param _hashAlgorithm Algorithm that produced the digest / 生成摘要的算法
+     * @param _signers Validated signer address array / 已验证的签约者地址数组
+     * @param _witnesses Validated witness address array / 已验证的见证者地址数组
+     * @param _witnessThreshold Witness signatures required (0 = all) / 所需见证者签名数（0 表示全部）
+     * @param _deadline Signing deadline timestamp (0 = no deadline) / 签名截止时间戳（0 表示无截止时间）
+     * @param _organizationId Organization of the initiator (0 = none) / 发起人所属组织（0 表示无组织）
+     *
+     * Requirements / 要求：
+     * - File digest not zero, and not registered yet when unique hashes are required
+     *   文件摘要不为零，且在要求唯一哈希时尚未登记
+     * - Algorithm is not Legacy / 算法不是 Legacy
+     * - Deadline is 0 or in the future / 截止时间为 0 或在未来
+     */
+    function create(
+        CommitmentChain.Commitment storage _commitment,
+        mapping(bytes32 => uint256[]) storage _byFileDigest,
+        mapping(uint256 => uint256[]) storage _byOrganization,
+        bool _uniqueFileHash,
+        uint256 _commitmentId,
+        bytes32 _fileDigest,
+        CommitmentChain.HashAlgorithm _hashAlgorithm,
+        address[] memory _signers,
+        address[] memory _witnesses,
+        uint256 _witnessThreshold,
+        uint256 _deadline,
+        uint256 _organizationId
+    )
+        public
+    {
+        // Validate file digest; Legacy only describes commitments created before digests
+        // 验证文件摘要；Legacy 仅用于描述引入摘要之前创建的承诺
+        require(
+            _fileDigest != bytes32(0),
+            "CommitmentChain: File hash cannot be empty"
+        );
+        require(
+            _hashAlgorithm != CommitmentChain.HashAlgorithm.Legacy,
+            "CommitmentChain: Invalid hash algorithm"
+        );
+        require(
+            !_uniqueFileHash || _byFileDigest[_fileDigest].length == 0,
+            "CommitmentChain: File hash already registered"
+        );
+
+        // Validate deadline / 验证截止时间
+        require(
+            _deadline == 0 || _deadline > block.timestamp,
+            "CommitmentChain: Deadline must be in the future"
+        );
+
+        _commitment.id = _commitmentId;
+        _commitment.initiator = msg.sender;
+        _commitment.signer = _signers[0];
+        _commitment.signers = _signers;
+        _commitment.witnesses = _witnesses;
+        _commitment.fileDigest = _fileDigest;
+        _commitment.hashAlgorithm = _hashAlgorithm;
+        _commitment.createdAt = block.timestamp;
+        _commitment.initiatorSigned = true;  // Initiator automatically signs / 发起人自动签名
+        _commitment.initiatorSignature = CommitmentChain.SignatureRecord(block.timestamp, block.number);
+        _commitment.signingDeadline = _deadline;
+        _commitment.witnessThreshold = _witnessThreshold;
+        _commitment.organizationId = _organizationId;
+
+        _byFileDigest[_fileDigest].push(_commitmentId);
+        _byOrganization[_organizationId].push(_commitmentId);
+
+        emit CommitmentChain.CommitmentCreated(
+            _commitmentId,
+            msg.sender,
+            _signers[0],
+            _fileDigest,
+            _hashAlgorithm,
+            block.timestamp
+        );
+
+        emit CommitmentChain.CommitmentSigned(
+            _commitmentId,
+            msg.sender,
+            "initiator",
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Anchor a Merkle root on a new commitment / 为新承诺锚定 Merkle 根
+     * @param _commitment Newly created commitment / 新创建的承诺
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _merkleRoot Root over the document hashes / 文件哈希的 Merkle 根
+     * @param _leafCount Number of documents under the root / 根下的文件数量
+     *
+     * Requirements / 要求：
+     * - At least one document (a zero root is already rejected as an empty file digest)
+     *   至少一个文件（零根已作为空文件摘要被拒绝）
+     */
+    function anchorMerkleRoot(
+        CommitmentChain.Commitment storage _commitment,
+        uint256 _commitmentId,
+        bytes32 _merkleRoot,
+        uint256 _leafCount
+    )
+        public
+    {
+        require(
+            _leafCount > 0,
+            "CommitmentChain: Leaf count cannot be zero"
+        );
+
+        _commitment.merkleRoot = _merkleRoot;
+
+        emit CommitmentChain.MerkleRootAnchored(_commitmentId, _merkleRoot, _leafCount, block.timestamp);
+    }
+
+    /**
+     * @dev Verify a Merkle inclusion proof / 验证 Merkle 包含证明
+     * @notice Leaves are keccak256(document hash), so a leaf can never be mistaken for an
+     *         inner node (keccak256 of two hashes); inner nodes hash the sorted pair
+     *         叶子为 keccak256(文件哈希)，因此叶子不会与内部节点（两个哈希的 keccak256）混淆；内部节点对排序后的哈希对求哈希
+     * @param _commitment Commitment / 承诺
+     * @param _leafHash Document hash / 文件哈希
+     * @param _proof Sibling hashes from leaf to root / 从叶子到根的兄弟节点哈希
+     * @return Whether the proof leads to the anchored root / 证明是否能推导出已锚定的根
+     *
+     * Requirements / 要求：
+     * - Commitment has a Merkle root / 承诺有 Merkle 根
+     */
+    function verifyInclusion(
+        CommitmentChain.Commitment storage _commitment,
+        bytes32 _leafHash,
+        bytes32[] calldata _proof
+    )
+        public
+        view
+        returns (bool)
+    {
+        require(
+            _commitment.merkleRoot != bytes32(0),
+            "CommitmentChain: Not a Merkle commitment"
+        );
+
+        return MerkleProof.verifyCalldata(_proof, _commitment.merkleRoot, keccak256(abi.encodePacked(_leafHash)));
+    }
+
+    /**
+     * @dev Check that a commitment can be amended by the caller / 检查调用者是否可以修订承诺
+     * @param _commitments Commitment storage / 承诺存储
+     * @param _parentId Commitment being amended / 被修订的承诺
+     *
+     * Requirements / 要求：
+     * - Caller is parent's initiator / 调用者是父承诺的发起人
+     * - Parent is Completed, Verified or Disputed / 父承诺已完成、已验证或处于争议中
+     * - Parent has no amendment in progress / 父承诺没有进行中的修订
+     */
+    function requireAmendable(
+        mapping(uint256 => CommitmentChain.Commitment) storage _commitments,
+        uint256 _parentId
+    )
+        public
+        view
+    {
+        CommitmentChain.Commitment storage parent = _commitments[_parentId];
+
+        require(
+            msg.sender == parent.initiator,
+            "CommitmentChain: Not the initiator"
+        );
+
+        CommitmentChain.CommitmentStatus parentStatus = getStatus(parent);
+        require(
+            parentStatus == CommitmentChain.CommitmentStatus.Completed ||
+            parentStatus == CommitmentChain.CommitmentStatus.Verified ||
+            parentStatus == CommitmentChain.CommitmentStatus.Disputed,
+            "CommitmentChain: Parent not completed"
+        );
+
+        // Only one amendment in progress at a time; a cancelled or expired one can be retried
+        // 同一时间只能有一个进行中的修订；已取消或已过期的修订可以重新发起
+        if (parent.amendmentId != 0) {
+            CommitmentChain.CommitmentStatus amendmentStatus = getStatus(_commitments[parent.amendmentId]);
+            require(
+                amendmentStatus == CommitmentChain.CommitmentStatus.Cancelled ||
+                amendmentStatus == CommitmentChain.CommitmentStatus.Expired,
+                "CommitmentChain: Amendment already in progress"
+            );
+        }
+    }
+
+    /**
+     * @dev Link a new amendment to its parent / 将新修订链接到父承诺
+     * @param _commitments Commitment storage / 承诺存储
+     * @param _amendmentsOf Parent ID => all amendment IDs / 父承诺 ID => 所有修订 ID
+     * @param _parentId Commitment being amended / 被修订的承诺
+     * @param _childId Newly created amendment / 新创建的修订
+     */
+    function linkAmendment(
+        mapping(uint256 => CommitmentChain.Commitment) storage _commitments,
+        mapping(uint256 => uint256[]) storage _amendmentsOf,
+        uint256 _parentId,
+        uint256 _childId
+    )
+        public
+    {
+        _commitments[_childId].parentId = _parentId;
+        _commitments[_parentId].amendmentId = _childId;
+        _amendmentsOf[_parentId].push(_childId);
+
+        emit CommitmentChain.CommitmentAmended(_parentId, _childId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Cancel a commitment / 取消承诺
+     * @param _commitment Commitment being cancelled / 被取消的承诺
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _reasonHash Hash of the cancellation reason / 取消原因的哈希
+     * @param _callerIsAdmin Whether the caller has DEFAULT_ADMIN_ROLE / 调用者是否拥有 DEFAULT_ADMIN_ROLE
+     *
+     * Requirements / 要求：
+     * - Commitment open (see requireOpen) / 承诺处于开放状态（见 requireOpen）
+     * - Caller is initiator or admin / 调用者是发起人或管理员
+     * - Commitment not completed / 承诺尚未完成
+     */
+    function cancel(
+        CommitmentChain.Commitment storage _commitment,
+        uint256 _commitmentId,
+        bytes32 _reasonHash,
+        bool _callerIsAdmin
+    )
+        public
+    {
+        requireOpen(_commitment);
+
+        // Verify caller is initiator or admin / 验证调用者是发起人或管理员
+        require(
+            msg.sender == _commitment.initiator || _callerIsAdmin,
+            "CommitmentChain: Not initiator or admin"
+        );
+
+        // Completed commitments cannot be cancelled / 已完成的承诺不能取消
+        require(
+            !_commitment.isCompleted,
+            "CommitmentChain: Already completed"
+        );
+
+        // Record cancellation / 记录取消
+        _commitment.isCancelled = true;
+        _commitment.cancelledBy = msg.sender;
+        _commitment.cancelReasonHash = _reasonHash;
+        _commitment.cancelledAt = block.timestamp;
+
+        emit CommitmentChain.CommitmentCancelled(
+            _commitmentId,
+            msg.sender,
+            _reasonHash,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Extend the signing deadline / 延长签名截止时间
+     * @param _commitment Commitment to extend / 要延长的承诺
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _status Current lifecycle status / 当前生命周期状态
+     * @param _newDeadline New deadline timestamp / 新的截止时间戳
+     *
+     * Requirements / 要求：
+     * - Caller is initiator / 调用者是发起人
+     * - Commitment has a deadline and is still Pending or PartiallySigned / 承诺有截止时间且仍处于待签名或部分签名状态
+     * - New deadline later than current deadline / 新截止时间晚于当前截止时间
+     */
+    function extendDeadline(
+        CommitmentChain.Commitment storage _commitment,
+        uint256 _commitmentId,
+        CommitmentChain.CommitmentStatus _status,
+        uint256 _newDeadline
+    )
+        public
+    {
+        require(
+            msg.sender == _commitment.initiator,
+            "CommitmentChain: Not the initiator"
+        );
+
+        require(
+            _commitment.signingDeadline != 0,
+            "CommitmentChain: No deadline set"
+        );
+
+        require(
+            _status == CommitmentChain.CommitmentStatus.Pending ||
+            _status == CommitmentChain.CommitmentStatus.PartiallySigned,
+            "CommitmentChain: Commitment not pending"
+        );
+
+        require(
+            _newDeadline > _commitment.signingDeadline,
+            "CommitmentChain: New deadline must be later"
+        );
+
+        uint256 oldDeadline = _commitment.signingDeadline;
+        _commitment.signingDeadline = _newDeadline;
+
+        emit CommitmentChain.DeadlineExtended(
+            _commitmentId,
+            oldDeadline,
+            _newDeadline,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Attach the IPFS CID of the document / 关联文件的 IPFS CID
+     * @notice A raw CID hashes the whole file, so it can be checked against a SHA-256 file digest;
+     *         a dag-pb CID hashes the UnixFS root node, as does an IPFS multihash file digest.
+     *         Other combinations can only be checked off-chain
+     *         raw CID 对整个文件求哈希，因此可与 SHA-256 文件摘要核对；dag-pb CID 与 IPFS multihash 文件摘要
+     *         一样是 UnixFS 根节点的哈希。其他组合只能在链下核对
+     * @param _commitment Commitment / 承诺
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _status Current lifecycle status / 当前生命周期状态
+     * @param _codec Multicodec of the CIDv1 / CIDv1 的 multicodec
+     * @param _digest sha2-256 digest of the CID multihash / CID multihash 中的 sha2-256 摘要
+     *
+     * Requirements / 要求：
+     * - Caller is initiator / 调用者是发起人
+     * - Commitment still Pending and has no CID yet / 承诺仍处于待签名状态且尚未关联 CID
+     * - Single-document commitment / 单文件承诺
+     * - Codec is raw or dag-pb and digest not empty / codec 为 raw 或 dag-pb 且摘要不为空
+     * - A raw CID matches a SHA-256 file digest / raw CID 与 SHA-256 文件摘要一致
+     * - A dag-pb CID matches an IPFS multihash file digest / dag-pb CID 与 IPFS multihash 文件摘要一致
+     */
+    function setContentCid(
+        CommitmentChain.Commitment storage _commitment,
+        uint256 _commitmentId,
+        CommitmentChain.CommitmentStatus _status,
+        uint64 _codec,
+        bytes32 _digest
+    )
+        public
+    {
+        require(
+            msg.sender == _commitment.initiator,
+            "CommitmentChain: Not the initiator"
+        );
+
+        require(
+            _status == CommitmentChain.CommitmentStatus.Pending,
+            "CommitmentChain: Commitment not pending"
+        );
+
+        require(
+            _commitment.cidCodec == 0,
+            "CommitmentChain: CID already set"
+        );
+
+        require(
+            _commitment.merkleRoot == bytes32(0),
+            "CommitmentChain: Not a single-document commitment"
+        );
+
+        require(
+            (_codec == CID_CODEC_RAW || _codec == CID_CODEC_DAG_PB) && _digest != bytes32(0),
+            "CommitmentChain: Invalid CID"
+        );
+
+        // A SHA-256 digest hashes the whole file like a raw CID; an IPFS multihash digest
+        // hashes the UnixFS root node like a dag-pb CID
+        // SHA-256 摘要与 raw CID 一样是整个文件的哈希；IPFS multihash 摘要与 dag-pb CID 一样是 UnixFS 根节点的哈希
+        CommitmentChain.HashAlgorithm algorithm = _commitment.hashAlgorithm;
+        bool comparable =
+            (algorithm == CommitmentChain.HashAlgorithm.SHA256 && _codec == CID_CODEC_RAW) ||
+            (algorithm == CommitmentChain.HashAlgorithm.IPFSMultihash && _codec == CID_CODEC_DAG_PB);
+        require(
+            !comparable || _digest == _commitment.fileDigest,
+            "CommitmentChain: CID does not match file digest"
+        );
+
+        _commitment.cidCodec = _codec;
+        _commitment.cidDigest = _digest;
+
+        emit CommitmentChain.ContentCidSet(_commitmentId, _codec, _digest, block.timestamp);
+    }
+
+    /**
+     * @dev Collect all versions of a commitment / 收集承诺的所有版本
+     * @notice Cancelled or expired amendments that were retried stay in the chain. Only the latest
+     *         amendment of a version can itself be amended, so the walk descends through it
+     *         被重试的已取消或已过期修订仍保留在链中。只有某版本的最新修订才能再被修订，因此沿其向下遍历
+     * @param _commitments Commitment storage / 承诺存储
+     * @param _amendmentsOf Parent ID => all amendment IDs / 父承诺 ID => 所有修订 ID
+     * @param _commitmentId Any version in the chain / 链中的任意版本
+     * @return ids Version IDs in creation order / 按创建顺序排列的版本 ID
+     */
+    function getVersionChain(
+        mapping(uint256 => CommitmentChain.Commitment) storage _commitments,
+        mapping(uint256 => uint256[]) storage _amendmentsOf,
+        uint256 _commitmentId
+    )
+        public
+        view
+        returns (uint256[] memory ids)
+    {
+        // Walk up to the original version / 向上找到原始版本
+        uint256 rootId = _commitmentId;
+        while (_commitments[rootId].parentId != 0) {
+            rootId = _commitments[rootId].parentId;
+        }
+
+        // Count versions, then walk down collecting IDs / 统计版本数量，然后向下收集 ID
+        uint256 length = 1;
+        for (uint256 id = rootId; _amendmentsOf[id].length != 0; id = _commitments[id].amendmentId) {
+            length += _amendmentsOf[id].length;
+        }
+
+        ids = new uint256[](length);
+        ids[0] = rootId;
+        uint256 index = 1;
+        for (uint256 id = rootId; _amendmentsOf[id].length != 0; id = _commitments[id].amendmentId) {
+            uint256[] storage amendments = _amendmentsOf[id];
+            for (uint256 i = 0; i < amendments.length; i++) {
+                ids[index++] = amendments[i];
+            }
+        }
+    }
+}
@@ -0,0 +1,150 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import {CommitmentChain} from "../CommitmentChain.sol";
+
+/**
+ * @title MembershipLib
+ * @notice Organization (department) registry, account assignment and time-limited role views
+ *         for CommitmentChain
+ *         CommitmentChain 的组织（部门）登记、账户归属及限时角色查询
+ * @dev External library linked like the other libraries. Organization 0 means "no organization":
+ *      unassigned accounts act across organizations and commitments created before tenancy stay in it
+ *      与其他库一样以外部库方式链接。组织 0 表示"无组织"：未分配的账户可跨组织操作，
+ *      启用多组织之前创建的承诺也保留在组织 0 中
+ */
+library MembershipLib {
+
+    /// @dev Roles that can be granted with an expiry, aliased by CommitmentChain
+    ///      可限时授予的角色，由 CommitmentChain 引用
+    bytes32 internal constant POLICE_ROLE = keccak256("POLICE_ROLE");
+    bytes32 internal constant LAWYER_ROLE = keccak256("LAWYER_ROLE");
+    bytes32 internal constant VERIFIER_ROLE = keccak256("VERIFIER_ROLE");
+
+    /**
+     * @dev Register organization / 登记组织
+     * @param _names Organization ID => name / 组织 ID => 名称
+     * @param _organizationId ID of the new organization / 新组织的 ID
+     * @param _name Organization name / 组织名称
+     *
+     * Requirements / 要求：
+     * - Name not empty / 名称不为空
+     */
+    function createOrganization(
+        mapping(uint256 => string) storage _names,
+        uint256 _organizationId,
+        string memory _name
+    )
+        public
+    {
+        require(
+            bytes(_name).length > 0,
+            "CommitmentChain: Organization name cannot be empty"
+        );
+
+        _names[_organizationId] = _name;
+
+        emit CommitmentChain.OrganizationCreated(_organizationId, _name, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Assign account to organization / 将账户分配到组织
+     * @param _organizationOf Account => organization ID / 账户 => 组织 ID
+     * @param _organizationCount Number of registered organizations / 已登记的组织数量
+     * @param _account Account / 账户
+     * @param _organizationId Organization ID (0 = none) / 组织 ID（0 表示无组织）
+     *
+     * Requirements / 要求：
+     * - Organization is 0 or registered / 组织为 0 或已登记
+     */
+    function assignOrganization(
+        mapping(address => uint256) storage _organizationOf,
+        uint256 _organizationCount,
+        address _account,
+        uint256 _organizationId
+    )
+        public
+    {
+        require(
+            _organizationId <= _organizationCount,
+            "CommitmentChain: Invalid organization"
+        );
+
+        _organizationOf[_account] = _organizationId;
+
+        emit CommitmentChain.AccountOrganizationSet(_account, _organizationId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Filter role members whose grant expires before a given time
+     *      筛选授权在指定时间之前到期的角色成员
+     * @param _members Role members / 角色成员
+     * @param _expiresAt Account => grant expiry time of the role (0 = permanent) / 账户 => 该角色的授权到期时间（0 表示永久）
+     * @param _before Upper bound of expiry time / 到期时间上限
+     * @return accounts Expiring members / 即将到期的成员
+     * @return expiresAt Expiry time of each member / 各成员的到期时间
+     */
+    function getExpiringMembers(
+        address[] memory _members,
+        mapping(address => uint256) storage _expiresAt,
+        uint256 _before
+    )
+        public
+        view
+        returns (address[] memory accounts, uint256[] memory expiresAt)
+    {
+        accounts = new address[](_members.length);
+        expiresAt = new uint256[](_members.length);
+
+        uint256 count = 0;
+        for (uint i = 0; i < _members.length; i++) {
+            uint256 expiry = _expiresAt[_members[i]];
+            if (expiry != 0 && expiry <= _before) {
+                accounts[count] = _members[i];
+                expiresAt[count] = expiry;
+                count++;
+            }
+        }
+
+        // Shrink arrays to the number of matches / 将数组缩减为匹配数量
+        assembly {
+            mstore(accounts, count)
+            mstore(expiresAt, count)
+        }
+    }
+
+    /**
+     * @dev Set expiry of a role grant / 设置角色授权的到期时间
+     * @param _expiresAt Account => grant expiry time of the role / 账户 => 该角色的授权到期时间
+     * @param _role Role / 角色
+     * @param _account Account / 账户
+     * @param _expiry Expiry timestamp / 到期时间戳
+     *
+     * Requirements / 要求：
+     * - Role is POLICE_ROLE, LAWYER_ROLE or VERIFIER_ROLE / 角色为 POLICE_ROLE、LAWYER_ROLE 或 VERIFIER_ROLE
+     * - Expiry in the future / 到期时间在未来
+     */
+    function setRoleExpiry(
+        mapping(address => uint256) storage _expiresAt,
+        bytes32 _role,
+        address _account,
+        uint256 _expiry
+    )
+        public
+    {
+        require(
+            _role == POLICE_ROLE ||
+            _role == LAWYER_ROLE ||
+            _role == VERIFIER_ROLE,
+            "CommitmentChain: Role cannot expire"
+        );
+        require(
+            _expiry > block.timestamp,
+            "CommitmentChain: Expiry must be in the future"
+        );
+
+        _expiresAt[_account] = _expiry;
+
+        emit CommitmentChain.RoleExpirySet(_role, _account, _expiry);
+    }
+}
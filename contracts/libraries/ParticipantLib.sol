@@ -0,0 +1,398 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {CommitmentChain} from "../CommitmentChain.sol";
+import {MembershipLib} from "./MembershipLib.sol";
+import {IAccessControl} from "@openzeppelin/contracts/access/IAccessControl.sol";
+
+/**
+ * @title ParticipantLib
+ * @notice Signer / witness validation and participant views for CommitmentChain
+ *         CommitmentChain 的签约者 / 见证者验证及参与者查询
+ * @dev External library (deployed separately and linked) so CommitmentChain stays
+ *      under the 24KB contract size limit; functions run via DELEGATECALL in the
+ *      proxy's storage context
+ *      外部库（单独部署并链接），使 CommitmentChain 保持在 24KB 合约大小限制以内；
+ *      函数通过 DELEGATECALL 在代理合约的存储上下文中执行
+ *
+ * Deployment / 部署：
+ * - Deploy ParticipantLib, then link it into the CommitmentChain factory
+ *   先部署 ParticipantLib，再将其链接到 CommitmentChain 工厂
+ * - The upgrades plugin needs unsafeAllow: ["external-library-linking"]
+ *   升级插件需要 unsafeAllow: ["external-library-linking"]
+ * - The library is stateless and has no selfdestruct / delegatecall, so linking is safe
+ *   该库无状态，且不含 selfdestruct / delegatecall，因此链接是安全的
+ */
+library ParticipantLib {
+
+    /**
+     * @dev Replace a witness in place / 原位替换见证者
+     * @param _commitment Commitment whose witness is replaced / 被替换见证者的承诺
+     * @param _signed Witness address => whether signed, for this commitment / 该承诺的见证者地址 => 是否已签名
+     * @param _index Participant address => role => commitment IDs / 参与者地址 => 角色 => 承诺 ID
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _oldWitness Witness being replaced / 被替换的见证者
+     * @param _newWitness Replacement witness / 新的见证者
+     * @param _status Current lifecycle status / 当前生命周期状态
+     * @param _callerIsAdmin Whether the caller has DEFAULT_ADMIN_ROLE / 调用者是否拥有 DEFAULT_ADMIN_ROLE
+     *
+     * Requirements / 要求：
+     * - Caller is initiator or admin / 调用者是发起人或管理员
+     * - Commitment still Pending or PartiallySigned / 承诺仍处于待签名或部分签名状态
+     * - Old witness is designated and has not signed / 旧见证者是指定的见证者且尚未签名
+     * - New witness has LAWYER_ROLE, is not zero, not the initiator, not a signer and not already a witness
+     *   新见证者拥有 LAWYER_ROLE，不为零地址，不是发起人、签约者，也不是已有的见证者
+     */
+    function replaceWitness(
+        CommitmentChain.Commitment storage _commitment,
+        mapping(address => bool) storage _signed,
+        mapping(address => mapping(CommitmentChain.ParticipantRole => uint256[])) storage _index,
+        uint256 _commitmentId,
+        address _oldWitness,
+        address _newWitness,
+        CommitmentChain.CommitmentStatus _status,
+        bool _callerIsAdmin
+    )
+        public
+    {
+        require(
+            msg.sender == _commitment.initiator || _callerIsAdmin,
+            "CommitmentChain: Not initiator or admin"
+        );
+        require(
+            _status == CommitmentChain.CommitmentStatus.Pending ||
+                _status == CommitmentChain.CommitmentStatus.PartiallySigned,
+            "CommitmentChain: Commitment not pending"
+        );
+        require(
+            !_signed[_oldWitness],
+            "CommitmentChain: Witness already signed"
+        );
+        _requireLawyer(_newWitness);
+        require(
+            _newWitness != address(0),
+            "CommitmentChain: Invalid witness address"
+        );
+        require(
+            _newWitness != _commitment.initiator,
+            "CommitmentChain: Witness cannot be initiator"
+        );
+        address[] storage signers = _commitment.signers;
+        for (uint i = 0; i < signers.length; i++) {
+            require(
+                _newWitness != signers[i],
+                "CommitmentChain: Witness cannot be signer"
+            );
+        }
+
+        address[] storage witnesses = _commitment.witnesses;
+        uint256 position = type(uint256).max;
+        for (uint i = 0; i < witnesses.length; i++) {
+            require(
+                _newWitness != witnesses[i],
+                "CommitmentChain: Duplicate witness address"
+            );
+            if (witnesses[i] == _oldWitness) {
+                position = i;
+            }
+        }
+        require(
+            position != type(uint256).max,
+            "CommitmentChain: Not a designated witness"
+        );
+
+        witnesses[position] = _newWitness;
+
+        // The old witness keeps its index entry as history / 旧见证者的索引记录作为历史保留
+        _index[_newWitness][CommitmentChain.ParticipantRole.Witness].push(_commitmentId);
+
+        emit CommitmentChain.WitnessReplaced(
+            _commitmentId,
+            _oldWitness,
+            _newWitness,
+            msg.sender,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Validate participants and add a new commitment to the per-address index
+     *      验证参与者并将新承诺加入按地址索引
+     * @param _index Participant address => role => commitment IDs / 参与者地址 => 角色 => 承诺 ID
+     * @param _commitmentId New commitment ID (initiator is the caller) / 新承诺 ID（发起人为调用者）
+     * @param _signers Signer address array / 签约者地址数组
+     * @param _witnesses Witness address array / 见证者地址数组
+     * @param _witnessThreshold Witness signatures required (0 = all) / 所需见证者签名数（0 表示全部）
+     *
+     * Requirements / 要求：
+     * - Same as _validateParticipants / 与 _validateParticipants 相同
+     */
+    function index(
+        mapping(address => mapping(CommitmentChain.ParticipantRole => uint256[])) storage _index,
+        uint256 _commitmentId,
+        address[] memory _signers,
+        address[] memory _witnesses,
+        uint256 _witnessThreshold
+    )
+        public
+    {
+        _validateParticipants(msg.sender, _signers, _witnesses, _witnessThreshold);
+
+        _index[msg.sender][CommitmentChain.ParticipantRole.Initiator].push(_commitmentId);
+        for (uint i = 0; i < _signers.length; i++) {
+            _index[_signers[i]][CommitmentChain.ParticipantRole.Signer].push(_commitmentId);
+        }
+        for (uint i = 0; i < _witnesses.length; i++) {
+            _index[_witnesses[i]][CommitmentChain.ParticipantRole.Witness].push(_commitmentId);
+        }
+    }
+
+    /**
+     * @dev Role of an address in a commitment / 地址在承诺中的角色
+     * @param _commitment Commitment / 承诺
+     * @param _address Address to query / 要查询的地址
+     * @return Role name ("initiator", "signer", "witness" or "none") / 角色名称
+     */
+    function getRole(
+        CommitmentChain.Commitment storage _commitment,
+        address _address
+    )
+        public
+        view
+        returns (string memory)
+    {
+        if (_address == _commitment.initiator) {
+            return "initiator";
+        }
+        for (uint i = 0; i < _commitment.signers.length; i++) {
+            if (_commitment.signers[i] == _address) {
+                return "signer";
+            }
+        }
+        for (uint i = 0; i < _commitment.witnesses.length; i++) {
+            if (_commitment.witnesses[i] == _address) {
+                return "witness";
+            }
+        }
+        return "none";
+    }
+
+    /**
+     * @dev Build signer info array / 构建签约者信息数组
+     * @param _signers Signer addresses of the commitment / 承诺的签约者地址
+     * @param _records Signer address => signature record / 签约者地址 => 签名记录
+     * @return Signer info array / 签约者信息数组
+     */
+    function getSigners(
+        address[] storage _signers,
+        mapping(address => CommitmentChain.SignatureRecord) storage _records
+    )
+        public
+        view
+        returns (CommitmentChain.SignerInfo[] memory)
+    {
+        CommitmentChain.SignerInfo[] memory result = new CommitmentChain.SignerInfo[](_signers.length);
+
+        for (uint i = 0; i < _signers.length; i++) {
+            CommitmentChain.SignatureRecord storage record = _records[_signers[i]];
+            result[i] = CommitmentChain.SignerInfo(
+                _signers[i],
+                record.timestamp != 0,
+                record.timestamp,
+                record.blockNumber
+            );
+        }
+        return result;
+    }
+
+    /**
+     * @dev Build witness info array / 构建见证者信息数组
+     * @param _witnesses Witness addresses of the commitment / 承诺的见证者地址
+     * @param _signed Witness address => whether signed / 见证者地址 => 是否已签名
+     * @param _records Witness address => signature record / 见证者地址 => 签名记录
+     * @return Witness info array / 见证者信息数组
+     */
+    function getWitnesses(
+        address[] storage _witnesses,
+        mapping(address => bool) storage _signed,
+        mapping(address => CommitmentChain.SignatureRecord) storage _records
+    )
+        public
+        view
+        returns (CommitmentChain.WitnessInfo[] memory)
+    {
+        CommitmentChain.WitnessInfo[] memory result = new CommitmentChain.WitnessInfo[](_witnesses.length);
+
+        for (uint i = 0; i < _witnesses.length; i++) {
+            CommitmentChain.SignatureRecord storage record = _records[_witnesses[i]];
+            result[i] = CommitmentChain.WitnessInfo(
+                _witnesses[i],
+                _signed[_witnesses[i]],
+                record.timestamp,
+                record.blockNumber
+            );
+        }
+        return result;
+    }
+
+    /**
+     * @dev Return one page of an ID list / 返回 ID 列表的一页
+     * @param _ids Full ID list / 完整 ID 列表
+     * @param _offset Index of the first entry / 第一条记录的索引
+     * @param _limit Maximum number of entries / 最大记录数
+     * @return page IDs in [offset, offset + limit) / 位于 [offset, offset + limit) 的 ID
+     */
+    function paginate(
+        uint256[] storage _ids,
+        uint256 _offset,
+        uint256 _limit
+    )
+        public
+        view
+        returns (uint256[] memory page)
+    {
+        if (_offset >= _ids.length) {
+            return new uint256[](0);
+        }
+
+        // Clamp without computing offset + limit, which may overflow / 不计算 offset + limit 以免溢出
+        uint256 end = _ids.length - _offset > _limit ? _offset + _limit : _ids.length;
+
+        page = new uint256[](end - _offset);
+        for (uint i = _offset; i < end; i++) {
+            page[i - _offset] = _ids[i];
+        }
+    }
+
+    /**
+     * @dev Collect witnesses who have not signed / 收集未签名的见证者
+     * @param _witnesses Witness addresses of the commitment / 承诺的见证者地址
+     * @param _signed Witness address => whether signed / 见证者地址 => 是否已签名
+     * @param _signedCount Number of witnesses who have signed / 已签名的见证者数量
+     * @return Unsigned witness addresses / 未签名的见证者地址
+     */
+    function getUnsignedWitnesses(
+        address[] storage _witnesses,
+        mapping(address => bool) storage _signed,
+        uint256 _signedCount
+    )
+        public
+        view
+        returns (address[] memory)
+    {
+        address[] memory result = new address[](_witnesses.length - _signedCount);
+
+        uint256 count = 0;
+        for (uint i = 0; i < _witnesses.length; i++) {
+            if (!_signed[_witnesses[i]]) {
+                result[count++] = _witnesses[i];
+            }
+        }
+        return result;
+    }
+
+    /**
+     * @dev Validate signer and witness lists / 验证签约者和见证者列表
+     * @param _initiator Commitment initiator / 承诺发起人
+     * @param _signers Signer address array / 签约者地址数组
+     * @param _witnesses Witness address array / 见证者地址数组
+     * @param _witnessThreshold Witness signatures required (0 = all) / 所需见证者签名数（0 表示全部）
+     *
+     * Requirements / 要求：
+     * - At least one signer, none zero, none the initiator, no duplicates
+     *   至少一个签约者，不为零地址，不是发起人，且不重复
+     * - No zero or duplicate witnesses, no witness is also the initiator or a signer
+     *   见证者不为零地址、不重复，且不能同时是发起人或签约者
+     * - Witnesses have LAWYER_ROLE / 见证者拥有 LAWYER_ROLE
+     * - Threshold not greater than witness count / 法定人数不超过见证者数量
+     */
+    function _validateParticipants(
+        address _initiator,
+        address[] memory _signers,
+        address[] memory _witnesses,
+        uint256 _witnessThreshold
+    )
+        private
+        view
+    {
+        // Validate signers / 验证签约者
+        require(
+            _signers.length > 0,
+            "CommitmentChain: At least one signer required"
+        );
+        for (uint i = 0; i < _signers.length; i++) {
+            // Validate signer address / 验证签约者地址
+            require(
+                _signers[i] != address(0),
+                "CommitmentChain: Invalid signer address"
+            );
+            require(
+                _signers[i] != _initiator,
+                "CommitmentChain: Signer cannot be initiator"
+            );
+
+            // Check for duplicate signers / 检查是否有重复的签约者
+            for (uint j = i + 1; j < _signers.length; j++) {
+                require(
+                    _signers[i] != _signers[j],
+                    "CommitmentChain: Duplicate signer address"
+                );
+            }
+        }
+
+        // Validate witnesses / 验证见证者
+        for (uint i = 0; i < _witnesses.length; i++) {
+            // Validate witness address / 验证见证者地址有效
+            require(
+                _witnesses[i] != address(0),
+                "CommitmentChain: Invalid witness address"
+            );
+
+            // Witness cannot be initiator / 验证见证者不是发起人
+            require(
+                _witnesses[i] != _initiator,
+                "CommitmentChain: Witness cannot be initiator"
+            );
+
+            // Witness cannot be signer / 验证见证者不是签约者
+            for (uint j = 0; j < _signers.length; j++) {
+                require(
+                    _witnesses[i] != _signers[j],
+                    "CommitmentChain: Witness cannot be signer"
+                );
+            }
+
+            // Check for duplicate witnesses / 检查是否有重复的见证者
+            for (uint j = i + 1; j < _witnesses.length; j++) {
+                require(
+                    _witnesses[i] != _witnesses[j],
+                    "CommitmentChain: Duplicate witness address"
+                );
+            }
+
+            // Witness must have lawyer role (important! ensures professionalism)
+            // 验证见证者拥有律师角色（重要！确保专业性）
+            _requireLawyer(_witnesses[i]);
+        }
+
+        // Validate witness threshold / 验证见证者法定人数
+        require(
+            _witnessThreshold <= _witnesses.length,
+            "CommitmentChain: Threshold exceeds witness count"
+        );
+    }
+
+    /**
+     * @dev Check that an account holds an unexpired lawyer role / 检查账户拥有未过期的律师角色
+     * @notice Queries CommitmentChain itself (this library runs in the proxy's context), so the
+     *         role expiry applied by CommitmentChain.hasRole is honoured
+     *         查询 CommitmentChain 自身（本库在代理合约的上下文中运行），因此遵循 CommitmentChain.hasRole 的角色到期规则
+     * @param _account Account to check / 要检查的账户
+     */
+    function _requireLawyer(address _account) private view {
+        require(
+            IAccessControl(address(this)).hasRole(MembershipLib.LAWYER_ROLE, _account),
+            "CommitmentChain: Witness must have LAWYER_ROLE"
+        );
+    }
+}
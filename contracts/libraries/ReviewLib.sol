@@ -0,0 +1,205 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import {CommitmentChain} from "../CommitmentChain.sol";
+
+/**
+ * @title ReviewLib
+ * @notice Verifier review, dispute and freeze logic for CommitmentChain
+ *         CommitmentChain 的验证员审核、争议及冻结逻辑
+ * @dev External library linked like ParticipantLib; it only touches the commitment it is
+ *      given and emits the events declared on CommitmentChain, so they appear in its ABI
+ *      与 ParticipantLib 一样以外部库方式链接；只修改传入的承诺，并触发 CommitmentChain 中声明的事件，
+ *      因此这些事件出现在 CommitmentChain 的 ABI 中
+ *
+ * Role, organization and existence checks stay in CommitmentChain's modifiers
+ * 角色、组织和存在性检查保留在 CommitmentChain 的修饰符中
+ */
+library ReviewLib {
+
+    /**
+     * @dev Whether a commitment is currently frozen / 承诺当前是否被冻结
+     * @param _commitment Commitment to check / 要检查的承诺
+     * @return Frozen and the automatic unfreeze time (if any) not yet reached
+     *         已冻结且尚未到自动解冻时间（如有）
+     */
+    function isFrozen(CommitmentChain.Commitment storage _commitment) internal view returns (bool) {
+        return _commitment.isFrozen &&
+            (_commitment.unfreezeAt == 0 || block.timestamp < _commitment.unfreezeAt);
+    }
+
+    /**
+     * @dev Freeze a commitment / 冻结承诺
+     * @notice Each freeze and unfreeze is emitted as an event, which together form the freeze history
+     *         每次冻结和解冻都会触发事件，这些事件构成冻结历史
+     * @param _commitment Commitment being frozen / 被冻结的承诺
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _reason Reason code / 原因代码
+     * @param _caseRef Hash of the case reference / 案件编号的哈希
+     * @param _unfreezeAt Automatic unfreeze time (0 = manual only) / 自动解冻时间（0 表示仅手动解冻）
+     *
+     * Requirements / 要求：
+     * - Not currently frozen / 当前未被冻结
+     * - Unfreeze time is 0 or in the future / 自动解冻时间为 0 或在未来
+     */
+    function freeze(
+        CommitmentChain.Commitment storage _commitment,
+        uint256 _commitmentId,
+        CommitmentChain.FreezeReason _reason,
+        bytes32 _caseRef,
+        uint256 _unfreezeAt
+    )
+        public
+    {
+        require(
+            !isFrozen(_commitment),
+            "CommitmentChain: Already frozen"
+        );
+        require(
+            _unfreezeAt == 0 || _unfreezeAt > block.timestamp,
+            "CommitmentChain: Unfreeze time must be in the future"
+        );
+
+        _commitment.isFrozen = true;
+        _commitment.freezeReason = _reason;
+        _commitment.frozenBy = msg.sender;
+        _commitment.freezeCaseRef = _caseRef;
+        _commitment.frozenAt = block.timestamp;
+        _commitment.unfreezeAt = _unfreezeAt;
+
+        emit CommitmentChain.CommitmentFrozen(
+            _commitmentId,
+            msg.sender,
+            _reason,
+            _caseRef,
+            _unfreezeAt,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Unfreeze a commitment before its automatic unfreeze time / 在自动解冻时间之前解冻承诺
+     * @param _commitment Commitment being unfrozen / 被解冻的承诺
+     * @param _commitmentId Commitment ID / 承诺 ID
+     *
+     * Requirements / 要求：
+     * - Currently frozen / 当前处于冻结状态
+     */
+    function unfreeze(
+        CommitmentChain.Commitment storage _commitment,
+        uint256 _commitmentId
+    )
+        public
+    {
+        require(
+            isFrozen(_commitment),
+            "CommitmentChain: Not frozen"
+        );
+
+        _commitment.isFrozen = false;
+
+        emit CommitmentChain.CommitmentUnfrozen(_commitmentId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Mark a completed commitment as verified / 将已完成的承诺标记为已验证
+     * @param _commitment Commitment being verified / 被验证的承诺
+     * @param _commitmentId Commitment ID / 承诺 ID
+     *
+     * Requirements / 要求：
+     * - Completed, not verified and not disputed / 已完成、未验证且未处于争议中
+     */
+    function verify(
+        CommitmentChain.Commitment storage _commitment,
+        uint256 _commitmentId
+    )
+        public
+    {
+        require(
+            !_commitment.isVerified,
+            "CommitmentChain: Already verified"
+        );
+        require(
+            _commitment.isCompleted,
+            "CommitmentChain: Not completed yet"
+        );
+        require(
+            !_commitment.isDisputed,
+            "CommitmentChain: Commitment disputed"
+        );
+
+        _commitment.isVerified = true;
+
+        emit CommitmentChain.CommitmentVerified(_commitmentId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Reject verification and open a dispute / 拒绝验证并发起争议
+     * @param _commitment Commitment being rejected / 被拒绝的承诺
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _reasonHash Hash of the rejection reason / 拒绝原因的哈希
+     *
+     * Requirements / 要求：
+     * - Completed, not verified and not disputed / 已完成、未验证且未处于争议中
+     */
+    function reject(
+        CommitmentChain.Commitment storage _commitment,
+        uint256 _commitmentId,
+        bytes32 _reasonHash
+    )
+        public
+    {
+        require(
+            _commitment.isCompleted,
+            "CommitmentChain: Not completed yet"
+        );
+        require(
+            !_commitment.isVerified,
+            "CommitmentChain: Already verified"
+        );
+        require(
+            !_commitment.isDisputed,
+            "CommitmentChain: Commitment disputed"
+        );
+
+        _commitment.isDisputed = true;
+        _commitment.disputedBy = msg.sender;
+        _commitment.disputeReasonHash = _reasonHash;
+        _commitment.disputedAt = block.timestamp;
+
+        emit CommitmentChain.VerificationRejected(_commitmentId, msg.sender, _reasonHash, block.timestamp);
+    }
+
+    /**
+     * @dev Resolve an open dispute / 裁决未决争议
+     * @param _commitment Disputed commitment / 处于争议中的承诺
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _upheld true keeps it Disputed, false dismisses the dispute and verifies it
+     *                true 保持争议状态，false 驳回争议并标记为已验证
+     *
+     * Requirements / 要求：
+     * - Commitment has an unresolved dispute / 承诺有未裁决的争议
+     */
+    function resolveDispute(
+        CommitmentChain.Commitment storage _commitment,
+        uint256 _commitmentId,
+        bool _upheld
+    )
+        public
+    {
+        require(
+            _commitment.isDisputed && !_commitment.disputeResolved,
+            "CommitmentChain: No open dispute"
+        );
+
+        if (_upheld) {
+            _commitment.disputeResolved = true;
+        } else {
+            _commitment.isDisputed = false;
+            _commitment.isVerified = true;
+            emit CommitmentChain.CommitmentVerified(_commitmentId, msg.sender, block.timestamp);
+        }
+
+        emit CommitmentChain.DisputeResolved(_commitmentId, msg.sender, _upheld, block.timestamp);
+    }
+}
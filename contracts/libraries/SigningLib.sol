@@ -0,0 +1,411 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import {CommitmentChain} from "../CommitmentChain.sol";
+import {LifecycleLib} from "./LifecycleLib.sol";
+import {ReviewLib} from "./ReviewLib.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+
+/**
+ * @title SigningLib
+ * @notice Signer / witness signature and decline recording, and completion logic for CommitmentChain
+ *         CommitmentChain 的签约者 / 见证者签名与拒绝记录，以及完成判定逻辑
+ * @dev External library linked like the other libraries. Signability checks (frozen, cancelled,
+ *      declined, expired) live in LifecycleLib; the EIP-712 domain and nonces stay in CommitmentChain
+ *      与其他库一样以外部库方式链接。可签名检查（冻结、取消、拒绝、过期）位于 LifecycleLib；EIP-712 域及 nonce 保留在 CommitmentChain 中
+ */
+library SigningLib {
+
+    /// @dev Typehash of the signed message, aliased by CommitmentChain / 签名消息的类型哈希，由 CommitmentChain 引用
+    bytes32 internal constant SIGN_COMMITMENT_TYPEHASH = keccak256(
+        "SignCommitment(uint256 commitmentId,bytes32 fileDigest,uint8 role,uint256 nonce,uint256 deadline)"
+    );
+
+    /// @dev Maximum number of commitments per batch call, aliased by CommitmentChain
+    ///      每次批量调用的最大承诺数，由 CommitmentChain 引用
+    uint256 internal constant MAX_BATCH_SIZE = 50;
+
+    /**
+     * @dev Record signer signature / 记录签约者签名
+     * @param _commitments Commitment storage / 承诺存储
+     * @param _signatures Signer address => signature record of this commitment / 该承诺的签约者地址 => 签名记录
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _account Signing account (caller or typed-signature signatory) / 签名账户（调用者或类型化签名的签名人）
+     *
+     * Requirements / 要求：
+     * - Account is a designated signer and hasn't signed yet / 账户是指定的签约者且尚未签名
+     * - Initiator has signed / 发起人已经签名
+     */
+    function signAsSigner(
+        mapping(uint256 => CommitmentChain.Commitment) storage _commitments,
+        mapping(address => CommitmentChain.SignatureRecord) storage _signatures,
+        uint256 _commitmentId,
+        address _account
+    )
+        public
+    {
+        CommitmentChain.Commitment storage commitment = _commitments[_commitmentId];
+
+        // Verify account is a designated signer / 验证账户是指定的签约者之一
+        require(
+            _contains(commitment.signers, _account),
+            "CommitmentChain: Not the designated signer"
+        );
+
+        // Verify this signer hasn't signed yet / 验证该签约者尚未签名
+        require(
+            _signatures[_account].timestamp == 0,
+            "CommitmentChain: Already signed"
+        );
+
+        // Verify initiator has signed (ensure signature order)
+        // 验证发起人已签名（确保签名顺序）
+        require(
+            commitment.initiatorSigned,
+            "CommitmentChain: Initiator must sign first"
+        );
+
+        // Record signature / 记录签名
+        _signatures[_account] = CommitmentChain.SignatureRecord(block.timestamp, block.number);
+        commitment.signerSignedCount++;
+
+        // Mark signer side done once every signer has signed / 所有签约者都签名后标记签约方完成
+        if (commitment.signerSignedCount == commitment.signers.length) {
+            commitment.signerSigned = true;
+            commitment.signerSignature = CommitmentChain.SignatureRecord(block.timestamp, block.number);
+        }
+
+        emit CommitmentChain.CommitmentSigned(_commitmentId, _account, "signer", block.timestamp);
+
+        checkCompletion(_commitments, _commitmentId);
+    }
+
+    /**
+     * @dev Record witness signature / 记录见证者签名
+     * @param _commitments Commitment storage / 承诺存储
+     * @param _signed Witness address => whether signed, for this commitment / 该承诺的见证者地址 => 是否已签名
+     * @param _signatures Witness address => signature record of this commitment / 该承诺的见证者地址 => 签名记录
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _account Signing account (caller or typed-signature signatory) / 签名账户（调用者或类型化签名的签名人）
+     *
+     * Requirements / 要求：
+     * - Initiator has signed / 发起人已经签名
+     * - Account is a designated witness and hasn't signed yet / 账户是指定的见证者且尚未签名
+     * - Commitment not completed / 承诺尚未完成
+     */
+    function signAsWitness(
+        mapping(uint256 => CommitmentChain.Commitment) storage _commitments,
+        mapping(address => bool) storage _signed,
+        mapping(address => CommitmentChain.SignatureRecord) storage _signatures,
+        uint256 _commitmentId,
+        address _account
+    )
+        public
+    {
+        CommitmentChain.Commitment storage commitment = _commitments[_commitmentId];
+
+        // Verify initiator has signed / 验证发起人已签名
+        require(
+            commitment.initiatorSigned,
+            "CommitmentChain: Initiator must sign first"
+        );
+
+        // Verify account is designated witness / 验证账户是指定的见证者
+        require(
+            _contains(commitment.witnesses, _account),
+            "CommitmentChain: Not a designated witness"
+        );
+
+        // Verify this witness hasn't signed yet / 验证该见证者尚未签名
+        require(
+            !_signed[_account],
+            "CommitmentChain: Already signed"
+        );
+
+        // Witnesses who missed the quorum stay recorded as unsigned / 未在法定人数内签名的见证者保持未签名记录
+        require(
+            !commitment.isCompleted,
+            "CommitmentChain: Already completed"
+        );
+
+        // Record signature / 记录签名
+        _signed[_account] = true;
+        _signatures[_account] = CommitmentChain.SignatureRecord(block.timestamp, block.number);
+        commitment.witnessSignedCount++;
+
+        emit CommitmentChain.CommitmentSigned(_commitmentId, _account, "witness", block.timestamp);
+
+        checkCompletion(_commitments, _commitmentId);
+    }
+
+    /**
+     * @dev Sign every eligible commitment of a batch as signer or witness
+     *      以签约者或见证者身份签署批次中所有符合条件的承诺
+     * @notice Ineligible IDs are skipped rather than reverting the batch; the returned flags
+     *         report which IDs were signed
+     *         不符合条件的 ID 会被跳过而不是回滚整个批次；返回的标志表示哪些 ID 已签名
+     * @param _commitments Commitment storage / 承诺存储
+     * @param _witnessSigned Commitment ID => witness address => whether signed / 承诺 ID => 见证者地址 => 是否已签名
+     * @param _signatures Commitment ID => address => signature record, of the signing role
+     *        承诺 ID => 地址 => 签名记录，对应签名角色
+     * @param _commitmentIds Commitment IDs to sign / 要签署的承诺 ID
+     * @param _account Signing account / 签名账户
+     * @param _asWitness Sign as witness (true) or signer (false) / 以见证者（true）或签约者（false）身份签名
+     * @return signed Whether each ID was signed, in input order / 每个 ID 是否已签名，与输入顺序一致
+     *
+     * Requirements / 要求：
+     * - 1 to MAX_BATCH_SIZE IDs / 1 至 MAX_BATCH_SIZE 个 ID
+     * - At least one ID is signable by the account / 至少有一个 ID 可由该账户签署
+     */
+    function signBatch(
+        mapping(uint256 => CommitmentChain.Commitment) storage _commitments,
+        mapping(uint256 => mapping(address => bool)) storage _witnessSigned,
+        mapping(uint256 => mapping(address => CommitmentChain.SignatureRecord)) storage _signatures,
+        uint256[] calldata _commitmentIds,
+        address _account,
+        bool _asWitness
+    )
+        public
+        returns (bool[] memory signed)
+    {
+        require(
+            _commitmentIds.length > 0 && _commitmentIds.length <= MAX_BATCH_SIZE,
+            "CommitmentChain: Invalid batch size"
+        );
+
+        signed = new bool[](_commitmentIds.length);
+        bool any;
+        for (uint i = 0; i < _commitmentIds.length; i++) {
+            uint256 id = _commitmentIds[i];
+            if (!_isSignable(_commitments[id], id)) continue;
+
+            if (_asWitness) {
+                if (!_canWitness(_commitments[id], _witnessSigned[id], _account)) continue;
+                signAsWitness(_commitments, _witnessSigned[id], _signatures[id], id, _account);
+            } else {
+                if (!_contains(_commitments[id].signers, _account) || _signatures[id][_account].timestamp != 0) continue;
+                signAsSigner(_commitments, _signatures[id], id, _account);
+            }
+            signed[i] = any = true;
+        }
+
+        require(any, "CommitmentChain: Nothing to sign");
+    }
+
+    /**
+     * @dev Signer declines / 签约者拒绝签名
+     * @param _commitment Commitment being declined / 被拒绝的承诺
+     * @param _signatures Signer address => signature record of this commitment / 该承诺的签约者地址 => 签名记录
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _reasonHash Hash of the decline reason / 拒绝原因的哈希
+     *
+     * Requirements / 要求：
+     * - Caller is a designated signer and hasn't signed / 调用者是指定的签约者且尚未签名
+     */
+    function declineAsSigner(
+        CommitmentChain.Commitment storage _commitment,
+        mapping(address => CommitmentChain.SignatureRecord) storage _signatures,
+        uint256 _commitmentId,
+        bytes32 _reasonHash
+    )
+        public
+    {
+        require(
+            _contains(_commitment.signers, msg.sender),
+            "CommitmentChain: Not the designated signer"
+        );
+        require(
+            _signatures[msg.sender].timestamp == 0,
+            "CommitmentChain: Already signed"
+        );
+
+        _recordDecline(_commitment, _commitmentId, "signer", _reasonHash);
+    }
+
+    /**
+     * @dev Witness declines / 见证者拒绝签名
+     * @param _commitment Commitment being declined / 被拒绝的承诺
+     * @param _signed Witness address => whether signed, for this commitment / 该承诺的见证者地址 => 是否已签名
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _reasonHash Hash of the decline reason / 拒绝原因的哈希
+     *
+     * Requirements / 要求：
+     * - Caller is a designated witness and hasn't signed / 调用者是指定的见证者且尚未签名
+     * - Commitment not completed / 承诺尚未完成
+     */
+    function declineAsWitness(
+        CommitmentChain.Commitment storage _commitment,
+        mapping(address => bool) storage _signed,
+        uint256 _commitmentId,
+        bytes32 _reasonHash
+    )
+        public
+    {
+        require(
+            _contains(_commitment.witnesses, msg.sender),
+            "CommitmentChain: Not a designated witness"
+        );
+        require(
+            !_signed[msg.sender],
+            "CommitmentChain: Already signed"
+        );
+        require(
+            !_commitment.isCompleted,
+            "CommitmentChain: Already completed"
+        );
+
+        _recordDecline(_commitment, _commitmentId, "witness", _reasonHash);
+    }
+
+    /**
+     * @dev Check if commitment is completed / 检查承诺是否完成
+     * @notice If all signers and the witness quorum have signed, mark as completed; a completed
+     *         amendment supersedes its parent
+     *         如果所有签约者和法定人数的见证者都已签名，标记为完成；完成的修订取代其父承诺
+     * @param _commitments Commitment storage / 承诺存储
+     * @param _commitmentId Commitment ID / 承诺 ID
+     */
+    function checkCompletion(
+        mapping(uint256 => CommitmentChain.Commitment) storage _commitments,
+        uint256 _commitmentId
+    )
+        public
+    {
+        CommitmentChain.Commitment storage commitment = _commitments[_commitmentId];
+
+        uint256 requiredWitnesses = commitment.witnessThreshold == 0
+            ? commitment.witnesses.length
+            : commitment.witnessThreshold;
+
+        if (commitment.initiatorSigned &&
+            commitment.signerSigned &&
+            commitment.witnessSignedCount >= requiredWitnesses)
+        {
+            commitment.isCompleted = true;
+            commitment.completion = CommitmentChain.SignatureRecord(block.timestamp, block.number);
+            emit CommitmentChain.CommitmentCompleted(_commitmentId, block.timestamp);
+
+            if (commitment.parentId != 0) {
+                _commitments[commitment.parentId].isSuperseded = true;
+                emit CommitmentChain.CommitmentSuperseded(commitment.parentId, _commitmentId, block.timestamp);
+            }
+        }
+    }
+
+    /**
+     * @dev Verify an EIP-712 signature over a commitment / 验证针对承诺的 EIP-712 签名
+     * @param _commitment Commitment / 承诺
+     * @param _domainSeparator CommitmentChain's EIP-712 domain separator / CommitmentChain 的 EIP-712 域分隔符
+     * @param _commitmentId Commitment ID / 承诺 ID
+     * @param _account Expected signatory / 预期的签名人
+     * @param _role Signature role code / 签名角色代码
+     * @param _nonce Nonce consumed by CommitmentChain / CommitmentChain 消耗的 nonce
+     * @param _deadline Signature validity deadline / 签名有效截止时间
+     * @param _signature Signature bytes / 签名字节
+     *
+     * Requirements / 要求：
+     * - Deadline not passed / 未超过截止时间
+     * - Signature recovers to the account / 签名恢复出的地址为该账户
+     */
+    function verifyTypedSignature(
+        CommitmentChain.Commitment storage _commitment,
+        bytes32 _domainSeparator,
+        uint256 _commitmentId,
+        address _account,
+        uint8 _role,
+        uint256 _nonce,
+        uint256 _deadline,
+        bytes calldata _signature
+    )
+        public
+        view
+    {
+        require(
+            block.timestamp <= _deadline,
+            "CommitmentChain: Signature expired"
+        );
+
+        bytes32 structHash = keccak256(abi.encode(
+            SIGN_COMMITMENT_TYPEHASH,
+            _commitmentId,
+            LifecycleLib.signedDigest(_commitment),
+            _role,
+            _nonce,
+            _deadline
+        ));
+
+        require(
+            ECDSA.recover(MessageHashUtils.toTypedDataHash(_domainSeparator, structHash), _signature) == _account,
+            "CommitmentChain: Invalid signature"
+        );
+    }
+
+    /**
+     * @dev Record decline by caller / 记录调用者的拒绝
+     */
+    function _recordDecline(
+        CommitmentChain.Commitment storage _commitment,
+        uint256 _commitmentId,
+        string memory _role,
+        bytes32 _reasonHash
+    )
+        private
+    {
+        _commitment.isDeclined = true;
+        _commitment.declinedBy = msg.sender;
+        _commitment.declineReasonHash = _reasonHash;
+        _commitment.declinedAt = block.timestamp;
+
+        emit CommitmentChain.CommitmentDeclined(_commitmentId, msg.sender, _role, _reasonHash, block.timestamp);
+    }
+
+    /**
+     * @dev Whether a commitment accepts signatures: created, initiator signed, and not frozen,
+     *      cancelled, declined or expired (the checks of LifecycleLib.requireSignable)
+     *      承诺是否接受签名：已创建、发起人已签名，且未被冻结、取消、拒绝或过期（即 LifecycleLib.requireSignable 的检查）
+     */
+    function _isSignable(CommitmentChain.Commitment storage _commitment, uint256 _commitmentId)
+        private
+        view
+        returns (bool)
+    {
+        return _commitmentId != 0 &&
+            _commitment.id == _commitmentId &&
+            _commitment.initiatorSigned &&
+            !_commitment.isCancelled &&
+            !_commitment.isDeclined &&
+            !ReviewLib.isFrozen(_commitment) &&
+            !LifecycleLib.isExpired(_commitment);
+    }
+
+    /**
+     * @dev Whether the account can still witness: designated, not signed, not completed
+     *      账户是否仍可见证：是指定见证者、尚未签名、承诺尚未完成
+     */
+    function _canWitness(
+        CommitmentChain.Commitment storage _commitment,
+        mapping(address => bool) storage _signed,
+        address _account
+    )
+        private
+        view
+        returns (bool)
+    {
+        return _contains(_commitment.witnesses, _account) &&
+            !_signed[_account] &&
+            !_commitment.isCompleted;
+    }
+
+    /**
+     * @dev Whether an address is in the list / 地址是否在列表中
+     */
+    function _contains(address[] storage _list, address _address) private view returns (bool) {
+        for (uint i = 0; i < _list.length; i++) {
+            if (_list[i] == _address) {
+                return true;
+            }
+        }
+        return false;
+    }
+}
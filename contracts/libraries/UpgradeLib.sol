@@ -0,0 +1,125 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import {CommitmentChain} from "../CommitmentChain.sol";
+import {ERC1967Utils} from "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
+
+/**
+ * @title UpgradeLib
+ * @notice Upgrade timelock checks and events for CommitmentChain
+ *         CommitmentChain 的升级时间锁检查及事件
+ * @dev External library linked like the other libraries. The timelock state (upgradeDelay,
+ *      pendingImplementation, upgradeReadyAt) consists of plain state variables, which a library
+ *      cannot reference, so it is passed in by value and CommitmentChain writes it back
+ *      与其他库一样以外部库方式链接。时间锁状态（upgradeDelay、pendingImplementation、upgradeReadyAt）
+ *      是普通状态变量，库无法引用，因此按值传入，由 CommitmentChain 写回
+ */
+library UpgradeLib {
+
+    /// @dev Lower bound of the upgrade delay, aliased by CommitmentChain / 升级延迟的下限，由 CommitmentChain 引用
+    uint256 internal constant MIN_UPGRADE_DELAY = 1 days;
+
+    /**
+     * @dev Check and announce an upgrade proposal / 检查并公告升级提议
+     * @param _implementation New implementation contract address / 新实现合约的地址
+     * @param _pending Currently pending implementation / 当前待执行的实现合约
+     * @param _delay Configured upgrade delay / 已配置的升级延迟
+     * @return readyAt Time from which the upgrade can be executed / 可执行升级的时间
+     *
+     * Requirements / 要求：
+     * - Implementation is a contract / 实现合约地址必须是合约
+     * - No other upgrade pending / 没有其他待执行的升级
+     */
+    function proposeUpgrade(
+        address _implementation,
+        address _pending,
+        uint256 _delay
+    )
+        public
+        returns (uint256 readyAt)
+    {
+        require(
+            _implementation.code.length > 0,
+            "CommitmentChain: Implementation is not a contract"
+        );
+        require(
+            _pending == address(0),
+            "CommitmentChain: Upgrade already pending"
+        );
+
+        // Proxies upgraded from a version without the timelock start with a zero delay
+        // 从无时间锁版本升级而来的代理，其延迟初始为 0
+        readyAt = block.timestamp + (_delay < MIN_UPGRADE_DELAY ? MIN_UPGRADE_DELAY : _delay);
+
+        emit CommitmentChain.UpgradeProposed(_implementation, msg.sender, readyAt);
+    }
+
+    /**
+     * @dev Check and announce cancelling the pending upgrade / 检查并公告取消待执行的升级
+     * @param _pending Currently pending implementation / 当前待执行的实现合约
+     *
+     * Requirements / 要求：
+     * - An upgrade is pending / 存在待执行的升级
+     */
+    function cancelUpgrade(address _pending) public {
+        require(
+            _pending != address(0),
+            "CommitmentChain: No upgrade pending"
+        );
+
+        emit CommitmentChain.UpgradeCancelled(_pending, msg.sender);
+    }
+
+    /**
+     * @dev Check and announce a new upgrade delay / 检查并公告新的升级延迟
+     * @param _oldDelay Current delay / 当前延迟
+     * @param _newDelay New delay in seconds / 新的延迟（秒）
+     *
+     * Requirements / 要求：
+     * - Delay not below MIN_UPGRADE_DELAY / 延迟不低于 MIN_UPGRADE_DELAY
+     */
+    function setUpgradeDelay(uint256 _oldDelay, uint256 _newDelay) public {
+        require(
+            _newDelay >= MIN_UPGRADE_DELAY,
+            "CommitmentChain: Delay below minimum"
+        );
+
+        emit CommitmentChain.UpgradeDelayUpdated(_oldDelay, _newDelay);
+    }
+
+    /**
+     * @dev Check that an upgrade matches the proposal and its timelock expired
+     *      检查升级与提议一致且时间锁已到期
+     * @param _newImplementation Implementation being upgraded to / 要升级到的实现合约
+     * @param _pending Proposed implementation / 已提议的实现合约
+     * @param _readyAt Time from which the upgrade can be executed / 可执行升级的时间
+     *
+     * Requirements / 要求：
+     * - Implementation was proposed / 实现合约已被提议
+     * - Timelock expired / 时间锁已到期
+     */
+    function authorizeUpgrade(
+        address _newImplementation,
+        address _pending,
+        uint256 _readyAt
+    )
+        public
+    {
+        require(
+            _newImplementation == _pending && _newImplementation != address(0),
+            "CommitmentChain: Upgrade not proposed"
+        );
+        require(
+            block.timestamp >= _readyAt,
+            "CommitmentChain: Upgrade timelock not expired"
+        );
+
+        // Runs before the proxy switches, so the slot still holds the previous implementation
+        // 在代理切换之前执行，因此槽位中仍是之前的实现合约
+        emit CommitmentChain.ContractUpgraded(
+            ERC1967Utils.getImplementation(),
+            _newImplementation,
+            block.timestamp
+        );
+    }
+}
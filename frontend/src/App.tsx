@@ -2,8 +2,14 @@ import { Routes, Route } from 'react-router-dom'
 //import { WalletProvider } from './hooks/useWallet'
 import WalletConnect from './components/WalletConnect'
 import CreateCommitment from './components/CreateCommitment'
+import BatchCreate from './components/BatchCreate'
+import MerkleAnchor from './components/MerkleAnchor'
+import SignatureInbox from './components/SignatureInbox'
 import SignCommitment from './components/SignCommitment'
 import CommitmentDetail from './components/CommitmentDetail'
+import VerifyDocument from './components/VerifyDocument'
+import VerifierDashboard from './components/VerifierDashboard'
+import RoleAdmin from './components/RoleAdmin'
 
 function App() {
   return (
@@ -20,7 +26,27 @@ function App() {
                 Commitment Chain
               </span>
             </a>
-            <WalletConnect />
+            <div className="flex items-center gap-4">
+              <a href="/batch" className="text-sm font-medium text-gray-600 hover:text-gray-900">
+                Batch / 批量
+              </a>
+              <a href="/anchor" className="text-sm font-medium text-gray-600 hover:text-gray-900">
+                Anchor / 锚定
+              </a>
+              <a href="/inbox" className="text-sm font-medium text-gray-600 hover:text-gray-900">
+                Inbox / 待签名
+              </a>
+              <a href="/verify" className="text-sm font-medium text-gray-600 hover:text-gray-900">
+                Verify / 验证文件
+              </a>
+              <a href="/verifier" className="text-sm font-medium text-gray-600 hover:text-gray-900">
+                Review / 审核
+              </a>
+              <a href="/roles" className="text-sm font-medium text-gray-600 hover:text-gray-900">
+                Roles / 角色
+              </a>
+              <WalletConnect />
+            </div>
           </div>
         </header>
 
@@ -28,8 +54,14 @@ function App() {
         <main className="max-w-5xl mx-auto px-4 py-8">
           <Routes>
             <Route path="/" element={<CreateCommitment />} />
+            <Route path="/batch" element={<BatchCreate />} />
+            <Route path="/anchor" element={<MerkleAnchor />} />
+            <Route path="/inbox" element={<SignatureInbox />} />
             <Route path="/sign/:commitmentId" element={<SignCommitment />} />
             <Route path="/commitment/:commitmentId" element={<CommitmentDetail />} />
+            <Route path="/verify" element={<VerifyDocument />} />
+            <Route path="/verifier" element={<VerifierDashboard />} />
+            <Route path="/roles" element={<RoleAdmin />} />
           </Routes>
         </main>
 
@@ -0,0 +1,184 @@
+import { useState, ChangeEvent } from 'react'
+import { Link } from 'react-router-dom'
+import { useWallet } from '../hooks/useWallet'
+import { useContract } from '../hooks/useContract'
+import { ManifestEntry } from '../types'
+import { MAX_BATCH_SIZE } from '../utils/contract'
+import { calculateFileHash, truncateHash } from '../utils/hash'
+import { parseManifest } from '../utils/manifest'
+
+// 批量登记：上传清单（CSV / JSON）及对应文件，在一笔交易中创建所有承诺
+export default function BatchCreate() {
+  const { isConnected } = useWallet()
+  const { createCommitmentsBatch, txState } = useContract()
+
+  const [entries, setEntries] = useState<ManifestEntry[]>([])
+  const [hashes, setHashes] = useState<Record<string, string>>({})  // 文件名 => 哈希
+  const [manifestError, setManifestError] = useState<string | null>(null)
+  const [isHashing, setIsHashing] = useState(false)
+  const [createdIds, setCreatedIds] = useState<string[] | null>(null)
+
+  const handleManifest = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setCreatedIds(null)
+    try {
+      setEntries(parseManifest(await file.text(), file.name))
+      setManifestError(null)
+    } catch (err) {
+      setEntries([])
+      setManifestError(err instanceof Error ? err.message : 'Invalid manifest / 清单无效')
+    }
+  }
+
+  const handleDocuments = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    if (files.length === 0) return
+
+    setCreatedIds(null)
+    setIsHashing(true)
+    try {
+      // 文件仅在本地计算哈希，不会上传
+      const computed = await Promise.all(files.map(async f => [f.name, await calculateFileHash(f)] as const))
+      setHashes(prev => ({ ...prev, ...Object.fromEntries(computed) }))
+    } catch (err) {
+      console.error('Failed to hash documents:', err)
+    } finally {
+      setIsHashing(false)
+    }
+  }
+
+  const missing = entries.filter(entry => !hashes[entry.file])
+  const canSubmit = isConnected &&
+    entries.length > 0 &&
+    entries.length <= MAX_BATCH_SIZE &&
+    missing.length === 0 &&
+    !isHashing &&
+    !txState.isPending
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return
+
+    const ids = await createCommitmentsBatch(entries.map(entry => ({
+      contentHash: hashes[entry.file],
+      signerAddresses: entry.signers,
+      witnessAddresses: entry.witnesses
+    })))
+    if (ids) setCreatedIds(ids)
+  }
+
+  if (!isConnected) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="card">
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-center">
+            <p className="text-yellow-800 font-medium">Please connect your wallet</p>
+            <p className="text-sm text-yellow-600 mt-1">请连接钱包</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (createdIds) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="card">
+          <h2 className="text-2xl font-bold text-gray-900 text-center">Batch Created!</h2>
+          <p className="text-gray-600 text-center mt-1">批量创建成功，共 {createdIds.length} 个承诺</p>
+
+          <ul className="space-y-2 mt-6">
+            {createdIds.map((id, i) => (
+              <li key={id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                <span className="text-gray-700">{entries[i]?.file}</span>
+                <Link to={`/commitment/${id}`} className="font-medium text-primary-600 hover:text-primary-700">
+                  Commitment #{id} →
+                </Link>
+              </li>
+            ))}
+          </ul>
+
+          <button
+            onClick={() => { setCreatedIds(null); setEntries([]); setHashes({}) }}
+            className="btn-secondary w-full mt-6"
+          >
+            New Batch / 新建批次
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Batch Registration</h1>
+        <p className="text-gray-600 mt-2">批量登记</p>
+      </div>
+
+      <div className="card space-y-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Manifest / 清单（CSV / JSON）
+          </label>
+          <p className="text-xs text-gray-500 mb-2">
+            CSV columns / CSV 列：file,signers,witnesses — multiple addresses separated by ";" / 多个地址用分号分隔
+          </p>
+          <input type="file" accept=".csv,.json" onChange={handleManifest} className="text-sm" />
+          {manifestError && <p className="text-sm text-red-600 mt-2">{manifestError}</p>}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Documents / 文件
+          </label>
+          <p className="text-xs text-gray-500 mb-2">
+            Matched to the manifest by file name, hashed locally / 按文件名与清单匹配，仅在本地计算哈希
+          </p>
+          <input type="file" multiple onChange={handleDocuments} className="text-sm" />
+        </div>
+
+        {entries.length > 0 && (
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">
+              Items / 条目 ({entries.length} / {MAX_BATCH_SIZE})
+            </p>
+            <ul className="space-y-2">
+              {entries.map((entry, i) => (
+                <li key={i} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                  <div>
+                    <p className="text-gray-900">{entry.file}</p>
+                    <p className="text-xs text-gray-500">
+                      {entry.signers.length} signer(s) / 签约者 · {entry.witnesses.length} witness(es) / 见证者
+                    </p>
+                  </div>
+                  {hashes[entry.file] ? (
+                    <span className="font-mono text-xs text-gray-600">{truncateHash(hashes[entry.file])}</span>
+                  ) : (
+                    <span className="text-xs text-red-600">File missing / 缺少文件</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+            {entries.length > MAX_BATCH_SIZE && (
+              <p className="text-sm text-red-600 mt-2">
+                At most {MAX_BATCH_SIZE} items per batch / 每批最多 {MAX_BATCH_SIZE} 项
+              </p>
+            )}
+          </div>
+        )}
+
+        {txState.error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm break-all">
+            {txState.error}
+          </div>
+        )}
+
+        <button onClick={handleSubmit} disabled={!canSubmit} className="btn-primary w-full">
+          {txState.isPending ? 'Submitting... / 提交中...' : `Create ${entries.length} Commitments / 创建 ${entries.length} 个承诺`}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,18 +1,35 @@
 import { useState, useEffect } from 'react'
 import { useParams, Link } from 'react-router-dom'
+import { isAddress } from 'ethers'
+import { useWallet } from '../hooks/useWallet'
 import { useContract } from '../hooks/useContract'
 import CommitmentStatus from './CommitmentStatus'
 import ShareLink from './ShareLink'
-import { Commitment } from '../types'
+import DocumentCheck from './DocumentCheck'
+import FreezeBanner from './FreezeBanner'
+import { CidCodec, Commitment, CommitmentStatus as Status, FREEZE_REASON_LABELS, HASH_ALGORITHM_LABELS } from '../types'
 import { truncateAddress } from '../utils/hash'
 
 export default function CommitmentDetail() {
   const { commitmentId } = useParams<{ commitmentId: string }>()
-  const { getCommitment } = useContract()
+  const { address } = useWallet()
+  const { getCommitment, cancelCommitment, replaceWitness, txState } = useContract()
   
   const [commitment, setCommitment] = useState<Commitment | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [cancelReason, setCancelReason] = useState('')
+  const [oldWitness, setOldWitness] = useState('')
+  const [newWitness, setNewWitness] = useState('')
+
+  // 只有发起人可以在完成前取消
+  const canCancel = !!commitment &&
+    address?.toLowerCase() === commitment.initiator.toLowerCase() &&
+    (commitment.status === Status.PENDING || commitment.status === Status.PARTIALLY_SIGNED)
+
+  // 发起人可以在完成前替换尚未签名的见证者
+  const unsignedWitnesses = commitment?.witnesses.filter(w => !w.hasSigned) ?? []
+  const canReplaceWitness = canCancel && unsignedWitnesses.length > 0
 
   useEffect(() => {
     const loadCommitment = async () => {
@@ -42,6 +59,30 @@ export default function CommitmentDetail() {
     loadCommitment()
   }, [commitmentId, getCommitment])
 
+  const handleCancel = async () => {
+    if (!commitmentId || !cancelReason.trim()) return
+
+    const success = await cancelCommitment(commitmentId, cancelReason.trim())
+    if (success) {
+      setCancelReason('')
+      // 重新加载承诺数据
+      const data = await getCommitment(commitmentId)
+      if (data) setCommitment(data)
+    }
+  }
+
+  const handleReplaceWitness = async () => {
+    if (!commitmentId || !oldWitness || !isAddress(newWitness)) return
+
+    const success = await replaceWitness(commitmentId, oldWitness, newWitness)
+    if (success) {
+      setOldWitness('')
+      setNewWitness('')
+      const data = await getCommitment(commitmentId)
+      if (data) setCommitment(data)
+    }
+  }
+
   if (loading) {
     return (
       <div className="max-w-2xl mx-auto">
@@ -79,6 +120,9 @@ export default function CommitmentDetail() {
       </div>
 
       <div className="space-y-6">
+        {/* Freeze Notice */}
+        {commitment.freeze && <FreezeBanner freeze={commitment.freeze} />}
+
         {/* Basic Info */}
         <div className="card">
           <h3 className="font-semibold text-gray-900 mb-4">Basic Information / 基本信息</h3>
@@ -90,10 +134,21 @@ export default function CommitmentDetail() {
             </div>
             
             <div>
-              <p className="text-sm text-gray-500 mb-1">Content Hash / 内容哈希</p>
+              <p className="text-sm text-gray-500 mb-1">
+                Content Hash / 内容哈希 · {HASH_ALGORITHM_LABELS[commitment.hashAlgorithm]}
+              </p>
               <p className="font-mono text-sm bg-gray-50 p-2 rounded break-all">{commitment.contentHash}</p>
             </div>
 
+            {commitment.contentCid && (
+              <div>
+                <p className="text-sm text-gray-500 mb-1">
+                  IPFS CID · {commitment.contentCid.codec === CidCodec.RAW ? 'raw' : 'dag-pb (UnixFS)'}
+                </p>
+                <p className="font-mono text-sm bg-gray-50 p-2 rounded break-all">{commitment.contentCid.cid}</p>
+              </div>
+            )}
+
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <p className="text-sm text-gray-500 mb-1">Initiator / 发起人</p>
@@ -106,10 +161,18 @@ export default function CommitmentDetail() {
               </div>
             </div>
 
+            <div>
+              <p className="text-sm text-gray-500 mb-1">Organization / 组织</p>
+              <p className="text-sm">{commitment.organizationName}</p>
+            </div>
+
             {commitment.completedAt && commitment.completedAt > 0 && (
               <div>
                 <p className="text-sm text-gray-500 mb-1">Completed At / 完成时间</p>
-                <p className="text-sm">{new Date(commitment.completedAt * 1000).toLocaleString()}</p>
+                <p className="text-sm">
+                  {new Date(commitment.completedAt * 1000).toLocaleString()}
+                  {commitment.completedBlock ? ` · Block #${commitment.completedBlock}` : ''}
+                </p>
               </div>
             )}
           </div>
@@ -118,6 +181,173 @@ export default function CommitmentDetail() {
         {/* Signature Status */}
         <CommitmentStatus commitment={commitment} />
 
+        {/* Document Check */}
+        <div className="card">
+          <h3 className="font-semibold text-gray-900 mb-1">Check Document / 核对文件</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Anyone can check a file against this commitment; it is hashed locally and never uploaded.
+            <br />
+            任何人都可以核对文件与此承诺是否一致；文件仅在本地计算哈希，不会上传。
+          </p>
+          <DocumentCheck
+            expectedHash={commitment.contentHash}
+            algorithm={commitment.hashAlgorithm}
+            expectedCid={commitment.contentCid?.cid}
+          />
+        </div>
+
+        {/* Version History */}
+        {commitment.versions.length > 1 && (
+          <div className="card">
+            <h3 className="font-semibold text-gray-900 mb-4">Version History / 版本历史</h3>
+            <ol className="space-y-2">
+              {commitment.versions.map((versionId, index) => (
+                <li key={versionId} className="flex items-center gap-3">
+                  <span className="w-8 h-8 bg-primary-100 text-primary-700 rounded-full flex items-center justify-center font-bold text-sm">
+                    v{index + 1}
+                  </span>
+                  {versionId === commitment.id ? (
+                    <span className="font-medium text-gray-900">
+                      Commitment #{versionId} (current / 当前)
+                    </span>
+                  ) : (
+                    <Link to={`/commitment/${versionId}`} className="text-primary-600 hover:text-primary-700 font-medium">
+                      Commitment #{versionId} →
+                    </Link>
+                  )}
+                  {index === 0 && <span className="text-xs text-gray-500">Original / 原始版本</span>}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {/* Witness Replacement History */}
+        {commitment.witnessReplacements.length > 0 && (
+          <div className="card">
+            <h3 className="font-semibold text-gray-900 mb-4">Witness Replacements / 见证者替换记录</h3>
+            <ul className="space-y-3">
+              {commitment.witnessReplacements.map(r => (
+                <li key={`${r.txHash}-${r.oldWitness}`} className="p-3 bg-gray-50 rounded-lg text-sm">
+                  <p className="font-mono">
+                    {truncateAddress(r.oldWitness)} → {truncateAddress(r.newWitness)}
+                  </p>
+                  <p className="text-gray-500 mt-1">
+                    By / 操作者：<span className="font-mono">{truncateAddress(r.replacedBy)}</span>
+                    {' · '}
+                    {new Date(r.timestamp * 1000).toLocaleString()}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Freeze History */}
+        {commitment.freezeHistory.length > 0 && (
+          <div className="card">
+            <h3 className="font-semibold text-gray-900 mb-4">Freeze History / 冻结记录</h3>
+            <ul className="space-y-3">
+              {commitment.freezeHistory.map(f => (
+                <li key={`${f.txHash}-${f.action}`} className="p-3 bg-gray-50 rounded-lg text-sm">
+                  <p className="font-medium text-gray-900">
+                    {f.action === 'frozen'
+                      ? `Frozen / 冻结 · ${f.reason !== undefined ? FREEZE_REASON_LABELS[f.reason] : ''}`
+                      : 'Unfrozen / 解冻'}
+                  </p>
+                  {f.action === 'frozen' && !!f.unfreezeAt && (
+                    <p className="text-gray-500 mt-1">
+                      Auto unfreeze / 自动解冻：{new Date(f.unfreezeAt * 1000).toLocaleString()}
+                    </p>
+                  )}
+                  <p className="text-gray-500 mt-1">
+                    By / 操作者：<span className="font-mono">{truncateAddress(f.by)}</span>
+                    {' · '}
+                    {new Date(f.timestamp * 1000).toLocaleString()}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Replace Witness Action */}
+        {canReplaceWitness && (
+          <div className="card">
+            <h3 className="font-semibold text-gray-900 mb-4">Replace Witness / 替换见证者</h3>
+            <p className="text-sm text-gray-600 mb-3">
+              Only witnesses who have not signed can be replaced. The new witness must hold the lawyer role.
+              <br />
+              只能替换尚未签名的见证者，新见证者必须拥有律师角色。
+            </p>
+
+            <select
+              value={oldWitness}
+              onChange={(e) => setOldWitness(e.target.value)}
+              className="input-field mb-3 font-mono"
+            >
+              <option value="">Select witness / 选择见证者</option>
+              {unsignedWitnesses.map(w => (
+                <option key={w.address} value={w.address}>{w.address}</option>
+              ))}
+            </select>
+
+            <input
+              type="text"
+              value={newWitness}
+              onChange={(e) => setNewWitness(e.target.value)}
+              placeholder="New witness 0x... / 新见证者地址"
+              className={`input-field font-mono mb-4 ${
+                newWitness && !isAddress(newWitness)
+                  ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
+                  : ''
+              }`}
+            />
+
+            <button
+              onClick={handleReplaceWitness}
+              disabled={!oldWitness || !isAddress(newWitness) || txState.isPending}
+              className="btn-primary w-full"
+            >
+              {txState.isPending ? 'Replacing... / 替换中...' : 'Replace Witness / 替换见证者'}
+            </button>
+          </div>
+        )}
+
+        {/* Cancel Action */}
+        {canCancel && (
+          <div className="card">
+            <h3 className="font-semibold text-gray-900 mb-4">Cancel Commitment / 取消承诺</h3>
+            <p className="text-sm text-gray-600 mb-3">
+              The reason is hashed locally and only the hash is recorded on-chain.
+              <br />
+              原因将在本地计算哈希，仅哈希值上链。
+            </p>
+
+            <textarea
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              placeholder="Reason for cancellation / 取消原因"
+              rows={3}
+              className="input-field mb-4"
+            />
+
+            {txState.error && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 mb-4">
+                {txState.error}
+              </div>
+            )}
+
+            <button
+              onClick={handleCancel}
+              disabled={!cancelReason.trim() || txState.isPending}
+              className="w-full py-2.5 px-5 rounded-lg font-medium bg-red-600 hover:bg-red-700 text-white transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {txState.isPending ? 'Cancelling... / 取消中...' : 'Cancel Commitment / 取消承诺'}
+            </button>
+          </div>
+        )}
+
         {/* Share Link */}
         <div className="card">
           <h3 className="font-semibold text-gray-900 mb-4">Share / 分享</h3>
@@ -1,44 +1,157 @@
+import { useState, useEffect } from 'react'
 import { Commitment, CommitmentStatus as Status } from '../types'
-import { truncateAddress } from '../utils/hash'
+import { truncateAddress, truncateHash } from '../utils/hash'
+import ParticipantProfile from './ParticipantProfile'
 
 interface Props {
   commitment: Commitment
 }
 
-export default function CommitmentStatus({ commitment }: Props) {
-  const getStatusBadge = (status: Status) => {
-    switch (status) {
-      case Status.PENDING:
-        return <span className="badge badge-pending">Pending / 待签名</span>
-      case Status.PARTIALLY_SIGNED:
-        return <span className="badge bg-blue-100 text-blue-800">Partially Signed / 部分签名</span>
-      case Status.COMPLETED:
-        return <span className="badge badge-completed">Completed / 已完成</span>
-      case Status.CANCELLED:
-        return <span className="badge bg-red-100 text-red-800">Cancelled / 已取消</span>
-      default:
-        return <span className="badge">Unknown</span>
-    }
+// 将剩余秒数格式化为倒计时
+function formatCountdown(seconds: number): string {
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = seconds % 60
+  return days > 0
+    ? `${days}d ${hours}h ${minutes}m`
+    : `${hours}h ${minutes}m ${secs}s`
+}
+
+// 承诺状态徽章
+export function StatusBadge({ status }: { status: Status }) {
+  switch (status) {
+    case Status.PENDING:
+      return <span className="badge badge-pending">Pending / 待签名</span>
+    case Status.PARTIALLY_SIGNED:
+      return <span className="badge bg-blue-100 text-blue-800">Partially Signed / 部分签名</span>
+    case Status.COMPLETED:
+      return <span className="badge badge-completed">Completed / 已完成</span>
+    case Status.VERIFIED:
+      return <span className="badge bg-green-100 text-green-800">Verified / 已验证</span>
+    case Status.FROZEN:
+      return <span className="badge bg-purple-100 text-purple-800">Frozen / 已冻结</span>
+    case Status.CANCELLED:
+      return <span className="badge bg-red-100 text-red-800">Cancelled / 已取消</span>
+    case Status.EXPIRED:
+      return <span className="badge bg-gray-200 text-gray-700">Expired / 已过期</span>
+    case Status.DECLINED:
+      return <span className="badge bg-red-100 text-red-800">Declined / 已拒绝</span>
+    case Status.SUPERSEDED:
+      return <span className="badge bg-orange-100 text-orange-800">Superseded / 已被取代</span>
+    case Status.DISPUTED:
+      return <span className="badge bg-yellow-100 text-yellow-800">Disputed / 争议中</span>
+    default:
+      return <span className="badge">Unknown</span>
   }
+}
+
+export default function CommitmentStatus({ commitment }: Props) {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000))
+
+  // 有截止时间且仍在签名中时，每秒刷新倒计时
+  const isAwaitingSignatures = commitment.status === Status.PENDING ||
+    commitment.status === Status.PARTIALLY_SIGNED
+  const showCountdown = !!commitment.deadline && isAwaitingSignatures
 
-  const totalSigners = 1 + commitment.witnesses.length
-  const signedCount = (commitment.signer.hasSigned ? 1 : 0) + 
-    commitment.witnesses.filter(w => w.hasSigned).length
+  useEffect(() => {
+    if (!showCountdown) return
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000)
+    return () => clearInterval(timer)
+  }, [showCountdown])
+
+  const secondsLeft = commitment.deadline ? commitment.deadline - now : 0
+  // 见证者只需达到法定人数，超出部分不计入进度
+  const witnessSignedCount = commitment.witnesses.filter(w => w.hasSigned).length
+  const hasWitnessQuorum = commitment.witnessThreshold < commitment.witnesses.length
+  const totalSigners = commitment.signers.length + commitment.witnessThreshold
+  const signedCount = commitment.signers.filter(s => s.hasSigned).length + 
+    Math.min(witnessSignedCount, commitment.witnessThreshold)
+  const isCompleted = commitment.completedAt !== undefined && commitment.completedAt > 0
   const progressPercent = (signedCount / totalSigners) * 100
 
   return (
     <div className="card">
       <div className="flex items-center justify-between mb-4">
         <h3 className="font-semibold text-gray-900">Signature Status / 签名状态</h3>
-        {getStatusBadge(commitment.status)}
+        <StatusBadge status={commitment.status} />
       </div>
 
+      {/* Cancellation Notice */}
+      {commitment.cancellation && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm">
+          <p className="font-medium text-red-800">This commitment was cancelled / 此承诺已被取消</p>
+          <p className="text-red-700 mt-1">
+            By / 取消者：<span className="font-mono">{truncateAddress(commitment.cancellation.cancelledBy)}</span>
+            {' · '}
+            {new Date(commitment.cancellation.cancelledAt * 1000).toLocaleString()}
+          </p>
+          <p className="text-red-700 mt-1">
+            Reason Hash / 原因哈希：<span className="font-mono">{truncateHash(commitment.cancellation.reasonHash, 20, 16)}</span>
+          </p>
+        </div>
+      )}
+
+      {commitment.decline && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm">
+          <p className="font-medium text-red-800">Signing was declined / 签名已被拒绝</p>
+          <p className="text-red-700 mt-1">
+            By / 拒绝者：<span className="font-mono">{truncateAddress(commitment.decline.declinedBy)}</span>
+            {' · '}
+            {new Date(commitment.decline.declinedAt * 1000).toLocaleString()}
+          </p>
+          <p className="text-red-700 mt-1">
+            Reason Hash / 原因哈希：<span className="font-mono">{truncateHash(commitment.decline.reasonHash, 20, 16)}</span>
+          </p>
+        </div>
+      )}
+
+      {commitment.dispute && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm">
+          <p className="font-medium text-yellow-800">
+            {commitment.dispute.resolved
+              ? 'Verification rejection upheld by admin / 管理员已维持拒绝验证'
+              : 'Verification rejected, awaiting admin resolution / 验证被拒绝，等待管理员裁决'}
+          </p>
+          <p className="text-yellow-700 mt-1">
+            By / 验证员：<span className="font-mono">{truncateAddress(commitment.dispute.disputedBy)}</span>
+            {' · '}
+            {new Date(commitment.dispute.disputedAt * 1000).toLocaleString()}
+          </p>
+          <p className="text-yellow-700 mt-1">
+            Reason Hash / 原因哈希：<span className="font-mono">{truncateHash(commitment.dispute.reasonHash, 20, 16)}</span>
+          </p>
+        </div>
+      )}
+
+      {/* Deadline Countdown */}
+      {showCountdown && (
+        <div className={`mb-6 p-3 rounded-lg border text-sm flex items-center justify-between ${
+          secondsLeft > 0
+            ? 'bg-yellow-50 border-yellow-200 text-yellow-800'
+            : 'bg-gray-100 border-gray-200 text-gray-700'
+        }`}>
+          <span>
+            Deadline / 截止时间：{new Date(commitment.deadline! * 1000).toLocaleString()}
+          </span>
+          <span className="font-mono font-medium">
+            {secondsLeft > 0 ? formatCountdown(secondsLeft) : 'Expired / 已过期'}
+          </span>
+        </div>
+      )}
+
       {/* Progress Bar */}
       <div className="mb-6">
         <div className="flex justify-between text-sm text-gray-600 mb-2">
           <span>Progress / 进度</span>
           <span>{signedCount} / {totalSigners} signed</span>
         </div>
+        {hasWitnessQuorum && (
+          <p className="text-xs text-gray-500 mb-2">
+            {commitment.witnessThreshold} of {commitment.witnesses.length} witnesses required
+            {' / '}需要 {commitment.witnesses.length} 位见证者中的 {commitment.witnessThreshold} 位签名
+          </p>
+        )}
         <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
           <div 
             className="h-full bg-primary-600 rounded-full transition-all duration-500"
@@ -47,47 +160,55 @@ export default function CommitmentStatus({ commitment }: Props) {
         </div>
       </div>
 
-      {/* Signer */}
+      {/* Signers */}
       <div className="space-y-3">
-        <div className={`flex items-center justify-between p-3 rounded-lg border ${
-          commitment.signer.hasSigned 
-            ? 'bg-green-50 border-green-200' 
-            : 'bg-gray-50 border-gray-200'
-        }`}>
-          <div className="flex items-center gap-3">
-            <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-              commitment.signer.hasSigned ? 'bg-green-100' : 'bg-gray-200'
-            }`}>
-              {commitment.signer.hasSigned ? (
-                <svg className="w-4 h-4 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                </svg>
+        {commitment.signers.map((signer, index) => (
+          <div 
+            key={`signer-${index}`}
+            className={`flex items-center justify-between p-3 rounded-lg border ${
+              signer.hasSigned 
+                ? 'bg-green-50 border-green-200' 
+                : 'bg-gray-50 border-gray-200'
+            }`}
+          >
+            <div className="flex items-center gap-3">
+              <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                signer.hasSigned ? 'bg-green-100' : 'bg-gray-200'
+              }`}>
+                {signer.hasSigned ? (
+                  <svg className="w-4 h-4 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                  </svg>
+                ) : (
+                  <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                )}
+              </div>
+              <div>
+                <p className="font-medium text-gray-900">
+                  {commitment.signers.length > 1 ? `Signer #${index + 1}` : 'Signer'} / 签约者
+                </p>
+                <ParticipantProfile address={signer.address} profile={commitment.profiles[signer.address.toLowerCase()]} />
+              </div>
+            </div>
+            <div className="text-right">
+              {signer.hasSigned ? (
+                <>
+                  <span className="text-green-600 text-sm font-medium">Signed</span>
+                  {signer.signedAt && signer.signedAt > 0 && (
+                    <p className="text-xs text-gray-500">
+                      {new Date(signer.signedAt * 1000).toLocaleString()}
+                      {signer.signedBlock ? ` · #${signer.signedBlock}` : ''}
+                    </p>
+                  )}
+                </>
               ) : (
-                <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
+                <span className="text-gray-500 text-sm">Pending</span>
               )}
             </div>
-            <div>
-              <p className="font-medium text-gray-900">Signer / 签约者</p>
-              <p className="text-sm font-mono text-gray-600">{truncateAddress(commitment.signer.address)}</p>
-            </div>
-          </div>
-          <div className="text-right">
-            {commitment.signer.hasSigned ? (
-              <>
-                <span className="text-green-600 text-sm font-medium">Signed</span>
-                {commitment.signer.signedAt && commitment.signer.signedAt > 0 && (
-                  <p className="text-xs text-gray-500">
-                    {new Date(commitment.signer.signedAt * 1000).toLocaleDateString()}
-                  </p>
-                )}
-              </>
-            ) : (
-              <span className="text-gray-500 text-sm">Pending</span>
-            )}
           </div>
-        </div>
+        ))}
 
         {/* Witnesses */}
         {commitment.witnesses.map((witness, index) => (
@@ -115,7 +236,7 @@ export default function CommitmentStatus({ commitment }: Props) {
               </div>
               <div>
                 <p className="font-medium text-gray-900">Witness #{index + 1} / 见证者</p>
-                <p className="text-sm font-mono text-gray-600">{truncateAddress(witness.address)}</p>
+                <ParticipantProfile address={witness.address} profile={commitment.profiles[witness.address.toLowerCase()]} />
               </div>
             </div>
             <div className="text-right">
@@ -124,10 +245,13 @@ export default function CommitmentStatus({ commitment }: Props) {
                   <span className="text-green-600 text-sm font-medium">Signed</span>
                   {witness.signedAt && witness.signedAt > 0 && (
                     <p className="text-xs text-gray-500">
-                      {new Date(witness.signedAt * 1000).toLocaleDateString()}
+                      {new Date(witness.signedAt * 1000).toLocaleString()}
+                      {witness.signedBlock ? ` · #${witness.signedBlock}` : ''}
                     </p>
                   )}
                 </>
+              ) : isCompleted ? (
+                <span className="text-gray-400 text-sm">Not signed / 未签名</span>
               ) : (
                 <span className="text-gray-500 text-sm">Pending</span>
               )}
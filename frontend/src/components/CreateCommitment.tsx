@@ -4,35 +4,68 @@ import { useWallet } from '../hooks/useWallet'
 import { useContract } from '../hooks/useContract'
 import FileUpload from './FileUpload'
 import ShareLink from './ShareLink'
-import { FileInfo } from '../types'
-import { truncateAddress } from '../utils/hash'
+import { FileCids, FileInfo } from '../types'
+import { isValidDigest, truncateAddress } from '../utils/hash'
 
 export default function CreateCommitment() {
   const { isConnected, address } = useWallet()
-  const { createCommitment, txState } = useContract()
+  const { createCommitment, setContentCid, txState } = useContract()
   
   const [fileInfo, setFileInfo] = useState<FileInfo | null>(null)
-  const [signerAddress, setSignerAddress] = useState('')
+  const [cidKind, setCidKind] = useState<keyof FileCids | ''>('')  // 空表示不关联 IPFS CID
+  const [signers, setSigners] = useState<string[]>([''])
   const [witnesses, setWitnesses] = useState<string[]>([''])
+  const [witnessThreshold, setWitnessThreshold] = useState(0)
+  const [deadline, setDeadline] = useState('')
   const [createdCommitmentId, setCreatedCommitmentId] = useState<string | null>(null)
 
+  // 大于一个分块的文件没有 raw CID，此时回退为不关联
+  const handleFileSelect = (info: FileInfo) => {
+    setFileInfo(info)
+    if (cidKind === 'raw' && info.cids && !info.cids.raw) setCidKind('')
+  }
+
+  const handleAddSigner = () => {
+    setSigners([...signers, ''])
+  }
+
+  const handleRemoveSigner = (index: number) => {
+    setSigners(signers.filter((_, i) => i !== index))
+  }
+
+  const handleSignerChange = (index: number, value: string) => {
+    const newSigners = [...signers]
+    newSigners[index] = value
+    setSigners(newSigners)
+  }
+
   const handleAddWitness = () => {
     setWitnesses([...witnesses, ''])
   }
 
   const handleRemoveWitness = (index: number) => {
     setWitnesses(witnesses.filter((_, i) => i !== index))
+    setWitnessThreshold(0)
   }
 
   const handleWitnessChange = (index: number, value: string) => {
     const newWitnesses = [...witnesses]
     newWitnesses[index] = value
     setWitnesses(newWitnesses)
+    setWitnessThreshold(0)
   }
 
+  // 有效见证者数量，法定人数不能超过它（0 表示需要全部见证者）
+  const validWitnessCount = witnesses.filter(w => w && isAddress(w)).length
+
+  // datetime-local 字符串 → Unix 时间戳（秒），未设置为 0
+  const deadlineTimestamp = deadline ? Math.floor(new Date(deadline).getTime() / 1000) : 0
+  const isDeadlineValid = !deadline || deadlineTimestamp > Math.floor(Date.now() / 1000)
+
   const validateForm = (): boolean => {
-    if (!fileInfo?.hash) return false
-    if (!signerAddress || !isAddress(signerAddress)) return false
+    if (!fileInfo || !isValidDigest(fileInfo.hash)) return false
+    if (!signers.every(s => s && isAddress(s))) return false
+    if (!isDeadlineValid) return false
     return true
   }
 
@@ -42,19 +75,28 @@ export default function CreateCommitment() {
     const validWitnesses = witnesses.filter(w => w && isAddress(w))
     const commitmentId = await createCommitment(
       fileInfo!.hash,
-      signerAddress,
-      validWitnesses
+      fileInfo!.algorithm,
+      signers,
+      validWitnesses,
+      witnessThreshold,
+      deadlineTimestamp
     )
 
     if (commitmentId) {
+      // CID 在创建后由发起人单独关联，需在任何人签名之前完成
+      const cid = cidKind && fileInfo!.cids?.[cidKind]
+      if (cid) await setContentCid(commitmentId, cid)
       setCreatedCommitmentId(commitmentId)
     }
   }
 
   const handleReset = () => {
     setFileInfo(null)
-    setSignerAddress('')
+    setCidKind('')
+    setSigners([''])
     setWitnesses([''])
+    setWitnessThreshold(0)
+    setDeadline('')
     setCreatedCommitmentId(null)
   }
 
@@ -102,7 +144,19 @@ export default function CreateCommitment() {
             <span className="w-8 h-8 bg-primary-100 text-primary-700 rounded-full flex items-center justify-center font-bold text-sm">1</span>
             <h3 className="font-semibold text-gray-900">Select File / 选择文件</h3>
           </div>
-          <FileUpload onFileSelect={setFileInfo} />
+          <FileUpload onFileSelect={handleFileSelect} selectAlgorithm computeCids />
+          <div className="flex items-center gap-3 mt-4">
+            <label className="text-sm text-gray-600">IPFS CID Reference / IPFS CID 引用</label>
+            <select
+              value={cidKind}
+              onChange={(e) => setCidKind(e.target.value as keyof FileCids | '')}
+              className="input-field w-auto"
+            >
+              <option value="">None / 不关联</option>
+              <option value="raw" disabled={Boolean(fileInfo?.cids && !fileInfo.cids.raw)}>Raw block / 单块</option>
+              <option value="unixfs">UnixFS (ipfs add) / 分块</option>
+            </select>
+          </div>
         </div>
 
         {/* Step 2: Initiator Info */}
@@ -138,23 +192,49 @@ export default function CreateCommitment() {
         <div className="card">
           <div className="flex items-center gap-2 mb-4">
             <span className="w-8 h-8 bg-primary-100 text-primary-700 rounded-full flex items-center justify-center font-bold text-sm">3</span>
-            <h3 className="font-semibold text-gray-900">Signer / 签约者</h3>
+            <h3 className="font-semibold text-gray-900">Signers / 签约者</h3>
           </div>
           
-          <input
-            type="text"
-            value={signerAddress}
-            onChange={(e) => setSignerAddress(e.target.value)}
-            placeholder="0x..."
-            className={`input-field font-mono ${
-              signerAddress && !isAddress(signerAddress) 
-                ? 'border-red-300 focus:ring-red-500 focus:border-red-500' 
-                : ''
-            }`}
-          />
-          {signerAddress && !isAddress(signerAddress) && (
-            <p className="text-red-500 text-sm mt-2">Invalid address / 地址格式无效</p>
-          )}
+          <div className="space-y-3">
+            {signers.map((signer, index) => (
+              <div key={index} className="flex gap-2">
+                <input
+                  type="text"
+                  value={signer}
+                  onChange={(e) => handleSignerChange(index, e.target.value)}
+                  placeholder="0x..."
+                  className={`input-field font-mono flex-1 ${
+                    signer && !isAddress(signer) 
+                      ? 'border-red-300 focus:ring-red-500 focus:border-red-500' 
+                      : ''
+                  }`}
+                />
+                {signers.length > 1 && (
+                  <button
+                    onClick={() => handleRemoveSigner(index)}
+                    className="p-2.5 text-gray-400 hover:text-red-500 transition-colors"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+            ))}
+            {signers.some(s => s && !isAddress(s)) && (
+              <p className="text-red-500 text-sm">Invalid address / 地址格式无效</p>
+            )}
+            
+            <button
+              onClick={handleAddSigner}
+              className="w-full py-2 border-2 border-dashed border-gray-300 rounded-lg text-gray-500 hover:border-primary-400 hover:text-primary-600 transition-colors flex items-center justify-center gap-2"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Add Signer / 添加签约者
+            </button>
+          </div>
         </div>
 
         {/* Step 4: Witnesses */}
@@ -200,7 +280,54 @@ export default function CreateCommitment() {
               </svg>
               Add Witness / 添加见证者
             </button>
+
+            {validWitnessCount > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <label htmlFor="witness-threshold" className="text-sm text-gray-600">
+                  Required witness signatures / 所需见证者签名数
+                </label>
+                <select
+                  id="witness-threshold"
+                  value={witnessThreshold}
+                  onChange={(e) => setWitnessThreshold(Number(e.target.value))}
+                  className="input-field w-40"
+                >
+                  <option value={0}>All / 全部 ({validWitnessCount})</option>
+                  {Array.from({ length: validWitnessCount - 1 }, (_, i) => i + 1).map(n => (
+                    <option key={n} value={n}>{n} of {validWitnessCount}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Step 5: Signing Deadline */}
+        <div className="card">
+          <div className="flex items-center gap-2 mb-4">
+            <span className="w-8 h-8 bg-primary-100 text-primary-700 rounded-full flex items-center justify-center font-bold text-sm">5</span>
+            <h3 className="font-semibold text-gray-900">Signing Deadline (Optional) / 签名截止时间（可选）</h3>
           </div>
+
+          <input
+            type="datetime-local"
+            value={deadline}
+            onChange={(e) => setDeadline(e.target.value)}
+            className={`input-field ${
+              !isDeadlineValid
+                ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
+                : ''
+            }`}
+          />
+          {!isDeadlineValid ? (
+            <p className="text-red-500 text-sm mt-2">Deadline must be in the future / 截止时间必须在未来</p>
+          ) : (
+            <p className="text-gray-500 text-sm mt-2">
+              Signatures are rejected after this time. Leave empty for no deadline.
+              <br />
+              超过此时间后将拒绝签名，留空表示无截止时间。
+            </p>
+          )}
         </div>
 
         {/* Error Display */}
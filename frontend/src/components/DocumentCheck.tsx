@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import FileUpload from './FileUpload'
+import { FileInfo, HashAlgorithm } from '../types'
+import { truncateHash } from '../utils/hash'
+
+interface DocumentCheckProps {
+  expectedHash: string
+  algorithm: HashAlgorithm
+  expectedCid?: string
+  onResult?: (matches: boolean) => void
+}
+
+// 上传文件的摘要或 CID（raw / UnixFS 任一）与链上记录一致即视为匹配
+function matchOf(info: FileInfo, expectedHash: string, expectedCid?: string): 'hash' | 'cid' | null {
+  if (info.hash.toLowerCase() === expectedHash.toLowerCase()) return 'hash'
+  if (expectedCid && info.cids && [info.cids.raw?.cid, info.cids.unixfs.cid].includes(expectedCid)) return 'cid'
+  return null
+}
+
+// 在本地按承诺登记的算法计算文件摘要（及 IPFS CID），并与链上记录比对
+// 旧版承诺登记的是 SHA-256 十六进制字符串，因此按 SHA-256 计算
+export default function DocumentCheck({ expectedHash, algorithm, expectedCid, onResult }: DocumentCheckProps) {
+  const [fileInfo, setFileInfo] = useState<FileInfo | null>(null)
+
+  const match = fileInfo && matchOf(fileInfo, expectedHash, expectedCid)
+
+  const handleFileSelect = (info: FileInfo) => {
+    setFileInfo(info)
+    onResult?.(matchOf(info, expectedHash, expectedCid) !== null)
+  }
+
+  const handleFileRemove = () => {
+    setFileInfo(null)
+    onResult?.(false)
+  }
+
+  return (
+    <div className="space-y-3">
+      <FileUpload
+        onFileSelect={handleFileSelect}
+        onFileRemove={handleFileRemove}
+        algorithm={algorithm === HashAlgorithm.LEGACY ? HashAlgorithm.SHA256 : algorithm}
+        computeCids={!!expectedCid}
+      />
+
+      {fileInfo && (match ? (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="font-medium text-green-800">Document matches / 文件匹配</p>
+          <p className="text-sm text-green-600 mt-1">
+            {match === 'hash'
+              ? 'The file hash equals the hash recorded on-chain. / 文件哈希与链上记录一致。'
+              : 'The file CID equals the IPFS CID recorded on-chain. / 文件 CID 与链上记录的 IPFS CID 一致。'}
+          </p>
+        </div>
+      ) : (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="font-medium text-red-800">Document mismatch / 文件不匹配</p>
+          <p className="text-sm text-red-600 mt-1">
+            This is not the document registered for this commitment. / 此文件不是该承诺登记的文件。
+          </p>
+          <div className="mt-2 text-xs font-mono text-red-700 space-y-1">
+            <p>Expected / 链上：{truncateHash(expectedHash, 20, 16)}</p>
+            <p>Uploaded / 上传：{truncateHash(fileInfo.hash, 20, 16)}</p>
+            {expectedCid && <p className="break-all">Expected CID / 链上 CID：{expectedCid}</p>}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,30 +1,56 @@
 import { useState, useRef, DragEvent, ChangeEvent } from 'react'
-import { calculateFileHash, formatFileSize, truncateHash } from '../utils/hash'
-import { FileInfo } from '../types'
+import { calculateFileCids, calculateFileHash, formatFileSize, truncateHash } from '../utils/hash'
+import { FileInfo, HashAlgorithm, HASH_ALGORITHM_LABELS } from '../types'
+
+// 可选的摘要算法（LEGACY 仅用于读取旧版承诺）
+const SELECTABLE_ALGORITHMS = [
+  HashAlgorithm.SHA256,
+  HashAlgorithm.KECCAK256,
+  HashAlgorithm.SHA3_256,
+  HashAlgorithm.IPFS_MULTIHASH
+]
 
 interface FileUploadProps {
   onFileSelect: (fileInfo: FileInfo) => void
+  onFileRemove?: () => void
+  algorithm?: HashAlgorithm      // 固定算法（例如与链上承诺比对时）
+  selectAlgorithm?: boolean      // 是否允许用户选择算法
+  computeCids?: boolean          // 是否同时计算 IPFS CID
 }
 
-export default function FileUpload({ onFileSelect }: FileUploadProps) {
+export default function FileUpload({
+  onFileSelect,
+  onFileRemove,
+  algorithm = HashAlgorithm.SHA256,
+  selectAlgorithm = false,
+  computeCids = false
+}: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
   const [fileInfo, setFileInfo] = useState<FileInfo | null>(null)
+  const [selected, setSelected] = useState(algorithm)
   const [error, setError] = useState<string | null>(null)
   const inputRef = useRef<HTMLInputElement>(null)
 
-  const processFile = async (file: File) => {
+  const processFile = async (file: File, hashAlgorithm: HashAlgorithm = selected) => {
     setIsProcessing(true)
     setError(null)
 
     try {
-      const hash = await calculateFileHash(file)
+      const [hash, cids] = await Promise.all([
+        calculateFileHash(file, hashAlgorithm),
+        computeCids ? calculateFileCids(file) : undefined
+      ])
       const info: FileInfo = {
         name: file.name,
         size: file.size,
         type: file.type || 'unknown',
-        hash
+        hash,
+        algorithm: hashAlgorithm,
+        cids
       }
+      setFile(file)
       setFileInfo(info)
       onFileSelect(info)
     } catch (err) {
@@ -62,19 +88,44 @@ export default function FileUpload({ onFileSelect }: FileUploadProps) {
     }
   }
 
+  // 切换算法后对已选文件重新计算摘要
+  const handleAlgorithmChange = async (e: ChangeEvent<HTMLSelectElement>) => {
+    const next = Number(e.target.value) as HashAlgorithm
+    setSelected(next)
+    if (file) await processFile(file, next)
+  }
+
   const handleClick = () => {
     inputRef.current?.click()
   }
 
   const handleRemove = () => {
+    setFile(null)
     setFileInfo(null)
     if (inputRef.current) {
       inputRef.current.value = ''
     }
+    onFileRemove?.()
   }
 
   return (
     <div className="space-y-3">
+      {selectAlgorithm && (
+        <div className="flex items-center gap-3">
+          <label className="text-sm text-gray-600">Hash Algorithm / 摘要算法</label>
+          <select
+            value={selected}
+            onChange={handleAlgorithmChange}
+            disabled={isProcessing}
+            className="input-field w-auto"
+          >
+            {SELECTABLE_ALGORITHMS.map(a => (
+              <option key={a} value={a}>{HASH_ALGORITHM_LABELS[a]}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {!fileInfo ? (
         <div
           onClick={handleClick}
@@ -138,10 +189,25 @@ export default function FileUpload({ onFileSelect }: FileUploadProps) {
           </div>
           
           <div className="mt-3 p-3 bg-white rounded-lg border border-gray-200">
-            <p className="text-xs text-gray-500 mb-1">SHA-256 Hash</p>
+            <p className="text-xs text-gray-500 mb-1">{HASH_ALGORITHM_LABELS[fileInfo.algorithm]}</p>
             <p className="font-mono text-sm text-gray-700 break-all">{fileInfo.hash}</p>
             <p className="font-mono text-xs text-gray-400 mt-1">{truncateHash(fileInfo.hash, 20, 16)}</p>
           </div>
+
+          {fileInfo.cids && (
+            <div className="mt-3 p-3 bg-white rounded-lg border border-gray-200 space-y-2">
+              {fileInfo.cids.raw && (
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">IPFS CID (raw) / 单块 CID</p>
+                  <p className="font-mono text-sm text-gray-700 break-all">{fileInfo.cids.raw.cid}</p>
+                </div>
+              )}
+              <div>
+                <p className="text-xs text-gray-500 mb-1">IPFS CID (UnixFS, ipfs add) / 分块 CID</p>
+                <p className="font-mono text-sm text-gray-700 break-all">{fileInfo.cids.unixfs.cid}</p>
+              </div>
+            </div>
+          )}
         </div>
       )}
 
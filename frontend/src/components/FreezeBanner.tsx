@@ -0,0 +1,41 @@
+import { ZeroHash } from 'ethers'
+import { Freeze, FREEZE_REASON_LABELS } from '../types'
+import { truncateAddress, truncateHash } from '../utils/hash'
+
+interface FreezeBannerProps {
+  freeze: Freeze
+}
+
+// 冻结横幅：说明冻结原因、案件编号哈希及自动解冻时间
+export default function FreezeBanner({ freeze }: FreezeBannerProps) {
+  return (
+    <div className="p-4 bg-purple-50 border border-purple-200 rounded-lg text-sm">
+      <p className="font-medium text-purple-800">
+        This commitment is frozen / 此承诺已被冻结
+      </p>
+      <p className="text-purple-700 mt-1">
+        It can still be viewed, but no one can sign, decline or cancel it until it is unfrozen.
+        <br />
+        仍可查看，但解冻前任何人都无法签名、拒绝或取消。
+      </p>
+      <div className="mt-3 grid gap-1 text-purple-700">
+        <p>Reason / 原因：{FREEZE_REASON_LABELS[freeze.reason] ?? 'Unknown'}</p>
+        {freeze.caseRef !== ZeroHash && (
+          <p>
+            Case Ref Hash / 案件编号哈希：<span className="font-mono">{truncateHash(freeze.caseRef, 20, 16)}</span>
+          </p>
+        )}
+        <p>
+          By / 冻结者：<span className="font-mono">{truncateAddress(freeze.frozenBy)}</span>
+          {' · '}
+          {new Date(freeze.frozenAt * 1000).toLocaleString()}
+        </p>
+        <p>
+          {freeze.unfreezeAt > 0
+            ? `Unfreezes automatically at / 自动解冻时间：${new Date(freeze.unfreezeAt * 1000).toLocaleString()}`
+            : 'Frozen until unfrozen by an emergency admin / 冻结至紧急管理员解冻'}
+        </p>
+      </div>
+    </div>
+  )
+}
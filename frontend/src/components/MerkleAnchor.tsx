@@ -0,0 +1,215 @@
+import { useState, ChangeEvent } from 'react'
+import { Link } from 'react-router-dom'
+import { isAddress } from 'ethers'
+import { useWallet } from '../hooks/useWallet'
+import { useContract } from '../hooks/useContract'
+import { MerkleProofBundle } from '../types'
+import { buildMerkleTree, calculateFileHash, downloadProofBundle, truncateHash } from '../utils/hash'
+
+// 分号或换行分隔的地址列表
+const parseAddresses = (value: string) => value.split(/[;\n]/).map(a => a.trim()).filter(Boolean)
+
+// Merkle 锚定：多个文件只上链一个 Merkle 根，每个文件各自下载包含证明
+export default function MerkleAnchor() {
+  const { isConnected } = useWallet()
+  const { createMerkleCommitment, txState } = useContract()
+
+  const [documents, setDocuments] = useState<{ name: string; hash: string }[]>([])
+  const [signers, setSigners] = useState('')
+  const [witnesses, setWitnesses] = useState('')
+  const [deadline, setDeadline] = useState('')
+  const [isHashing, setIsHashing] = useState(false)
+  const [bundles, setBundles] = useState<MerkleProofBundle[] | null>(null)
+
+  const handleDocuments = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    if (files.length === 0) return
+
+    setIsHashing(true)
+    try {
+      // 文件仅在本地计算哈希，不会上传
+      setDocuments(await Promise.all(files.map(async f => ({ name: f.name, hash: await calculateFileHash(f) }))))
+    } catch (err) {
+      console.error('Failed to hash documents:', err)
+    } finally {
+      setIsHashing(false)
+    }
+  }
+
+  const signerList = parseAddresses(signers)
+  const witnessList = parseAddresses(witnesses)
+  const deadlineTimestamp = deadline ? Math.floor(new Date(deadline).getTime() / 1000) : 0
+  const isDeadlineValid = !deadline || deadlineTimestamp > Math.floor(Date.now() / 1000)
+  const tree = documents.length > 0 ? buildMerkleTree(documents.map(d => d.hash)) : null
+
+  const canSubmit = isConnected &&
+    tree !== null &&
+    signerList.length > 0 &&
+    [...signerList, ...witnessList].every(a => isAddress(a)) &&
+    isDeadlineValid &&
+    !isHashing &&
+    !txState.isPending
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return
+
+    const commitmentId = await createMerkleCommitment(
+      tree.root,
+      documents.length,
+      signerList,
+      witnessList,
+      0,
+      deadlineTimestamp
+    )
+    if (commitmentId) {
+      setBundles(documents.map((doc, i) => ({
+        commitmentId,
+        merkleRoot: tree.root,
+        leafCount: documents.length,
+        fileName: doc.name,
+        documentHash: doc.hash,
+        proof: tree.proofs[i]
+      })))
+    }
+  }
+
+  if (!isConnected) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="card">
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-center">
+            <p className="text-yellow-800 font-medium">Please connect your wallet</p>
+            <p className="text-sm text-yellow-600 mt-1">请连接钱包</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (bundles) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="card">
+          <h2 className="text-2xl font-bold text-gray-900 text-center">Merkle Root Anchored!</h2>
+          <p className="text-gray-600 text-center mt-1">Merkle 根已上链，共 {bundles.length} 个文件</p>
+
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800 mt-6">
+            Download and keep each proof; it is needed to verify the file later.
+            <br />
+            请下载并保存每个文件的证明包，之后验证文件时需要使用。
+          </div>
+
+          <ul className="space-y-2 mt-4">
+            {bundles.map(bundle => (
+              <li key={bundle.documentHash + bundle.fileName} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                <div>
+                  <p className="text-gray-900">{bundle.fileName}</p>
+                  <p className="font-mono text-xs text-gray-500">{truncateHash(bundle.documentHash)}</p>
+                </div>
+                <button
+                  onClick={() => downloadProofBundle(bundle)}
+                  className="font-medium text-primary-600 hover:text-primary-700"
+                >
+                  Download Proof / 下载证明
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="mt-6 flex gap-3">
+            <button
+              onClick={() => { setBundles(null); setDocuments([]) }}
+              className="btn-secondary flex-1"
+            >
+              New Anchor / 新建锚定
+            </button>
+            <Link to={`/commitment/${bundles[0].commitmentId}`} className="btn-primary flex-1 text-center">
+              View Details / 查看详情
+            </Link>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Merkle Anchoring</h1>
+        <p className="text-gray-600 mt-2">Merkle 根锚定</p>
+      </div>
+
+      <div className="card space-y-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Documents / 文件
+          </label>
+          <p className="text-xs text-gray-500 mb-2">
+            Hashed locally into one Merkle root / 仅在本地计算哈希并合并为一个 Merkle 根
+          </p>
+          <input type="file" multiple onChange={handleDocuments} className="text-sm" />
+          {tree && (
+            <p className="text-sm text-gray-600 mt-2">
+              {documents.length} document(s) / 个文件 · Root / 根：
+              <span className="font-mono">{truncateHash(tree.root)}</span>
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Signers / 签约者
+          </label>
+          <input
+            type="text"
+            value={signers}
+            onChange={(e) => setSigners(e.target.value)}
+            placeholder="0x...;0x..."
+            className="input-field font-mono"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Witnesses (Optional) / 见证者（可选）
+          </label>
+          <input
+            type="text"
+            value={witnesses}
+            onChange={(e) => setWitnesses(e.target.value)}
+            placeholder="0x...;0x..."
+            className="input-field font-mono"
+          />
+          {[...signerList, ...witnessList].some(a => !isAddress(a)) && (
+            <p className="text-red-500 text-sm mt-2">Invalid address / 地址格式无效</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Signing Deadline (Optional) / 签名截止时间（可选）
+          </label>
+          <input
+            type="datetime-local"
+            value={deadline}
+            onChange={(e) => setDeadline(e.target.value)}
+            className="input-field"
+          />
+          {!isDeadlineValid && (
+            <p className="text-red-500 text-sm mt-2">Deadline must be in the future / 截止时间必须在未来</p>
+          )}
+        </div>
+
+        {txState.error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm break-all">
+            {txState.error}
+          </div>
+        )}
+
+        <button onClick={handleSubmit} disabled={!canSubmit} className="btn-primary w-full">
+          {txState.isPending ? 'Submitting... / 提交中...' : 'Anchor Merkle Root / 锚定 Merkle 根'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import { Organization } from '../types'
+
+interface OrganizationSelectProps {
+  organizations: Organization[]
+  value: number | undefined
+  onChange: (organizationId: number | undefined) => void
+  allowAll?: boolean
+  disabled?: boolean
+}
+
+// 组织选择器；allowAll 时 undefined 表示所有组织
+export default function OrganizationSelect({
+  organizations,
+  value,
+  onChange,
+  allowAll = false,
+  disabled = false
+}: OrganizationSelectProps) {
+  return (
+    <select
+      value={value === undefined ? '' : String(value)}
+      onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+      disabled={disabled}
+      className="input-field w-auto"
+    >
+      {allowAll && <option value="">All organizations / 所有组织</option>}
+      {organizations.map(org => (
+        <option key={org.id} value={org.id}>
+          {org.name} ({org.commitmentCount})
+        </option>
+      ))}
+    </select>
+  )
+}
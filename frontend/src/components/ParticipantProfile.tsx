@@ -0,0 +1,32 @@
+import { id } from 'ethers'
+import { MANAGED_ROLES, Profile } from '../types'
+import { truncateAddress, truncateHash } from '../utils/hash'
+
+interface ParticipantProfileProps {
+  address: string
+  profile?: Profile
+}
+
+// 参与者地址及其角色档案（警号 / 执业证号、发证机构）
+export default function ParticipantProfile({ address, profile }: ParticipantProfileProps) {
+  const roleLabel = profile && MANAGED_ROLES.find(r => id(r.name) === profile.role)?.label
+
+  return (
+    <div>
+      <p className="text-sm font-mono text-gray-600" title={address}>{truncateAddress(address)}</p>
+      {profile ? (
+        <p
+          className="text-xs text-gray-500 mt-0.5"
+          title={`Credential Hash / 资质文件哈希：${profile.credentialHash}\nName Hash / 姓名哈希：${profile.displayNameHash}`}
+        >
+          {roleLabel && <span className="badge bg-blue-50 text-blue-700 mr-1">{roleLabel}</span>}
+          {profile.badgeNumber} · {profile.organization}
+          {' · '}
+          <span className="font-mono">{truncateHash(profile.credentialHash, 8, 6)}</span>
+        </p>
+      ) : (
+        <p className="text-xs text-gray-400 mt-0.5">No registered profile / 无登记档案</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,289 @@
+import { useState, useEffect, useCallback } from 'react'
+import { isAddress } from 'ethers'
+import { useWallet } from '../hooks/useWallet'
+import { useContract } from '../hooks/useContract'
+import OrganizationSelect from './OrganizationSelect'
+import { Organization, RoleMember, RoleMembers, ROLE_EXPIRY_WARNING } from '../types'
+import { truncateAddress } from '../utils/hash'
+
+// 成员到期时间显示
+function ExpiryLabel({ expiresAt }: { expiresAt: number }) {
+  if (expiresAt === 0) return <span className="text-xs text-gray-400">Permanent / 永久</span>
+
+  const now = Date.now() / 1000
+  const date = new Date(expiresAt * 1000).toLocaleString()
+  if (expiresAt <= now) {
+    return <span className="text-xs text-red-600">Expired / 已到期：{date}</span>
+  }
+  return (
+    <span className={`text-xs ${expiresAt - now < ROLE_EXPIRY_WARNING ? 'text-yellow-700' : 'text-gray-500'}`}>
+      Expires / 到期：{date}
+    </span>
+  )
+}
+
+// 角色管理：列出各角色成员及到期时间，拥有管理角色的账户可授予 / 撤销成员；超级管理员管理组织
+export default function RoleAdmin() {
+  const { isConnected, address } = useWallet()
+  const {
+    getRoleMembers,
+    updateRole,
+    getReviewerRoles,
+    getOrganizations,
+    createOrganization,
+    setAccountOrganization,
+    txState
+  } = useContract()
+
+  const [roles, setRoles] = useState<RoleMembers[]>([])
+  const [organizations, setOrganizations] = useState<Organization[]>([])
+  const [isAdmin, setIsAdmin] = useState(false)
+  const [newOrganization, setNewOrganization] = useState('')
+  const [assignAccount, setAssignAccount] = useState('')
+  const [assignOrganization, setAssignOrganization] = useState<number | undefined>(0)
+  const [loading, setLoading] = useState(true)
+  const [newMembers, setNewMembers] = useState<Record<string, string>>({})
+  const [newExpiries, setNewExpiries] = useState<Record<string, string>>({})
+
+  const loadRoles = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [members, list, reviewerRoles] = await Promise.all([
+        getRoleMembers(),
+        getOrganizations(),
+        getReviewerRoles()
+      ])
+      setRoles(members)
+      setOrganizations(list)
+      setIsAdmin(reviewerRoles.isAdmin)
+    } catch (err) {
+      console.error('Failed to load roles:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [getRoleMembers, getOrganizations, getReviewerRoles])
+
+  useEffect(() => {
+    loadRoles()
+  }, [loadRoles, address])
+
+  const handleGrant = async (role: RoleMembers) => {
+    const account = newMembers[role.name]?.trim()
+    if (!account || !isAddress(account)) return
+
+    // 留空则永久授予
+    const expiry = newExpiries[role.name]
+    const expiresAt = expiry ? Math.floor(new Date(expiry).getTime() / 1000) : undefined
+
+    if (await updateRole(role.role, account, true, expiresAt)) {
+      setNewMembers(prev => ({ ...prev, [role.name]: '' }))
+      setNewExpiries(prev => ({ ...prev, [role.name]: '' }))
+      await loadRoles()
+    }
+  }
+
+  const handleRevoke = async (role: RoleMembers, account: string) => {
+    if (await updateRole(role.role, account, false)) await loadRoles()
+  }
+
+  const handleCreateOrganization = async () => {
+    if (!newOrganization.trim()) return
+
+    if (await createOrganization(newOrganization.trim())) {
+      setNewOrganization('')
+      await loadRoles()
+    }
+  }
+
+  const handleAssignOrganization = async () => {
+    const account = assignAccount.trim()
+    if (!isAddress(account) || assignOrganization === undefined) return
+
+    if (await setAccountOrganization(account, assignOrganization)) {
+      setAssignAccount('')
+      await loadRoles()
+    }
+  }
+
+  const adminLabel = (adminRole: string) =>
+    roles.find(r => r.role === adminRole)?.label ?? 'Default Admin / 超级管理员'
+
+  // 已到期或即将到期的限时授权
+  const expiring = roles.flatMap(role =>
+    role.members
+      .filter(m => m.expiresAt !== 0 && m.expiresAt - Date.now() / 1000 < ROLE_EXPIRY_WARNING)
+      .map(m => ({ role, member: m }))
+  ).sort((a, b) => a.member.expiresAt - b.member.expiresAt)
+
+  if (!isConnected) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="card">
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-center">
+            <p className="text-yellow-800 font-medium">Please connect your wallet</p>
+            <p className="text-sm text-yellow-600 mt-1">请连接钱包</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Role Members</h1>
+        <p className="text-gray-600 mt-2">角色成员</p>
+      </div>
+
+      {loading ? (
+        <div className="card flex items-center justify-center py-12">
+          <div className="w-10 h-10 border-3 border-primary-600 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {txState.error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+              {txState.error}
+            </div>
+          )}
+
+          {expiring.length > 0 && (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <p className="font-medium text-yellow-800 mb-2">Upcoming Expiries / 即将到期的授权</p>
+              <ul className="space-y-1 text-sm">
+                {expiring.map(({ role, member }) => (
+                  <li key={`${role.name}-${member.address}`} className="flex items-center justify-between">
+                    <span>
+                      {role.label} · <span className="font-mono">{truncateAddress(member.address)}</span>
+                    </span>
+                    <ExpiryLabel expiresAt={member.expiresAt} />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Organizations */}
+          <div className="card">
+            <h3 className="font-semibold text-gray-900 mb-4">Organizations / 组织</h3>
+            <ul className="space-y-2">
+              {organizations.map(org => (
+                <li key={org.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                  <span>{org.id > 0 && `#${org.id} `}{org.name}</span>
+                  <span className="text-gray-500">{org.commitmentCount} commitments / 个承诺</span>
+                </li>
+              ))}
+            </ul>
+
+            {isAdmin && (
+              <div className="mt-4 space-y-3">
+                <div className="flex gap-3">
+                  <input
+                    type="text"
+                    value={newOrganization}
+                    onChange={(e) => setNewOrganization(e.target.value)}
+                    placeholder="Organization name / 组织名称"
+                    className="input-field flex-1"
+                  />
+                  <button
+                    onClick={handleCreateOrganization}
+                    disabled={!newOrganization.trim() || txState.isPending}
+                    className="btn-primary"
+                  >
+                    Add / 添加
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-3">
+                  <input
+                    type="text"
+                    value={assignAccount}
+                    onChange={(e) => setAssignAccount(e.target.value)}
+                    placeholder="0x... / 账户地址"
+                    className="input-field font-mono flex-1"
+                  />
+                  <OrganizationSelect
+                    organizations={organizations}
+                    value={assignOrganization}
+                    onChange={setAssignOrganization}
+                  />
+                  <button
+                    onClick={handleAssignOrganization}
+                    disabled={!isAddress(assignAccount.trim()) || txState.isPending}
+                    className="btn-primary"
+                  >
+                    Assign / 分配
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {roles.map(role => (
+            <div key={role.name} className="card">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold text-gray-900">
+                  {role.label} ({role.members.length})
+                </h3>
+                <span className="text-xs text-gray-500">
+                  Managed by / 管理者：{adminLabel(role.adminRole)}
+                </span>
+              </div>
+
+              {role.members.length === 0 ? (
+                <p className="text-sm text-gray-500">No members / 暂无成员</p>
+              ) : (
+                <ul className="space-y-2">
+                  {role.members.map((member: RoleMember) => (
+                    <li key={member.address} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                      <div>
+                        <p className="font-mono" title={member.address}>{truncateAddress(member.address)}</p>
+                        <ExpiryLabel expiresAt={member.expiresAt} />
+                      </div>
+                      {role.canManage && (
+                        <button
+                          onClick={() => handleRevoke(role, member.address)}
+                          disabled={txState.isPending}
+                          className="text-red-600 hover:text-red-700 font-medium disabled:opacity-50"
+                        >
+                          Revoke / 撤销
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {role.canManage && (
+                <div className="flex flex-wrap gap-3 mt-4">
+                  <input
+                    type="text"
+                    value={newMembers[role.name] ?? ''}
+                    onChange={(e) => setNewMembers(prev => ({ ...prev, [role.name]: e.target.value }))}
+                    placeholder="0x... / 新成员地址"
+                    className="input-field font-mono flex-1"
+                  />
+                  {role.canExpire && (
+                    <input
+                      type="datetime-local"
+                      value={newExpiries[role.name] ?? ''}
+                      onChange={(e) => setNewExpiries(prev => ({ ...prev, [role.name]: e.target.value }))}
+                      title="Expiry (optional) / 到期时间（可选）"
+                      className="input-field w-auto"
+                    />
+                  )}
+                  <button
+                    onClick={() => handleGrant(role)}
+                    disabled={!isAddress(newMembers[role.name]?.trim() ?? '') || txState.isPending}
+                    className="btn-primary"
+                  >
+                    Grant / 授予
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
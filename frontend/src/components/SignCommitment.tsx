@@ -3,26 +3,33 @@ import { useParams, Link } from 'react-router-dom'
 import { useWallet } from '../hooks/useWallet'
 import { useContract } from '../hooks/useContract'
 import CommitmentStatus from './CommitmentStatus'
-import { Commitment } from '../types'
+import DocumentCheck from './DocumentCheck'
+import FreezeBanner from './FreezeBanner'
+import { Commitment, CommitmentStatus as Status } from '../types'
 import { truncateAddress, truncateHash } from '../utils/hash'
 
 export default function SignCommitment() {
   const { commitmentId } = useParams<{ commitmentId: string }>()
   const { isConnected, address } = useWallet()
-  const { getCommitment, signAsSigner, signAsWitness, txState } = useContract()
+  const { getCommitment, signBySignature, declineCommitment, txState } = useContract()
   
   const [commitment, setCommitment] = useState<Commitment | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [signSuccess, setSignSuccess] = useState(false)
+  const [showDecline, setShowDecline] = useState(false)
+  const [declineReason, setDeclineReason] = useState('')
+  // 签名前必须上传与链上哈希一致的文件
+  const [documentVerified, setDocumentVerified] = useState(false)
 
   // 检查当前用户的角色
-  const isSigner = address?.toLowerCase() === commitment?.signer.address.toLowerCase()
+  const signerIndex = commitment?.signers.findIndex(s => s.address.toLowerCase() === address?.toLowerCase())
+  const isSigner = signerIndex !== undefined && signerIndex >= 0
   const isWitness = commitment?.witnesses.some(w => w.address.toLowerCase() === address?.toLowerCase())
   const witnessIndex = commitment?.witnesses.findIndex(w => w.address.toLowerCase() === address?.toLowerCase())
   
   // 检查是否已签名
-  const hasSignedAsSigner = isSigner && commitment?.signer.hasSigned
+  const hasSignedAsSigner = isSigner && commitment?.signers[signerIndex].hasSigned
   const hasSignedAsWitness = isWitness && witnessIndex !== undefined && witnessIndex >= 0 && commitment?.witnesses[witnessIndex].hasSigned
 
   // 加载承诺数据
@@ -53,13 +60,14 @@ export default function SignCommitment() {
   }, [commitmentId, getCommitment, signSuccess])
 
   const handleSign = async () => {
-    if (!commitmentId) return
+    if (!commitmentId || !documentVerified) return
 
+    // 通过 EIP-712 签名 + 中继提交，签名人无需持有 ETH
     let success = false
     if (isSigner && !hasSignedAsSigner) {
-      success = await signAsSigner(commitmentId)
+      success = await signBySignature(commitmentId, 'signer')
     } else if (isWitness && !hasSignedAsWitness) {
-      success = await signAsWitness(commitmentId)
+      success = await signBySignature(commitmentId, 'witness')
     }
 
     if (success) {
@@ -70,6 +78,20 @@ export default function SignCommitment() {
     }
   }
 
+  const handleDecline = async () => {
+    if (!commitmentId || !declineReason.trim()) return
+
+    // 原因文本在本地哈希，仅哈希值上链
+    const success = await declineCommitment(commitmentId, isSigner ? 'signer' : 'witness', declineReason.trim())
+
+    if (success) {
+      setShowDecline(false)
+      setDeclineReason('')
+      const data = await getCommitment(commitmentId)
+      if (data) setCommitment(data)
+    }
+  }
+
   if (loading) {
     return (
       <div className="max-w-2xl mx-auto">
@@ -107,6 +129,9 @@ export default function SignCommitment() {
       </div>
 
       <div className="space-y-6">
+        {/* Freeze Notice */}
+        {commitment.freeze && <FreezeBanner freeze={commitment.freeze} />}
+
         {/* Commitment Info */}
         <div className="card">
           <h3 className="font-semibold text-gray-900 mb-4">Commitment Details / 承诺详情</h3>
@@ -147,6 +172,16 @@ export default function SignCommitment() {
                 <p>You are not a participant of this commitment</p>
                 <p className="text-sm mt-1">您不是此承诺的参与者</p>
               </div>
+            ) : commitment.status === Status.DECLINED ? (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-center">
+                <p className="font-medium text-red-800">This commitment has been declined</p>
+                <p className="text-sm text-red-600 mt-1">此承诺已被拒绝，无法继续签名</p>
+              </div>
+            ) : commitment.status === Status.FROZEN ? (
+              <div className="p-4 bg-purple-50 border border-purple-200 rounded-lg text-center">
+                <p className="font-medium text-purple-800">This commitment is frozen</p>
+                <p className="text-sm text-purple-600 mt-1">此承诺已被冻结，解冻前无法签名</p>
+              </div>
             ) : hasSignedAsSigner || hasSignedAsWitness ? (
               <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-center">
                 <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-3">
@@ -178,9 +213,23 @@ export default function SignCommitment() {
                   </div>
                 )}
 
+                <div className="mb-4">
+                  <p className="font-medium text-gray-900">Step 1: Upload the document you are agreeing to</p>
+                  <p className="text-sm text-gray-500 mt-1 mb-3">
+                    第一步：上传您同意签署的文件。文件仅在本地计算哈希，不会上传。
+                  </p>
+                  <DocumentCheck expectedHash={commitment.contentHash} algorithm={commitment.hashAlgorithm} expectedCid={commitment.contentCid?.cid} onResult={setDocumentVerified} />
+                </div>
+
+                <p className="text-sm text-gray-500 mb-4">
+                  Your wallet only signs a message; no ETH is needed. A relayer submits it on-chain.
+                  <br />
+                  钱包仅签署消息，无需 ETH，由中继服务提交上链。
+                </p>
+
                 <button
                   onClick={handleSign}
-                  disabled={txState.isPending}
+                  disabled={!documentVerified || txState.isPending}
                   className="btn-primary w-full py-3 flex items-center justify-center gap-2"
                 >
                   {txState.isPending ? (
@@ -197,6 +246,50 @@ export default function SignCommitment() {
                     </>
                   )}
                 </button>
+
+                {/* Decline Action */}
+                {showDecline ? (
+                  <div className="mt-4 pt-4 border-t border-gray-200">
+                    <p className="text-sm text-gray-600 mb-3">
+                      Declining is final. The reason is hashed locally and only the hash is recorded on-chain.
+                      <br />
+                      拒绝后无法撤销。原因将在本地计算哈希，仅哈希值上链。
+                    </p>
+
+                    <textarea
+                      value={declineReason}
+                      onChange={(e) => setDeclineReason(e.target.value)}
+                      placeholder="Reason for declining / 拒绝原因"
+                      rows={3}
+                      className="input-field mb-4"
+                    />
+
+                    <div className="flex gap-3">
+                      <button
+                        onClick={() => setShowDecline(false)}
+                        disabled={txState.isPending}
+                        className="btn-secondary flex-1"
+                      >
+                        Back / 返回
+                      </button>
+                      <button
+                        onClick={handleDecline}
+                        disabled={!declineReason.trim() || txState.isPending}
+                        className="flex-1 py-2.5 px-5 rounded-lg font-medium bg-red-600 hover:bg-red-700 text-white transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {txState.isPending ? 'Declining... / 拒绝中...' : 'Confirm Decline / 确认拒绝'}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setShowDecline(true)}
+                    disabled={txState.isPending}
+                    className="w-full mt-3 py-2.5 text-red-600 hover:text-red-700 font-medium"
+                  >
+                    Decline / 拒绝签名
+                  </button>
+                )}
               </>
             )}
           </div>
@@ -0,0 +1,195 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+import { useWallet } from '../hooks/useWallet'
+import { useContract } from '../hooks/useContract'
+import { ParticipantRole, PendingSignature } from '../types'
+import { MAX_BATCH_SIZE } from '../utils/contract'
+import { truncateAddress, truncateHash } from '../utils/hash'
+
+type SigningRole = PendingSignature['role']
+
+const ROLE_SECTIONS: { role: SigningRole; title: string }[] = [
+  { role: ParticipantRole.SIGNER, title: 'As Signer / 作为签约者' },
+  { role: ParticipantRole.WITNESS, title: 'As Witness / 作为见证者' }
+]
+
+// 签名收件箱：列出等待当前账户签名的承诺，勾选多个后一次签署
+export default function SignatureInbox() {
+  const { isConnected, address } = useWallet()
+  const { getPendingSignatures, signBatch, txState } = useContract()
+
+  const [items, setItems] = useState<PendingSignature[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())  // `${role}-${commitmentId}`
+  const [result, setResult] = useState<{ signed: string[]; skipped: string[] } | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const loadInbox = useCallback(async () => {
+    setLoading(true)
+    try {
+      setItems(await getPendingSignatures())
+      setSelected(new Set())
+    } catch (err) {
+      console.error('Failed to load pending signatures:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [getPendingSignatures])
+
+  useEffect(() => {
+    loadInbox()
+  }, [loadInbox, address])
+
+  const keyOf = (item: PendingSignature) => `${item.role}-${item.commitmentId}`
+
+  const toggle = (item: PendingSignature) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (!next.delete(keyOf(item))) next.add(keyOf(item))
+      return next
+    })
+  }
+
+  const toggleAll = (roleItems: PendingSignature[], checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      roleItems.slice(0, MAX_BATCH_SIZE).forEach(item => checked ? next.add(keyOf(item)) : next.delete(keyOf(item)))
+      return next
+    })
+  }
+
+  const handleSign = async (role: SigningRole, roleItems: PendingSignature[]) => {
+    const ids = roleItems.filter(item => selected.has(keyOf(item))).map(item => item.commitmentId)
+    if (ids.length === 0 || ids.length > MAX_BATCH_SIZE) return
+
+    // 合约跳过无法签名的承诺（例如刚被冻结或已过期），其余照常签署
+    const signed = await signBatch(role, ids)
+    if (signed) {
+      setResult({ signed, skipped: ids.filter(id => !signed.includes(id)) })
+      await loadInbox()
+    }
+  }
+
+  if (!isConnected) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="card">
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-center">
+            <p className="text-yellow-800 font-medium">Please connect your wallet</p>
+            <p className="text-sm text-yellow-600 mt-1">请连接钱包</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Pending My Signature</h1>
+        <p className="text-gray-600 mt-2">待我签名</p>
+      </div>
+
+      {loading ? (
+        <div className="card flex items-center justify-center py-12">
+          <div className="w-10 h-10 border-3 border-primary-600 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {txState.error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 break-all">
+              {txState.error}
+            </div>
+          )}
+
+          {result && (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-sm">
+              <p className="text-green-800 font-medium">
+                Signed {result.signed.length} commitment(s) / 已签署 {result.signed.length} 个承诺
+              </p>
+              {result.skipped.length > 0 && (
+                <p className="text-yellow-700 mt-1">
+                  Skipped, no longer signable / 已跳过（当前无法签名）：
+                  {result.skipped.map(id => ` #${id}`).join(',')}
+                </p>
+              )}
+            </div>
+          )}
+
+          {ROLE_SECTIONS.map(({ role, title }) => {
+            const roleItems = items.filter(item => item.role === role)
+            const selectedCount = roleItems.filter(item => selected.has(keyOf(item))).length
+
+            return (
+              <div key={role} className="card">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="font-semibold text-gray-900">{title} ({roleItems.length})</h3>
+                  {roleItems.length > 0 && (
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={selectedCount > 0 && selectedCount === Math.min(roleItems.length, MAX_BATCH_SIZE)}
+                        onChange={(e) => toggleAll(roleItems, e.target.checked)}
+                      />
+                      Select all / 全选
+                    </label>
+                  )}
+                </div>
+
+                {roleItems.length === 0 ? (
+                  <p className="text-sm text-gray-500">Nothing to sign / 暂无待签名的承诺</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {roleItems.map(item => (
+                      <li key={keyOf(item)} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg text-sm">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(keyOf(item))}
+                          onChange={() => toggle(item)}
+                        />
+                        <div className="flex-1">
+                          <Link
+                            to={`/commitment/${item.commitmentId}`}
+                            className="font-medium text-primary-600 hover:text-primary-700"
+                          >
+                            Commitment #{item.commitmentId} →
+                          </Link>
+                          <p className="text-gray-500 mt-1">
+                            Initiator / 发起人：<span className="font-mono">{truncateAddress(item.initiator)}</span>
+                            {' · '}
+                            Hash / 哈希：<span className="font-mono">{truncateHash(item.contentHash)}</span>
+                          </p>
+                          {item.deadline > 0 && (
+                            <p className="text-xs text-gray-500 mt-0.5">
+                              Deadline / 截止时间：{new Date(item.deadline * 1000).toLocaleString()}
+                            </p>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {roleItems.length > 0 && (
+                  <>
+                    {selectedCount > MAX_BATCH_SIZE && (
+                      <p className="text-sm text-red-600 mt-3">
+                        At most {MAX_BATCH_SIZE} per batch / 每批最多 {MAX_BATCH_SIZE} 个
+                      </p>
+                    )}
+                    <button
+                      onClick={() => handleSign(role, roleItems)}
+                      disabled={selectedCount === 0 || selectedCount > MAX_BATCH_SIZE || txState.isPending}
+                      className="btn-primary w-full mt-4"
+                    >
+                      {txState.isPending ? 'Signing... / 签名中...' : `Sign Selected (${selectedCount}) / 签署所选`}
+                    </button>
+                  </>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,270 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+import { useWallet } from '../hooks/useWallet'
+import { useContract } from '../hooks/useContract'
+import { StatusBadge } from './CommitmentStatus'
+import OrganizationSelect from './OrganizationSelect'
+import { Commitment, Organization } from '../types'
+import { truncateAddress, truncateHash } from '../utils/hash'
+
+// 验证员工作台：按组织审核已完成待验证的承诺，管理员裁决争议
+export default function VerifierDashboard() {
+  const { isConnected, address } = useWallet()
+  const {
+    getReviewQueue,
+    getReviewerRoles,
+    getOrganizations,
+    getAccountOrganization,
+    getCommitment,
+    verifyCommitment,
+    rejectVerification,
+    resolveDispute,
+    txState
+  } = useContract()
+
+  const [roles, setRoles] = useState({ isVerifier: false, isAdmin: false })
+  const [organizations, setOrganizations] = useState<Organization[]>([])
+  const [accountOrganization, setAccountOrganization] = useState(0)
+  const [organizationFilter, setOrganizationFilter] = useState<number | undefined>(undefined)
+  const [pending, setPending] = useState<Commitment[]>([])
+  const [disputed, setDisputed] = useState<Commitment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [rejectingId, setRejectingId] = useState<string | null>(null)
+  const [rejectReason, setRejectReason] = useState('')
+
+  // 分配了组织的账户只能审核本组织的承诺，默认并锁定为该组织
+  useEffect(() => {
+    const loadOrganizations = async () => {
+      try {
+        const [list, own] = await Promise.all([getOrganizations(), getAccountOrganization()])
+        setOrganizations(list)
+        setAccountOrganization(own)
+        setOrganizationFilter(own || undefined)
+      } catch (err) {
+        console.error('Failed to load organizations:', err)
+      }
+    }
+    loadOrganizations()
+  }, [getOrganizations, getAccountOrganization])
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [queue, reviewerRoles] = await Promise.all([getReviewQueue(organizationFilter), getReviewerRoles()])
+      const load = async (ids: string[]) =>
+        (await Promise.all(ids.map(id => getCommitment(id)))).filter((c): c is Commitment => c !== null)
+
+      setRoles(reviewerRoles)
+      setPending(await load(queue.pending))
+      setDisputed(await load(queue.disputed))
+    } catch (err) {
+      console.error('Failed to load review queue:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [getReviewQueue, getReviewerRoles, getCommitment, organizationFilter])
+
+  useEffect(() => {
+    loadQueue()
+  }, [loadQueue, address])
+
+  const handleApprove = async (commitmentId: string) => {
+    if (await verifyCommitment(commitmentId)) await loadQueue()
+  }
+
+  const handleReject = async (commitmentId: string) => {
+    if (!rejectReason.trim()) return
+
+    if (await rejectVerification(commitmentId, rejectReason.trim())) {
+      setRejectingId(null)
+      setRejectReason('')
+      await loadQueue()
+    }
+  }
+
+  const handleResolve = async (commitmentId: string, upheld: boolean) => {
+    if (await resolveDispute(commitmentId, upheld)) await loadQueue()
+  }
+
+  const renderSummary = (c: Commitment) => (
+    <div className="flex items-center justify-between">
+      <div className="text-sm">
+        <Link to={`/commitment/${c.id}`} className="font-medium text-primary-600 hover:text-primary-700">
+          Commitment #{c.id} →
+        </Link>
+        <p className="text-gray-500 mt-1">
+          Initiator / 发起人：<span className="font-mono">{truncateAddress(c.initiator)}</span>
+          {' · '}
+          Hash / 哈希：<span className="font-mono">{truncateHash(c.contentHash)}</span>
+        </p>
+      </div>
+      <StatusBadge status={c.status} />
+    </div>
+  )
+
+  if (!isConnected) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="card">
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-center">
+            <p className="text-yellow-800 font-medium">Please connect your wallet</p>
+            <p className="text-sm text-yellow-600 mt-1">请连接钱包</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Verification Queue</h1>
+        <p className="text-gray-600 mt-2">验证队列</p>
+      </div>
+
+      {organizations.length > 1 && (
+        <div className="flex items-center justify-end gap-3 mb-6">
+          <span className="text-sm text-gray-500">Organization / 组织</span>
+          <OrganizationSelect
+            organizations={organizations}
+            value={organizationFilter}
+            onChange={setOrganizationFilter}
+            allowAll
+            disabled={accountOrganization !== 0}
+          />
+        </div>
+      )}
+
+      {loading ? (
+        <div className="card flex items-center justify-center py-12">
+          <div className="w-10 h-10 border-3 border-primary-600 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {!roles.isVerifier && !roles.isAdmin && (
+            <div className="p-4 bg-gray-50 rounded-lg text-gray-600 text-center">
+              <p>Your account has no verifier or admin role</p>
+              <p className="text-sm mt-1">您的账户没有验证员或管理员角色</p>
+            </div>
+          )}
+
+          {txState.error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+              {txState.error}
+            </div>
+          )}
+
+          {/* Awaiting Verification */}
+          <div className="card">
+            <h3 className="font-semibold text-gray-900 mb-4">
+              Awaiting Verification / 待验证 ({pending.length})
+            </h3>
+            {pending.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing to review / 暂无待验证的承诺</p>
+            ) : (
+              <ul className="space-y-3">
+                {pending.map(c => (
+                  <li key={c.id} className="p-3 bg-gray-50 rounded-lg">
+                    {renderSummary(c)}
+
+                    {roles.isVerifier && (rejectingId === c.id ? (
+                      <div className="mt-3">
+                        <textarea
+                          value={rejectReason}
+                          onChange={(e) => setRejectReason(e.target.value)}
+                          placeholder="Reason for rejecting / 拒绝原因"
+                          rows={2}
+                          className="input-field mb-3"
+                        />
+                        <div className="flex gap-3">
+                          <button
+                            onClick={() => setRejectingId(null)}
+                            disabled={txState.isPending}
+                            className="btn-secondary flex-1"
+                          >
+                            Back / 返回
+                          </button>
+                          <button
+                            onClick={() => handleReject(c.id)}
+                            disabled={!rejectReason.trim() || txState.isPending}
+                            className="flex-1 py-2.5 px-5 rounded-lg font-medium bg-red-600 hover:bg-red-700 text-white transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Confirm Reject / 确认拒绝
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex gap-3 mt-3">
+                        <button
+                          onClick={() => handleApprove(c.id)}
+                          disabled={txState.isPending}
+                          className="btn-primary flex-1"
+                        >
+                          Approve / 批准
+                        </button>
+                        <button
+                          onClick={() => { setRejectingId(c.id); setRejectReason('') }}
+                          disabled={txState.isPending}
+                          className="flex-1 py-2.5 text-red-600 hover:text-red-700 font-medium"
+                        >
+                          Reject / 拒绝
+                        </button>
+                      </div>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Open Disputes */}
+          <div className="card">
+            <h3 className="font-semibold text-gray-900 mb-4">
+              Disputes / 争议 ({disputed.length})
+            </h3>
+            {disputed.length === 0 ? (
+              <p className="text-sm text-gray-500">No disputes / 暂无争议</p>
+            ) : (
+              <ul className="space-y-3">
+                {disputed.map(c => (
+                  <li key={c.id} className="p-3 bg-gray-50 rounded-lg">
+                    {renderSummary(c)}
+
+                    {c.dispute && (
+                      <p className="text-sm text-gray-500 mt-2">
+                        Rejected by / 拒绝者：<span className="font-mono">{truncateAddress(c.dispute.disputedBy)}</span>
+                        {' · '}
+                        Reason Hash / 原因哈希：<span className="font-mono">{truncateHash(c.dispute.reasonHash)}</span>
+                      </p>
+                    )}
+
+                    {c.dispute?.resolved ? (
+                      <p className="text-sm text-yellow-700 mt-2">Upheld / 已维持拒绝</p>
+                    ) : roles.isAdmin && (
+                      <div className="flex gap-3 mt-3">
+                        <button
+                          onClick={() => handleResolve(c.id, false)}
+                          disabled={txState.isPending}
+                          className="btn-primary flex-1"
+                        >
+                          Dismiss &amp; Verify / 驳回并验证
+                        </button>
+                        <button
+                          onClick={() => handleResolve(c.id, true)}
+                          disabled={txState.isPending}
+                          className="btn-secondary flex-1"
+                        >
+                          Uphold / 维持拒绝
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
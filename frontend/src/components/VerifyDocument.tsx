@@ -0,0 +1,197 @@
+import { useState, ChangeEvent } from 'react'
+import { Link } from 'react-router-dom'
+import { useContract } from '../hooks/useContract'
+import FileUpload from './FileUpload'
+import { StatusBadge } from './CommitmentStatus'
+import { Commitment, FileInfo, HashAlgorithm, MerkleProofBundle } from '../types'
+import { parseProofBundle, truncateAddress, verifyMerkleProof } from '../utils/hash'
+
+// 证明包验证结果：文件哈希与证明包是否一致、证明是否通过链上校验
+type InclusionResult = 'hash-mismatch' | 'included' | 'not-included'
+
+// 公开验证页：拖入文件，按文件哈希反查所有登记过的承诺；Merkle 承诺中的文件凭证明包验证
+export default function VerifyDocument() {
+  const { getCommitmentsByFileHash, getCommitmentsByFileDigest, getCommitment, verifyInclusion } = useContract()
+
+  const [fileInfo, setFileInfo] = useState<FileInfo | null>(null)
+  const [matches, setMatches] = useState<Commitment[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [bundle, setBundle] = useState<MerkleProofBundle | null>(null)
+  const [inclusion, setInclusion] = useState<InclusionResult | null>(null)
+
+  const handleFileSelect = async (info: FileInfo) => {
+    setFileInfo(info)
+    setMatches(null)
+    setInclusion(null)
+    setError(null)
+    setLoading(true)
+
+    try {
+      // 旧版承诺以 SHA-256 十六进制字符串登记，SHA-256 摘要同时查旧版索引
+      const [digestIds, legacyIds] = await Promise.all([
+        getCommitmentsByFileDigest(info.hash),
+        info.algorithm === HashAlgorithm.SHA256 ? getCommitmentsByFileHash(info.hash) : Promise.resolve([])
+      ])
+      const ids = [...new Set([...legacyIds, ...digestIds])]
+      const loaded = await Promise.all(ids.map(id => getCommitment(id)))
+      setMatches(loaded.filter((c): c is Commitment => c !== null))
+    } catch (err) {
+      setError('Failed to look up file hash')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleBundle = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setInclusion(null)
+    setError(null)
+    try {
+      setBundle(parseProofBundle(await file.text()))
+    } catch (err) {
+      setBundle(null)
+      setError(err instanceof Error ? err.message : 'Invalid proof bundle / 证明包格式无效')
+    }
+  }
+
+  const handleVerifyBundle = async () => {
+    if (!fileInfo || !bundle) return
+
+    if (fileInfo.hash.toLowerCase() !== bundle.documentHash.toLowerCase()) {
+      setInclusion('hash-mismatch')
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      // 先在本地核对证明，再以链上锚定的根为准
+      const included = verifyMerkleProof(bundle.documentHash, bundle.proof, bundle.merkleRoot) &&
+        await verifyInclusion(bundle.commitmentId, bundle.documentHash, bundle.proof)
+      setInclusion(included ? 'included' : 'not-included')
+    } catch (err) {
+      setError('Failed to verify proof bundle')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Verify Document</h1>
+        <p className="text-gray-600 mt-2">验证文件 - 查询该文件登记过的所有承诺</p>
+      </div>
+
+      <div className="space-y-6">
+        <div className="card">
+          <FileUpload onFileSelect={handleFileSelect} selectAlgorithm />
+        </div>
+
+        {loading && (
+          <div className="card flex items-center justify-center py-12">
+            <div className="w-10 h-10 border-3 border-primary-600 border-t-transparent rounded-full animate-spin" />
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {fileInfo && matches && matches.length === 0 && (
+          <div className="card text-center py-8">
+            <p className="font-semibold text-gray-900">Not registered / 未登记</p>
+            <p className="text-sm text-gray-500 mt-2">
+              No commitment has been created for this file. / 此文件尚未创建任何承诺。
+            </p>
+            <p className="text-sm text-gray-500 mt-1">
+              Files anchored under a Merkle root are verified with their proof bundle below.
+              / Merkle 根下的文件请使用下方的证明包验证。
+            </p>
+          </div>
+        )}
+
+        {matches && matches.length > 0 && (
+          <div className="card">
+            <h3 className="font-semibold text-gray-900 mb-4">
+              Matching Commitments / 匹配的承诺 ({matches.length})
+            </h3>
+            <ul className="space-y-3">
+              {matches.map(c => (
+                <li key={c.id}>
+                  <Link
+                    to={`/commitment/${c.id}`}
+                    className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100"
+                  >
+                    <div className="text-sm">
+                      <p className="font-medium text-gray-900">Commitment #{c.id}</p>
+                      <p className="text-gray-500 mt-1">
+                        {new Date(c.createdAt * 1000).toLocaleString()} · Initiator / 发起人：
+                        <span className="font-mono">{truncateAddress(c.initiator)}</span>
+                      </p>
+                    </div>
+                    <StatusBadge status={c.status} />
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="card">
+          <h3 className="font-semibold text-gray-900 mb-1">Verify with Proof Bundle / 使用证明包验证</h3>
+          <p className="text-xs text-gray-500 mb-3">
+            For files anchored under a Merkle root: select the file above, then its proof bundle.
+            / 适用于 Merkle 根锚定的文件：先在上方选择文件，再选择对应的证明包。
+          </p>
+          <input type="file" accept=".json" onChange={handleBundle} className="text-sm" />
+
+          {bundle && (
+            <p className="text-sm text-gray-600 mt-3">
+              {bundle.fileName} · Commitment #{bundle.commitmentId} · {bundle.leafCount} document(s) / 个文件
+            </p>
+          )}
+
+          <button
+            onClick={handleVerifyBundle}
+            disabled={!fileInfo || !bundle || loading}
+            className="btn-primary w-full mt-4"
+          >
+            Verify Inclusion / 验证包含关系
+          </button>
+
+          {inclusion === 'hash-mismatch' && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 mt-4">
+              The file does not match the proof bundle. / 文件与证明包不一致。
+            </div>
+          )}
+          {inclusion === 'not-included' && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 mt-4">
+              The proof does not match the anchored Merkle root. / 证明与链上锚定的 Merkle 根不符。
+            </div>
+          )}
+          {inclusion === 'included' && bundle && (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-sm mt-4">
+              <p className="text-green-800 font-medium">
+                Included in the anchored Merkle root / 文件包含在已锚定的 Merkle 根中
+              </p>
+              <Link
+                to={`/commitment/${bundle.commitmentId}`}
+                className="font-medium text-primary-600 hover:text-primary-700"
+              >
+                Commitment #{bundle.commitmentId} →
+              </Link>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -1,11 +1,56 @@
 import { useState, useCallback } from 'react'
-import { Contract, ContractTransactionResponse } from 'ethers'
+import { Contract, ContractTransactionResponse, EventLog, id, keccak256, toUtf8Bytes } from 'ethers'
 import { useWallet } from './useWallet'
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../utils/contract'
-import { Commitment, CommitmentStatus, Witness, TransactionState } from '../types'
+import {
+  CONTRACT_ADDRESS,
+  CONTRACT_ABI,
+  PROFILE_REGISTRY_ADDRESS,
+  PROFILE_REGISTRY_ABI,
+  RELAYER_URL,
+  EIP712_DOMAIN_NAME,
+  EIP712_DOMAIN_VERSION,
+  SIGN_COMMITMENT_TYPES,
+  SIGNATURE_ROLE,
+  SIGNATURE_VALIDITY
+} from '../utils/contract'
+import { calculateTextHash, encodeCid } from '../utils/hash'
+import {
+  Commitment,
+  CommitmentStatus,
+  ContentCid,
+  CreateCommitmentParams,
+  FreezeHistoryEntry,
+  FreezeReason,
+  HashAlgorithm,
+  MANAGED_ROLES,
+  NO_ORGANIZATION_LABEL,
+  Organization,
+  ParticipantRole,
+  PendingSignature,
+  Profile,
+  RoleMembers,
+  Signer,
+  Witness,
+  WitnessReplacement,
+  TransactionState
+} from '../types'
+
+// 承诺登记的文件摘要及算法；升级前创建的旧版承诺返回登记时的字符串哈希
+async function readFileDigest(
+  contract: Contract,
+  commitmentId: bigint,
+  legacyHash: string
+): Promise<{ contentHash: string; hashAlgorithm: HashAlgorithm }> {
+  const [fileDigest, algorithm]: [string, bigint] = await contract.getFileDigest(commitmentId)
+  const hashAlgorithm = Number(algorithm) as HashAlgorithm
+  return {
+    contentHash: hashAlgorithm === HashAlgorithm.LEGACY ? legacyHash : fileDigest,
+    hashAlgorithm
+  }
+}
 
 export function useContract() {
-  const { provider, address, isConnected } = useWallet()
+  const { provider, address, chainId, isConnected, signTypedData } = useWallet()
   const [txState, setTxState] = useState<TransactionState>({
     isPending: false,
     hash: null,
@@ -18,6 +63,33 @@ export function useContract() {
     return new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider)
   }, [provider])
 
+  // 参与者档案（地址小写 => 档案），未配置登记合约或无档案时不包含该地址
+  const getProfiles = useCallback(async (accounts: string[]): Promise<Record<string, Profile>> => {
+    if (!provider || !PROFILE_REGISTRY_ADDRESS || accounts.length === 0) return {}
+
+    try {
+      const registry = new Contract(PROFILE_REGISTRY_ADDRESS, PROFILE_REGISTRY_ABI, provider)
+      const profiles = await registry.getProfiles(accounts)
+      const result: Record<string, Profile> = {}
+      accounts.forEach((account, i) => {
+        const p = profiles[i]
+        if (Number(p.updatedAt) === 0) return
+        result[account.toLowerCase()] = {
+          role: p.role,
+          displayNameHash: p.displayNameHash,
+          badgeNumber: p.badgeNumber,
+          organization: p.organization,
+          credentialHash: p.credentialHash,
+          updatedAt: Number(p.updatedAt)
+        }
+      })
+      return result
+    } catch (err) {
+      console.error('Failed to load profiles:', err)
+      return {}
+    }
+  }, [provider])
+
   // 获取合约实例（可写）
   const getWriteContract = useCallback(async () => {
     if (!provider) return null
@@ -28,8 +100,11 @@ export function useContract() {
   // 创建承诺
   const createCommitment = useCallback(async (
     contentHash: string,
-    signerAddress: string,
-    witnessAddresses: string[]
+    hashAlgorithm: HashAlgorithm,
+    signerAddresses: string[],
+    witnessAddresses: string[],
+    witnessThreshold = 0,
+    deadline = 0
   ): Promise<string | null> => {
     if (!isConnected) {
       setTxState({ isPending: false, hash: null, error: 'Please connect wallet first' })
@@ -44,10 +119,14 @@ export function useContract() {
       console.log("使用合约地址Using contract address:", contract.target ?? contract.address)
       console.log("ABI entries:", contract.interface.fragments);
 
-      const tx: ContractTransactionResponse = await contract.createCommitment(
+      // witnessThreshold 为 0 表示需要全部见证者；deadline 为 0 表示无签名截止时间
+      const tx: ContractTransactionResponse = await contract.createCommitmentWithSigners(
         contentHash,
-        signerAddress,
-        witnessAddresses
+        hashAlgorithm,
+        signerAddresses,
+        witnessAddresses,
+        witnessThreshold,
+        deadline
       )
 
       setTxState({ isPending: true, hash: tx.hash, error: null })
@@ -81,6 +160,101 @@ export function useContract() {
     }
   }, [isConnected, getWriteContract])
 
+  // 批量创建承诺（一笔交易，任何一项无效则整批回滚，所有摘要使用同一算法）；返回按输入顺序排列的承诺 ID
+  const createCommitmentsBatch = useCallback(async (
+    items: CreateCommitmentParams[],
+    hashAlgorithm: HashAlgorithm = HashAlgorithm.SHA256
+  ): Promise<string[] | null> => {
+    if (!isConnected) {
+      setTxState({ isPending: false, hash: null, error: 'Please connect wallet first' })
+      return null
+    }
+
+    setTxState({ isPending: true, hash: null, error: null })
+
+    try {
+      const contract = await getWriteContract()
+      if (!contract) throw new Error('Contract not available')
+
+      const tx: ContractTransactionResponse = await contract.createCommitmentsBatch(
+        items.map(item => item.contentHash),
+        hashAlgorithm,
+        items.map(item => item.signerAddresses),
+        items.map(item => item.witnessAddresses)
+      )
+      setTxState({ isPending: true, hash: tx.hash, error: null })
+
+      const receipt = await tx.wait()
+
+      // 每一项都会触发 CommitmentCreated 事件，顺序与输入一致
+      const ids = (receipt?.logs ?? []).flatMap(log => {
+        try {
+          const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data })
+          return parsed?.name === 'CommitmentCreated' ? [parsed.args[0].toString() as string] : []
+        } catch {
+          return []
+        }
+      })
+
+      setTxState({ isPending: false, hash: tx.hash, error: null })
+      return ids
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : 'Transaction failed'
+      setTxState({ isPending: false, hash: null, error: errMsg })
+      return null
+    }
+  }, [isConnected, getWriteContract])
+
+  // 创建 Merkle 承诺：一个根涵盖多个文件哈希，文件哈希字段为根的十六进制形式
+  const createMerkleCommitment = useCallback(async (
+    merkleRoot: string,
+    leafCount: number,
+    signerAddresses: string[],
+    witnessAddresses: string[],
+    witnessThreshold = 0,
+    deadline = 0
+  ): Promise<string | null> => {
+    if (!isConnected) {
+      setTxState({ isPending: false, hash: null, error: 'Please connect wallet first' })
+      return null
+    }
+
+    setTxState({ isPending: true, hash: null, error: null })
+
+    try {
+      const contract = await getWriteContract()
+      if (!contract) throw new Error('Contract not available')
+
+      const tx: ContractTransactionResponse = await contract.createMerkleCommitment(
+        merkleRoot,
+        leafCount,
+        signerAddresses,
+        witnessAddresses,
+        witnessThreshold,
+        deadline
+      )
+      setTxState({ isPending: true, hash: tx.hash, error: null })
+
+      const receipt = await tx.wait()
+
+      const commitmentId = (receipt?.logs ?? []).map(log => {
+        try {
+          const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data })
+          return parsed?.name === 'MerkleRootAnchored' ? parsed.args.commitmentId.toString() as string : null
+        } catch {
+          return null
+        }
+      }).find(Boolean) ?? null
+
+      setTxState({ isPending: false, hash: tx.hash, error: null })
+      return commitmentId
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : 'Transaction failed'
+      setTxState({ isPending: false, hash: null, error: errMsg })
+      return null
+    }
+  }, [isConnected, getWriteContract])
+
   // 作为签约者签名
   const signAsSigner = useCallback(async (commitmentId: string): Promise<boolean> => {
     if (!isConnected) {
@@ -133,6 +307,304 @@ export function useContract() {
     }
   }, [isConnected, getWriteContract])
 
+  // 批量签名：合约跳过无法签名的承诺而不回滚；返回实际签名的承诺 ID
+  const signBatch = useCallback(async (
+    role: PendingSignature['role'],
+    commitmentIds: string[]
+  ): Promise<string[] | null> => {
+    if (!isConnected || !address) {
+      setTxState({ isPending: false, hash: null, error: 'Please connect wallet first' })
+      return null
+    }
+
+    setTxState({ isPending: true, hash: null, error: null })
+
+    try {
+      const contract = await getWriteContract()
+      if (!contract) throw new Error('Contract not available')
+
+      const tx: ContractTransactionResponse = role === ParticipantRole.SIGNER
+        ? await contract.signAsSignerBatch(commitmentIds)
+        : await contract.signAsWitnessBatch(commitmentIds)
+      setTxState({ isPending: true, hash: tx.hash, error: null })
+
+      const receipt = await tx.wait()
+
+      // 每个成功签名的承诺都会触发 CommitmentSigned 事件
+      const signed = (receipt?.logs ?? []).flatMap(log => {
+        try {
+          const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data })
+          return parsed?.name === 'CommitmentSigned' && parsed.args.signer.toLowerCase() === address.toLowerCase()
+            ? [parsed.args.id.toString() as string]
+            : []
+        } catch {
+          return []
+        }
+      })
+
+      setTxState({ isPending: false, hash: tx.hash, error: null })
+      return signed
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : 'Sign failed'
+      setTxState({ isPending: false, hash: null, error: errMsg })
+      return null
+    }
+  }, [isConnected, address, getWriteContract])
+
+  // 免 gas 签名：钱包生成 EIP-712 签名，由中继服务提交交易
+  const signBySignature = useCallback(async (
+    commitmentId: string,
+    role: keyof typeof SIGNATURE_ROLE
+  ): Promise<boolean> => {
+    if (!isConnected || !address || !chainId) {
+      setTxState({ isPending: false, hash: null, error: 'Please connect wallet first' })
+      return false
+    }
+
+    setTxState({ isPending: true, hash: null, error: null })
+
+    try {
+      const contract = getReadContract()
+      if (!contract) throw new Error('Contract not available')
+
+      const id = BigInt(commitmentId)
+      const data = await contract.getCommitment(id)
+      const nonce: bigint = await contract.nonces(address)
+      const deadline = Math.floor(Date.now() / 1000) + SIGNATURE_VALIDITY
+
+      // 旧版承诺签署字符串哈希的 keccak256，与合约 LifecycleLib.signedDigest 一致
+      const { contentHash, hashAlgorithm } = await readFileDigest(contract, id, data.fileHash)
+      const fileDigest = hashAlgorithm === HashAlgorithm.LEGACY ? keccak256(toUtf8Bytes(contentHash)) : contentHash
+
+      const signature = await signTypedData(
+        {
+          name: EIP712_DOMAIN_NAME,
+          version: EIP712_DOMAIN_VERSION,
+          chainId,
+          verifyingContract: CONTRACT_ADDRESS
+        },
+        SIGN_COMMITMENT_TYPES,
+        {
+          commitmentId: id,
+          fileDigest,
+          role: SIGNATURE_ROLE[role],
+          nonce,
+          deadline
+        }
+      )
+
+      const response = await fetch(RELAYER_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ commitmentId, account: address, role, deadline, signature })
+      })
+      const result: { txHash?: string; error?: string } = await response.json()
+      if (!response.ok || !result.txHash) throw new Error(result.error || 'Relay failed')
+
+      setTxState({ isPending: false, hash: result.txHash, error: null })
+      return true
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : 'Sign failed'
+      setTxState({ isPending: false, hash: null, error: errMsg })
+      return false
+    }
+  }, [isConnected, address, chainId, getReadContract, signTypedData])
+
+  // 发起人取消承诺（原因文本哈希后上链）
+  const cancelCommitment = useCallback(async (commitmentId: string, reason: string): Promise<boolean> => {
+    if (!isConnected) {
+      setTxState({ isPending: false, hash: null, error: 'Please connect wallet first' })
+      return false
+    }
+
+    setTxState({ isPending: true, hash: null, error: null })
+
+    try {
+      const contract = await getWriteContract()
+      if (!contract) throw new Error('Contract not available')
+
+      const reasonHash = await calculateTextHash(reason)
+      const tx: ContractTransactionResponse = await contract.cancelCommitment(commitmentId, reasonHash)
+      setTxState({ isPending: true, hash: tx.hash, error: null })
+
+      await tx.wait()
+      setTxState({ isPending: false, hash: tx.hash, error: null })
+      return true
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : 'Cancel failed'
+      setTxState({ isPending: false, hash: null, error: errMsg })
+      return false
+    }
+  }, [isConnected, getWriteContract])
+
+  // 签约者 / 见证者拒绝签名（原因文本哈希后上链）
+  const declineCommitment = useCallback(async (
+    commitmentId: string,
+    role: keyof typeof SIGNATURE_ROLE,
+    reason: string
+  ): Promise<boolean> => {
+    if (!isConnected) {
+      setTxState({ isPending: false, hash: null, error: 'Please connect wallet first' })
+      return false
+    }
+
+    setTxState({ isPending: true, hash: null, error: null })
+
+    try {
+      const contract = await getWriteContract()
+      if (!contract) throw new Error('Contract not available')
+
+      const reasonHash = await calculateTextHash(reason)
+      const tx: ContractTransactionResponse = role === 'signer'
+        ? await contract.declineAsSigner(commitmentId, reasonHash)
+        : await contract.declineAsWitness(commitmentId, reasonHash)
+      setTxState({ isPending: true, hash: tx.hash, error: null })
+
+      await tx.wait()
+      setTxState({ isPending: false, hash: tx.hash, error: null })
+      return true
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : 'Decline failed'
+      setTxState({ isPending: false, hash: null, error: errMsg })
+      return false
+    }
+  }, [isConnected, getWriteContract])
+
+  // 发起人为待签名的承诺关联文件的 IPFS CID
+  const setContentCid = useCallback(async (commitmentId: string, cid: ContentCid): Promise<boolean> => {
+    if (!isConnected) {
+      setTxState({ isPending: false, hash: null, error: 'Please connect wallet first' })
+      return false
+    }
+
+    setTxState({ isPending: true, hash: null, error: null })
+
+    try {
+      const contract = await getWriteContract()
+      if (!contract) throw new Error('Contract not available')
+
+      const tx: ContractTransactionResponse = await contract.setContentCid(commitmentId, cid.codec, cid.digest)
+      setTxState({ isPending: true, hash: tx.hash, error: null })
+
+      await tx.wait()
+      setTxState({ isPending: false, hash: tx.hash, error: null })
+      return true
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : 'Setting CID failed'
+      setTxState({ isPending: false, hash: null, error: errMsg })
+      return false
+    }
+  }, [isConnected, getWriteContract])
+
+  // 发起人 / 管理员替换尚未签名的见证者
+  const replaceWitness = useCallback(async (
+    commitmentId: string,
+    oldWitness: string,
+    newWitness: string
+  ): Promise<boolean> => {
+    if (!isConnected) {
+      setTxState({ isPending: false, hash: null, error: 'Please connect wallet first' })
+      return false
+    }
+
+    setTxState({ isPending: true, hash: null, error: null })
+
+    try {
+      const contract = await getWriteContract()
+      if (!contract) throw new Error('Contract not available')
+
+      const tx: ContractTransactionResponse = await contract.replaceWitness(commitmentId, oldWitness, newWitness)
+      setTxState({ isPending: true, hash: tx.hash, error: null })
+
+      await tx.wait()
+      setTxState({ isPending: false, hash: tx.hash, error: null })
+      return true
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : 'Replace failed'
+      setTxState({ isPending: false, hash: null, error: errMsg })
+      return false
+    }
+  }, [isConnected, getWriteContract])
+
+  // 验证员批准承诺
+  const verifyCommitment = useCallback(async (commitmentId: string): Promise<boolean> => {
+    if (!isConnected) {
+      setTxState({ isPending: false, hash: null, error: 'Please connect wallet first' })
+      return false
+    }
+
+    setTxState({ isPending: true, hash: null, error: null })
+
+    try {
+      const contract = await getWriteContract()
+      if (!contract) throw new Error('Contract not available')
+
+      const tx: ContractTransactionResponse = await contract.verifyCommitment(commitmentId)
+      setTxState({ isPending: true, hash: tx.hash, error: null })
+
+      await tx.wait()
+      setTxState({ isPending: false, hash: tx.hash, error: null })
+      return true
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : 'Verify failed'
+      setTxState({ isPending: false, hash: null, error: errMsg })
+      return false
+    }
+  }, [isConnected, getWriteContract])
+
+  // 验证员拒绝验证（原因文本哈希后上链），承诺进入争议状态
+  const rejectVerification = useCallback(async (commitmentId: string, reason: string): Promise<boolean> => {
+    if (!isConnected) {
+      setTxState({ isPending: false, hash: null, error: 'Please connect wallet first' })
+      return false
+    }
+
+    setTxState({ isPending: true, hash: null, error: null })
+
+    try {
+      const contract = await getWriteContract()
+      if (!contract) throw new Error('Contract not available')
+
+      const reasonHash = await calculateTextHash(reason)
+      const tx: ContractTransactionResponse = await contract.rejectVerification(commitmentId, reasonHash)
+      setTxState({ isPending: true, hash: tx.hash, error: null })
+
+      await tx.wait()
+      setTxState({ isPending: false, hash: tx.hash, error: null })
+      return true
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : 'Reject failed'
+      setTxState({ isPending: false, hash: null, error: errMsg })
+      return false
+    }
+  }, [isConnected, getWriteContract])
+
+  // 管理员裁决争议：维持拒绝或驳回并标记为已验证
+  const resolveDispute = useCallback(async (commitmentId: string, upheld: boolean): Promise<boolean> => {
+    if (!isConnected) {
+      setTxState({ isPending: false, hash: null, error: 'Please connect wallet first' })
+      return false
+    }
+
+    setTxState({ isPending: true, hash: null, error: null })
+
+    try {
+      const contract = await getWriteContract()
+      if (!contract) throw new Error('Contract not available')
+
+      const tx: ContractTransactionResponse = await contract.resolveDispute(commitmentId, upheld)
+      setTxState({ isPending: true, hash: tx.hash, error: null })
+
+      await tx.wait()
+      setTxState({ isPending: false, hash: tx.hash, error: null })
+      return true
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : 'Resolve failed'
+      setTxState({ isPending: false, hash: null, error: errMsg })
+      return false
+    }
+  }, [isConnected, getWriteContract])
+
   // 获取承诺详情
   const getCommitment = useCallback(async (commitmentId: string): Promise<Commitment | null> => {
     try {
@@ -151,31 +623,122 @@ export function useContract() {
       const witnesses = await contract.getWitnesses(id)
       console.log(`useContract获取承诺详情 witnesses: ${witnesses}`)
 
-      const witnessArray: Witness[] = witnesses.map((w: { witnessAddress: string; hasSigned: boolean; signedAt: bigint }) => ({
+      const cancellation = data.isCancelled ? await contract.getCancellationInfo(id) : null
+
+      const status: bigint = await contract.getCommitmentStatus(id)
+      const decline = Number(status) === CommitmentStatus.DECLINED ? await contract.getDeclineInfo(id) : null
+      const dispute = Number(status) === CommitmentStatus.DISPUTED ? await contract.getDisputeInfo(id) : null
+      const freeze = Number(status) === CommitmentStatus.FROZEN ? await contract.getFreezeInfo(id) : null
+      const signers = await contract.getSigners(id)
+      const completion = await contract.getCompletionInfo(id)
+      const deadline: bigint = await contract.getSigningDeadline(id)
+      const witnessThreshold: bigint = await contract.getWitnessThreshold(id)
+
+      // 替换历史只记录在事件中 / replacement history lives in event logs
+      const replacedLogs = await contract.queryFilter(contract.filters.WitnessReplaced(id))
+      const witnessReplacements: WitnessReplacement[] = replacedLogs
+        .filter((log): log is EventLog => 'args' in log)
+        .map(log => ({
+          oldWitness: log.args.oldWitness,
+          newWitness: log.args.newWitness,
+          replacedBy: log.args.replacedBy,
+          timestamp: Number(log.args.timestamp),
+          txHash: log.transactionHash
+        }))
+      // 冻结历史同样来自事件，按区块顺序合并 / freeze history is merged from both events in block order
+      const frozenLogs = await contract.queryFilter(contract.filters.CommitmentFrozen(id))
+      const unfrozenLogs = await contract.queryFilter(contract.filters.CommitmentUnfrozen(id))
+      const freezeHistory: FreezeHistoryEntry[] = [...frozenLogs, ...unfrozenLogs]
+        .filter((log): log is EventLog => 'args' in log)
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+        .map(log => log.eventName === 'CommitmentFrozen' ? {
+          action: 'frozen' as const,
+          by: log.args.freezer,
+          reason: Number(log.args.reason) as FreezeReason,
+          caseRef: log.args.caseRef,
+          unfreezeAt: Number(log.args.unfreezeAt),
+          timestamp: Number(log.args.timestamp),
+          txHash: log.transactionHash
+        } : {
+          action: 'unfrozen' as const,
+          by: log.args.unfreezer,
+          timestamp: Number(log.args.timestamp),
+          txHash: log.transactionHash
+        })
+      const versions: bigint[] = await contract.getVersionChain(id)
+
+      const signerArray: Signer[] = signers.map((s: { signerAddress: string; hasSigned: boolean; signedAt: bigint; signedBlock: bigint }) => ({
+        address: s.signerAddress,
+        hasSigned: s.hasSigned,
+        signedAt: Number(s.signedAt),
+        signedBlock: Number(s.signedBlock)
+      }))
+
+      const witnessArray: Witness[] = witnesses.map((w: { witnessAddress: string; hasSigned: boolean; signedAt: bigint; signedBlock: bigint }) => ({
         address: w.witnessAddress,
         hasSigned: w.hasSigned,
-        signedAt: Number(w.signedAt)
+        signedAt: Number(w.signedAt),
+        signedBlock: Number(w.signedBlock)
       }))
 
+      const profiles = await getProfiles([...signerArray, ...witnessArray].map(p => p.address))
+
+      const organizationId = Number(await contract.getCommitmentOrganization(id))
+      const organizationName: string = organizationId
+        ? await contract.organizationNames(organizationId)
+        : NO_ORGANIZATION_LABEL
+
+      const digest = await readFileDigest(contract, id, data.fileHash)
+      const [cidCodec, cidDigest]: [bigint, string] = await contract.getContentCid(id)
+
       return {
         id: commitmentId,
-        contentHash: data.contentHash,
+        ...digest,
+        contentCid: cidCodec ? encodeCid(Number(cidCodec), cidDigest) : undefined,
         initiator: data.initiator,
-        signer: {
-          address: data.signerAddress,
-          hasSigned: data.signerHasSigned,
-          signedAt: Number(data.signerSignedAt)
-        },
+        signers: signerArray,
         witnesses: witnessArray,
-        status: data.status as CommitmentStatus,
+        witnessThreshold: Number(witnessThreshold),
+        witnessReplacements,
+        freezeHistory,
+        status: Number(status) as CommitmentStatus,
         createdAt: Number(data.createdAt),
-        completedAt: Number(data.completedAt)
+        completedAt: Number(completion.completedAt),
+        completedBlock: Number(completion.completedBlock),
+        deadline: Number(deadline),
+        versions: versions.map(v => v.toString()),
+        profiles,
+        organizationId,
+        organizationName,
+        cancellation: cancellation ? {
+          cancelledBy: cancellation.cancelledBy,
+          reasonHash: cancellation.reasonHash,
+          cancelledAt: Number(cancellation.cancelledAt)
+        } : undefined,
+        decline: decline ? {
+          declinedBy: decline.declinedBy,
+          reasonHash: decline.reasonHash,
+          declinedAt: Number(decline.declinedAt)
+        } : undefined,
+        dispute: dispute ? {
+          disputedBy: dispute.disputedBy,
+          reasonHash: dispute.reasonHash,
+          disputedAt: Number(dispute.disputedAt),
+          resolved: dispute.resolved
+        } : undefined,
+        freeze: freeze ? {
+          reason: Number(freeze.reason) as FreezeReason,
+          caseRef: freeze.caseRef,
+          frozenBy: freeze.frozenBy,
+          frozenAt: Number(freeze.frozenAt),
+          unfreezeAt: Number(freeze.unfreezeAt)
+        } : undefined
       }
     } catch (err) {
       console.error('Failed to get commitment:', err)
       return null
     }
-  }, [getReadContract])
+  }, [getReadContract, getProfiles])
 
   // 检查承诺是否存在
   const commitmentExists = useCallback(async (commitmentId: string): Promise<boolean> => {
@@ -188,6 +751,240 @@ export function useContract() {
     }
   }, [getReadContract])
 
+  // 按文件哈希查找承诺 ID（旧版字符串哈希）
+  const getCommitmentsByFileHash = useCallback(async (fileHash: string): Promise<string[]> => {
+    const contract = getReadContract()
+    if (!contract) return []
+    const ids: bigint[] = await contract.getCommitmentsByFileHash(fileHash)
+    return ids.map(id => id.toString())
+  }, [getReadContract])
+
+  // 按文件摘要查找承诺 ID
+  const getCommitmentsByFileDigest = useCallback(async (fileDigest: string): Promise<string[]> => {
+    const contract = getReadContract()
+    if (!contract) return []
+    const ids: bigint[] = await contract.getCommitmentsByFileDigest(fileDigest)
+    return ids.map(id => id.toString())
+  }, [getReadContract])
+
+  // 验证文件哈希是否包含在 Merkle 承诺中（链上校验证明）
+  const verifyInclusion = useCallback(async (
+    commitmentId: string,
+    documentHash: string,
+    proof: string[]
+  ): Promise<boolean> => {
+    const contract = getReadContract()
+    if (!contract) return false
+    return await contract.verifyInclusion(commitmentId, documentHash, proof)
+  }, [getReadContract])
+
+  // 验证队列：已完成待验证及争议中的承诺 ID；指定组织时只包含该组织的承诺
+  const getReviewQueue = useCallback(async (
+    organizationId?: number
+  ): Promise<{ pending: string[]; disputed: string[] }> => {
+    const contract = getReadContract()
+    if (!contract) return { pending: [], disputed: [] }
+
+    let ids: number[]
+    if (organizationId === undefined) {
+      const count = Number(await contract.commitmentCount())
+      ids = Array.from({ length: count }, (_, i) => i + 1)
+    } else {
+      const [, total]: [bigint[], bigint] = await contract.getCommitmentsByOrganization(organizationId, 0, 0)
+      const [organizationIds]: [bigint[], bigint] = await contract.getCommitmentsByOrganization(organizationId, 0, total)
+      ids = organizationIds.map(Number)
+    }
+    const statuses: bigint[] = await Promise.all(ids.map(id => contract.getCommitmentStatus(id)))
+
+    return {
+      pending: ids.filter((_, i) => Number(statuses[i]) === CommitmentStatus.COMPLETED).map(String),
+      disputed: ids.filter((_, i) => Number(statuses[i]) === CommitmentStatus.DISPUTED).map(String)
+    }
+  }, [getReadContract])
+
+  // 签名收件箱：当前账户作为签约者 / 见证者参与、尚未签名且仍在等待签名的承诺
+  const getPendingSignatures = useCallback(async (): Promise<PendingSignature[]> => {
+    const contract = getReadContract()
+    if (!contract || !address) return []
+
+    const roles = [ParticipantRole.SIGNER, ParticipantRole.WITNESS] as const
+    const lists = await Promise.all(roles.map(async role => {
+      const [, total]: [bigint[], bigint] = await contract.getCommitmentsByParticipant(address, role, 0, 0)
+      const [ids]: [bigint[], bigint] = await contract.getCommitmentsByParticipant(address, role, 0, total)
+
+      const items = await Promise.all(ids.map(async (id): Promise<PendingSignature | null> => {
+        const status = Number(await contract.getCommitmentStatus(id))
+        if (status !== CommitmentStatus.PENDING && status !== CommitmentStatus.PARTIALLY_SIGNED) return null
+
+        const signed: boolean = role === ParticipantRole.SIGNER
+          ? await contract.hasSignerSigned(id, address)
+          : await contract.hasWitnessSigned(id, address)
+        if (signed) return null
+
+        // 被替换的见证者仍保留在索引中 / replaced witnesses stay in the index
+        const data = await contract.getCommitment(id)
+        const participants: string[] = role === ParticipantRole.SIGNER ? data.signers : data.witnesses
+        if (!participants.some(p => p.toLowerCase() === address.toLowerCase())) return null
+
+        const deadline: bigint = await contract.getSigningDeadline(id)
+        return {
+          commitmentId: id.toString(),
+          role,
+          ...await readFileDigest(contract, id, data.fileHash),
+          initiator: data.initiator,
+          createdAt: Number(data.createdAt),
+          deadline: Number(deadline)
+        }
+      }))
+      return items.filter((item): item is PendingSignature => item !== null)
+    }))
+
+    return lists.flat().sort((a, b) => a.createdAt - b.createdAt)
+  }, [getReadContract, address])
+
+  // 组织列表及各组织的承诺数量（第一项为 id 为 0 的"无组织"）
+  const getOrganizations = useCallback(async (): Promise<Organization[]> => {
+    const contract = getReadContract()
+    if (!contract) return []
+
+    const count = Number(await contract.organizationCount())
+    return Promise.all(Array.from({ length: count + 1 }, async (_, organizationId) => {
+      const [name, [, total]]: [string, [bigint[], bigint]] = await Promise.all([
+        organizationId ? contract.organizationNames(organizationId) : NO_ORGANIZATION_LABEL,
+        contract.getCommitmentsByOrganization(organizationId, 0, 0)
+      ])
+      return { id: organizationId, name, commitmentCount: Number(total) }
+    }))
+  }, [getReadContract])
+
+  // 当前地址所属的组织（0 表示未分配，可跨组织操作）
+  const getAccountOrganization = useCallback(async (): Promise<number> => {
+    const contract = getReadContract()
+    if (!contract || !address) return 0
+    return Number(await contract.organizationOf(address))
+  }, [getReadContract, address])
+
+  // 登记组织（仅超级管理员）
+  const createOrganization = useCallback(async (name: string): Promise<boolean> => {
+    if (!isConnected) {
+      setTxState({ isPending: false, hash: null, error: 'Please connect wallet first' })
+      return false
+    }
+
+    setTxState({ isPending: true, hash: null, error: null })
+
+    try {
+      const contract = await getWriteContract()
+      if (!contract) throw new Error('Contract not available')
+
+      const tx: ContractTransactionResponse = await contract.createOrganization(name)
+      setTxState({ isPending: true, hash: tx.hash, error: null })
+
+      await tx.wait()
+      setTxState({ isPending: false, hash: tx.hash, error: null })
+      return true
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : 'Organization creation failed'
+      setTxState({ isPending: false, hash: null, error: errMsg })
+      return false
+    }
+  }, [isConnected, getWriteContract])
+
+  // 将账户分配到组织（仅超级管理员）；organizationId 为 0 表示取消分配
+  const setAccountOrganization = useCallback(async (
+    account: string,
+    organizationId: number
+  ): Promise<boolean> => {
+    if (!isConnected) {
+      setTxState({ isPending: false, hash: null, error: 'Please connect wallet first' })
+      return false
+    }
+
+    setTxState({ isPending: true, hash: null, error: null })
+
+    try {
+      const contract = await getWriteContract()
+      if (!contract) throw new Error('Contract not available')
+
+      const tx: ContractTransactionResponse = await contract.setAccountOrganization(account, organizationId)
+      setTxState({ isPending: true, hash: tx.hash, error: null })
+
+      await tx.wait()
+      setTxState({ isPending: false, hash: tx.hash, error: null })
+      return true
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : 'Organization assignment failed'
+      setTxState({ isPending: false, hash: null, error: errMsg })
+      return false
+    }
+  }, [isConnected, getWriteContract])
+
+  // 检查当前地址是否拥有验证员 / 管理员角色
+  const getReviewerRoles = useCallback(async (): Promise<{ isVerifier: boolean; isAdmin: boolean }> => {
+    const contract = getReadContract()
+    if (!contract || !address) return { isVerifier: false, isAdmin: false }
+
+    const [verifierRole, adminRole] = await Promise.all([contract.VERIFIER_ROLE(), contract.DEFAULT_ADMIN_ROLE()])
+    const [isVerifier, isAdmin] = await Promise.all([
+      contract.hasRole(verifierRole, address),
+      contract.hasRole(adminRole, address)
+    ])
+    return { isVerifier, isAdmin }
+  }, [getReadContract, address])
+
+  // 各角色的成员、管理角色，以及当前地址是否可以管理该角色
+  const getRoleMembers = useCallback(async (): Promise<RoleMembers[]> => {
+    const contract = getReadContract()
+    if (!contract) return []
+
+    return Promise.all(MANAGED_ROLES.map(async ({ name, label, canExpire }) => {
+      const role = id(name)
+      const [adminRole, accounts]: [string, string[]] = await Promise.all([
+        contract.getRoleAdmin(role),
+        contract.getRoleMembers(role)
+      ])
+      const expiries: bigint[] = await Promise.all(accounts.map(account => contract.roleExpiresAt(role, account)))
+      const members = accounts.map((account, i) => ({ address: account, expiresAt: Number(expiries[i]) }))
+      const canManage: boolean = address ? await contract.hasRole(adminRole, address) : false
+      return { name, label, role, adminRole, members, canManage, canExpire }
+    }))
+  }, [getReadContract, address])
+
+  // 授予或撤销角色（调用者须拥有该角色的管理角色）；expiresAt 为到期时间戳，省略则永久授予
+  const updateRole = useCallback(async (
+    role: string,
+    account: string,
+    grant: boolean,
+    expiresAt?: number
+  ): Promise<boolean> => {
+    if (!isConnected) {
+      setTxState({ isPending: false, hash: null, error: 'Please connect wallet first' })
+      return false
+    }
+
+    setTxState({ isPending: true, hash: null, error: null })
+
+    try {
+      const contract = await getWriteContract()
+      if (!contract) throw new Error('Contract not available')
+
+      const tx: ContractTransactionResponse = !grant
+        ? await contract.revokeRole(role, account)
+        : expiresAt
+          ? await contract.grantRoleWithExpiry(role, account, expiresAt)
+          : await contract.grantRole(role, account)
+      setTxState({ isPending: true, hash: tx.hash, error: null })
+
+      await tx.wait()
+      setTxState({ isPending: false, hash: tx.hash, error: null })
+      return true
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : 'Role update failed'
+      setTxState({ isPending: false, hash: null, error: errMsg })
+      return false
+    }
+  }, [isConnected, getWriteContract])
+
   // 重置交易状态
   const resetTxState = useCallback(() => {
     setTxState({ isPending: false, hash: null, error: null })
@@ -195,10 +992,33 @@ export function useContract() {
 
   return {
     createCommitment,
+    createCommitmentsBatch,
+    createMerkleCommitment,
     signAsSigner,
     signAsWitness,
+    signBatch,
+    signBySignature,
+    cancelCommitment,
+    declineCommitment,
+    replaceWitness,
+    setContentCid,
+    verifyCommitment,
+    rejectVerification,
+    resolveDispute,
     getCommitment,
     commitmentExists,
+    getCommitmentsByFileHash,
+    getCommitmentsByFileDigest,
+    verifyInclusion,
+    getReviewQueue,
+    getPendingSignatures,
+    getReviewerRoles,
+    getOrganizations,
+    getAccountOrganization,
+    createOrganization,
+    setAccountOrganization,
+    getRoleMembers,
+    updateRole,
     txState,
     resetTxState,
     currentAddress: address
@@ -1,5 +1,5 @@
 import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'
-import { BrowserProvider, formatEther } from 'ethers'
+import { BrowserProvider, TypedDataDomain, TypedDataField, formatEther } from 'ethers'
 import { CURRENT_CHAIN_ID, isSupportedNetwork } from '../utils/contract'
 import { WalletState } from '../types'
 
@@ -9,6 +9,11 @@ interface WalletContextType extends WalletState {
   connect: () => Promise<void>
   disconnect: () => void
   switchNetwork: () => Promise<void>
+  signTypedData: (
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ) => Promise<string>
   provider: BrowserProvider | null
 }
 
@@ -25,6 +30,7 @@ export const WalletContext = createContext<WalletContextType>({
   connect: async () => {},
   disconnect: () => {},
   switchNetwork: async () => {},
+  signTypedData: async () => '',
   provider: null
 })
 
@@ -107,6 +113,17 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     }
   }, [])
 
+  // EIP-712 类型化签名（链下签名，不发送交易）
+  const signTypedData = useCallback(async (
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> => {
+    if (!provider) throw new Error('Wallet not connected')
+    const signer = await provider.getSigner()
+    return signer.signTypedData(domain, types, value)
+  }, [provider])
+
   // 监听账户变化
   useEffect(() => {
     if (!window.ethereum) return
@@ -146,7 +163,7 @@ export function WalletProvider({ children }: { children: ReactNode }) {
   // }, [connect])
 
   return (
-    <WalletContext.Provider value={{ ...state, connect, disconnect, switchNetwork, provider }}>
+    <WalletContext.Provider value={{ ...state, connect, disconnect, switchNetwork, signTypedData, provider }}>
       {children}
     </WalletContext.Provider>
   )
@@ -1,16 +1,80 @@
-// 承诺状态枚举
+// 承诺状态枚举（与合约 CommitmentChain.CommitmentStatus 一致）
 export enum CommitmentStatus {
   PENDING = 0,
   PARTIALLY_SIGNED = 1,
   COMPLETED = 2,
-  CANCELLED = 3
+  VERIFIED = 3,
+  FROZEN = 4,
+  CANCELLED = 5,
+  EXPIRED = 6,
+  SUPERSEDED = 7,
+  DECLINED = 8,
+  DISPUTED = 9
 }
 
+// 参与者角色（与合约 CommitmentChain.ParticipantRole 一致）
+export enum ParticipantRole {
+  INITIATOR = 0,
+  SIGNER = 1,
+  WITNESS = 2
+}
+
+// 文件摘要算法（与合约 CommitmentChain.HashAlgorithm 一致）；LEGACY 为旧版字符串哈希
+export enum HashAlgorithm {
+  LEGACY = 0,
+  SHA256 = 1,
+  KECCAK256 = 2,
+  SHA3_256 = 3,
+  IPFS_MULTIHASH = 4
+}
+
+export const HASH_ALGORITHM_LABELS: Record<HashAlgorithm, string> = {
+  [HashAlgorithm.LEGACY]: 'Legacy / 旧版哈希',
+  [HashAlgorithm.SHA256]: 'SHA-256',
+  [HashAlgorithm.KECCAK256]: 'Keccak-256',
+  [HashAlgorithm.SHA3_256]: 'SHA3-256',
+  [HashAlgorithm.IPFS_MULTIHASH]: 'IPFS Multihash (sha2-256)'
+}
+
+// 冻结原因代码（与合约 CommitmentChain.FreezeReason 一致）
+export enum FreezeReason {
+  UNSPECIFIED = 0,
+  COURT_ORDER = 1,
+  INVESTIGATION = 2,
+  SUSPECTED_FRAUD = 3,
+  DATA_ERROR = 4,
+  OTHER = 5
+}
+
+export const FREEZE_REASON_LABELS: Record<FreezeReason, string> = {
+  [FreezeReason.UNSPECIFIED]: 'Unspecified / 未说明',
+  [FreezeReason.COURT_ORDER]: 'Court Order / 法院命令',
+  [FreezeReason.INVESTIGATION]: 'Investigation / 调查中',
+  [FreezeReason.SUSPECTED_FRAUD]: 'Suspected Fraud / 涉嫌欺诈',
+  [FreezeReason.DATA_ERROR]: 'Data Error / 数据错误',
+  [FreezeReason.OTHER]: 'Other / 其他'
+}
+
+// 角色管理页面列出的角色（名称与合约中的角色常量一致）
+export const MANAGED_ROLES = [
+  { name: 'POLICE_ROLE', label: 'Police / 警察', canExpire: true },
+  { name: 'LAWYER_ROLE', label: 'Lawyer / 律师', canExpire: true },
+  { name: 'VERIFIER_ROLE', label: 'Verifier / 验证员', canExpire: true },
+  { name: 'EMERGENCY_ROLE', label: 'Emergency Admin / 紧急管理员', canExpire: false },
+  { name: 'POLICE_ADMIN_ROLE', label: 'Police Admin / 警察管理员', canExpire: false },
+  { name: 'BAR_ADMIN_ROLE', label: 'Bar Admin / 律师协会管理员', canExpire: false },
+  { name: 'VERIFIER_ADMIN_ROLE', label: 'Verifier Admin / 验证员管理员', canExpire: false }
+] as const
+
+// 即将到期提醒的时间窗口（秒）
+export const ROLE_EXPIRY_WARNING = 30 * 24 * 60 * 60
+
 // 签名者信息
 export interface Signer {
   address: string
   hasSigned: boolean
   signedAt?: number
+  signedBlock?: number
 }
 
 // 见证者信息
@@ -18,25 +82,177 @@ export interface Witness {
   address: string
   hasSigned: boolean
   signedAt?: number
+  signedBlock?: number
+}
+
+// 取消信息
+export interface Cancellation {
+  cancelledBy: string
+  reasonHash: string
+  cancelledAt: number
+}
+
+// 拒绝信息
+export interface Decline {
+  declinedBy: string
+  reasonHash: string
+  declinedAt: number
+}
+
+// 争议信息（验证员拒绝验证）
+export interface Dispute {
+  disputedBy: string
+  reasonHash: string
+  disputedAt: number
+  resolved: boolean
+}
+
+// 当前冻结信息
+export interface Freeze {
+  reason: FreezeReason
+  caseRef: string
+  frozenBy: string
+  frozenAt: number
+  unfreezeAt: number
+}
+
+// 冻结历史记录（来自 CommitmentFrozen / CommitmentUnfrozen 事件）
+export interface FreezeHistoryEntry {
+  action: 'frozen' | 'unfrozen'
+  by: string
+  reason?: FreezeReason
+  caseRef?: string
+  unfreezeAt?: number
+  timestamp: number
+  txHash: string
+}
+
+// 角色持有人档案（ProfileRegistry）
+export interface Profile {
+  role: string
+  displayNameHash: string
+  badgeNumber: string
+  organization: string
+  credentialHash: string
+  updatedAt: number
+}
+
+// 组织（部门）；id 为 0 表示无组织（启用多组织之前创建的承诺及未分配组织的账户）
+export interface Organization {
+  id: number
+  name: string
+  commitmentCount: number
+}
+
+export const NO_ORGANIZATION_LABEL = 'No organization / 无组织'
+
+// 见证者替换记录
+export interface WitnessReplacement {
+  oldWitness: string
+  newWitness: string
+  replacedBy: string
+  timestamp: number
+  txHash: string
 }
 
 // 承诺详情
 export interface Commitment {
   id: string
-  contentHash: string
+  contentHash: string  // 文件摘要；旧版承诺为登记时的字符串哈希
+  hashAlgorithm: HashAlgorithm
+  contentCid?: ContentCid
   initiator: string
-  signer: Signer
+  signers: Signer[]
   witnesses: Witness[]
+  witnessThreshold: number
+  witnessReplacements: WitnessReplacement[]
   status: CommitmentStatus
   createdAt: number
   completedAt?: number
+  completedBlock?: number
+  deadline?: number
+  cancellation?: Cancellation
+  decline?: Decline
+  dispute?: Dispute
+  freeze?: Freeze
+  freezeHistory: FreezeHistoryEntry[]
+  versions: string[]
+  profiles: Record<string, Profile>  // 参与者地址（小写）=> 档案
+  organizationId: number
+  organizationName: string
+}
+
+// 等待当前账户签名的承诺（签名收件箱）
+export interface PendingSignature {
+  commitmentId: string
+  role: ParticipantRole.SIGNER | ParticipantRole.WITNESS
+  contentHash: string
+  hashAlgorithm: HashAlgorithm
+  initiator: string
+  createdAt: number
+  deadline: number  // 0 表示无截止时间
+}
+
+// 角色成员（expiresAt 为 0 表示永久）
+export interface RoleMember {
+  address: string
+  expiresAt: number
+}
+
+// 角色及其成员
+export interface RoleMembers {
+  name: string
+  label: string
+  role: string
+  adminRole: string
+  members: RoleMember[]
+  canManage: boolean
+  canExpire: boolean
 }
 
 // 创建承诺参数
 export interface CreateCommitmentParams {
   contentHash: string
-  signerAddress: string
+  signerAddresses: string[]
   witnessAddresses: string[]
+  witnessThreshold?: number
+  deadline?: number
+}
+
+// 批量登记清单中的一项（file 为文件名，与上传的文件按名称匹配）
+export interface ManifestEntry {
+  file: string
+  signers: string[]
+  witnesses: string[]
+}
+
+// IPFS CIDv1 的 multicodec（与合约 LifecycleLib 的 CID_CODEC_* 一致）
+export enum CidCodec {
+  RAW = 0x55,
+  DAG_PB = 0x70
+}
+
+// IPFS CIDv1（sha2-256 multihash），链上存储 codec 与 digest
+export interface ContentCid {
+  codec: CidCodec
+  digest: string   // multihash 中 0x 前缀的 sha2-256 摘要
+  cid: string      // base32 字符串，例如 bafkrei... / bafybei...
+}
+
+// 文件的两种 CID：单个 raw 块（仅当文件不超过一个分块时存在），以及 `ipfs add --cid-version=1` 生成的 UnixFS 分块 DAG
+export interface FileCids {
+  raw?: ContentCid
+  unixfs: ContentCid
+}
+
+// Merkle 证明包：证明单个文件包含在 Merkle 承诺中，可下载保存后在验证页面核对
+export interface MerkleProofBundle {
+  commitmentId: string
+  merkleRoot: string
+  leafCount: number
+  fileName: string
+  documentHash: string
+  proof: string[]   // 从叶子到根的兄弟节点哈希
 }
 
 // 钱包状态
@@ -61,4 +277,6 @@ export interface FileInfo {
   size: number
   type: string
   hash: string
+  algorithm: HashAlgorithm
+  cids?: FileCids
 }
\ No newline at end of file
@@ -2,6 +2,40 @@
 // 注意：部署合约后需要更新这个地址
 export const CONTRACT_ADDRESS = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512'
 
+// 角色档案登记合约（ProfileRegistry）地址
+// 注意：部署后需要更新这个地址；为空时不显示参与者档案
+export const PROFILE_REGISTRY_ADDRESS = ''
+
+// 免 gas 签名中继服务地址（scripts/relayer.ts）
+export const RELAYER_URL = 'http://localhost:8787/relay'
+
+// EIP-712 签名域（与合约 EIP712_NAME / EIP712_VERSION 一致）
+export const EIP712_DOMAIN_NAME = 'CommitmentChain'
+export const EIP712_DOMAIN_VERSION = '1'
+
+// EIP-712 签名类型（与合约 SIGN_COMMITMENT_TYPEHASH 一致）
+export const SIGN_COMMITMENT_TYPES = {
+  SignCommitment: [
+    { name: 'commitmentId', type: 'uint256' },
+    { name: 'fileDigest', type: 'bytes32' },
+    { name: 'role', type: 'uint8' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+}
+
+// 签名角色代码（与合约 SIGNATURE_ROLE_SIGNER / SIGNATURE_ROLE_WITNESS 一致）
+export const SIGNATURE_ROLE = {
+  signer: 1,
+  witness: 2
+} as const
+
+// 每次批量创建 / 批量签名的最大承诺数（与合约 MAX_BATCH_SIZE 一致）
+export const MAX_BATCH_SIZE = 50
+
+// 类型化签名的有效期（秒）
+export const SIGNATURE_VALIDITY = 60 * 60
+
 // 支持的网络
 export const SUPPORTED_CHAINS = {
   LOCALHOST: 31337,
@@ -12,11 +46,16 @@ export const SUPPORTED_CHAINS = {
 // 当前使用的网络
 export const CURRENT_CHAIN_ID = SUPPORTED_CHAINS.LOCALHOST
 
+// 角色档案登记合约 ABI
+export const PROFILE_REGISTRY_ABI = [
+  "function getProfiles(address[] _accounts) view returns (tuple(bytes32 role, bytes32 displayNameHash, string badgeNumber, string organization, bytes32 credentialHash, address updatedBy, uint256 updatedAt)[] profiles)"
+]
+
 // 合约 ABI
 export const CONTRACT_ABI = [
   // Events
   // "event CommitmentCreated(bytes32 indexed commitmentId, address indexed initiator, bytes32 contentHash)",
-  "event CommitmentCreated(uint256 indexed id, address indexed initiator, address indexed signer, string fileHash, uint256 timestamp)",
+  "event CommitmentCreated(uint256 indexed id, address indexed initiator, address indexed signer, bytes32 fileDigest, uint8 hashAlgorithm, uint256 timestamp)",
 
   //"event CommitmentSigned(bytes32 indexed commitmentId, address indexed signer, uint8 signerType)",
   "event CommitmentSigned(uint256 indexed id, address indexed signer, string role, uint256 timestamp)",
@@ -25,26 +64,136 @@ export const CONTRACT_ABI = [
   "event CommitmentCompleted(uint256 indexed commitmentId, uint256 timestamp)",
 
   //"event CommitmentCancelled(bytes32 indexed commitmentId)",
-  "event CommitmentCancelled(uint256 indexed commitmentId)",
+  "event CommitmentAmended(uint256 indexed parentId, uint256 indexed childId, address indexed initiator, uint256 timestamp)",
+
+  "event MerkleRootAnchored(uint256 indexed commitmentId, bytes32 merkleRoot, uint256 leafCount, uint256 timestamp)",
+
+  "event ContentCidSet(uint256 indexed commitmentId, uint64 codec, bytes32 digest, uint256 timestamp)",
+
+  "event CommitmentSuperseded(uint256 indexed id, uint256 indexed supersededBy, uint256 timestamp)",
+
+  "event DeadlineExtended(uint256 indexed id, uint256 oldDeadline, uint256 newDeadline, uint256 timestamp)",
+
+  "event WitnessReplaced(uint256 indexed id, address indexed oldWitness, address indexed newWitness, address replacedBy, uint256 timestamp)",
+
+  "event CommitmentCancelled(uint256 indexed id, address indexed canceller, bytes32 reasonHash, uint256 timestamp)",
+
+  "event CommitmentDeclined(uint256 indexed id, address indexed decliner, string role, bytes32 reasonHash, uint256 timestamp)",
+
+  "event CommitmentFrozen(uint256 indexed id, address indexed freezer, uint8 reason, bytes32 caseRef, uint256 unfreezeAt, uint256 timestamp)",
+
+  "event CommitmentUnfrozen(uint256 indexed id, address indexed unfreezer, uint256 timestamp)",
+
+  "event CommitmentVerified(uint256 indexed id, address indexed verifier, uint256 timestamp)",
+
+  "event VerificationRejected(uint256 indexed id, address indexed verifier, bytes32 reasonHash, uint256 timestamp)",
+
+  "event DisputeResolved(uint256 indexed id, address indexed resolvedBy, bool upheld, uint256 timestamp)",
+
+  "event FileHashPolicyUpdated(bool uniqueFileHashRequired, address indexed updatedBy, uint256 timestamp)",
+
+  "event OrganizationCreated(uint256 indexed organizationId, string name, address indexed createdBy, uint256 timestamp)",
+
+  "event AccountOrganizationSet(address indexed account, uint256 indexed organizationId, address indexed updatedBy, uint256 timestamp)",
   // Read Functions
   //"function getCommitment(bytes32 commitmentId) view returns (tuple(bytes32 contentHash, address initiator, address signerAddress, bool signerHasSigned, uint256 signerSignedAt, uint8 status, uint256 createdAt, uint256 completedAt))",
-  "function getCommitment(uint256 _commitmentId) view returns (uint256 id, address initiator, address signer, address[] witnesses, string fileHash, uint256 createdAt, bool initiatorSigned, bool signerSigned, uint256 witnessSignedCount, bool isCompleted, bool isFrozen, bool isVerified)",
+  "function getCommitment(uint256 _commitmentId) view returns (uint256 id, address initiator, address[] signers, address[] witnesses, string fileHash, uint256 createdAt, bool initiatorSigned, bool signerSigned, uint256 signerSignedCount, uint256 witnessSignedCount, bool isCompleted, bool isFrozen, bool isVerified, bool isCancelled)",
+
+  "function getCancellationInfo(uint256 _commitmentId) view returns (address cancelledBy, bytes32 reasonHash, uint256 cancelledAt)",
+
+  "function getDeclineInfo(uint256 _commitmentId) view returns (address declinedBy, bytes32 reasonHash, uint256 declinedAt)",
+
+  "function getFreezeInfo(uint256 _commitmentId) view returns (bool frozen, uint8 reason, bytes32 caseRef, address frozenBy, uint256 frozenAt, uint256 unfreezeAt)",
+
+  "function getDisputeInfo(uint256 _commitmentId) view returns (address disputedBy, bytes32 reasonHash, uint256 disputedAt, bool resolved)",
+
+  "function commitmentCount() view returns (uint256)",
+
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+
+  "function VERIFIER_ROLE() view returns (bytes32)",
+
+  "function DEFAULT_ADMIN_ROLE() view returns (bytes32)",
+
+  "function getRoleAdmin(bytes32 role) view returns (bytes32)",
+
+  "function getRoleMembers(bytes32 role) view returns (address[])",
+
+  "function roleExpiresAt(bytes32 role, address account) view returns (uint256)",
+
+  "function getExpiringMembers(bytes32 _role, uint256 _before) view returns (address[] accounts, uint256[] expiresAt)",
 
   //"function getWitnesses(bytes32 commitmentId) view returns (tuple(address witnessAddress, bool hasSigned, uint256 signedAt)[])",
-  "function getWitnesses(uint256 commitmentId) view returns (tuple(address witnessAddress, bool hasSigned, uint256 signedAt)[])",
+  "function getWitnesses(uint256 _commitmentId) view returns (tuple(address witnessAddress, bool hasSigned, uint256 signedAt, uint256 signedBlock)[])",
+
+  "function getInitiatorInfo(uint256 _commitmentId) view returns (address initiator, uint256 signedAt, uint256 signedBlock)",
+
+  "function getSigners(uint256 _commitmentId) view returns (tuple(address signerAddress, bool hasSigned, uint256 signedAt, uint256 signedBlock)[])",
+
+  "function getCompletionInfo(uint256 _commitmentId) view returns (bool isCompleted, uint256 completedAt, uint256 completedBlock)",
 
   //"function getCommitmentStatus(bytes32 commitmentId) view returns (uint8)",
   "function getCommitmentStatus(uint256 commitmentId) view returns (uint8)",
 
-  "function hasSignerSigned(bytes32 commitmentId) view returns (bool)",
+  "function getSigningDeadline(uint256 _commitmentId) view returns (uint256)",
+
+  "function getWitnessThreshold(uint256 _commitmentId) view returns (uint256)",
+
+  "function getUnsignedWitnesses(uint256 _commitmentId) view returns (address[])",
+
+  "function getVersionChain(uint256 _commitmentId) view returns (uint256[] ids)",
+
+  "function getCommitmentsByFileHash(string _fileHash) view returns (uint256[])",
+
+  "function getCommitmentsByFileDigest(bytes32 _fileDigest) view returns (uint256[])",
+
+  "function getFileDigest(uint256 _commitmentId) view returns (bytes32 fileDigest, uint8 hashAlgorithm)",
+
+  "function getContentCid(uint256 _commitmentId) view returns (uint64 codec, bytes32 digest)",
+
+  "function verifyInclusion(uint256 _commitmentId, bytes32 _leafHash, bytes32[] _proof) view returns (bool)",
+
+  "function getCommitmentsByParticipant(address _participant, uint8 _role, uint256 _offset, uint256 _limit) view returns (uint256[] ids, uint256 total)",
+
+  "function organizationCount() view returns (uint256)",
+
+  "function organizationNames(uint256) view returns (string)",
+
+  "function organizationOf(address) view returns (uint256)",
+
+  "function getCommitmentOrganization(uint256 _commitmentId) view returns (uint256)",
+
+  "function getCommitmentsByOrganization(uint256 _organizationId, uint256 _offset, uint256 _limit) view returns (uint256[] ids, uint256 total)",
+
+  "function uniqueFileHashRequired() view returns (bool)",
+
+  //"function hasSignerSigned(bytes32 commitmentId) view returns (bool)",
+  "function hasSignerSigned(uint256 _commitmentId, address _signer) view returns (bool)",
   //"function hasWitnessSigned(bytes32 commitmentId, address witness) view returns (bool)",
   "function hasWitnessSigned(uint256 _commitmentId, address _witness) view returns (bool)",
   "function isCommitmentComplete(bytes32 commitmentId) view returns (bool)",
+  "function nonces(address owner) view returns (uint256)",
   "function commitmentExists(bytes32 commitmentId) view returns (bool)",
 
   // Write Functions
   //"function createCommitment(bytes32 contentHash, address signerAddress, address[] witnessAddresses) returns (bytes32)",
-  "function createCommitment(string _fileHash, address _signer, address[] _witnesses) returns (uint256)",
+  "function createCommitment(bytes32 _fileDigest, uint8 _hashAlgorithm, address _signer, address[] _witnesses) returns (uint256)",
+
+  "function createCommitmentWithDeadline(bytes32 _fileDigest, uint8 _hashAlgorithm, address _signer, address[] _witnesses, uint256 _deadline) returns (uint256)",
+
+  "function createCommitmentWithSigners(bytes32 _fileDigest, uint8 _hashAlgorithm, address[] _signers, address[] _witnesses, uint256 _witnessThreshold, uint256 _deadline) returns (uint256)",
+
+  "function createCommitmentsBatch(bytes32[] _fileDigests, uint8 _hashAlgorithm, address[][] _signers, address[][] _witnesses) returns (uint256[] ids)",
+
+  "function createMerkleCommitment(bytes32 _merkleRoot, uint256 _leafCount, address[] _signers, address[] _witnesses, uint256 _witnessThreshold, uint256 _deadline) returns (uint256 commitmentId)",
+
+  "function extendDeadline(uint256 _commitmentId, uint256 _newDeadline)",
+
+  "function setContentCid(uint256 _commitmentId, uint64 _codec, bytes32 _digest)",
+
+  "function replaceWitness(uint256 _commitmentId, address _oldWitness, address _newWitness)",
+
+  "function amendCommitment(uint256 _parentId, bytes32 _newFileDigest, uint8 _hashAlgorithm, address[] _signers, address[] _witnesses, uint256 _witnessThreshold, uint256 _deadline) returns (uint256)",
 
   //"function signAsSigner(bytes32 commitmentId)",
   "function signAsSigner(uint256 _commitmentId)",
@@ -52,8 +201,42 @@ export const CONTRACT_ABI = [
   //"function signAsWitness(bytes32 commitmentId)",
   "function signAsWitness(uint256 _commitmentId)",
 
+  "function signAsSignerBySignature(uint256 _commitmentId, address _signer, uint256 _deadline, bytes _signature)",
+
+  "function signAsWitnessBySignature(uint256 _commitmentId, address _witness, uint256 _deadline, bytes _signature)",
+
+  "function signAsSignerBatch(uint256[] _commitmentIds) returns (bool[])",
+
+  "function signAsWitnessBatch(uint256[] _commitmentIds) returns (bool[])",
+
+  "function declineAsSigner(uint256 _commitmentId, bytes32 _reasonHash)",
+
+  "function declineAsWitness(uint256 _commitmentId, bytes32 _reasonHash)",
+
+  "function setUniqueFileHashRequired(bool _required)",
+
+  "function grantRole(bytes32 role, address account)",
+
+  "function revokeRole(bytes32 role, address account)",
+
+  "function grantRoleWithExpiry(bytes32 _role, address _account, uint256 _expiresAt)",
+
+  "function createOrganization(string _name) returns (uint256)",
+
+  "function setAccountOrganization(address _account, uint256 _organizationId)",
+
+  "function freezeCommitmentWithReason(uint256 _commitmentId, uint8 _reason, bytes32 _caseRef, uint256 _unfreezeAt)",
+
+  "function unfreezeCommitment(uint256 _commitmentId)",
+
+  "function verifyCommitment(uint256 _commitmentId)",
+
+  "function rejectVerification(uint256 _commitmentId, bytes32 _reasonHash)",
+
+  "function resolveDispute(uint256 _commitmentId, bool _upheld)",
+
   //"function cancelCommitment(bytes32 commitmentId)"
-  "function cancelCommitment(uint256 commitmentId)"
+  "function cancelCommitment(uint256 _commitmentId, bytes32 _reasonHash)"
 ]
 
 // 获取网络名称
@@ -1,19 +1,22 @@
+import { concat, getBytes, hexlify, isHexString, keccak256, sha256, ZeroHash } from 'ethers'
+import { sha3_256 } from '@noble/hashes/sha3'
+import { CidCodec, ContentCid, FileCids, HashAlgorithm, MerkleProofBundle } from '../types'
+
 /**
- * 计算文件的 SHA-256 哈希值
+ * 按指定算法计算文件摘要
+ * IPFS_MULTIHASH 取 `ipfs add --cid-version=1` 所得 CID 的 sha2-256 摘要（即 multihash 去掉 0x1220 前缀的部分），
+ * 大于一个分块的文件为 UnixFS 根节点（dag-pb）的摘要
  * @param file - 要计算哈希的文件
- * @returns Promise<string> - 返回 0x 前缀的哈希字符串
+ * @param algorithm - 摘要算法，默认 SHA-256
+ * @returns Promise<string> - 返回 0x 前缀的 32 字节摘要
  */
-export async function calculateFileHash(file: File): Promise<string> {
+export async function calculateFileHash(file: File, algorithm: HashAlgorithm = HashAlgorithm.SHA256): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
     
     reader.onload = async (e) => {
       try {
-        const arrayBuffer = e.target?.result as ArrayBuffer
-        const hashBuffer = await crypto.subtle.digest('SHA-256', arrayBuffer)
-        const hashArray = Array.from(new Uint8Array(hashBuffer))
-        const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
-        resolve('0x' + hashHex)
+        resolve(await digestBytes(e.target?.result as ArrayBuffer, algorithm))
       } catch (err) {
         reject(err)
       }
@@ -24,6 +27,29 @@ export async function calculateFileHash(file: File): Promise<string> {
   })
 }
 
+async function digestBytes(data: ArrayBuffer, algorithm: HashAlgorithm): Promise<string> {
+  switch (algorithm) {
+    case HashAlgorithm.KECCAK256:
+      return keccak256(new Uint8Array(data))
+    case HashAlgorithm.SHA3_256:
+      return hexlify(sha3_256(new Uint8Array(data)))
+    case HashAlgorithm.SHA256:
+      return hexlify(new Uint8Array(await crypto.subtle.digest('SHA-256', data)))
+    case HashAlgorithm.IPFS_MULTIHASH:
+      return unixfsCid(new Uint8Array(data)).digest
+    default:
+      throw new Error('Unsupported hash algorithm / 不支持的摘要算法')
+  }
+}
+
+/**
+ * 检查摘要格式：32 字节十六进制且不为全零
+ * @param value - 0x 前缀的摘要
+ */
+export function isValidDigest(value: string): boolean {
+  return isHexString(value, 32) && value !== ZeroHash
+}
+
 /**
  * 计算文本的 SHA-256 哈希值
  * @param text - 要计算哈希的文本
@@ -38,6 +64,228 @@ export async function calculateTextHash(text: string): Promise<string> {
   return '0x' + hashHex
 }
 
+// 叶子为 keccak256(文件哈希)，与合约 verifyInclusion 一致
+function merkleLeaf(documentHash: string): string {
+  return keccak256(documentHash)
+}
+
+// 父节点为排序后两个子节点拼接的 keccak256，验证时无需左右位置
+function hashPair(a: string, b: string): string {
+  return keccak256(a.toLowerCase() < b.toLowerCase() ? concat([a, b]) : concat([b, a]))
+}
+
+/**
+ * 构建 Merkle 树并生成每个文件的证明
+ * 奇数个节点时最后一个节点直接上移到下一层
+ * @param documentHashes - 0x 前缀的文件哈希，顺序即叶子顺序
+ * @returns 根及与输入顺序对应的证明
+ */
+export function buildMerkleTree(documentHashes: string[]): { root: string; proofs: string[][] } {
+  if (documentHashes.length === 0) throw new Error('No documents / 没有文件')
+
+  let level = documentHashes.map(merkleLeaf)
+  const positions = documentHashes.map((_, i) => i)  // 每个叶子在当前层的位置
+  const proofs: string[][] = documentHashes.map(() => [])
+
+  while (level.length > 1) {
+    positions.forEach((pos, i) => {
+      const sibling = pos ^ 1
+      if (sibling < level.length) proofs[i].push(level[sibling])
+      positions[i] = pos >> 1
+    })
+
+    const next: string[] = []
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i])
+    }
+    level = next
+  }
+
+  return { root: level[0], proofs }
+}
+
+/**
+ * 在本地验证 Merkle 证明
+ * @param documentHash - 文件哈希
+ * @param proof - 从叶子到根的兄弟节点哈希
+ * @param root - 承诺中锚定的 Merkle 根
+ * @returns boolean - 证明是否能推导出该根
+ */
+export function verifyMerkleProof(documentHash: string, proof: string[], root: string): boolean {
+  const computed = proof.reduce(hashPair, merkleLeaf(documentHash))
+  return computed.toLowerCase() === root.toLowerCase()
+}
+
+/**
+ * 解析并校验下载的证明包 JSON
+ * @param text - 证明包文件内容
+ * @returns MerkleProofBundle - 证明包
+ */
+export function parseProofBundle(text: string): MerkleProofBundle {
+  let data: Partial<MerkleProofBundle>
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Proof bundle is not valid JSON / 证明包不是有效的 JSON')
+  }
+
+  const isBytes32 = (value: unknown) => typeof value === 'string' && isHexString(value, 32)
+  if (
+    !data.commitmentId || !/^\d+$/.test(String(data.commitmentId)) ||
+    !isBytes32(data.merkleRoot) ||
+    !isBytes32(data.documentHash) ||
+    !Array.isArray(data.proof) || !data.proof.every(isBytes32)
+  ) {
+    throw new Error('Invalid proof bundle / 证明包格式无效')
+  }
+
+  return {
+    commitmentId: String(data.commitmentId),
+    merkleRoot: data.merkleRoot as string,
+    leafCount: Number(data.leafCount ?? 0),
+    fileName: String(data.fileName ?? ''),
+    documentHash: data.documentHash as string,
+    proof: data.proof
+  }
+}
+
+/**
+ * 下载证明包为 JSON 文件
+ * @param bundle - 证明包
+ */
+export function downloadProofBundle(bundle: MerkleProofBundle): void {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${bundle.fileName || bundle.documentHash}.proof.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// UnixFS 参数与 `ipfs add --cid-version=1` 的默认值一致：256 KiB 分块、raw 叶子、平衡布局每个节点最多 174 个链接
+const UNIXFS_CHUNK_SIZE = 262144
+const UNIXFS_MAX_LINKS = 174
+const UNIXFS_TYPE_FILE = 2
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567'
+
+// DAG 中的一个节点：CID 二进制、所覆盖的文件字节数、包含子节点在内的块总大小（链接的 Tsize）
+interface DagNode {
+  cid: Uint8Array
+  fileSize: number
+  dagSize: number
+}
+
+// 无符号 varint（protobuf / multiformats 通用）
+function varint(n: number): number[] {
+  const out: number[] = []
+  while (n >= 0x80) {
+    out.push((n % 0x80) | 0x80)
+    n = Math.floor(n / 0x80)
+  }
+  out.push(n)
+  return out
+}
+
+// protobuf 字段：varint 类型与长度前缀类型
+function pbVarint(field: number, value: number): number[] {
+  return [field << 3, ...varint(value)]
+}
+
+function pbBytes(field: number, bytes: ArrayLike<number>): number[] {
+  return [(field << 3) | 2, ...varint(bytes.length), ...Array.from(bytes)]
+}
+
+// RFC 4648 base32 小写、无填充（multibase 前缀 "b"）
+function base32(bytes: Uint8Array): string {
+  let out = ''
+  let value = 0
+  let bits = 0
+  for (const byte of bytes) {
+    value = ((value << 8) | byte) & 0xffff
+    bits += 8
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  return out
+}
+
+// CIDv1 二进制：版本 1、codec、sha2-256 multihash（0x12 0x20 + 32 字节摘要）
+function cidBytes(codec: CidCodec, digest: string): Uint8Array {
+  return new Uint8Array([0x01, codec, 0x12, 0x20, ...getBytes(digest)])
+}
+
+// UnixFS File 节点（dag-pb）：链接在前、Data 在后，与 go / js 实现的规范编码一致
+function unixfsNode(children: DagNode[]): DagNode {
+  const fileSize = children.reduce((sum, c) => sum + c.fileSize, 0)
+  const data = [
+    ...pbVarint(1, UNIXFS_TYPE_FILE),
+    ...pbVarint(3, fileSize),
+    ...children.flatMap(c => pbVarint(4, c.fileSize))
+  ]
+  const node = new Uint8Array([
+    ...children.flatMap(c => pbBytes(2, [...pbBytes(1, c.cid), ...pbBytes(2, []), ...pbVarint(3, c.dagSize)])),
+    ...pbBytes(1, data)
+  ])
+  return {
+    cid: cidBytes(CidCodec.DAG_PB, sha256(node)),
+    fileSize,
+    dagSize: node.length + children.reduce((sum, c) => sum + c.dagSize, 0)
+  }
+}
+
+/**
+ * 由 codec 和 sha2-256 摘要生成 CIDv1
+ * @param codec - multicodec（raw 或 dag-pb）
+ * @param digest - 0x 前缀的 sha2-256 摘要
+ * @returns ContentCid - 包含 base32 字符串的 CID
+ */
+export function encodeCid(codec: CidCodec, digest: string): ContentCid {
+  return { codec, digest: hexlify(digest), cid: 'b' + base32(cidBytes(codec, digest)) }
+}
+
+// 与 `ipfs add --cid-version=1` 相同的分块 DAG 的根 CID；文件不超过一个分块时即为 raw CID
+function unixfsCid(data: Uint8Array): ContentCid {
+  // 空文件也产生一个空叶子
+  let level: DagNode[] = []
+  for (let offset = 0; offset === 0 || offset < data.length; offset += UNIXFS_CHUNK_SIZE) {
+    const chunk = data.subarray(offset, offset + UNIXFS_CHUNK_SIZE)
+    level.push({ cid: cidBytes(CidCodec.RAW, sha256(chunk)), fileSize: chunk.length, dagSize: chunk.length })
+  }
+
+  // 平衡布局：逐层每 174 个节点合并为一个父节点，直到只剩根节点
+  while (level.length > 1) {
+    const next: DagNode[] = []
+    for (let i = 0; i < level.length; i += UNIXFS_MAX_LINKS) {
+      next.push(unixfsNode(level.slice(i, i + UNIXFS_MAX_LINKS)))
+    }
+    level = next
+  }
+
+  const root = level[0].cid
+  return encodeCid(root[1] as CidCodec, hexlify(root.subarray(4)))
+}
+
+/**
+ * 完全离线计算文件的 IPFS CIDv1
+ * raw：整个文件作为单个 raw 块，摘要即文件的 SHA-256；仅当文件不超过一个分块时给出，
+ *      更大的文件超出 IPFS 单块大小限制，无法作为单个块获取
+ * unixfs：与 `ipfs add --cid-version=1` 相同的分块 DAG；文件不超过一个分块时即为 raw CID
+ * @param file - 要计算 CID 的文件
+ * @returns Promise<FileCids> - 文件的 CID
+ */
+export async function calculateFileCids(file: File): Promise<FileCids> {
+  const data = new Uint8Array(await file.arrayBuffer())
+  return {
+    raw: data.length <= UNIXFS_CHUNK_SIZE ? encodeCid(CidCodec.RAW, sha256(data)) : undefined,
+    unixfs: unixfsCid(data)
+  }
+}
+
 /**
  * 格式化文件大小
  * @param bytes - 文件字节数
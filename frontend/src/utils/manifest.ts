@@ -0,0 +1,59 @@
+import { isAddress } from 'ethers'
+import { ManifestEntry } from '../types'
+
+/**
+ * 解析批量登记清单
+ * JSON：[{ "file": "statement-1.pdf", "signers": ["0x..."], "witnesses": ["0x..."] }]
+ * CSV：表头 file,signers,witnesses，同一单元格中的多个地址用分号分隔
+ * @param text - 清单文件内容
+ * @param fileName - 清单文件名（.json 按 JSON 解析，其余按 CSV 解析）
+ * @returns ManifestEntry[] - 清单项；格式或地址无效时抛出错误
+ */
+export function parseManifest(text: string, fileName: string): ManifestEntry[] {
+  const entries = fileName.toLowerCase().endsWith('.json') ? parseJson(text) : parseCsv(text)
+
+  if (entries.length === 0) {
+    throw new Error('Manifest is empty / 清单为空')
+  }
+
+  entries.forEach((entry, i) => {
+    if (!entry.file) {
+      throw new Error(`Item ${i + 1}: missing file name / 第 ${i + 1} 项缺少文件名`)
+    }
+    if (entry.signers.length === 0) {
+      throw new Error(`Item ${i + 1}: at least one signer required / 第 ${i + 1} 项至少需要一个签约者`)
+    }
+    const invalid = [...entry.signers, ...entry.witnesses].find(a => !isAddress(a))
+    if (invalid) {
+      throw new Error(`Item ${i + 1}: invalid address ${invalid} / 第 ${i + 1} 项地址无效`)
+    }
+  })
+
+  return entries
+}
+
+function parseJson(text: string): ManifestEntry[] {
+  const data: unknown = JSON.parse(text)
+  if (!Array.isArray(data)) {
+    throw new Error('JSON manifest must be an array / JSON 清单必须是数组')
+  }
+  return data.map(item => ({
+    file: String(item?.file ?? '').trim(),
+    signers: Array.isArray(item?.signers) ? item.signers.map(String) : [],
+    witnesses: Array.isArray(item?.witnesses) ? item.witnesses.map(String) : []
+  }))
+}
+
+function parseCsv(text: string): ManifestEntry[] {
+  const splitAddresses = (cell = '') => cell.split(';').map(a => a.trim()).filter(Boolean)
+
+  return text
+    .split(/\r?\n/)
+    .map(line => line.split(',').map(cell => cell.trim()))
+    .filter(cells => cells[0] && cells[0].toLowerCase() !== 'file')  // 跳过空行和表头
+    .map(([file, signers, witnesses]) => ({
+      file,
+      signers: splitAddresses(signers),
+      witnesses: splitAddresses(witnesses)
+    }))
+}
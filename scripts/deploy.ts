@@ -5,18 +5,58 @@ async function main() {
   const [deployer] = await ethers.getSigners();
   console.log("Deploying contracts with the account:", deployer.address);
 
-  const CommitmentChain = await ethers.getContractFactory("CommitmentChain");
+  // 先部署外部库，再链接到 CommitmentChain（合约大小限制 24KB）
+  const participantLib = await (await ethers.getContractFactory("ParticipantLib")).deploy();
+  await participantLib.waitForDeployment();
+  console.log("ParticipantLib deployed to:", await participantLib.getAddress());
+
+  const reviewLib = await (await ethers.getContractFactory("ReviewLib")).deploy();
+  await reviewLib.waitForDeployment();
+  console.log("ReviewLib deployed to:", await reviewLib.getAddress());
+
+  const lifecycleLib = await (await ethers.getContractFactory("LifecycleLib")).deploy();
+  await lifecycleLib.waitForDeployment();
+  console.log("LifecycleLib deployed to:", await lifecycleLib.getAddress());
+
+  const signingLib = await (await ethers.getContractFactory("SigningLib")).deploy();
+  await signingLib.waitForDeployment();
+  console.log("SigningLib deployed to:", await signingLib.getAddress());
+
+  const membershipLib = await (await ethers.getContractFactory("MembershipLib")).deploy();
+  await membershipLib.waitForDeployment();
+  console.log("MembershipLib deployed to:", await membershipLib.getAddress());
+
+  const upgradeLib = await (await ethers.getContractFactory("UpgradeLib")).deploy();
+  await upgradeLib.waitForDeployment();
+  console.log("UpgradeLib deployed to:", await upgradeLib.getAddress());
+
+  const CommitmentChain = await ethers.getContractFactory("CommitmentChain", {
+    libraries: {
+      ParticipantLib: await participantLib.getAddress(),
+      ReviewLib: await reviewLib.getAddress(),
+      LifecycleLib: await lifecycleLib.getAddress(),
+      SigningLib: await signingLib.getAddress(),
+      MembershipLib: await membershipLib.getAddress(),
+      UpgradeLib: await upgradeLib.getAddress(),
+    },
+  });
   
   // 部署代理合约 (这也是这一步最关键的地方)
   const commitmentChain = await upgrades.deployProxy(CommitmentChain, [deployer.address], {
     initializer: "initialize",
     kind: "uups",
+    unsafeAllow: ["external-library-linking"],
   });
 
   await commitmentChain.waitForDeployment();
 
   const proxyAddress = await commitmentChain.getAddress();
   console.log("CommitmentChain (Proxy) deployed to:", proxyAddress);
+
+  // 角色档案登记合约（权限读取自 CommitmentChain）
+  const profileRegistry = await (await ethers.getContractFactory("ProfileRegistry")).deploy(proxyAddress);
+  await profileRegistry.waitForDeployment();
+  console.log("ProfileRegistry deployed to:", await profileRegistry.getAddress());
 }
 
 main().catch((error) => {
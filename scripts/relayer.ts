@@ -0,0 +1,105 @@
+// scripts/relayer.ts
+import http from "http";
+import { ethers } from "hardhat";
+
+/**
+ * ============================================================================
+ * 免 gas 签名中继服务
+ * ============================================================================
+ *
+ * 签约者 / 见证者在前端用钱包生成 EIP-712 类型化签名（不发交易），
+ * 前端把签名 POST 到本服务，由中继账户提交 signAsSignerBySignature /
+ * signAsWitnessBySignature 交易并支付 gas。
+ *
+ * 使用方法：
+ *   PROXY_ADDRESS=0x... RELAYER_PORT=8787 npx hardhat run scripts/relayer.ts --network localhost
+ *
+ * 请求：POST /relay
+ *   { "commitmentId": "1", "account": "0x...", "role": "signer" | "witness",
+ *     "deadline": 1700000000, "signature": "0x..." }
+ * 响应：{ "txHash": "0x...", "blockNumber": 123 } 或 { "error": "..." }
+ */
+
+const PROXY_ADDRESS = process.env.PROXY_ADDRESS || "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+const PORT = Number(process.env.RELAYER_PORT || 8787);
+
+interface RelayRequest {
+  commitmentId: string;
+  account: string;
+  role: "signer" | "witness";
+  deadline: number;
+  signature: string;
+}
+
+// 读取并解析 JSON 请求体
+function readBody(req: http.IncomingMessage): Promise<RelayRequest> {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(data));
+      } catch {
+        reject(new Error("Invalid JSON body"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function send(res: http.ServerResponse, status: number, body: object) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(JSON.stringify(body));
+}
+
+async function main() {
+  const [relayer] = await ethers.getSigners();
+  const commitmentChain = await ethers.getContractAt("CommitmentChain", PROXY_ADDRESS, relayer);
+
+  console.log("Relayer account:", relayer.address);
+  console.log("CommitmentChain (Proxy):", PROXY_ADDRESS);
+
+  const server = http.createServer(async (req, res) => {
+    if (req.method === "OPTIONS") return send(res, 204, {});
+    if (req.method !== "POST" || req.url !== "/relay") return send(res, 404, { error: "Not found" });
+
+    try {
+      const { commitmentId, account, role, deadline, signature } = await readBody(req);
+
+      if (!ethers.isAddress(account) || !ethers.isHexString(signature) || (role !== "signer" && role !== "witness")) {
+        return send(res, 400, { error: "Invalid relay request" });
+      }
+
+      const method = role === "signer"
+        ? commitmentChain.signAsSignerBySignature
+        : commitmentChain.signAsWitnessBySignature;
+      const args = [commitmentId, account, deadline, signature] as const;
+
+      // 先静态调用，签名无效时直接返回错误，避免浪费 gas
+      await method.staticCall(...args);
+
+      const tx = await method(...args);
+      const receipt = await tx.wait();
+      console.log(`Relayed ${role} signature for #${commitmentId} from ${account}: ${tx.hash}`);
+
+      send(res, 200, { txHash: tx.hash, blockNumber: receipt?.blockNumber });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Relay failed";
+      console.error("Relay failed:", message);
+      send(res, 400, { error: message });
+    }
+  });
+
+  server.listen(PORT, () => {
+    console.log(`Relayer listening on http://localhost:${PORT}/relay`);
+  });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -13,16 +13,30 @@ const { upgrades } = require("hardhat");
  * 2. 新版本合约不能删除或修改已有的状态变量
  * 3. 新版本合约只能在末尾添加新的状态变量
  * 4. 充分测试新版本后再升级
- * 5. 考虑使用时间锁或多签来保护升级过程
+ * 5. 升级受时间锁保护：先提议，等待 upgradeDelay 后才能执行，期间可以取消
  * 
  * 使用方法：
  * 1. 修改下面的 PROXY_ADDRESS 为你的代理合约地址
- * 2. 运行: npx hardhat run scripts/upgrade.ts --network <network-name>
+ * 2. 提议升级（部署新实现合约并开始计时）:
+ *    UPGRADE_ACTION=propose npx hardhat run scripts/upgrade.js --network <network-name>
+ * 3. 时间锁到期后执行升级:
+ *    UPGRADE_ACTION=execute npx hardhat run scripts/upgrade.js --network <network-name>
+ * 4. 取消待执行的升级:
+ *    UPGRADE_ACTION=cancel npx hardhat run scripts/upgrade.js --network <network-name>
+ * 
+ * 首次升级：当前实现合约尚无升级时间锁（例如基线版本）时，propose / execute 都会直接升级一次，
+ * 并初始化升级延迟；之后的升级再走时间锁流程
+ * 
+ * 角色管理层级之前的代理在升级时会调用 initializeRoleAdmins：设置各角色的管理角色，
+ * 并重新登记升级前授予的成员（从 RoleGranted 事件收集），使 getRoleMembers 能列出他们
  */
 
 // ⚠️ 重要：修改为你的代理合约地址
 const PROXY_ADDRESS = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512"; // 替换为实际的代理合约地址
 
+// 升级步骤: propose | execute | cancel
+const UPGRADE_ACTION = process.env.UPGRADE_ACTION || "propose";
+
 async function main() {
   console.log("=".repeat(70));
   console.log("开始升级 CommitmentChain 合约");
@@ -34,6 +48,12 @@ async function main() {
     process.exit(1);
   }
   
+  // 验证升级步骤
+  if (!["propose", "execute", "cancel"].includes(UPGRADE_ACTION)) {
+    console.error("\n❌ 错误: UPGRADE_ACTION 必须是 propose、execute 或 cancel");
+    process.exit(1);
+  }
+  
   // 获取升级账户
   const [upgrader] = await hre.ethers.getSigners();
   console.log("\n📋 升级信息:");
@@ -41,6 +61,7 @@ async function main() {
   console.log("  账户余额:", hre.ethers.formatEther(await hre.ethers.provider.getBalance(upgrader.address)), "ETH");
   console.log("  网络:", hre.network.name);
   console.log("  代理地址:", PROXY_ADDRESS);
+  console.log("  升级步骤:", UPGRADE_ACTION);
   
   // 获取当前版本信息
   console.log("\n📦 当前版本信息:");
@@ -62,6 +83,219 @@ async function main() {
   }
   console.log("  ✓ 权限验证通过");
   
+  const context = {
+    upgrader,
+    currentImplementation,
+    currentVersion,
+    DEFAULT_ADMIN_ROLE,
+  };
+  
+  // 首次升级：当前实现合约没有时间锁函数，读取时间锁状态会回滚
+  if (!(await hasUpgradeTimelock(currentContract, currentImplementation))) {
+    console.log("\n⏱️  时间锁状态: 当前实现合约没有升级时间锁（首次升级）");
+    if (UPGRADE_ACTION === "cancel") {
+      console.error("\n❌ 当前实现合约没有时间锁，没有可取消的升级");
+      process.exit(1);
+    }
+    await firstUpgrade(currentContract, context);
+    return;
+  }
+  
+  // 显示时间锁状态
+  const pendingImplementation = await currentContract.pendingImplementation();
+  const upgradeReadyAt = await currentContract.upgradeReadyAt();
+  console.log("\n⏱️  时间锁状态:");
+  console.log("  升级延迟:", (await currentContract.upgradeDelay()).toString(), "秒");
+  if (pendingImplementation === hre.ethers.ZeroAddress) {
+    console.log("  待执行升级: 无");
+  } else {
+    console.log("  待执行升级:", pendingImplementation);
+    console.log("  可执行时间:", new Date(Number(upgradeReadyAt) * 1000).toISOString());
+  }
+  
+  if (UPGRADE_ACTION === "propose") {
+    await proposeUpgrade(currentContract, pendingImplementation);
+  } else if (UPGRADE_ACTION === "execute") {
+    await executeUpgrade(currentContract, { ...context, pendingImplementation, upgradeReadyAt });
+  } else {
+    await cancelUpgrade(currentContract, pendingImplementation);
+  }
+}
+
+/**
+ * 检查当前实现合约是否包含升级时间锁（按 upgradeDelay() 的函数选择器判断）
+ */
+async function hasUpgradeTimelock(currentContract, currentImplementation) {
+  const code = await hre.ethers.provider.getCode(currentImplementation);
+  const selector = currentContract.interface.getFunction("upgradeDelay").selector;
+  return code.includes(selector.slice(2));
+}
+
+/**
+ * 生成 upgradeToAndCall 的调用数据：角色管理层级之前的代理（POLICE_ROLE 的管理角色仍是
+ * DEFAULT_ADMIN_ROLE）需要调用 initializeRoleAdmins，其他情况返回 "0x"
+ */
+async function upgradeCallData(currentContract, DEFAULT_ADMIN_ROLE) {
+  const POLICE_ROLE = await currentContract.POLICE_ROLE();
+  if ((await currentContract.getRoleAdmin(POLICE_ROLE)) !== DEFAULT_ADMIN_ROLE) {
+    return "0x";
+  }
+  
+  // 从 RoleGranted 事件收集仍持有角色的成员，升级时重新登记
+  const events = await currentContract.queryFilter(currentContract.filters.RoleGranted(), 0);
+  const grants = new Map();
+  for (const { args } of events) {
+    grants.set(`${args.role}:${args.account}`, [args.role, args.account]);
+  }
+  const roles = [];
+  const accounts = [];
+  for (const [role, account] of grants.values()) {
+    if (await currentContract.hasRole(role, account)) {
+      roles.push(role);
+      accounts.push(account);
+    }
+  }
+  console.log("  ✓ 将设置角色管理员并重新登记现有成员:", accounts.length, "个");
+  
+  return currentContract.interface.encodeFunctionData("initializeRoleAdmins", [roles, accounts]);
+}
+
+/**
+ * 部署外部库和新实现合约（不修改代理），返回新实现合约地址
+ */
+async function deployImplementation() {
+  // 部署新版本使用的外部库（无状态，每次升级重新部署即可）
+  const participantLib = await (await hre.ethers.getContractFactory("ParticipantLib")).deploy();
+  await participantLib.waitForDeployment();
+  console.log("  ✓ ParticipantLib 已部署:", await participantLib.getAddress());
+  const reviewLib = await (await hre.ethers.getContractFactory("ReviewLib")).deploy();
+  await reviewLib.waitForDeployment();
+  console.log("  ✓ ReviewLib 已部署:", await reviewLib.getAddress());
+  const lifecycleLib = await (await hre.ethers.getContractFactory("LifecycleLib")).deploy();
+  await lifecycleLib.waitForDeployment();
+  console.log("  ✓ LifecycleLib 已部署:", await lifecycleLib.getAddress());
+  const signingLib = await (await hre.ethers.getContractFactory("SigningLib")).deploy();
+  await signingLib.waitForDeployment();
+  console.log("  ✓ SigningLib 已部署:", await signingLib.getAddress());
+  const membershipLib = await (await hre.ethers.getContractFactory("MembershipLib")).deploy();
+  await membershipLib.waitForDeployment();
+  console.log("  ✓ MembershipLib 已部署:", await membershipLib.getAddress());
+  const upgradeLib = await (await hre.ethers.getContractFactory("UpgradeLib")).deploy();
+  await upgradeLib.waitForDeployment();
+  console.log("  ✓ UpgradeLib 已部署:", await upgradeLib.getAddress());
+  
+  // 获取新版本合约工厂
+  const CommitmentChainV2 = await hre.ethers.getContractFactory("CommitmentChain", {
+    libraries: {
+      ParticipantLib: await participantLib.getAddress(),
+      ReviewLib: await reviewLib.getAddress(),
+      LifecycleLib: await lifecycleLib.getAddress(),
+      SigningLib: await signingLib.getAddress(),
+      MembershipLib: await membershipLib.getAddress(),
+      UpgradeLib: await upgradeLib.getAddress(),
+    },
+  });
+  console.log("  ✓ 新版本合约工厂已创建");
+  
+  // 校验存储布局并部署新实现合约（不修改代理）
+  console.log("  ⏳ 正在部署新实现合约...");
+  const newImplementation = await upgrades.prepareUpgrade(PROXY_ADDRESS, CommitmentChainV2, {
+    unsafeAllow: ["external-library-linking"],
+  });
+  console.log("  ✓ 新实现合约:", newImplementation);
+  
+  return newImplementation;
+}
+
+/**
+ * 首次升级：当前实现合约没有时间锁，直接升级一次并初始化升级延迟
+ */
+async function firstUpgrade(currentContract, context) {
+  console.log("\n⚠️  警告: 你即将直接升级合约（无时间锁）!");
+  console.log("  升级后将启用时间锁，之后的升级需要先提议再执行");
+  
+  console.log("\n🚀 开始首次升级...");
+  const newImplementation = await deployImplementation();
+  
+  console.log("  ⏳ 正在升级...");
+  const data = await upgradeCallData(currentContract, context.DEFAULT_ADMIN_ROLE);
+  const tx = await currentContract.upgradeToAndCall(newImplementation, data);
+  await tx.wait();
+  
+  // 从无时间锁版本升级而来的代理，其延迟初始为 0，这里设置为最小延迟
+  const upgraded = await hre.ethers.getContractAt("CommitmentChain", PROXY_ADDRESS);
+  const delayTx = await upgraded.setUpgradeDelay(await upgraded.MIN_UPGRADE_DELAY());
+  await delayTx.wait();
+  console.log("  ✓ 升级延迟已初始化:", (await upgraded.upgradeDelay()).toString(), "秒");
+  
+  await reportUpgrade(context);
+}
+
+/**
+ * 第一步：部署新实现合约并提议升级，开始时间锁计时
+ */
+async function proposeUpgrade(currentContract, pendingImplementation) {
+  if (pendingImplementation !== hre.ethers.ZeroAddress) {
+    console.error("\n❌ 已有待执行的升级，请先执行或取消");
+    process.exit(1);
+  }
+  
+  console.log("\n🚀 开始提议升级...");
+  const newImplementation = await deployImplementation();
+  
+  // 提议升级
+  const tx = await currentContract.proposeUpgrade(newImplementation);
+  await tx.wait();
+  const readyAt = await currentContract.upgradeReadyAt();
+  
+  console.log("  ✓ 升级已提议!");
+  console.log("\n📍 提议结果:");
+  console.log("  新实现合约:", newImplementation);
+  console.log("  可执行时间:", new Date(Number(readyAt) * 1000).toISOString());
+  
+  // Etherscan 验证（如果不是本地网络），便于在时间锁期间审查新代码
+  if (hre.network.name !== "hardhat" && hre.network.name !== "localhost") {
+    console.log("\n⏳ 等待 Etherscan 验证...");
+    await new Promise(resolve => setTimeout(resolve, 30000));
+    
+    try {
+      console.log("🔍 验证新实现合约...");
+      await hre.run("verify:verify", {
+        address: newImplementation,
+        constructorArguments: [],
+      });
+      console.log("  ✓ 验证成功!");
+    } catch (error) {
+      //console.error("  ✗ 验证失败:", error.message);
+      console.log("  ✗ 验证失败:", error.message);
+      console.log("  你可以稍后手动验证");
+    }
+  }
+  
+  console.log("\n📋 后续步骤:");
+  console.log("  1. 在时间锁期间审查新实现合约");
+  console.log("  2. 到期后运行 UPGRADE_ACTION=execute 执行升级");
+  console.log("  3. 如发现问题，运行 UPGRADE_ACTION=cancel 取消升级");
+  console.log("\n");
+}
+
+/**
+ * 第二步：时间锁到期后执行已提议的升级
+ */
+async function executeUpgrade(currentContract, context) {
+  const { pendingImplementation, upgradeReadyAt } = context;
+  
+  if (pendingImplementation === hre.ethers.ZeroAddress) {
+    console.error("\n❌ 没有待执行的升级，请先运行 UPGRADE_ACTION=propose");
+    process.exit(1);
+  }
+  
+  const latestBlock = await hre.ethers.provider.getBlock("latest");
+  if (BigInt(latestBlock.timestamp) < upgradeReadyAt) {
+    console.error("\n❌ 时间锁尚未到期，可执行时间:", new Date(Number(upgradeReadyAt) * 1000).toISOString());
+    process.exit(1);
+  }
+  
   // 确认升级
   console.log("\n⚠️  警告: 你即将升级合约!");
   console.log("  这个操作会更新合约逻辑，但保留所有数据");
@@ -70,17 +304,23 @@ async function main() {
   // 在生产环境中，这里应该添加确认步骤
   // 例如：需要用户输入确认码或使用多签钱包
   
-  console.log("\n🚀 开始升级...");
-  
-  // 获取新版本合约工厂
-  const CommitmentChainV2 = await hre.ethers.getContractFactory("CommitmentChain");
-  console.log("  ✓ 新版本合约工厂已创建");
-  
   // 执行升级
+  console.log("\n🚀 开始升级...");
   console.log("  ⏳ 正在升级...");
-  const upgraded = await upgrades.upgradeProxy(PROXY_ADDRESS, CommitmentChainV2);
-  await upgraded.waitForDeployment();
+  const data = await upgradeCallData(currentContract, context.DEFAULT_ADMIN_ROLE);
+  const tx = await currentContract.upgradeToAndCall(pendingImplementation, data);
+  await tx.wait();
   
+  await reportUpgrade(context);
+}
+
+/**
+ * 升级完成后验证并保存升级信息
+ */
+async function reportUpgrade(context) {
+  const { upgrader, currentImplementation, currentVersion, DEFAULT_ADMIN_ROLE } = context;
+  
+  const upgraded = await hre.ethers.getContractAt("CommitmentChain", PROXY_ADDRESS);
   const newImplementation = await upgrades.erc1967.getImplementationAddress(PROXY_ADDRESS);
   
   console.log("  ✓ 升级成功!");
@@ -135,25 +375,6 @@ async function main() {
   fs.writeFileSync(filepath, JSON.stringify(upgradeInfo, null, 2));
   console.log(`\n💾 升级信息已保存到: ${filepath}`);
   
-  // Etherscan 验证（如果不是本地网络）
-  if (hre.network.name !== "hardhat" && hre.network.name !== "localhost") {
-    console.log("\n⏳ 等待 Etherscan 验证...");
-    await new Promise(resolve => setTimeout(resolve, 30000));
-    
-    try {
-      console.log("🔍 验证新实现合约...");
-      await hre.run("verify:verify", {
-        address: newImplementation,
-        constructorArguments: [],
-      });
-      console.log("  ✓ 验证成功!");
-    } catch (error) {
-      //console.error("  ✗ 验证失败:", error.message);
-      console.log("  ✗ 验证失败:", error.message);
-      console.log("  你可以稍后手动验证");
-    }
-  }
-  
   // 完成提示
   console.log("\n" + "=".repeat(70));
   console.log("✅ 升级完成!");
@@ -170,6 +391,22 @@ async function main() {
   console.log("\n");
 }
 
+/**
+ * 取消待执行的升级
+ */
+async function cancelUpgrade(currentContract, pendingImplementation) {
+  if (pendingImplementation === hre.ethers.ZeroAddress) {
+    console.error("\n❌ 没有待执行的升级");
+    process.exit(1);
+  }
+  
+  console.log("\n🛑 正在取消升级...");
+  const tx = await currentContract.cancelUpgrade();
+  await tx.wait();
+  console.log("  ✓ 已取消升级:", pendingImplementation);
+  console.log("\n");
+}
+
 // 错误处理
 main()
   .then(() => process.exit(0))
@@ -1,7 +1,9 @@
 import { expect } from "chai";
 import { ethers, upgrades } from "hardhat";
-import type { CommitmentChain } from "../typechain-types";
-import type { Signer } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import type { CommitmentChain, ProfileRegistry } from "../typechain-types";
+import type { ContractFactory, Signer } from "ethers";
 
 /**
  * ============================================================================
@@ -21,6 +23,7 @@ import type { Signer } from "ethers";
 describe("CommitmentChain (Full Version - TypeScript)", function () {
   // Contract instances / 合约实例
   let commitmentChain: CommitmentChain;
+  let CommitmentChainFactory: ContractFactory;  // Linked factory / 已链接库的合约工厂
   
   // Test accounts / 测试账户
   let admin: Signer;      // Admin / 管理员
@@ -43,6 +46,11 @@ describe("CommitmentChain (Full Version - TypeScript)", function () {
   // Test data / 测试数据
   const fileHash: string = "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef";
   
+  // Hash algorithm codes (CommitmentChain.HashAlgorithm) / 哈希算法代码（CommitmentChain.HashAlgorithm）
+  const LEGACY = 0;
+  const SHA256 = 1;
+  const KECCAK256 = 2;
+  
   /**
    * Execute before each test / 在每个测试前执行
    * Deploy contract and set up roles / 部署合约并设置角色
@@ -52,16 +60,40 @@ describe("CommitmentChain (Full Version - TypeScript)", function () {
     [admin, police, lawyer1, lawyer2, signer, emergency, verifier, user, ...addrs] = 
       await ethers.getSigners();
     
+    // Deploy linked libraries / 部署链接库
+    const participantLib = await (await ethers.getContractFactory("ParticipantLib")).deploy();
+    await participantLib.waitForDeployment();
+    const reviewLib = await (await ethers.getContractFactory("ReviewLib")).deploy();
+    await reviewLib.waitForDeployment();
+    const lifecycleLib = await (await ethers.getContractFactory("LifecycleLib")).deploy();
+    await lifecycleLib.waitForDeployment();
+    const signingLib = await (await ethers.getContractFactory("SigningLib")).deploy();
+    await signingLib.waitForDeployment();
+    const membershipLib = await (await ethers.getContractFactory("MembershipLib")).deploy();
+    await membershipLib.waitForDeployment();
+    const upgradeLib = await (await ethers.getContractFactory("UpgradeLib")).deploy();
+    await upgradeLib.waitForDeployment();
+    
     // Deploy upgradeable contract / 部署可升级合约
     // Note: Use upgrades.deployProxy instead of regular deploy
     // 注意：使用 upgrades.deployProxy 而不是普通的 deploy
-    const CommitmentChainFactory = await ethers.getContractFactory("CommitmentChain");
+    CommitmentChainFactory = await ethers.getContractFactory("CommitmentChain", {
+      libraries: {
+        ParticipantLib: await participantLib.getAddress(),
+        ReviewLib: await reviewLib.getAddress(),
+        LifecycleLib: await lifecycleLib.getAddress(),
+        SigningLib: await signingLib.getAddress(),
+        MembershipLib: await membershipLib.getAddress(),
+        UpgradeLib: await upgradeLib.getAddress()
+      }
+    });
     commitmentChain = await upgrades.deployProxy(
       CommitmentChainFactory,
       [await admin.getAddress()],  // Initialize parameter: admin address / 初始化参数：管理员地址
       { 
         initializer: "initialize",  // Initialize function name / 初始化函数名
-        kind: "uups"               // Use UUPS proxy pattern / 使用 UUPS 代理模式
+        kind: "uups",              // Use UUPS proxy pattern / 使用 UUPS 代理模式
+        unsafeAllow: ["external-library-linking"]  // Linked libraries are stateless / 链接库无状态
       }
     ) as unknown as CommitmentChain;
     
@@ -148,6 +180,7 @@ describe("CommitmentChain (Full Version - TypeScript)", function () {
     it("Police should be able to create commitment (with witnesses) / 警察应该能创建承诺（带见证者）", async function () {
       const tx = await commitmentChain.connect(police).createCommitment(
         fileHash,
+        SHA256,
         await signer.getAddress(),
         [await lawyer1.getAddress()]
       );
@@ -163,8 +196,8 @@ describe("CommitmentChain (Full Version - TypeScript)", function () {
       // Verify commitment details / 验证承诺详情
       const commitment = await commitmentChain.getCommitment(1);
       expect(commitment.initiator).to.equal(await police.getAddress());
-      expect(commitment.signer).to.equal(await signer.getAddress());
-      expect(commitment.fileHash).to.equal(fileHash);
+      expect(commitment.signers).to.deep.equal([await signer.getAddress()]);
+      expect(await commitmentChain.getFileDigest(1)).to.deep.equal([fileHash, SHA256]);
       expect(commitment.initiatorSigned).to.equal(true);
       expect(commitment.signerSigned).to.equal(false);
       expect(commitment.witnesses.length).to.equal(1);
@@ -174,6 +207,7 @@ describe("CommitmentChain (Full Version - TypeScript)", function () {
     it("Police should be able to create commitment (without witnesses) / 警察应该能创建承诺（无见证者）", async function () {
       await commitmentChain.connect(police).createCommitment(
         fileHash,
+        SHA256,
         await signer.getAddress(),
         []
       );
@@ -185,6 +219,7 @@ describe("CommitmentChain (Full Version - TypeScript)", function () {
     it("Police should be able to create commitment (multiple witnesses) / 警察应该能创建承诺（多个见证者）", async function () {
       await commitmentChain.connect(police).createCommitment(
         fileHash,
+        SHA256,
         await signer.getAddress(),
         [await lawyer1.getAddress(), await lawyer2.getAddress()]
       );
@@ -199,6 +234,7 @@ describe("CommitmentChain (Full Version - TypeScript)", function () {
       await expect(
         commitmentChain.connect(user).createCommitment(
           fileHash,
+          SHA256,
           await signer.getAddress(),
           []
         )
@@ -209,16 +245,30 @@ describe("CommitmentChain (Full Version - TypeScript)", function () {
       await expect(
         commitmentChain.connect(police).createCommitment(
           fileHash,
+          SHA256,
           await signer.getAddress(),
           [await user.getAddress()]  // user doesn't have lawyer role / user 没有律师角色
         )
       ).to.be.revertedWith("CommitmentChain: Witness must have LAWYER_ROLE");
     });
     
+    it("Witness cannot be initiator / 见证者不能是发起人", async function () {
+      await commitmentChain.connect(admin).grantRole(LAWYER_ROLE, await police.getAddress());
+      await expect(
+        commitmentChain.connect(police).createCommitment(
+          fileHash,
+          SHA256,
+          await signer.getAddress(),
+          [await police.getAddress()]
+        )
+      ).to.be.revertedWith("CommitmentChain: Witness cannot be initiator");
+    });
+    
     it("File hash cannot be empty / 文件哈希不能为空", async function () {
       await expect(
         commitmentChain.connect(police).createCommitment(
-          "",
+          ethers.ZeroHash,
+          SHA256,
           await signer.getAddress(),
           []
         )
@@ -229,6 +279,7 @@ describe("CommitmentChain (Full Version - TypeScript)", function () {
       await expect(
         commitmentChain.connect(police).createCommitment(
           fileHash,
+          SHA256,
           ethers.ZeroAddress,
           []
         )
@@ -239,6 +290,7 @@ describe("CommitmentChain (Full Version - TypeScript)", function () {
       await expect(
         commitmentChain.connect(police).createCommitment(
           fileHash,
+          SHA256,
           await police.getAddress(),
           []
         )
@@ -255,6 +307,7 @@ describe("CommitmentChain (Full Version - TypeScript)", function () {
       // Create a commitment / 创建一个承诺
       await commitmentChain.connect(police).createCommitment(
         fileHash,
+        SHA256,
         await signer.getAddress(),
         [await lawyer1.getAddress()]
       );
@@ -293,6 +346,7 @@ describe("CommitmentChain (Full Version - TypeScript)", function () {
       // Create commitment with two witnesses / 创建一个有两个见证者的承诺
       await commitmentChain.connect(police).createCommitment(
         fileHash,
+        SHA256,
         await signer.getAddress(),
         [await lawyer1.getAddress(), await lawyer2.getAddress()]
       );
@@ -317,6 +371,14 @@ describe("CommitmentChain (Full Version - TypeScript)", function () {
       expect(await commitmentChain.hasWitnessSigned(1, await lawyer1.getAddress())).to.equal(true);
       expect(await commitmentChain.hasWitnessSigned(1, await lawyer2.getAddress())).to.equal(true);
     });
+    
+    it("Cannot sign when paused / 暂停后不能签名", async function () {
+      await commitmentChain.connect(emergency).pause();
+      
+      await expect(
+        commitmentChain.connect(lawyer1).signAsWitness(1)
+      ).to.be.revertedWithCustomError(commitmentChain, "EnforcedPause");
+    });
   });
   
   // ============================================================================
@@ -327,6 +389,7 @@ describe("CommitmentChain (Full Version - TypeScript)", function () {
     it("Should mark as completed after all sign (with witnesses) / 所有人签名后应该标记为完成（有见证者）", async function () {
       await commitmentChain.connect(police).createCommitment(
         fileHash,
+        SHA256,
         await signer.getAddress(),
         [await lawyer1.getAddress()]
       );
@@ -343,6 +406,7 @@ describe("CommitmentChain (Full Version - TypeScript)", function () {
     it("Should mark as completed after all sign (no witnesses) / 所有人签名后应该标记为完成（无见证者）", async function () {
       await commitmentChain.connect(police).createCommitment(
         fileHash,
+        SHA256,
         await signer.getAddress(),
         []
       );
@@ -378,10 +442,1984 @@ describe("CommitmentChain (Full Version - TypeScript)", function () {
       await expect(
         commitmentChain.connect(police).createCommitment(
           fileHash,
+          SHA256,
           await signer.getAddress(),
           []
         )
       ).to.be.revertedWithCustomError(commitmentChain, "EnforcedPause");
+      await expect(
+        commitmentChain.connect(police).createCommitmentWithDeadline(
+          fileHash,
+          SHA256,
+          await signer.getAddress(),
+          [],
+          (await time.latest()) + 3600
+        )
+      ).to.be.revertedWithCustomError(commitmentChain, "EnforcedPause");
+    });
+  });
+  
+  // ============================================================================
+  // Cancellation Tests / 取消测试
+  // ============================================================================
+  
+  describe("8. Cancellation", function () {
+    const reasonHash: string = ethers.id("Suspect withdrew statement");
+    
+    beforeEach(async function () {
+      await commitmentChain.connect(police).createCommitment(
+        fileHash,
+        SHA256,
+        await signer.getAddress(),
+        [await lawyer1.getAddress()]
+      );
+    });
+    
+    it("Initiator should be able to cancel pending commitment / 发起人应该能取消待签名的承诺", async function () {
+      const tx = await commitmentChain.connect(police).cancelCommitment(1, reasonHash);
+      
+      await expect(tx)
+        .to.emit(commitmentChain, "CommitmentCancelled")
+        .withArgs(1, await police.getAddress(), reasonHash, (await ethers.provider.getBlock("latest"))!.timestamp);
+      
+      const commitment = await commitmentChain.getCommitment(1);
+      expect(commitment.isCancelled).to.equal(true);
+      
+      const info = await commitmentChain.getCancellationInfo(1);
+      expect(info.cancelledBy).to.equal(await police.getAddress());
+      expect(info.reasonHash).to.equal(reasonHash);
+    });
+    
+    it("Admin should be able to cancel commitment / 管理员应该能取消承诺", async function () {
+      await commitmentChain.connect(admin).cancelCommitment(1, reasonHash);
+      
+      const info = await commitmentChain.getCancellationInfo(1);
+      expect(info.cancelledBy).to.equal(await admin.getAddress());
+    });
+    
+    it("Other participants cannot cancel / 其他参与者不能取消", async function () {
+      await expect(
+        commitmentChain.connect(signer).cancelCommitment(1, reasonHash)
+      ).to.be.revertedWith("CommitmentChain: Not initiator or admin");
+    });
+    
+    it("Cannot cancel completed commitment / 不能取消已完成的承诺", async function () {
+      await commitmentChain.connect(signer).signAsSigner(1);
+      await commitmentChain.connect(lawyer1).signAsWitness(1);
+      
+      await expect(
+        commitmentChain.connect(police).cancelCommitment(1, reasonHash)
+      ).to.be.revertedWith("CommitmentChain: Already completed");
+    });
+    
+    it("Cannot cancel twice / 不能重复取消", async function () {
+      await commitmentChain.connect(police).cancelCommitment(1, reasonHash);
+      
+      await expect(
+        commitmentChain.connect(police).cancelCommitment(1, reasonHash)
+      ).to.be.revertedWith("CommitmentChain: Commitment is cancelled");
+    });
+    
+    it("Cancelled commitment rejects signatures / 已取消的承诺拒绝签名", async function () {
+      await commitmentChain.connect(police).cancelCommitment(1, reasonHash);
+      
+      await expect(
+        commitmentChain.connect(signer).signAsSigner(1)
+      ).to.be.revertedWith("CommitmentChain: Commitment is cancelled");
+      await expect(
+        commitmentChain.connect(lawyer1).signAsWitness(1)
+      ).to.be.revertedWith("CommitmentChain: Commitment is cancelled");
+      await expect(
+        commitmentChain.connect(verifier).verifyCommitment(1)
+      ).to.be.revertedWith("CommitmentChain: Commitment is cancelled");
+    });
+  });
+  
+  // ============================================================================
+  // Signature Timestamp Tests / 签名时间戳测试
+  // ============================================================================
+  
+  describe("9. Signature Timestamps", function () {
+    beforeEach(async function () {
+      await commitmentChain.connect(police).createCommitment(
+        fileHash,
+        SHA256,
+        await signer.getAddress(),
+        [await lawyer1.getAddress(), await lawyer2.getAddress()]
+      );
+    });
+    
+    it("Should record initiator signature time on creation / 创建时应该记录发起人签名时间", async function () {
+      const block = await ethers.provider.getBlock("latest");
+      const info = await commitmentChain.getInitiatorInfo(1);
+      
+      expect(info.initiator).to.equal(await police.getAddress());
+      expect(info.signedAt).to.equal(block!.timestamp);
+      expect(info.signedBlock).to.equal(block!.number);
+    });
+    
+    it("Should record signer signature time / 应该记录签约者签名时间", async function () {
+      let [info] = await commitmentChain.getSigners(1);
+      expect(info.hasSigned).to.equal(false);
+      expect(info.signedAt).to.equal(0);
+      
+      await commitmentChain.connect(signer).signAsSigner(1);
+      const block = await ethers.provider.getBlock("latest");
+      
+      [info] = await commitmentChain.getSigners(1);
+      expect(info.signerAddress).to.equal(await signer.getAddress());
+      expect(info.hasSigned).to.equal(true);
+      expect(info.signedAt).to.equal(block!.timestamp);
+      expect(info.signedBlock).to.equal(block!.number);
+    });
+    
+    it("Should return witnesses with signature times / 应该返回见证者及签名时间", async function () {
+      await commitmentChain.connect(lawyer2).signAsWitness(1);
+      const block = await ethers.provider.getBlock("latest");
+      
+      const witnesses = await commitmentChain.getWitnesses(1);
+      expect(witnesses.length).to.equal(2);
+      expect(witnesses[0].witnessAddress).to.equal(await lawyer1.getAddress());
+      expect(witnesses[0].hasSigned).to.equal(false);
+      expect(witnesses[0].signedAt).to.equal(0);
+      expect(witnesses[1].witnessAddress).to.equal(await lawyer2.getAddress());
+      expect(witnesses[1].hasSigned).to.equal(true);
+      expect(witnesses[1].signedAt).to.equal(block!.timestamp);
+      expect(witnesses[1].signedBlock).to.equal(block!.number);
+    });
+    
+    it("Should record completion time / 应该记录完成时间", async function () {
+      let info = await commitmentChain.getCompletionInfo(1);
+      expect(info.isCompleted).to.equal(false);
+      expect(info.completedAt).to.equal(0);
+      
+      await commitmentChain.connect(signer).signAsSigner(1);
+      await commitmentChain.connect(lawyer1).signAsWitness(1);
+      await commitmentChain.connect(lawyer2).signAsWitness(1);
+      const block = await ethers.provider.getBlock("latest");
+      
+      info = await commitmentChain.getCompletionInfo(1);
+      expect(info.isCompleted).to.equal(true);
+      expect(info.completedAt).to.equal(block!.timestamp);
+      expect(info.completedBlock).to.equal(block!.number);
+    });
+  });
+  
+  // ============================================================================
+  // Lifecycle Status Tests / 生命周期状态测试
+  // ============================================================================
+  
+  describe("10. Lifecycle Status", function () {
+    // Mirrors CommitmentChain.CommitmentStatus / 对应 CommitmentChain.CommitmentStatus
+    const Status = {
+      Pending: 0,
+      PartiallySigned: 1,
+      Completed: 2,
+      Verified: 3,
+      Frozen: 4,
+      Cancelled: 5,
+      Expired: 6
+    };
+    
+    beforeEach(async function () {
+      await commitmentChain.connect(police).createCommitment(
+        fileHash,
+        SHA256,
+        await signer.getAddress(),
+        [await lawyer1.getAddress()]
+      );
+    });
+    
+    it("Should be Pending after creation / 创建后应该为待签名", async function () {
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(Status.Pending);
+    });
+    
+    it("Should move through signing states / 应该随签名推进状态", async function () {
+      await commitmentChain.connect(lawyer1).signAsWitness(1);
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(Status.PartiallySigned);
+      
+      await commitmentChain.connect(signer).signAsSigner(1);
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(Status.Completed);
+      
+      await commitmentChain.connect(verifier).verifyCommitment(1);
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(Status.Verified);
+    });
+    
+    it("Should report Frozen while frozen / 冻结期间应该为已冻结", async function () {
+      await commitmentChain.connect(emergency).freezeCommitment(1);
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(Status.Frozen);
+      
+      await commitmentChain.connect(emergency).unfreezeCommitment(1);
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(Status.Pending);
+    });
+    
+    it("Should report Cancelled after cancellation / 取消后应该为已取消", async function () {
+      await commitmentChain.connect(police).cancelCommitment(1, ethers.ZeroHash);
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(Status.Cancelled);
+    });
+  });
+  
+  // ============================================================================
+  // Signing Deadline Tests / 签名截止时间测试
+  // ============================================================================
+  
+  describe("11. Signing Deadlines", function () {
+    const ONE_DAY = 24 * 60 * 60;
+    let deadline: number;
+    
+    beforeEach(async function () {
+      deadline = (await time.latest()) + ONE_DAY;
+      await commitmentChain.connect(police).createCommitmentWithDeadline(
+        fileHash,
+        SHA256,
+        await signer.getAddress(),
+        [await lawyer1.getAddress()],
+        deadline
+      );
+    });
+    
+    it("Should store signing deadline / 应该保存签名截止时间", async function () {
+      expect(await commitmentChain.getSigningDeadline(1)).to.equal(deadline);
+    });
+    
+    it("Commitments without deadline never expire / 无截止时间的承诺不会过期", async function () {
+      await commitmentChain.connect(police).createCommitment(
+        fileHash,
+        SHA256,
+        await signer.getAddress(),
+        []
+      );
+      await time.increase(365 * ONE_DAY);
+      
+      expect(await commitmentChain.getSigningDeadline(2)).to.equal(0);
+      expect(await commitmentChain.getCommitmentStatus(2)).to.equal(0);  // Pending
+    });
+    
+    it("Deadline must be in the future / 截止时间必须在未来", async function () {
+      await expect(
+        commitmentChain.connect(police).createCommitmentWithDeadline(
+          fileHash,
+          SHA256,
+          await signer.getAddress(),
+          [],
+          await time.latest()
+        )
+      ).to.be.revertedWith("CommitmentChain: Deadline must be in the future");
+    });
+    
+    it("Should reject signatures after deadline / 截止时间后应该拒绝签名", async function () {
+      await time.increaseTo(deadline + 1);
+      
+      await expect(
+        commitmentChain.connect(signer).signAsSigner(1)
+      ).to.be.revertedWith("CommitmentChain: Signing deadline passed");
+      await expect(
+        commitmentChain.connect(lawyer1).signAsWitness(1)
+      ).to.be.revertedWith("CommitmentChain: Signing deadline passed");
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(6);  // Expired
+    });
+    
+    it("Completed commitment does not expire / 已完成的承诺不会过期", async function () {
+      await commitmentChain.connect(signer).signAsSigner(1);
+      await commitmentChain.connect(lawyer1).signAsWitness(1);
+      await time.increaseTo(deadline + 1);
+      
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(2);  // Completed
+    });
+    
+    it("Initiator should be able to extend deadline / 发起人应该能延长截止时间", async function () {
+      const newDeadline = deadline + ONE_DAY;
+      
+      await expect(commitmentChain.connect(police).extendDeadline(1, newDeadline))
+        .to.emit(commitmentChain, "DeadlineExtended");
+      expect(await commitmentChain.getSigningDeadline(1)).to.equal(newDeadline);
+      
+      await time.increaseTo(deadline + 1);
+      await commitmentChain.connect(signer).signAsSigner(1);
+    });
+    
+    it("Only initiator can extend deadline / 只有发起人能延长截止时间", async function () {
+      await expect(
+        commitmentChain.connect(signer).extendDeadline(1, deadline + ONE_DAY)
+      ).to.be.revertedWith("CommitmentChain: Not the initiator");
+    });
+    
+    it("New deadline must be later / 新截止时间必须更晚", async function () {
+      await expect(
+        commitmentChain.connect(police).extendDeadline(1, deadline)
+      ).to.be.revertedWith("CommitmentChain: New deadline must be later");
+    });
+    
+    it("Cannot extend expired commitment / 不能延长已过期的承诺", async function () {
+      await time.increaseTo(deadline + 1);
+      
+      await expect(
+        commitmentChain.connect(police).extendDeadline(1, deadline + ONE_DAY)
+      ).to.be.revertedWith("CommitmentChain: Commitment not pending");
+    });
+  });
+  
+  // ============================================================================
+  // EIP-712 Gasless Signing Tests / EIP-712 免 gas 签名测试
+  // ============================================================================
+  
+  describe("12. EIP-712 Gasless Signing", function () {
+    const types = {
+      SignCommitment: [
+        { name: "commitmentId", type: "uint256" },
+        { name: "fileDigest", type: "bytes32" },
+        { name: "role", type: "uint8" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" }
+      ]
+    };
+    
+    // Produce typed signature for a party / 为参与方生成类型化签名
+    async function signTyped(party: Signer, role: number, deadline: number, nonce?: bigint): Promise<string> {
+      const domain = {
+        name: "CommitmentChain",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await commitmentChain.getAddress()
+      };
+      const value = {
+        commitmentId: 1,
+        fileDigest: fileHash,
+        role,
+        nonce: nonce ?? await commitmentChain.nonces(await party.getAddress()),
+        deadline
+      };
+      return party.signTypedData(domain, types, value);
+    }
+    
+    let deadline: number;
+    
+    beforeEach(async function () {
+      await commitmentChain.connect(police).createCommitment(
+        fileHash,
+        SHA256,
+        await signer.getAddress(),
+        [await lawyer1.getAddress()]
+      );
+      deadline = (await time.latest()) + 3600;
+    });
+    
+    it("Relayer should submit signer signature / 中继者应该能提交签约者签名", async function () {
+      const signature = await signTyped(signer, 1, deadline);
+      
+      await expect(
+        commitmentChain.connect(user).signAsSignerBySignature(1, await signer.getAddress(), deadline, signature)
+      ).to.emit(commitmentChain, "CommitmentSigned");
+      
+      expect(await commitmentChain.hasSignerSigned(1, await signer.getAddress())).to.equal(true);
+      expect(await commitmentChain.nonces(await signer.getAddress())).to.equal(1);
+    });
+    
+    it("Relayer should submit witness signature / 中继者应该能提交见证者签名", async function () {
+      await commitmentChain.connect(signer).signAsSigner(1);
+      const signature = await signTyped(lawyer1, 2, deadline);
+      
+      await expect(
+        commitmentChain.connect(user).signAsWitnessBySignature(1, await lawyer1.getAddress(), deadline, signature)
+      ).to.emit(commitmentChain, "CommitmentCompleted");
+      
+      expect(await commitmentChain.hasWitnessSigned(1, await lawyer1.getAddress())).to.equal(true);
+    });
+
+    it("Should reject relayed witness signature from revoked lawyer / 应该拒绝已撤销律师的中继见证签名", async function () {
+      await commitmentChain.connect(signer).signAsSigner(1);
+      const signature = await signTyped(lawyer1, 2, deadline);
+      await commitmentChain.connect(admin).revokeRole(LAWYER_ROLE, await lawyer1.getAddress());
+
+      await expect(
+        commitmentChain.connect(user).signAsWitnessBySignature(1, await lawyer1.getAddress(), deadline, signature)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should reject relayed witness signature from expired lawyer / 应该拒绝已到期律师的中继见证签名", async function () {
+      const lawyerExpiry = (await time.latest()) + 60;
+      await commitmentChain.connect(admin).grantRoleWithExpiry(LAWYER_ROLE, await lawyer1.getAddress(), lawyerExpiry);
+      await commitmentChain.connect(signer).signAsSigner(1);
+      const signature = await signTyped(lawyer1, 2, deadline);
+      await time.increaseTo(lawyerExpiry);
+
+      await expect(
+        commitmentChain.connect(user).signAsWitnessBySignature(1, await lawyer1.getAddress(), deadline, signature)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should reject relayed witness signature when paused / 暂停时应该拒绝中继见证签名", async function () {
+      await commitmentChain.connect(signer).signAsSigner(1);
+      const signature = await signTyped(lawyer1, 2, deadline);
+      await commitmentChain.connect(emergency).pause();
+
+      await expect(
+        commitmentChain.connect(user).signAsWitnessBySignature(1, await lawyer1.getAddress(), deadline, signature)
+      ).to.be.revertedWithCustomError(commitmentChain, "EnforcedPause");
+    });
+
+    it("Should reject signature from another account / 应该拒绝其他账户的签名", async function () {
+      const signature = await signTyped(user, 1, deadline);
+      
+      await expect(
+        commitmentChain.connect(user).signAsSignerBySignature(1, await signer.getAddress(), deadline, signature)
+      ).to.be.revertedWith("CommitmentChain: Invalid signature");
+    });
+    
+    it("Should reject signature for the wrong role / 应该拒绝错误角色的签名", async function () {
+      const signature = await signTyped(lawyer1, 1, deadline);
+      
+      await expect(
+        commitmentChain.connect(user).signAsWitnessBySignature(1, await lawyer1.getAddress(), deadline, signature)
+      ).to.be.revertedWith("CommitmentChain: Invalid signature");
+    });
+    
+    it("Should reject expired signature / 应该拒绝过期的签名", async function () {
+      const signature = await signTyped(signer, 1, deadline);
+      await time.increaseTo(deadline + 1);
+      
+      await expect(
+        commitmentChain.connect(user).signAsSignerBySignature(1, await signer.getAddress(), deadline, signature)
+      ).to.be.revertedWith("CommitmentChain: Signature expired");
+    });
+    
+    it("Should reject replayed signature / 应该拒绝重放的签名", async function () {
+      const signature = await signTyped(signer, 1, deadline);
+      await commitmentChain.connect(user).signAsSignerBySignature(1, await signer.getAddress(), deadline, signature);
+      
+      // Nonce consumed, old signature no longer valid / nonce 已消耗，旧签名不再有效
+      await expect(
+        commitmentChain.connect(user).signAsSignerBySignature(1, await signer.getAddress(), deadline, signature)
+      ).to.be.revertedWith("CommitmentChain: Invalid signature");
+    });
+  });
+  
+  // ============================================================================
+  // Amendment Tests / 修订测试
+  // ============================================================================
+  
+  describe("13. Amendments", function () {
+    const newFileHash: string = "0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890";
+    
+    beforeEach(async function () {
+      // Completed original commitment / 已完成的原始承诺
+      await commitmentChain.connect(police).createCommitment(
+        fileHash,
+        SHA256,
+        await signer.getAddress(),
+        []
+      );
+      await commitmentChain.connect(signer).signAsSigner(1);
+    });
+    
+    it("Initiator should be able to amend completed commitment / 发起人应该能修订已完成的承诺", async function () {
+      await expect(
+        commitmentChain.connect(police).amendCommitment(1, newFileHash, SHA256, [await signer.getAddress()], [], 0, 0)
+      ).to.emit(commitmentChain, "CommitmentAmended").withArgs(1, 2, await police.getAddress(), anyValue);
+      
+      expect((await commitmentChain.getFileDigest(2)).fileDigest).to.equal(newFileHash);
+      expect(await commitmentChain.getVersionChain(1)).to.deep.equal([1n, 2n]);
+      expect(await commitmentChain.getVersionChain(2)).to.deep.equal([1n, 2n]);
+    });
+    
+    it("Parent becomes Superseded when amendment completes / 修订完成后父承诺变为已取代", async function () {
+      await commitmentChain.connect(police).amendCommitment(1, newFileHash, SHA256, [await signer.getAddress()], [], 0, 0);
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(2);  // Still Completed / 仍为已完成
+      
+      await expect(commitmentChain.connect(signer).signAsSigner(2))
+        .to.emit(commitmentChain, "CommitmentSuperseded");
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(7);  // Superseded
+      expect(await commitmentChain.getCommitmentStatus(2)).to.equal(2);  // Completed
+    });
+    
+    it("Should build a chain across several versions / 应该跨多个版本构建版本链", async function () {
+      await commitmentChain.connect(police).amendCommitment(1, newFileHash, SHA256, [await signer.getAddress()], [], 0, 0);
+      await commitmentChain.connect(signer).signAsSigner(2);
+      await commitmentChain.connect(police).amendCommitment(2, fileHash, SHA256, [await signer.getAddress()], [], 0, 0);
+      
+      expect(await commitmentChain.getVersionChain(3)).to.deep.equal([1n, 2n, 3n]);
+    });
+    
+    it("Only initiator can amend / 只有发起人能修订", async function () {
+      await commitmentChain.connect(admin).grantRole(POLICE_ROLE, await user.getAddress());
+      
+      await expect(
+        commitmentChain.connect(user).amendCommitment(1, newFileHash, SHA256, [await lawyer1.getAddress()], [], 0, 0)
+      ).to.be.revertedWith("CommitmentChain: Not the initiator");
+      await expect(
+        commitmentChain.connect(signer).amendCommitment(1, newFileHash, SHA256, [await lawyer1.getAddress()], [], 0, 0)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+    
+    it("Cannot amend pending commitment / 不能修订待签名的承诺", async function () {
+      await commitmentChain.connect(police).createCommitment(fileHash, SHA256, await signer.getAddress(), []);
+      
+      await expect(
+        commitmentChain.connect(police).amendCommitment(2, newFileHash, SHA256, [await signer.getAddress()], [], 0, 0)
+      ).to.be.revertedWith("CommitmentChain: Parent not completed");
+    });
+    
+    it("Only one amendment in progress at a time / 同一时间只能有一个进行中的修订", async function () {
+      await commitmentChain.connect(police).amendCommitment(1, newFileHash, SHA256, [await signer.getAddress()], [], 0, 0);
+      
+      await expect(
+        commitmentChain.connect(police).amendCommitment(1, newFileHash, SHA256, [await signer.getAddress()], [], 0, 0)
+      ).to.be.revertedWith("CommitmentChain: Amendment already in progress");
+      
+      // Retry allowed after cancelling the first amendment / 取消第一个修订后允许重试
+      await commitmentChain.connect(police).cancelCommitment(2, ethers.ZeroHash);
+      await commitmentChain.connect(police).amendCommitment(1, newFileHash, SHA256, [await signer.getAddress()], [], 0, 0);
+      expect(await commitmentChain.getVersionChain(1)).to.deep.equal([1n, 2n, 3n]);
+    });
+    
+    it("Chain should keep a cancelled amendment after re-amending / 重新修订后版本链应保留已取消的修订", async function () {
+      await commitmentChain.connect(police).amendCommitment(1, newFileHash, SHA256, [await signer.getAddress()], [], 0, 0);
+      await commitmentChain.connect(police).cancelCommitment(2, ethers.ZeroHash);
+      await commitmentChain.connect(police).amendCommitment(1, newFileHash, SHA256, [await signer.getAddress()], [], 0, 0);
+      await commitmentChain.connect(signer).signAsSigner(3);
+      await commitmentChain.connect(police).amendCommitment(3, fileHash, SHA256, [await signer.getAddress()], [], 0, 0);
+      
+      expect(await commitmentChain.getVersionChain(2)).to.deep.equal([1n, 2n, 3n, 4n]);
+      expect(await commitmentChain.getVersionChain(4)).to.deep.equal([1n, 2n, 3n, 4n]);
+    });
+  });
+  
+  describe("14. Declines", function () {
+    const reasonHash: string = ethers.id("Statement does not match what I said");
+    
+    beforeEach(async function () {
+      await commitmentChain.connect(police).createCommitment(
+        fileHash,
+        SHA256,
+        await signer.getAddress(),
+        [await lawyer1.getAddress(), await lawyer2.getAddress()]
+      );
+    });
+    
+    it("Signer should be able to decline with reason / 签约者应该能附带原因拒绝签名", async function () {
+      await expect(commitmentChain.connect(signer).declineAsSigner(1, reasonHash))
+        .to.emit(commitmentChain, "CommitmentDeclined")
+        .withArgs(1, await signer.getAddress(), "signer", reasonHash, anyValue);
+      
+      const info = await commitmentChain.getDeclineInfo(1);
+      expect(info.declinedBy).to.equal(await signer.getAddress());
+      expect(info.reasonHash).to.equal(reasonHash);
+      expect(info.declinedAt).to.be.greaterThan(0);
+      
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(8); // Declined
+    });
+    
+    it("Witness should be able to decline after signer signed / 签约者签名后见证者应该能拒绝", async function () {
+      await commitmentChain.connect(signer).signAsSigner(1);
+      
+      await expect(commitmentChain.connect(lawyer2).declineAsWitness(1, reasonHash))
+        .to.emit(commitmentChain, "CommitmentDeclined")
+        .withArgs(1, await lawyer2.getAddress(), "witness", reasonHash, anyValue);
+      
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(8); // Declined
+    });
+    
+    it("Only designated parties can decline / 只有指定的参与方可以拒绝", async function () {
+      await expect(
+        commitmentChain.connect(lawyer1).declineAsSigner(1, reasonHash)
+      ).to.be.revertedWith("CommitmentChain: Not the designated signer");
+      
+      await expect(
+        commitmentChain.connect(signer).declineAsWitness(1, reasonHash)
+      ).to.be.revertedWith("CommitmentChain: Not a designated witness");
+    });
+    
+    it("Cannot decline after signing / 签名后不能拒绝", async function () {
+      await commitmentChain.connect(signer).signAsSigner(1);
+      await commitmentChain.connect(lawyer1).signAsWitness(1);
+      
+      await expect(
+        commitmentChain.connect(signer).declineAsSigner(1, reasonHash)
+      ).to.be.revertedWith("CommitmentChain: Already signed");
+      
+      await expect(
+        commitmentChain.connect(lawyer1).declineAsWitness(1, reasonHash)
+      ).to.be.revertedWith("CommitmentChain: Already signed");
+    });
+    
+    it("Declined commitment rejects further signing and cancellation / 已拒绝的承诺拒绝后续签名和取消", async function () {
+      await commitmentChain.connect(lawyer1).declineAsWitness(1, reasonHash);
+      
+      await expect(
+        commitmentChain.connect(signer).signAsSigner(1)
+      ).to.be.revertedWith("CommitmentChain: Commitment is declined");
+      
+      await expect(
+        commitmentChain.connect(lawyer2).signAsWitness(1)
+      ).to.be.revertedWith("CommitmentChain: Commitment is declined");
+      
+      await expect(
+        commitmentChain.connect(lawyer2).declineAsWitness(1, reasonHash)
+      ).to.be.revertedWith("CommitmentChain: Commitment is declined");
+      
+      await expect(
+        commitmentChain.connect(police).cancelCommitment(1, reasonHash)
+      ).to.be.revertedWith("CommitmentChain: Commitment is declined");
+    });
+  });
+  
+  describe("15. Multiple Signers", function () {
+    let signers: string[];
+    
+    beforeEach(async function () {
+      signers = [await signer.getAddress(), await user.getAddress()];
+      await commitmentChain.connect(police).createCommitmentWithSigners(
+        fileHash,
+        SHA256,
+        signers,
+        [await lawyer1.getAddress()],
+        0,
+        0
+      );
+    });
+    
+    it("Should store all signers / 应该存储所有签约者", async function () {
+      const commitment = await commitmentChain.getCommitment(1);
+      expect(commitment.signers).to.deep.equal(signers);
+      expect(await commitmentChain.getSignerCount(1)).to.equal(2);
+      expect(await commitmentChain.getRole(1, await user.getAddress())).to.equal("signer");
+      expect(await commitmentChain.getRole(1, await signer.getAddress())).to.equal("signer");
+    });
+    
+    it("Should complete only after every signer signed / 所有签约者签名后才应完成", async function () {
+      await commitmentChain.connect(lawyer1).signAsWitness(1);
+      await commitmentChain.connect(signer).signAsSigner(1);
+      
+      let commitment = await commitmentChain.getCommitment(1);
+      expect(commitment.signerSignedCount).to.equal(1);
+      expect(commitment.signerSigned).to.equal(false);
+      expect(commitment.isCompleted).to.equal(false);
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(1); // PartiallySigned
+      
+      await expect(commitmentChain.connect(user).signAsSigner(1))
+        .to.emit(commitmentChain, "CommitmentCompleted");
+      
+      commitment = await commitmentChain.getCommitment(1);
+      expect(commitment.signerSigned).to.equal(true);
+      expect(commitment.isCompleted).to.equal(true);
+    });
+    
+    it("Should track each signer separately / 应该分别记录每个签约者", async function () {
+      await commitmentChain.connect(user).signAsSigner(1);
+      
+      const info = await commitmentChain.getSigners(1);
+      expect(info[0].hasSigned).to.equal(false);
+      expect(info[1].signerAddress).to.equal(await user.getAddress());
+      expect(info[1].hasSigned).to.equal(true);
+      expect(await commitmentChain.hasSignerSigned(1, await user.getAddress())).to.equal(true);
+      
+      await expect(
+        commitmentChain.connect(user).signAsSigner(1)
+      ).to.be.revertedWith("CommitmentChain: Already signed");
+    });
+    
+    it("Should reject invalid signer lists / 应该拒绝无效的签约者列表", async function () {
+      await expect(
+        commitmentChain.connect(police).createCommitmentWithSigners(fileHash, SHA256, [], [], 0, 0)
+      ).to.be.revertedWith("CommitmentChain: At least one signer required");
+      
+      await expect(
+        commitmentChain.connect(police).createCommitmentWithSigners(fileHash, SHA256, [signers[0], signers[0]], [], 0, 0)
+      ).to.be.revertedWith("CommitmentChain: Duplicate signer address");
+      
+      await expect(
+        commitmentChain.connect(police).createCommitmentWithSigners(fileHash, SHA256, signers, [signers[1]], 0, 0)
+      ).to.be.revertedWith("CommitmentChain: Witness cannot be signer");
+    });
+    
+    it("Cannot create when paused / 暂停后不能创建", async function () {
+      await commitmentChain.connect(emergency).pause();
+      
+      await expect(
+        commitmentChain.connect(police).createCommitmentWithSigners(fileHash, SHA256, signers, [], 0, 0)
+      ).to.be.revertedWithCustomError(commitmentChain, "EnforcedPause");
+    });
+  });
+  
+  describe("16. Witness Quorum", function () {
+    let witnesses: string[];
+    
+    beforeEach(async function () {
+      // Third witness also needs LAWYER_ROLE to sign / 第三位见证者同样需要 LAWYER_ROLE 才能签名
+      await commitmentChain.connect(admin).grantRole(LAWYER_ROLE, await verifier.getAddress());
+      witnesses = [await lawyer1.getAddress(), await lawyer2.getAddress(), await verifier.getAddress()];
+      await commitmentChain.connect(police).createCommitmentWithSigners(
+        fileHash,
+        SHA256,
+        [await signer.getAddress()],
+        witnesses,
+        2,
+        0
+      );
+    });
+    
+    it("Should complete once the threshold is reached / 达到法定人数后应该完成", async function () {
+      expect(await commitmentChain.getWitnessThreshold(1)).to.equal(2);
+      
+      await commitmentChain.connect(signer).signAsSigner(1);
+      await commitmentChain.connect(lawyer1).signAsWitness(1);
+      
+      await expect(commitmentChain.connect(lawyer2).signAsWitness(1))
+        .to.emit(commitmentChain, "CommitmentCompleted");
+      
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(2); // Completed
+    });
+    
+    it("Should record witnesses who did not sign / 应该记录未签名的见证者", async function () {
+      await commitmentChain.connect(signer).signAsSigner(1);
+      await commitmentChain.connect(lawyer1).signAsWitness(1);
+      await commitmentChain.connect(verifier).signAsWitness(1);
+      
+      expect(await commitmentChain.getUnsignedWitnesses(1)).to.deep.equal([await lawyer2.getAddress()]);
+      
+      await expect(
+        commitmentChain.connect(lawyer2).signAsWitness(1)
+      ).to.be.revertedWith("CommitmentChain: Already completed");
+      
+      await expect(
+        commitmentChain.connect(lawyer2).declineAsWitness(1, ethers.ZeroHash)
+      ).to.be.revertedWith("CommitmentChain: Already completed");
+    });
+    
+    it("Zero threshold should require all witnesses / 法定人数为 0 时应该需要全部见证者", async function () {
+      await commitmentChain.connect(police).createCommitmentWithSigners(
+        fileHash,
+        SHA256,
+        [await signer.getAddress()],
+        witnesses,
+        0,
+        0
+      );
+      
+      expect(await commitmentChain.getWitnessThreshold(2)).to.equal(3);
+    });
+    
+    it("Should reject threshold above witness count / 应该拒绝超过见证者数量的法定人数", async function () {
+      await expect(
+        commitmentChain.connect(police).createCommitmentWithSigners(
+          fileHash,
+          SHA256,
+          [await signer.getAddress()],
+          witnesses,
+          4,
+          0
+        )
+      ).to.be.revertedWith("CommitmentChain: Threshold exceeds witness count");
+    });
+  });
+  
+  describe("17. Witness Replacement", function () {
+    beforeEach(async function () {
+      await commitmentChain.connect(police).createCommitment(
+        fileHash,
+        SHA256,
+        await signer.getAddress(),
+        [await lawyer1.getAddress()]
+      );
+    });
+    
+    it("Initiator should replace an unsigned witness / 发起人应该能替换未签名的见证者", async function () {
+      await expect(
+        commitmentChain.connect(police).replaceWitness(1, await lawyer1.getAddress(), await lawyer2.getAddress())
+      )
+        .to.emit(commitmentChain, "WitnessReplaced")
+        .withArgs(1, await lawyer1.getAddress(), await lawyer2.getAddress(), await police.getAddress(), anyValue);
+      
+      const commitment = await commitmentChain.getCommitment(1);
+      expect(commitment.witnesses).to.deep.equal([await lawyer2.getAddress()]);
+      expect(await commitmentChain.getRole(1, await lawyer1.getAddress())).to.equal("none");
+      
+      // Old witness can no longer sign; new witness completes / 旧见证者不能再签名；新见证者完成签名
+      await expect(
+        commitmentChain.connect(lawyer1).signAsWitness(1)
+      ).to.be.revertedWith("CommitmentChain: Not a designated witness");
+      
+      await commitmentChain.connect(signer).signAsSigner(1);
+      await expect(commitmentChain.connect(lawyer2).signAsWitness(1))
+        .to.emit(commitmentChain, "CommitmentCompleted");
+    });
+    
+    it("Admin should be able to replace witness / 管理员应该能替换见证者", async function () {
+      await commitmentChain.connect(admin).replaceWitness(1, await lawyer1.getAddress(), await lawyer2.getAddress());
+      
+      expect(await commitmentChain.getRole(1, await lawyer2.getAddress())).to.equal("witness");
+    });
+    
+    it("Other participants cannot replace witness / 其他参与者不能替换见证者", async function () {
+      await expect(
+        commitmentChain.connect(signer).replaceWitness(1, await lawyer1.getAddress(), await lawyer2.getAddress())
+      ).to.be.revertedWith("CommitmentChain: Not initiator or admin");
+    });
+    
+    it("Cannot replace a witness who already signed / 不能替换已签名的见证者", async function () {
+      await commitmentChain.connect(lawyer1).signAsWitness(1);
+      
+      await expect(
+        commitmentChain.connect(police).replaceWitness(1, await lawyer1.getAddress(), await lawyer2.getAddress())
+      ).to.be.revertedWith("CommitmentChain: Witness already signed");
+    });
+    
+    it("Should validate the new witness / 应该验证新见证者", async function () {
+      await expect(
+        commitmentChain.connect(police).replaceWitness(1, await lawyer1.getAddress(), await user.getAddress())
+      ).to.be.revertedWith("CommitmentChain: Witness must have LAWYER_ROLE");
+      
+      await commitmentChain.connect(admin).grantRole(LAWYER_ROLE, await signer.getAddress());
+      await expect(
+        commitmentChain.connect(police).replaceWitness(1, await lawyer1.getAddress(), await signer.getAddress())
+      ).to.be.revertedWith("CommitmentChain: Witness cannot be signer");
+      
+      await commitmentChain.connect(admin).grantRole(LAWYER_ROLE, await police.getAddress());
+      await expect(
+        commitmentChain.connect(police).replaceWitness(1, await lawyer1.getAddress(), await police.getAddress())
+      ).to.be.revertedWith("CommitmentChain: Witness cannot be initiator");
+      
+      await expect(
+        commitmentChain.connect(police).replaceWitness(1, await lawyer1.getAddress(), await lawyer1.getAddress())
+      ).to.be.revertedWith("CommitmentChain: Duplicate witness address");
+      
+      await expect(
+        commitmentChain.connect(police).replaceWitness(1, await lawyer2.getAddress(), await lawyer2.getAddress())
+      ).to.be.revertedWith("CommitmentChain: Not a designated witness");
+    });
+    
+    it("Cannot replace witness on a cancelled commitment / 不能替换已取消承诺的见证者", async function () {
+      await commitmentChain.connect(police).cancelCommitment(1, ethers.ZeroHash);
+      
+      await expect(
+        commitmentChain.connect(police).replaceWitness(1, await lawyer1.getAddress(), await lawyer2.getAddress())
+      ).to.be.revertedWith("CommitmentChain: Commitment not pending");
+    });
+  });
+  
+  describe("18. Participant Index", function () {
+    const INITIATOR = 0;
+    const SIGNER = 1;
+    const WITNESS = 2;
+    
+    beforeEach(async function () {
+      for (let i = 0; i < 3; i++) {
+        await commitmentChain.connect(police).createCommitment(
+          fileHash,
+          SHA256,
+          await signer.getAddress(),
+          i === 1 ? [await lawyer2.getAddress()] : [await lawyer1.getAddress()]
+        );
+      }
+    });
+    
+    it("Should index commitments by role / 应该按角色索引承诺", async function () {
+      let [ids, total] = await commitmentChain.getCommitmentsByParticipant(await police.getAddress(), INITIATOR, 0, 10);
+      expect(ids).to.deep.equal([1n, 2n, 3n]);
+      expect(total).to.equal(3);
+      
+      [ids] = await commitmentChain.getCommitmentsByParticipant(await signer.getAddress(), SIGNER, 0, 10);
+      expect(ids).to.deep.equal([1n, 2n, 3n]);
+      
+      [ids] = await commitmentChain.getCommitmentsByParticipant(await lawyer1.getAddress(), WITNESS, 0, 10);
+      expect(ids).to.deep.equal([1n, 3n]);
+      
+      [ids, total] = await commitmentChain.getCommitmentsByParticipant(await signer.getAddress(), WITNESS, 0, 10);
+      expect(ids).to.deep.equal([]);
+      expect(total).to.equal(0);
+    });
+    
+    it("Should paginate results / 应该分页返回结果", async function () {
+      let [ids, total] = await commitmentChain.getCommitmentsByParticipant(await police.getAddress(), INITIATOR, 1, 1);
+      expect(ids).to.deep.equal([2n]);
+      expect(total).to.equal(3);
+      
+      [ids] = await commitmentChain.getCommitmentsByParticipant(await police.getAddress(), INITIATOR, 2, 10);
+      expect(ids).to.deep.equal([3n]);
+      
+      [ids] = await commitmentChain.getCommitmentsByParticipant(await police.getAddress(), INITIATOR, 5, 10);
+      expect(ids).to.deep.equal([]);
+      
+      [ids] = await commitmentChain.getCommitmentsByParticipant(await police.getAddress(), INITIATOR, 1, ethers.MaxUint256);
+      expect(ids).to.deep.equal([2n, 3n]);
+    });
+    
+    it("Should index replacement witness / 应该索引替换后的见证者", async function () {
+      await commitmentChain.connect(police).replaceWitness(1, await lawyer1.getAddress(), await lawyer2.getAddress());
+      
+      const [ids] = await commitmentChain.getCommitmentsByParticipant(await lawyer2.getAddress(), WITNESS, 0, 10);
+      expect(ids).to.deep.equal([2n, 1n]);
+    });
+  });
+  
+  describe("19. File Hash Index", function () {
+    const otherHash: string = ethers.id("QmOtherFileHash");
+    
+    beforeEach(async function () {
+      await commitmentChain.connect(police).createCommitment(fileHash, SHA256, await signer.getAddress(), []);
+      await commitmentChain.connect(police).createCommitment(otherHash, SHA256, await signer.getAddress(), []);
+      await commitmentChain.connect(police).createCommitment(fileHash, SHA256, await signer.getAddress(), []);
+    });
+    
+    it("Should find every commitment with a file hash / 应该找到使用某文件哈希的所有承诺", async function () {
+      expect(await commitmentChain.getCommitmentsByFileDigest(fileHash)).to.deep.equal([1n, 3n]);
+      expect(await commitmentChain.getCommitmentsByFileDigest(otherHash)).to.deep.equal([2n]);
+      expect(await commitmentChain.getCommitmentsByFileDigest(ethers.id("QmNeverRegistered"))).to.deep.equal([]);
+    });
+    
+    it("Should reject duplicate hash when policy is enabled / 启用策略后应该拒绝重复哈希", async function () {
+      await expect(commitmentChain.connect(admin).setUniqueFileHashRequired(true))
+        .to.emit(commitmentChain, "FileHashPolicyUpdated")
+        .withArgs(true, await admin.getAddress(), anyValue);
+      
+      await expect(
+        commitmentChain.connect(police).createCommitment(fileHash, SHA256, await signer.getAddress(), [])
+      ).to.be.revertedWith("CommitmentChain: File hash already registered");
+      
+      await commitmentChain.connect(police).createCommitment(ethers.id("QmNewFileHash"), SHA256, await signer.getAddress(), []);
+      expect(await commitmentChain.commitmentCount()).to.equal(4);
+    });
+    
+    it("Only admin can change the policy / 只有管理员可以修改策略", async function () {
+      await expect(
+        commitmentChain.connect(police).setUniqueFileHashRequired(true)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+  });
+  
+  // ============================================================================
+  // Verification Dispute Tests / 验证争议测试
+  // ============================================================================
+  
+  describe("20. Verification Disputes", function () {
+    const DISPUTED = 9;
+    const VERIFIED = 3;
+    const reasonHash = ethers.id("Signature page missing");
+    
+    beforeEach(async function () {
+      await commitmentChain.connect(police).createCommitment(fileHash, SHA256, await signer.getAddress(), []);
+      await commitmentChain.connect(signer).signAsSigner(1);
+    });
+    
+    it("Verifier can reject a completed commitment / 验证员可以拒绝已完成的承诺", async function () {
+      await expect(commitmentChain.connect(verifier).rejectVerification(1, reasonHash))
+        .to.emit(commitmentChain, "VerificationRejected")
+        .withArgs(1, await verifier.getAddress(), reasonHash, anyValue);
+      
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(DISPUTED);
+      
+      const [disputedBy, storedReason, disputedAt, resolved] = await commitmentChain.getDisputeInfo(1);
+      expect(disputedBy).to.equal(await verifier.getAddress());
+      expect(storedReason).to.equal(reasonHash);
+      expect(disputedAt).to.be.gt(0);
+      expect(resolved).to.equal(false);
+    });
+    
+    it("Should not verify or reject a disputed commitment / 不应该验证或再次拒绝争议中的承诺", async function () {
+      await commitmentChain.connect(verifier).rejectVerification(1, reasonHash);
+      
+      await expect(
+        commitmentChain.connect(verifier).verifyCommitment(1)
+      ).to.be.revertedWith("CommitmentChain: Commitment disputed");
+      await expect(
+        commitmentChain.connect(verifier).rejectVerification(1, reasonHash)
+      ).to.be.revertedWith("CommitmentChain: Commitment disputed");
+    });
+    
+    it("Only verifier can reject, only when completed / 只有验证员可以拒绝，且只能在完成后", async function () {
+      await expect(
+        commitmentChain.connect(user).rejectVerification(1, reasonHash)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+      
+      await commitmentChain.connect(police).createCommitment(fileHash, SHA256, await signer.getAddress(), []);
+      await expect(
+        commitmentChain.connect(verifier).rejectVerification(2, reasonHash)
+      ).to.be.revertedWith("CommitmentChain: Not completed yet");
+    });
+    
+    it("Admin can dismiss a dispute and verify / 管理员可以驳回争议并标记为已验证", async function () {
+      await commitmentChain.connect(verifier).rejectVerification(1, reasonHash);
+      
+      await expect(commitmentChain.connect(admin).resolveDispute(1, false))
+        .to.emit(commitmentChain, "DisputeResolved")
+        .withArgs(1, await admin.getAddress(), false, anyValue)
+        .and.to.emit(commitmentChain, "CommitmentVerified");
+      
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(VERIFIED);
+    });
+    
+    it("Admin can uphold a dispute, which then allows amendment / 管理员可以维持争议，之后可以修订", async function () {
+      await commitmentChain.connect(verifier).rejectVerification(1, reasonHash);
+      await commitmentChain.connect(admin).resolveDispute(1, true);
+      
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(DISPUTED);
+      expect((await commitmentChain.getDisputeInfo(1)).resolved).to.equal(true);
+      await expect(
+        commitmentChain.connect(admin).resolveDispute(1, false)
+      ).to.be.revertedWith("CommitmentChain: No open dispute");
+      
+      await commitmentChain.connect(police).amendCommitment(
+        1, ethers.id("QmCorrectedFileHash"), SHA256, [await signer.getAddress()], [], 0, 0
+      );
+      expect(await commitmentChain.getVersionChain(1)).to.deep.equal([1n, 2n]);
+    });
+    
+    it("Only admin can resolve a dispute / 只有管理员可以裁决争议", async function () {
+      await commitmentChain.connect(verifier).rejectVerification(1, reasonHash);
+      
+      await expect(
+        commitmentChain.connect(verifier).resolveDispute(1, false)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+  });
+  
+  // ============================================================================
+  // Freeze Record Tests / 冻结记录测试
+  // ============================================================================
+  
+  describe("21. Freeze Records", function () {
+    const FROZEN = 4;
+    const PENDING = 0;
+    const INVESTIGATION = 2;
+    const caseRef = ethers.id("CASE-2024-001");
+    
+    beforeEach(async function () {
+      await commitmentChain.connect(police).createCommitment(fileHash, SHA256, await signer.getAddress(), []);
+    });
+    
+    it("Should record reason, case reference and freezer / 应该记录原因、案件编号和冻结者", async function () {
+      await expect(
+        commitmentChain.connect(emergency).freezeCommitmentWithReason(1, INVESTIGATION, caseRef, 0)
+      )
+        .to.emit(commitmentChain, "CommitmentFrozen")
+        .withArgs(1, await emergency.getAddress(), INVESTIGATION, caseRef, 0, anyValue);
+      
+      const info = await commitmentChain.getFreezeInfo(1);
+      expect(info.frozen).to.equal(true);
+      expect(info.reason).to.equal(INVESTIGATION);
+      expect(info.caseRef).to.equal(caseRef);
+      expect(info.frozenBy).to.equal(await emergency.getAddress());
+      expect(info.unfreezeAt).to.equal(0);
+    });
+    
+    it("Should unfreeze automatically at the unfreeze time / 应该在自动解冻时间自动解冻", async function () {
+      const unfreezeAt = (await time.latest()) + 3600;
+      await commitmentChain.connect(emergency).freezeCommitmentWithReason(1, INVESTIGATION, caseRef, unfreezeAt);
+      
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(FROZEN);
+      await expect(
+        commitmentChain.connect(signer).signAsSigner(1)
+      ).to.be.revertedWith("CommitmentChain: Commitment is frozen");
+      
+      await time.increaseTo(unfreezeAt);
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(PENDING);
+      expect((await commitmentChain.getFreezeInfo(1)).frozen).to.equal(false);
+      await commitmentChain.connect(signer).signAsSigner(1);
+      
+      await expect(
+        commitmentChain.connect(emergency).unfreezeCommitment(1)
+      ).to.be.revertedWith("CommitmentChain: Not frozen");
+    });
+    
+    it("Should allow refreezing after expiry / 过期后应该可以再次冻结", async function () {
+      const unfreezeAt = (await time.latest()) + 3600;
+      await commitmentChain.connect(emergency).freezeCommitmentWithReason(1, INVESTIGATION, caseRef, unfreezeAt);
+      await time.increaseTo(unfreezeAt);
+      
+      await commitmentChain.connect(emergency).freezeCommitment(1);
+      const info = await commitmentChain.getFreezeInfo(1);
+      expect(info.frozen).to.equal(true);
+      expect(info.reason).to.equal(0);
+      expect(info.unfreezeAt).to.equal(0);
+    });
+    
+    it("Should reject an unfreeze time in the past / 应该拒绝过去的自动解冻时间", async function () {
+      await expect(
+        commitmentChain.connect(emergency).freezeCommitmentWithReason(1, INVESTIGATION, caseRef, await time.latest())
+      ).to.be.revertedWith("CommitmentChain: Unfreeze time must be in the future");
+    });
+    
+    it("Frozen commitment stays readable / 冻结的承诺仍可读取", async function () {
+      await commitmentChain.connect(emergency).freezeCommitment(1);
+      
+      expect((await commitmentChain.getFileDigest(1)).fileDigest).to.equal(fileHash);
+      expect((await commitmentChain.getCommitment(1)).isFrozen).to.equal(true);
+    });
+
+    it("Only emergency role can freeze or unfreeze / 只有紧急角色能冻结或解冻", async function () {
+      await expect(
+        commitmentChain.connect(user).freezeCommitment(1)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+      await expect(
+        commitmentChain.connect(police).freezeCommitmentWithReason(1, INVESTIGATION, caseRef, 0)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+
+      await commitmentChain.connect(emergency).freezeCommitment(1);
+      await expect(
+        commitmentChain.connect(admin).unfreezeCommitment(1)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  // ============================================================================
+  // Timelocked Upgrade Tests / 时间锁升级测试
+  // ============================================================================
+  
+  describe("22. Timelocked Upgrades", function () {
+    const DAY = 24 * 60 * 60;
+    let newImplementation: string;
+    
+    beforeEach(async function () {
+      // Deploy a new implementation directly / 直接部署新的实现合约
+      const implementation = await CommitmentChainFactory.deploy();
+      await implementation.waitForDeployment();
+      newImplementation = await implementation.getAddress();
+    });
+    
+    it("Should start with the minimum delay / 初始延迟应为最小延迟", async function () {
+      expect(await commitmentChain.upgradeDelay()).to.equal(DAY);
+      expect(await commitmentChain.MIN_UPGRADE_DELAY()).to.equal(DAY);
+    });
+    
+    it("Should upgrade after the delay / 延迟过后应该可以升级", async function () {
+      await expect(commitmentChain.connect(admin).proposeUpgrade(newImplementation))
+        .to.emit(commitmentChain, "UpgradeProposed")
+        .withArgs(newImplementation, await admin.getAddress(), anyValue);
+      expect(await commitmentChain.pendingImplementation()).to.equal(newImplementation);
+      
+      await expect(
+        commitmentChain.connect(admin).upgradeToAndCall(newImplementation, "0x")
+      ).to.be.revertedWith("CommitmentChain: Upgrade timelock not expired");
+      
+      const previousImplementation = await upgrades.erc1967.getImplementationAddress(await commitmentChain.getAddress());
+      await time.increase(DAY);
+      await expect(commitmentChain.connect(admin).upgradeToAndCall(newImplementation, "0x"))
+        .to.emit(commitmentChain, "ContractUpgraded")
+        .withArgs(previousImplementation, newImplementation, anyValue);
+      
+      expect(
+        await upgrades.erc1967.getImplementationAddress(await commitmentChain.getAddress())
+      ).to.equal(newImplementation);
+      expect(await commitmentChain.pendingImplementation()).to.equal(ethers.ZeroAddress);
+    });
+
+    it("Upgrade initializer should re-list members granted before the upgrade / 升级初始化应重新登记升级前授予的成员", async function () {
+      // Simulate a proxy from before AccessControlEnumerable: drop the verifier from the member set
+      // 模拟 AccessControlEnumerable 之前的代理：从成员集合中移除验证员
+      const proxy = await commitmentChain.getAddress();
+      const coder = ethers.AbiCoder.defaultAbiCoder();
+      const enumerableStorage = "0xc1f6fe24621ce81ec5827caf0253cadb74709b061630e6b55e82371705932000";
+      const setSlot = BigInt(ethers.keccak256(coder.encode(["bytes32", "uint256"], [VERIFIER_ROLE, enumerableStorage])));
+      const positionSlot = ethers.keccak256(
+        coder.encode(["bytes32", "uint256"], [ethers.zeroPadValue(await verifier.getAddress(), 32), setSlot + 1n])
+      );
+      await ethers.provider.send("hardhat_setStorageAt", [proxy, ethers.toQuantity(setSlot), ethers.ZeroHash]);
+      await ethers.provider.send("hardhat_setStorageAt", [proxy, ethers.toQuantity(positionSlot), ethers.ZeroHash]);
+      expect(await commitmentChain.getRoleMembers(VERIFIER_ROLE)).to.deep.equal([]);
+
+      await commitmentChain.connect(admin).proposeUpgrade(newImplementation);
+      await time.increase(DAY);
+      const data = commitmentChain.interface.encodeFunctionData("initializeRoleAdmins", [
+        [VERIFIER_ROLE, LAWYER_ROLE],
+        [await verifier.getAddress(), await user.getAddress()]
+      ]);
+      await commitmentChain.connect(admin).upgradeToAndCall(newImplementation, data);
+
+      // Members without the role are skipped / 没有该角色的账户会被跳过
+      expect(await commitmentChain.getRoleMembers(VERIFIER_ROLE)).to.deep.equal([await verifier.getAddress()]);
+      expect(await commitmentChain.hasRole(LAWYER_ROLE, await user.getAddress())).to.equal(false);
+      await expect(
+        commitmentChain.connect(admin).initializeRoleAdmins([], [])
+      ).to.be.revertedWithCustomError(commitmentChain, "InvalidInitialization");
+    });
+
+    it("Only admin can run the upgrade initializer / 只有管理员能执行升级初始化", async function () {
+      await expect(
+        commitmentChain.connect(user).initializeRoleAdmins([], [])
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should reject an implementation that was not proposed / 应该拒绝未提议的实现合约", async function () {
+      await expect(
+        commitmentChain.connect(admin).upgradeToAndCall(newImplementation, "0x")
+      ).to.be.revertedWith("CommitmentChain: Upgrade not proposed");
+    });
+    
+    it("Should allow cancelling a pending upgrade / 应该可以取消待执行的升级", async function () {
+      await commitmentChain.connect(admin).proposeUpgrade(newImplementation);
+      
+      await expect(commitmentChain.connect(admin).cancelUpgrade())
+        .to.emit(commitmentChain, "UpgradeCancelled")
+        .withArgs(newImplementation, await admin.getAddress());
+      
+      await time.increase(DAY);
+      await expect(
+        commitmentChain.connect(admin).upgradeToAndCall(newImplementation, "0x")
+      ).to.be.revertedWith("CommitmentChain: Upgrade not proposed");
+    });
+    
+    it("Should apply an updated delay to new proposals / 新的延迟应该对之后的提议生效", async function () {
+      await expect(
+        commitmentChain.connect(admin).setUpgradeDelay(DAY - 1)
+      ).to.be.revertedWith("CommitmentChain: Delay below minimum");
+      
+      await expect(commitmentChain.connect(admin).setUpgradeDelay(3 * DAY))
+        .to.emit(commitmentChain, "UpgradeDelayUpdated")
+        .withArgs(DAY, 3 * DAY);
+      
+      await commitmentChain.connect(admin).proposeUpgrade(newImplementation);
+      await time.increase(2 * DAY);
+      await expect(
+        commitmentChain.connect(admin).upgradeToAndCall(newImplementation, "0x")
+      ).to.be.revertedWith("CommitmentChain: Upgrade timelock not expired");
+    });
+    
+    it("Non-admin cannot propose, cancel or upgrade / 非管理员不能提议、取消或执行升级", async function () {
+      await expect(
+        commitmentChain.connect(user).proposeUpgrade(newImplementation)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+      
+      await commitmentChain.connect(admin).proposeUpgrade(newImplementation);
+      await time.increase(DAY);
+      
+      await expect(
+        commitmentChain.connect(user).cancelUpgrade()
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+      await expect(
+        commitmentChain.connect(user).upgradeToAndCall(newImplementation, "0x")
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+  });
+  
+  // ============================================================================
+  // Role Administration Tests / 角色管理层级测试
+  // ============================================================================
+  
+  describe("23. Role Administration", function () {
+    let POLICE_ADMIN_ROLE: string;
+    let BAR_ADMIN_ROLE: string;
+    let VERIFIER_ADMIN_ROLE: string;
+    let departmentHead: Signer;
+    let barAssociation: Signer;
+    
+    beforeEach(async function () {
+      POLICE_ADMIN_ROLE = await commitmentChain.POLICE_ADMIN_ROLE();
+      BAR_ADMIN_ROLE = await commitmentChain.BAR_ADMIN_ROLE();
+      VERIFIER_ADMIN_ROLE = await commitmentChain.VERIFIER_ADMIN_ROLE();
+      [departmentHead, barAssociation] = addrs;
+      
+      await commitmentChain.connect(admin).grantRole(POLICE_ADMIN_ROLE, await departmentHead.getAddress());
+      await commitmentChain.connect(admin).grantRole(BAR_ADMIN_ROLE, await barAssociation.getAddress());
+    });
+    
+    it("Should set admin role of each business role / 应该为各业务角色设置管理角色", async function () {
+      expect(await commitmentChain.getRoleAdmin(POLICE_ROLE)).to.equal(POLICE_ADMIN_ROLE);
+      expect(await commitmentChain.getRoleAdmin(LAWYER_ROLE)).to.equal(BAR_ADMIN_ROLE);
+      expect(await commitmentChain.getRoleAdmin(VERIFIER_ROLE)).to.equal(VERIFIER_ADMIN_ROLE);
+      expect(await commitmentChain.getRoleAdmin(EMERGENCY_ROLE)).to.equal(DEFAULT_ADMIN_ROLE);
+      expect(await commitmentChain.getRoleAdmin(POLICE_ADMIN_ROLE)).to.equal(DEFAULT_ADMIN_ROLE);
+    });
+    
+    it("Department head should manage police members / 部门负责人应该能管理警察成员", async function () {
+      await commitmentChain.connect(departmentHead).grantRole(POLICE_ROLE, await user.getAddress());
+      expect(await commitmentChain.hasRole(POLICE_ROLE, await user.getAddress())).to.equal(true);
+      
+      await commitmentChain.connect(departmentHead).revokeRole(POLICE_ROLE, await user.getAddress());
+      expect(await commitmentChain.hasRole(POLICE_ROLE, await user.getAddress())).to.equal(false);
+    });
+    
+    it("Department head cannot grant other roles / 部门负责人不能授予其他角色", async function () {
+      await expect(
+        commitmentChain.connect(departmentHead).grantRole(LAWYER_ROLE, await user.getAddress())
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+      await expect(
+        commitmentChain.connect(barAssociation).grantRole(POLICE_ROLE, await user.getAddress())
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+    
+    it("Bar association should manage lawyer members / 律师协会应该能管理律师成员", async function () {
+      await commitmentChain.connect(barAssociation).grantRole(LAWYER_ROLE, await user.getAddress());
+      expect(await commitmentChain.hasRole(LAWYER_ROLE, await user.getAddress())).to.equal(true);
+    });
+    
+    it("Should list role members / 应该列出角色成员", async function () {
+      expect(await commitmentChain.getRoleMembers(LAWYER_ROLE)).to.deep.equal([
+        await lawyer1.getAddress(),
+        await lawyer2.getAddress()
+      ]);
+      expect(await commitmentChain.getRoleMemberCount(POLICE_ADMIN_ROLE)).to.equal(2);
+      
+      await commitmentChain.connect(barAssociation).revokeRole(LAWYER_ROLE, await lawyer1.getAddress());
+      expect(await commitmentChain.getRoleMembers(LAWYER_ROLE)).to.deep.equal([await lawyer2.getAddress()]);
+    });
+  });
+  
+  // ============================================================================
+  // Role Profile Tests / 角色档案测试
+  // ============================================================================
+  
+  describe("24. Role Profiles", function () {
+    let profileRegistry: ProfileRegistry;
+    let barAssociation: Signer;
+    const nameHash = ethers.id("Jane Doe");
+    const credentialHash = ethers.id("bar-licence.pdf");
+    
+    beforeEach(async function () {
+      profileRegistry = await (await ethers.getContractFactory("ProfileRegistry"))
+        .deploy(await commitmentChain.getAddress());
+      await profileRegistry.waitForDeployment();
+      
+      [barAssociation] = addrs;
+      await commitmentChain.connect(admin).grantRole(await commitmentChain.BAR_ADMIN_ROLE(), await barAssociation.getAddress());
+    });
+    
+    it("Role admin should set a member's profile / 角色管理员应该能设置成员档案", async function () {
+      await expect(
+        profileRegistry.connect(barAssociation).setProfile(
+          await lawyer1.getAddress(), LAWYER_ROLE, nameHash, "BAR-1024", "City Bar Association", credentialHash
+        )
+      )
+        .to.emit(profileRegistry, "ProfileUpdated")
+        .withArgs(await lawyer1.getAddress(), LAWYER_ROLE, await barAssociation.getAddress(), anyValue);
+      
+      const profile = await profileRegistry.getProfile(await lawyer1.getAddress());
+      expect(profile.role).to.equal(LAWYER_ROLE);
+      expect(profile.displayNameHash).to.equal(nameHash);
+      expect(profile.badgeNumber).to.equal("BAR-1024");
+      expect(profile.organization).to.equal("City Bar Association");
+      expect(profile.credentialHash).to.equal(credentialHash);
+      expect(profile.updatedBy).to.equal(await barAssociation.getAddress());
+    });
+    
+    it("Only the role's admin can set profiles / 只有该角色的管理员能设置档案", async function () {
+      await expect(
+        profileRegistry.connect(barAssociation).setProfile(
+          await police.getAddress(), POLICE_ROLE, nameHash, "PD-7", "City Police", credentialHash
+        )
+      ).to.be.revertedWith("ProfileRegistry: Not role admin");
+      
+      await expect(
+        profileRegistry.connect(user).setProfile(
+          await lawyer1.getAddress(), LAWYER_ROLE, nameHash, "BAR-1024", "City Bar Association", credentialHash
+        )
+      ).to.be.revertedWith("ProfileRegistry: Not role admin");
+    });
+    
+    it("Account must hold the role / 账户必须拥有该角色", async function () {
+      await expect(
+        profileRegistry.connect(barAssociation).setProfile(
+          await user.getAddress(), LAWYER_ROLE, nameHash, "BAR-1024", "City Bar Association", credentialHash
+        )
+      ).to.be.revertedWith("ProfileRegistry: Account does not hold role");
+    });
+    
+    it("Should return profiles in batch and remove them / 应该批量返回档案并可删除", async function () {
+      await profileRegistry.connect(barAssociation).setProfile(
+        await lawyer1.getAddress(), LAWYER_ROLE, nameHash, "BAR-1024", "City Bar Association", credentialHash
+      );
+      
+      const profiles = await profileRegistry.getProfiles([await lawyer1.getAddress(), await lawyer2.getAddress()]);
+      expect(profiles[0].badgeNumber).to.equal("BAR-1024");
+      expect(profiles[1].updatedAt).to.equal(0);
+      
+      await expect(profileRegistry.connect(barAssociation).removeProfile(await lawyer1.getAddress()))
+        .to.emit(profileRegistry, "ProfileRemoved")
+        .withArgs(await lawyer1.getAddress(), LAWYER_ROLE, await barAssociation.getAddress(), anyValue);
+      expect((await profileRegistry.getProfile(await lawyer1.getAddress())).updatedAt).to.equal(0);
+    });
+  });
+  
+  // ============================================================================
+  // Time-Limited Role Tests / 限时角色测试
+  // ============================================================================
+  
+  describe("25. Time-Limited Roles", function () {
+    const DAY = 24 * 60 * 60;
+    let expiresAt: number;
+    
+    beforeEach(async function () {
+      expiresAt = (await time.latest()) + DAY;
+      await commitmentChain.connect(admin).grantRoleWithExpiry(POLICE_ROLE, await user.getAddress(), expiresAt);
+    });
+    
+    it("Should grant a role until its expiry / 应该授予角色直至到期", async function () {
+      expect(await commitmentChain.hasRole(POLICE_ROLE, await user.getAddress())).to.equal(true);
+      expect(await commitmentChain.roleExpiresAt(POLICE_ROLE, await user.getAddress())).to.equal(expiresAt);
+      
+      await commitmentChain.connect(user).createCommitment(fileHash, SHA256, await signer.getAddress(), []);
+    });
+    
+    it("Expired grant should count as missing / 已到期的授权应视为不存在", async function () {
+      await time.increaseTo(expiresAt);
+      
+      expect(await commitmentChain.hasRole(POLICE_ROLE, await user.getAddress())).to.equal(false);
+      await expect(
+        commitmentChain.connect(user).createCommitment(fileHash, SHA256, await signer.getAddress(), [])
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+    
+    it("Expired lawyer and verifier cannot sign or verify / 已到期的律师和验证员不能签名或验证", async function () {
+      const lawyerExpiry = (await time.latest()) + 60;
+      await commitmentChain.connect(admin).grantRoleWithExpiry(LAWYER_ROLE, await lawyer1.getAddress(), lawyerExpiry);
+      await commitmentChain.connect(admin).grantRoleWithExpiry(VERIFIER_ROLE, await verifier.getAddress(), lawyerExpiry);
+      await commitmentChain.connect(police).createCommitment(fileHash, SHA256, await signer.getAddress(), [await lawyer1.getAddress()]);
+      await commitmentChain.connect(signer).signAsSigner(1);
+      await time.increaseTo(lawyerExpiry);
+      
+      await expect(
+        commitmentChain.connect(lawyer1).signAsWitness(1)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+      await expect(
+        commitmentChain.connect(verifier).verifyCommitment(1)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+    
+    it("Expired lawyer cannot be named as witness / 已到期的律师不能被指定为见证者", async function () {
+      await commitmentChain.connect(admin).grantRoleWithExpiry(LAWYER_ROLE, await lawyer2.getAddress(), expiresAt);
+      await time.increaseTo(expiresAt);
+      
+      await expect(
+        commitmentChain.connect(police).createCommitment(fileHash, SHA256, await signer.getAddress(), [await lawyer2.getAddress()])
+      ).to.be.revertedWith("CommitmentChain: Witness must have LAWYER_ROLE");
+    });
+    
+    it("Expired police cannot amend own commitment / 已到期的警察不能修订自己的承诺", async function () {
+      await commitmentChain.connect(user).createCommitment(fileHash, SHA256, await signer.getAddress(), []);
+      await commitmentChain.connect(signer).signAsSigner(1);
+      await time.increaseTo(expiresAt);
+      
+      await expect(
+        commitmentChain.connect(user).amendCommitment(1, fileHash, SHA256, [await signer.getAddress()], [], 0, 0)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+    
+    it("Should list upcoming expiries / 应该列出即将到期的授权", async function () {
+      const [accounts, expiries] = await commitmentChain.getExpiringMembers(POLICE_ROLE, expiresAt);
+      expect(accounts).to.deep.equal([await user.getAddress()]);
+      expect(expiries).to.deep.equal([BigInt(expiresAt)]);
+      
+      const [none] = await commitmentChain.getExpiringMembers(POLICE_ROLE, expiresAt - 1);
+      expect(none).to.deep.equal([]);
+    });
+    
+    it("Granting again should make the role permanent / 再次授予应使角色变为永久", async function () {
+      await time.increaseTo(expiresAt);
+      await commitmentChain.connect(admin).grantRole(POLICE_ROLE, await user.getAddress());
+      
+      expect(await commitmentChain.roleExpiresAt(POLICE_ROLE, await user.getAddress())).to.equal(0);
+      expect(await commitmentChain.hasRole(POLICE_ROLE, await user.getAddress())).to.equal(true);
+    });
+    
+    it("Revoking an expired grant should remove the member / 撤销已到期的授权应移除成员", async function () {
+      await time.increaseTo(expiresAt);
+      await commitmentChain.connect(admin).revokeRole(POLICE_ROLE, await user.getAddress());
+      
+      expect(await commitmentChain.getRoleMembers(POLICE_ROLE)).to.not.include(await user.getAddress());
+    });
+    
+    it("Should reject non-expiring roles and past expiries / 应该拒绝不可过期的角色和过去的到期时间", async function () {
+      await expect(
+        commitmentChain.connect(admin).grantRoleWithExpiry(EMERGENCY_ROLE, await user.getAddress(), expiresAt)
+      ).to.be.revertedWith("CommitmentChain: Role cannot expire");
+      await expect(
+        commitmentChain.connect(admin).grantRoleWithExpiry(LAWYER_ROLE, await user.getAddress(), await time.latest())
+      ).to.be.revertedWith("CommitmentChain: Expiry must be in the future");
+      await expect(
+        commitmentChain.connect(user).grantRoleWithExpiry(LAWYER_ROLE, await user.getAddress(), expiresAt)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+  });
+  
+  // ============================================================================
+  // Organization Tests / 组织测试
+  // ============================================================================
+  
+  describe("26. Organizations", function () {
+    beforeEach(async function () {
+      // Precinct 1: police, verifier, emergency; precinct 2: user as police
+      // 1 号分局：police、verifier、emergency；2 号分局：user 作为警察
+      await commitmentChain.connect(admin).createOrganization("Precinct 1");
+      await commitmentChain.connect(admin).createOrganization("Precinct 2");
+      await commitmentChain.connect(admin).grantRole(POLICE_ROLE, await user.getAddress());
+      
+      await commitmentChain.connect(admin).setAccountOrganization(await police.getAddress(), 1);
+      await commitmentChain.connect(admin).setAccountOrganization(await verifier.getAddress(), 1);
+      await commitmentChain.connect(admin).setAccountOrganization(await emergency.getAddress(), 1);
+      await commitmentChain.connect(admin).setAccountOrganization(await user.getAddress(), 2);
+    });
+    
+    it("Should register organizations and assign accounts / 应该登记组织并分配账户", async function () {
+      expect(await commitmentChain.organizationCount()).to.equal(2);
+      expect(await commitmentChain.organizationNames(2)).to.equal("Precinct 2");
+      expect(await commitmentChain.organizationOf(await police.getAddress())).to.equal(1);
+      
+      await expect(
+        commitmentChain.connect(admin).setAccountOrganization(await police.getAddress(), 0)
+      ).to.emit(commitmentChain, "AccountOrganizationSet")
+        .withArgs(await police.getAddress(), 0, await admin.getAddress(), anyValue);
+    });
+    
+    it("Commitments should belong to the creator's organization / 承诺应该属于创建者的组织", async function () {
+      await commitmentChain.connect(police).createCommitment(fileHash, SHA256, await signer.getAddress(), []);
+      await commitmentChain.connect(user).createCommitment(fileHash, SHA256, await signer.getAddress(), []);
+      await commitmentChain.connect(police).createCommitment(fileHash, SHA256, await signer.getAddress(), []);
+      
+      expect(await commitmentChain.getCommitmentOrganization(2)).to.equal(2);
+      
+      const [ids, total] = await commitmentChain.getCommitmentsByOrganization(1, 0, 10);
+      expect(ids).to.deep.equal([1n, 3n]);
+      expect(total).to.equal(2);
+      
+      const [, otherTotal] = await commitmentChain.getCommitmentsByOrganization(2, 0, 0);
+      expect(otherTotal).to.equal(1);
+    });
+    
+    it("Verifier should only verify own organization's commitments / 验证员只能验证本组织的承诺", async function () {
+      await commitmentChain.connect(user).createCommitment(fileHash, SHA256, await signer.getAddress(), []);
+      await commitmentChain.connect(signer).signAsSigner(1);
+      
+      await expect(
+        commitmentChain.connect(verifier).verifyCommitment(1)
+      ).to.be.revertedWith("CommitmentChain: Outside caller's organization");
+      
+      // Unassigned verifiers act across organizations / 未分配组织的验证员可跨组织操作
+      await commitmentChain.connect(admin).setAccountOrganization(await verifier.getAddress(), 0);
+      await commitmentChain.connect(verifier).verifyCommitment(1);
+    });
+    
+    it("Emergency admin should be scoped to its organization / 紧急管理员应限定在其组织内", async function () {
+      await commitmentChain.connect(user).createCommitment(fileHash, SHA256, await signer.getAddress(), []);
+      await commitmentChain.connect(police).createCommitment(fileHash, SHA256, await signer.getAddress(), []);
+      
+      await expect(
+        commitmentChain.connect(emergency).freezeCommitment(1)
+      ).to.be.revertedWith("CommitmentChain: Outside caller's organization");
+      await commitmentChain.connect(emergency).freezeCommitment(2);
+      
+      await expect(
+        commitmentChain.connect(emergency).pause()
+      ).to.be.revertedWith("CommitmentChain: Organization-scoped account");
+    });
+
+    it("Accounts outside the organization without emergency role cannot freeze / 组织外且无紧急角色的账户不能冻结", async function () {
+      await commitmentChain.connect(police).createCommitment(fileHash, SHA256, await signer.getAddress(), []);
+
+      // Unassigned non-member and another organization's member / 未分配组织的非成员及其他组织的成员
+      await expect(
+        commitmentChain.connect(lawyer2).freezeCommitment(1)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+      await expect(
+        commitmentChain.connect(user).freezeCommitment(1)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+      expect((await commitmentChain.getFreezeInfo(1)).frozen).to.equal(false);
+    });
+
+    it("Should reject invalid organizations / 应该拒绝无效的组织", async function () {
+      await expect(
+        commitmentChain.connect(admin).setAccountOrganization(await user.getAddress(), 3)
+      ).to.be.revertedWith("CommitmentChain: Invalid organization");
+      await expect(
+        commitmentChain.connect(admin).createOrganization("")
+      ).to.be.revertedWith("CommitmentChain: Organization name cannot be empty");
+      await expect(
+        commitmentChain.connect(police).createOrganization("Precinct 3")
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+  });
+  
+  // ============================================================================
+  // Batch Creation Tests / 批量创建测试
+  // ============================================================================
+  
+  describe("27. Batch Creation", function () {
+    let hashes: string[];
+    let signers: string[][];
+    let witnesses: string[][];
+    
+    beforeEach(async function () {
+      const signerAddress = await signer.getAddress();
+      hashes = ["QmStatement1", "QmStatement2", "QmStatement3"].map(name => ethers.id(name));
+      signers = hashes.map(() => [signerAddress]);
+      witnesses = [[await lawyer1.getAddress()], [], []];
+    });
+    
+    it("Should create every item and return IDs in order / 应该创建每一项并按顺序返回 ID", async function () {
+      const ids = await commitmentChain.connect(police).createCommitmentsBatch.staticCall(hashes, SHA256, signers, witnesses);
+      expect(ids).to.deep.equal([1n, 2n, 3n]);
+      
+      const tx = commitmentChain.connect(police).createCommitmentsBatch(hashes, SHA256, signers, witnesses);
+      for (let i = 0; i < hashes.length; i++) {
+        await expect(tx).to.emit(commitmentChain, "CommitmentCreated")
+          .withArgs(i + 1, await police.getAddress(), await signer.getAddress(), hashes[i], SHA256, anyValue);
+      }
+      
+      expect(await commitmentChain.commitmentCount()).to.equal(3);
+      expect(await commitmentChain.getWitnessCount(1)).to.equal(1);
+      expect(await commitmentChain.getCommitmentsByFileDigest(hashes[2])).to.deep.equal([3n]);
+    });
+    
+    it("One invalid item should revert the whole batch / 任何一项无效都应回滚整个批次", async function () {
+      hashes[1] = ethers.ZeroHash;
+      
+      await expect(
+        commitmentChain.connect(police).createCommitmentsBatch(hashes, SHA256, signers, witnesses)
+      ).to.be.revertedWith("CommitmentChain: File hash cannot be empty");
+      expect(await commitmentChain.commitmentCount()).to.equal(0);
+    });
+    
+    it("Should enforce batch size and matching lengths / 应该限制批次大小并要求长度一致", async function () {
+      await expect(
+        commitmentChain.connect(police).createCommitmentsBatch([], SHA256, [], [])
+      ).to.be.revertedWith("CommitmentChain: Invalid batch size");
+      
+      const max = Number(await commitmentChain.MAX_BATCH_SIZE());
+      await expect(
+        commitmentChain.connect(police).createCommitmentsBatch(
+          Array(max + 1).fill(fileHash),
+          SHA256,
+          Array(max + 1).fill(signers[0]),
+          Array(max + 1).fill([])
+        )
+      ).to.be.revertedWith("CommitmentChain: Invalid batch size");
+      
+      await expect(
+        commitmentChain.connect(police).createCommitmentsBatch(hashes, SHA256, signers.slice(1), witnesses)
+      ).to.be.revertedWith("CommitmentChain: Batch length mismatch");
+    });
+    
+    it("Only police can create a batch / 只有警察可以批量创建", async function () {
+      await expect(
+        commitmentChain.connect(user).createCommitmentsBatch(hashes, SHA256, signers, witnesses)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+    
+    it("Cannot create a batch when paused / 暂停后不能批量创建", async function () {
+      await commitmentChain.connect(emergency).pause();
+      
+      await expect(
+        commitmentChain.connect(police).createCommitmentsBatch(hashes, SHA256, signers, witnesses)
+      ).to.be.revertedWithCustomError(commitmentChain, "EnforcedPause");
+    });
+  });
+  
+  // ============================================================================
+  // Test Suite 28: Batch Signing / 测试套件 28：批量签名
+  // ============================================================================
+  
+  describe("28. Batch Signing", function () {
+    const reasonHash = ethers.id("Wrong statement");
+    
+    beforeEach(async function () {
+      const signerAddress = await signer.getAddress();
+      const lawyerAddress = await lawyer1.getAddress();
+      const hashes = ["QmStatement1", "QmStatement2", "QmStatement3"].map(name => ethers.id(name));
+      await commitmentChain.connect(police).createCommitmentsBatch(
+        hashes,
+        SHA256,
+        hashes.map(() => [signerAddress]),
+        hashes.map(() => [lawyerAddress])
+      );
+    });
+    
+    it("Witness should sign every commitment in one transaction / 见证者应该在一笔交易中签署所有承诺", async function () {
+      const ids = [1, 2, 3];
+      expect(await commitmentChain.connect(lawyer1).signAsWitnessBatch.staticCall(ids))
+        .to.deep.equal([true, true, true]);
+      
+      const tx = commitmentChain.connect(lawyer1).signAsWitnessBatch(ids);
+      for (const id of ids) {
+        await expect(tx).to.emit(commitmentChain, "CommitmentSigned")
+          .withArgs(id, await lawyer1.getAddress(), "witness", anyValue);
+      }
+      
+      for (const id of ids) {
+        expect(await commitmentChain.hasWitnessSigned(id, await lawyer1.getAddress())).to.be.true;
+      }
+    });
+    
+    it("Signer batch should complete commitments / 签约者批量签名应该完成承诺", async function () {
+      await commitmentChain.connect(lawyer1).signAsWitnessBatch([1, 2]);
+      
+      await expect(commitmentChain.connect(signer).signAsSignerBatch([1, 2, 3]))
+        .to.emit(commitmentChain, "CommitmentCompleted").withArgs(2, anyValue);
+      expect(await commitmentChain.getCommitmentStatus(1)).to.equal(2);  // Completed
+      expect(await commitmentChain.hasSignerSigned(3, await signer.getAddress())).to.be.true;
+    });
+    
+    it("Should skip and report ineligible IDs / 应该跳过并报告不符合条件的 ID", async function () {
+      await commitmentChain.connect(lawyer1).signAsWitness(1);
+      await commitmentChain.connect(police).cancelCommitment(2, reasonHash);
+      
+      const ids = [1, 2, 3, 99];
+      expect(await commitmentChain.connect(lawyer1).signAsWitnessBatch.staticCall(ids))
+        .to.deep.equal([false, false, true, false]);
+      
+      await commitmentChain.connect(lawyer1).signAsWitnessBatch(ids);
+      expect(await commitmentChain.hasWitnessSigned(2, await lawyer1.getAddress())).to.be.false;
+      expect(await commitmentChain.hasWitnessSigned(3, await lawyer1.getAddress())).to.be.true;
+    });
+    
+    it("Should revert when nothing can be signed / 没有可签署的承诺时应该回滚", async function () {
+      await expect(
+        commitmentChain.connect(lawyer2).signAsWitnessBatch([1, 2, 3])
+      ).to.be.revertedWith("CommitmentChain: Nothing to sign");
+      
+      await expect(
+        commitmentChain.connect(signer).signAsSignerBatch([])
+      ).to.be.revertedWith("CommitmentChain: Invalid batch size");
+      const max = Number(await commitmentChain.MAX_BATCH_SIZE());
+      await expect(
+        commitmentChain.connect(signer).signAsSignerBatch(Array(max + 1).fill(1))
+      ).to.be.revertedWith("CommitmentChain: Invalid batch size");
+      
+      await expect(
+        commitmentChain.connect(signer).signAsWitnessBatch([1])
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+    
+    it("Cannot sign a batch when paused / 暂停后不能批量签名", async function () {
+      await commitmentChain.connect(emergency).pause();
+      
+      await expect(
+        commitmentChain.connect(lawyer1).signAsWitnessBatch([1, 2, 3])
+      ).to.be.revertedWithCustomError(commitmentChain, "EnforcedPause");
+      await expect(
+        commitmentChain.connect(signer).signAsSignerBatch([1, 2, 3])
+      ).to.be.revertedWithCustomError(commitmentChain, "EnforcedPause");
+    });
+  });
+  
+  // ============================================================================
+  // Test Suite 29: Merkle Anchoring / 测试套件 29：Merkle 根锚定
+  // ============================================================================
+  
+  describe("29. Merkle Anchoring", function () {
+    // Leaves are keccak256(document hash), inner nodes hash the sorted pair, an odd node moves up
+    // 叶子为 keccak256(文件哈希)，内部节点对排序后的哈希对求哈希，落单的节点直接上移
+    const hashPair = (a: string, b: string) =>
+      ethers.keccak256(ethers.concat(a < b ? [a, b] : [b, a]));
+    
+    const buildTree = (documents: string[]) => {
+      const levels = [documents.map(d => ethers.keccak256(d))];
+      while (levels[levels.length - 1].length > 1) {
+        const level = levels[levels.length - 1];
+        const next: string[] = [];
+        for (let i = 0; i < level.length; i += 2) {
+          next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+        }
+        levels.push(next);
+      }
+      const proof = (index: number) => {
+        const siblings: string[] = [];
+        for (const level of levels.slice(0, -1)) {
+          const sibling = index ^ 1;
+          if (sibling < level.length) siblings.push(level[sibling]);
+          index = Math.floor(index / 2);
+        }
+        return siblings;
+      };
+      return { root: levels[levels.length - 1][0], proof };
+    };
+    
+    const documents = ["page-1", "page-2", "page-3", "page-4", "page-5"].map(p => ethers.sha256(ethers.toUtf8Bytes(p)));
+    const tree = buildTree(documents);
+    
+    beforeEach(async function () {
+      await commitmentChain.connect(police).createMerkleCommitment(
+        tree.root,
+        documents.length,
+        [await signer.getAddress()],
+        [await lawyer1.getAddress()],
+        0,
+        0
+      );
+    });
+    
+    it("Should anchor the root as the file digest / 应该以根作为文件摘要锚定", async function () {
+      await expect(
+        commitmentChain.connect(police).createMerkleCommitment(tree.root, documents.length, [await signer.getAddress()], [], 0, 0)
+      ).to.emit(commitmentChain, "MerkleRootAnchored").withArgs(2, tree.root, documents.length, anyValue);
+      
+      expect(await commitmentChain.getFileDigest(1)).to.deep.equal([tree.root, KECCAK256]);
+      expect(await commitmentChain.getCommitmentsByFileDigest(tree.root)).to.deep.equal([1n, 2n]);
+    });
+    
+    it("Should verify every document's proof / 应该验证每个文件的证明", async function () {
+      for (let i = 0; i < documents.length; i++) {
+        expect(await commitmentChain.verifyInclusion(1, documents[i], tree.proof(i))).to.be.true;
+      }
+      
+      const outsider = ethers.sha256(ethers.toUtf8Bytes("page-6"));
+      expect(await commitmentChain.verifyInclusion(1, outsider, tree.proof(0))).to.be.false;
+      expect(await commitmentChain.verifyInclusion(1, documents[0], tree.proof(1))).to.be.false;
+    });
+    
+    it("Should reject empty roots and single-document commitments / 应该拒绝空根和单文件承诺", async function () {
+      const signers = [await signer.getAddress()];
+      await expect(
+        commitmentChain.connect(police).createMerkleCommitment(ethers.ZeroHash, 1, signers, [], 0, 0)
+      ).to.be.revertedWith("CommitmentChain: File hash cannot be empty");
+      await expect(
+        commitmentChain.connect(police).createMerkleCommitment(tree.root, 0, signers, [], 0, 0)
+      ).to.be.revertedWith("CommitmentChain: Leaf count cannot be zero");
+      
+      await commitmentChain.connect(police).createCommitment(fileHash, SHA256, signers[0], []);
+      await expect(
+        commitmentChain.verifyInclusion(2, documents[0], tree.proof(0))
+      ).to.be.revertedWith("CommitmentChain: Not a Merkle commitment");
+    });
+    
+    it("Only police can anchor a root / 只有警察可以锚定根", async function () {
+      await expect(
+        commitmentChain.connect(user).createMerkleCommitment(tree.root, 1, [await signer.getAddress()], [], 0, 0)
+      ).to.be.revertedWithCustomError(commitmentChain, "AccessControlUnauthorizedAccount");
+    });
+    
+    it("Cannot anchor a root when paused / 暂停后不能锚定根", async function () {
+      await commitmentChain.connect(emergency).pause();
+      
+      await expect(
+        commitmentChain.connect(police).createMerkleCommitment(tree.root, documents.length, [await signer.getAddress()], [], 0, 0)
+      ).to.be.revertedWithCustomError(commitmentChain, "EnforcedPause");
+    });
+  });
+  
+  // ============================================================================
+  // Test Suite 30: File Digests / 测试套件 30：文件摘要
+  // ============================================================================
+  
+  describe("30. File Digests", function () {
+    const digest = ethers.keccak256(ethers.toUtf8Bytes("statement"));
+    
+    it("Should record the digest and its algorithm / 应该记录摘要及其算法", async function () {
+      await expect(
+        commitmentChain.connect(police).createCommitment(digest, KECCAK256, await signer.getAddress(), [])
+      ).to.emit(commitmentChain, "CommitmentCreated")
+        .withArgs(1, await police.getAddress(), await signer.getAddress(), digest, KECCAK256, anyValue);
+      
+      expect(await commitmentChain.getFileDigest(1)).to.deep.equal([digest, KECCAK256]);
+      expect(await commitmentChain.getCommitmentsByFileDigest(digest)).to.deep.equal([1n]);
+      
+      // The legacy string hash is left empty / 旧版字符串哈希保持为空
+      expect((await commitmentChain.getCommitment(1)).fileHash).to.equal("");
+      expect(await commitmentChain.getCommitmentsByFileHash(digest)).to.deep.equal([]);
+    });
+    
+    it("Should reject zero digests and unknown algorithms / 应该拒绝零摘要和未知算法", async function () {
+      const signerAddress = await signer.getAddress();
+      
+      await expect(
+        commitmentChain.connect(police).createCommitment(ethers.ZeroHash, SHA256, signerAddress, [])
+      ).to.be.revertedWith("CommitmentChain: File hash cannot be empty");
+      await expect(
+        commitmentChain.connect(police).createCommitment(digest, LEGACY, signerAddress, [])
+      ).to.be.revertedWith("CommitmentChain: Invalid hash algorithm");
+      await expect(
+        commitmentChain.connect(police).createCommitment(digest, 5, signerAddress, [])
+      ).to.be.reverted;
+    });
+    
+    it("Unique policy applies to the digest whatever its algorithm / 唯一性策略按摘要判断，与算法无关", async function () {
+      await commitmentChain.connect(admin).setUniqueFileHashRequired(true);
+      await commitmentChain.connect(police).createCommitment(digest, SHA256, await signer.getAddress(), []);
+      
+      await expect(
+        commitmentChain.connect(police).createCommitment(digest, KECCAK256, await signer.getAddress(), [])
+      ).to.be.revertedWith("CommitmentChain: File hash already registered");
+    });
+    
+    it("Should reject invalid commitment ID / 应该拒绝无效的承诺 ID", async function () {
+      await expect(
+        commitmentChain.getFileDigest(1)
+      ).to.be.revertedWith("CommitmentChain: Invalid commitment ID");
+    });
+  });
+  
+  // ============================================================================
+  // Test Suite 31: IPFS CIDs / 测试套件 31：IPFS CID
+  // ============================================================================
+  
+  describe("31. IPFS CIDs", function () {
+    const RAW = 0x55;
+    const DAG_PB = 0x70;
+    const IPFS_MULTIHASH = 4;
+    const digest = ethers.sha256(ethers.toUtf8Bytes("statement"));
+    const rootDigest = ethers.sha256(ethers.toUtf8Bytes("unixfs root"));
+    
+    beforeEach(async function () {
+      await commitmentChain.connect(police).createCommitment(digest, SHA256, await signer.getAddress(), []);
+    });
+    
+    it("Should attach a CID for the initiator / 发起人应该可以关联 CID", async function () {
+      expect(await commitmentChain.getContentCid(1)).to.deep.equal([0n, ethers.ZeroHash]);
+      
+      await expect(
+        commitmentChain.connect(police).setContentCid(1, DAG_PB, rootDigest)
+      ).to.emit(commitmentChain, "ContentCidSet")
+        .withArgs(1, DAG_PB, rootDigest, anyValue);
+      
+      expect(await commitmentChain.getContentCid(1)).to.deep.equal([BigInt(DAG_PB), rootDigest]);
+      
+      // Set once / 只能设置一次
+      await expect(
+        commitmentChain.connect(police).setContentCid(1, RAW, digest)
+      ).to.be.revertedWith("CommitmentChain: CID already set");
+    });
+    
+    it("Raw CID must match the SHA-256 digest / raw CID 必须与 SHA-256 摘要一致", async function () {
+      await expect(
+        commitmentChain.connect(police).setContentCid(1, RAW, rootDigest)
+      ).to.be.revertedWith("CommitmentChain: CID does not match file digest");
+      
+      await commitmentChain.connect(police).setContentCid(1, RAW, digest);
+      expect(await commitmentChain.getContentCid(1)).to.deep.equal([BigInt(RAW), digest]);
+    });
+    
+    it("Dag-pb CID must match the IPFS multihash digest / dag-pb CID 必须与 IPFS multihash 摘要一致", async function () {
+      await commitmentChain.connect(police).createCommitment(rootDigest, IPFS_MULTIHASH, await signer.getAddress(), []);
+      
+      await expect(
+        commitmentChain.connect(police).setContentCid(2, DAG_PB, digest)
+      ).to.be.revertedWith("CommitmentChain: CID does not match file digest");
+      
+      await commitmentChain.connect(police).setContentCid(2, DAG_PB, rootDigest);
+      expect(await commitmentChain.getContentCid(2)).to.deep.equal([BigInt(DAG_PB), rootDigest]);
+    });
+    
+    it("Raw CID is not compared with an IPFS multihash digest / raw CID 不与 IPFS multihash 摘要比较", async function () {
+      await commitmentChain.connect(police).createCommitment(rootDigest, IPFS_MULTIHASH, await signer.getAddress(), []);
+      
+      await commitmentChain.connect(police).setContentCid(2, RAW, digest);
+      expect(await commitmentChain.getContentCid(2)).to.deep.equal([BigInt(RAW), digest]);
+    });
+    
+    it("Should reject invalid CIDs / 应该拒绝无效的 CID", async function () {
+      await expect(
+        commitmentChain.connect(police).setContentCid(1, 0x71, rootDigest)
+      ).to.be.revertedWith("CommitmentChain: Invalid CID");
+      await expect(
+        commitmentChain.connect(police).setContentCid(1, DAG_PB, ethers.ZeroHash)
+      ).to.be.revertedWith("CommitmentChain: Invalid CID");
+    });
+    
+    it("Only the initiator before signing / 仅发起人且在签名之前", async function () {
+      await expect(
+        commitmentChain.connect(signer).setContentCid(1, DAG_PB, rootDigest)
+      ).to.be.revertedWith("CommitmentChain: Not the initiator");
+      
+      await commitmentChain.connect(signer).signAsSigner(1);
+      await expect(
+        commitmentChain.connect(police).setContentCid(1, DAG_PB, rootDigest)
+      ).to.be.revertedWith("CommitmentChain: Commitment not pending");
+    });
+    
+    it("Merkle commitments cannot reference a CID / Merkle 承诺不能关联 CID", async function () {
+      const root = ethers.keccak256(ethers.toUtf8Bytes("root"));
+      await commitmentChain.connect(police).createMerkleCommitment(root, 2, [await signer.getAddress()], [], 0, 0);
+      
+      await expect(
+        commitmentChain.connect(police).setContentCid(2, DAG_PB, rootDigest)
+      ).to.be.revertedWith("CommitmentChain: Not a single-document commitment");
     });
   });
   
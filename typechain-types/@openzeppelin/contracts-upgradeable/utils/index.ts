@@ -1,8 +1,11 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as cryptography from "./cryptography";
+export type { cryptography };
 import type * as introspection from "./introspection";
 export type { introspection };
 export type { ContextUpgradeable } from "./ContextUpgradeable";
+export type { NoncesUpgradeable } from "./NoncesUpgradeable";
 export type { PausableUpgradeable } from "./PausableUpgradeable";
 export type { ReentrancyGuardUpgradeable } from "./ReentrancyGuardUpgradeable";
@@ -1,4 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as extensions from "./extensions";
+export type { extensions };
 export type { IAccessControl } from "./IAccessControl";
@@ -4,3 +4,4 @@
 import type * as draftIerc1822Sol from "./draft-IERC1822.sol";
 export type { draftIerc1822Sol };
 export type { IERC1967 } from "./IERC1967";
+export type { IERC5267 } from "./IERC5267";
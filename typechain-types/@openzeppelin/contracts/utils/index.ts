@@ -1,7 +1,12 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as cryptography from "./cryptography";
+export type { cryptography };
 import type * as introspection from "./introspection";
 export type { introspection };
+import type * as math from "./math";
+export type { math };
 export type { Address } from "./Address";
 export type { Errors } from "./Errors";
+export type { Strings } from "./Strings";
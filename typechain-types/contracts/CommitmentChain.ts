@@ -23,61 +23,193 @@ import type {
   TypedContractMethod,
 } from "../common";
 
+export declare namespace CommitmentChain {
+  export type SignerInfoStruct = {
+    signerAddress: AddressLike;
+    hasSigned: boolean;
+    signedAt: BigNumberish;
+    signedBlock: BigNumberish;
+  };
+
+  export type SignerInfoStructOutput = [
+    signerAddress: string,
+    hasSigned: boolean,
+    signedAt: bigint,
+    signedBlock: bigint
+  ] & {
+    signerAddress: string;
+    hasSigned: boolean;
+    signedAt: bigint;
+    signedBlock: bigint;
+  };
+
+  export type WitnessInfoStruct = {
+    witnessAddress: AddressLike;
+    hasSigned: boolean;
+    signedAt: BigNumberish;
+    signedBlock: BigNumberish;
+  };
+
+  export type WitnessInfoStructOutput = [
+    witnessAddress: string,
+    hasSigned: boolean,
+    signedAt: bigint,
+    signedBlock: bigint
+  ] & {
+    witnessAddress: string;
+    hasSigned: boolean;
+    signedAt: bigint;
+    signedBlock: bigint;
+  };
+}
+
 export interface CommitmentChainInterface extends Interface {
   getFunction(
     nameOrSignature:
+      | "BAR_ADMIN_ROLE"
       | "DEFAULT_ADMIN_ROLE"
       | "EMERGENCY_ROLE"
       | "LAWYER_ROLE"
+      | "MAX_BATCH_SIZE"
+      | "MIN_UPGRADE_DELAY"
+      | "POLICE_ADMIN_ROLE"
       | "POLICE_ROLE"
+      | "SIGNATURE_ROLE_SIGNER"
+      | "SIGNATURE_ROLE_WITNESS"
+      | "SIGN_COMMITMENT_TYPEHASH"
       | "UPGRADE_INTERFACE_VERSION"
+      | "VERIFIER_ADMIN_ROLE"
       | "VERIFIER_ROLE"
+      | "amendCommitment"
+      | "cancelCommitment"
+      | "cancelUpgrade"
       | "commitmentCount"
-      | "commitments"
       | "createCommitment"
+      | "createCommitmentWithDeadline"
+      | "createCommitmentWithSigners"
+      | "createCommitmentsBatch"
+      | "createMerkleCommitment"
+      | "createOrganization"
+      | "declineAsSigner"
+      | "declineAsWitness"
+      | "eip712Domain"
+      | "extendDeadline"
       | "freezeCommitment"
+      | "freezeCommitmentWithReason"
+      | "getCancellationInfo"
       | "getCommitment"
+      | "getCommitmentOrganization"
+      | "getCommitmentStatus"
+      | "getCommitmentsByFileDigest"
+      | "getCommitmentsByFileHash"
+      | "getCommitmentsByOrganization"
+      | "getCommitmentsByParticipant"
+      | "getCompletionInfo"
+      | "getContentCid"
+      | "getDeclineInfo"
+      | "getDisputeInfo"
+      | "getExpiringMembers"
+      | "getFileDigest"
+      | "getFreezeInfo"
+      | "getInitiatorInfo"
       | "getRole"
       | "getRoleAdmin"
+      | "getRoleMember"
+      | "getRoleMemberCount"
+      | "getRoleMembers"
+      | "getSignerCount"
+      | "getSigners"
+      | "getSigningDeadline"
+      | "getUnsignedWitnesses"
+      | "getVersionChain"
       | "getWitnessCount"
+      | "getWitnessThreshold"
+      | "getWitnesses"
       | "grantRole"
+      | "grantRoleWithExpiry"
       | "hasRole"
+      | "hasSignerSigned"
       | "hasWitnessSigned"
       | "initialize"
+      | "initializeRoleAdmins"
+      | "nonces"
+      | "organizationCount"
+      | "organizationNames"
+      | "organizationOf"
       | "pause"
       | "paused"
+      | "pendingImplementation"
+      | "proposeUpgrade"
       | "proxiableUUID"
+      | "rejectVerification"
       | "renounceRole"
+      | "replaceWitness"
+      | "resolveDispute"
       | "revokeRole"
+      | "roleExpiresAt"
+      | "setAccountOrganization"
+      | "setContentCid"
+      | "setUniqueFileHashRequired"
+      | "setUpgradeDelay"
       | "signAsSigner"
+      | "signAsSignerBatch"
+      | "signAsSignerBySignature"
       | "signAsWitness"
+      | "signAsWitnessBatch"
+      | "signAsWitnessBySignature"
       | "supportsInterface"
       | "unfreezeCommitment"
+      | "uniqueFileHashRequired"
       | "unpause"
+      | "upgradeDelay"
+      | "upgradeReadyAt"
       | "upgradeToAndCall"
       | "verifyCommitment"
+      | "verifyInclusion"
       | "version"
       | "witnessSigned"
   ): FunctionFragment;
 
   getEvent(
     nameOrSignatureOrTopic:
+      | "AccountOrganizationSet"
+      | "CommitmentAmended"
+      | "CommitmentCancelled"
       | "CommitmentCompleted"
       | "CommitmentCreated"
+      | "CommitmentDeclined"
       | "CommitmentFrozen"
       | "CommitmentSigned"
+      | "CommitmentSuperseded"
       | "CommitmentUnfrozen"
       | "CommitmentVerified"
+      | "ContentCidSet"
       | "ContractUpgraded"
+      | "DeadlineExtended"
+      | "DisputeResolved"
+      | "EIP712DomainChanged"
+      | "FileHashPolicyUpdated"
       | "Initialized"
+      | "MerkleRootAnchored"
+      | "OrganizationCreated"
       | "Paused"
       | "RoleAdminChanged"
+      | "RoleExpirySet"
       | "RoleGranted"
       | "RoleRevoked"
       | "Unpaused"
+      | "UpgradeCancelled"
+      | "UpgradeDelayUpdated"
+      | "UpgradeProposed"
       | "Upgraded"
+      | "VerificationRejected"
+      | "WitnessReplaced"
   ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "BAR_ADMIN_ROLE",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "DEFAULT_ADMIN_ROLE",
     values?: undefined
@@ -90,38 +222,196 @@ export interface CommitmentChainInterface extends Interface {
     functionFragment: "LAWYER_ROLE",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BATCH_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_UPGRADE_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "POLICE_ADMIN_ROLE",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "POLICE_ROLE",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "SIGNATURE_ROLE_SIGNER",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SIGNATURE_ROLE_WITNESS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SIGN_COMMITMENT_TYPEHASH",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "UPGRADE_INTERFACE_VERSION",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "VERIFIER_ADMIN_ROLE",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "VERIFIER_ROLE",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "commitmentCount",
+    functionFragment: "amendCommitment",
+    values: [
+      BigNumberish,
+      BytesLike,
+      BigNumberish,
+      AddressLike[],
+      AddressLike[],
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelCommitment",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelUpgrade",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "commitments",
-    values: [BigNumberish]
+    functionFragment: "commitmentCount",
+    values?: undefined
   ): string;
   encodeFunctionData(
     functionFragment: "createCommitment",
-    values: [string, AddressLike, AddressLike[]]
+    values: [BytesLike, BigNumberish, AddressLike, AddressLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createCommitmentWithDeadline",
+    values: [BytesLike, BigNumberish, AddressLike, AddressLike[], BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createCommitmentWithSigners",
+    values: [
+      BytesLike,
+      BigNumberish,
+      AddressLike[],
+      AddressLike[],
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createCommitmentsBatch",
+    values: [BytesLike[], BigNumberish, AddressLike[][], AddressLike[][]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createMerkleCommitment",
+    values: [
+      BytesLike,
+      BigNumberish,
+      AddressLike[],
+      AddressLike[],
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createOrganization",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "declineAsSigner",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "declineAsWitness",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "eip712Domain",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "extendDeadline",
+    values: [BigNumberish, BigNumberish]
   ): string;
   encodeFunctionData(
     functionFragment: "freezeCommitment",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "freezeCommitmentWithReason",
+    values: [BigNumberish, BigNumberish, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCancellationInfo",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getCommitment",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getCommitmentOrganization",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCommitmentStatus",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCommitmentsByFileDigest",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCommitmentsByFileHash",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCommitmentsByOrganization",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCommitmentsByParticipant",
+    values: [AddressLike, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCompletionInfo",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getContentCid",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDeclineInfo",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDisputeInfo",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getExpiringMembers",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFileDigest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFreezeInfo",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getInitiatorInfo",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getRole",
     values: [BigNumberish, AddressLike]
@@ -130,18 +420,66 @@ export interface CommitmentChainInterface extends Interface {
     functionFragment: "getRoleAdmin",
     values: [BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleMember",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleMemberCount",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleMembers",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSignerCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSigners",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSigningDeadline",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUnsignedWitnesses",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getVersionChain",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getWitnessCount",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getWitnessThreshold",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getWitnesses",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "grantRole",
     values: [BytesLike, AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "grantRoleWithExpiry",
+    values: [BytesLike, AddressLike, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "hasRole",
     values: [BytesLike, AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "hasSignerSigned",
+    values: [BigNumberish, AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "hasWitnessSigned",
     values: [BigNumberish, AddressLike]
@@ -150,28 +488,101 @@ export interface CommitmentChainInterface extends Interface {
     functionFragment: "initialize",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "initializeRoleAdmins",
+    values: [BytesLike[], AddressLike[]]
+  ): string;
+  encodeFunctionData(functionFragment: "nonces", values: [AddressLike]): string;
+  encodeFunctionData(
+    functionFragment: "organizationCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "organizationNames",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "organizationOf",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(functionFragment: "pause", values?: undefined): string;
   encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingImplementation",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposeUpgrade",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "proxiableUUID",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "rejectVerification",
+    values: [BigNumberish, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "renounceRole",
     values: [BytesLike, AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "replaceWitness",
+    values: [BigNumberish, AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resolveDispute",
+    values: [BigNumberish, boolean]
+  ): string;
   encodeFunctionData(
     functionFragment: "revokeRole",
     values: [BytesLike, AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "roleExpiresAt",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAccountOrganization",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setContentCid",
+    values: [BigNumberish, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setUniqueFileHashRequired",
+    values: [boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setUpgradeDelay",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "signAsSigner",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "signAsSignerBatch",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "signAsSignerBySignature",
+    values: [BigNumberish, AddressLike, BigNumberish, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "signAsWitness",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "signAsWitnessBatch",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "signAsWitnessBySignature",
+    values: [BigNumberish, AddressLike, BigNumberish, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "supportsInterface",
     values: [BytesLike]
@@ -180,7 +591,19 @@ export interface CommitmentChainInterface extends Interface {
     functionFragment: "unfreezeCommitment",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "uniqueFileHashRequired",
+    values?: undefined
+  ): string;
   encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "upgradeDelay",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "upgradeReadyAt",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "upgradeToAndCall",
     values: [AddressLike, BytesLike]
@@ -189,12 +612,20 @@ export interface CommitmentChainInterface extends Interface {
     functionFragment: "verifyCommitment",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "verifyInclusion",
+    values: [BigNumberish, BytesLike, BytesLike[]]
+  ): string;
   encodeFunctionData(functionFragment: "version", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "witnessSigned",
     values: [BigNumberish, AddressLike]
   ): string;
 
+  decodeFunctionResult(
+    functionFragment: "BAR_ADMIN_ROLE",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "DEFAULT_ADMIN_ROLE",
     data: BytesLike
@@ -207,24 +638,60 @@ export interface CommitmentChainInterface extends Interface {
     functionFragment: "LAWYER_ROLE",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BATCH_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_UPGRADE_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "POLICE_ADMIN_ROLE",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "POLICE_ROLE",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "SIGNATURE_ROLE_SIGNER",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SIGNATURE_ROLE_WITNESS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SIGN_COMMITMENT_TYPEHASH",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "UPGRADE_INTERFACE_VERSION",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "VERIFIER_ADMIN_ROLE",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "VERIFIER_ROLE",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "commitmentCount",
+    functionFragment: "amendCommitment",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "commitments",
+    functionFragment: "cancelCommitment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelUpgrade",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "commitmentCount",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
@@ -232,78 +699,387 @@ export interface CommitmentChainInterface extends Interface {
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "freezeCommitment",
+    functionFragment: "createCommitmentWithDeadline",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "getCommitment",
+    functionFragment: "createCommitmentWithSigners",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "getRole", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "getRoleAdmin",
+    functionFragment: "createCommitmentsBatch",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "getWitnessCount",
+    functionFragment: "createMerkleCommitment",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
-  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "hasWitnessSigned",
+    functionFragment: "createOrganization",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
-  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
-  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "proxiableUUID",
+    functionFragment: "declineAsSigner",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "renounceRole",
+    functionFragment: "declineAsWitness",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "signAsSigner",
+    functionFragment: "eip712Domain",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "signAsWitness",
+    functionFragment: "extendDeadline",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "supportsInterface",
+    functionFragment: "freezeCommitment",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "unfreezeCommitment",
+    functionFragment: "freezeCommitmentWithReason",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "upgradeToAndCall",
+    functionFragment: "getCancellationInfo",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "verifyCommitment",
+    functionFragment: "getCommitment",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "version", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "witnessSigned",
+    functionFragment: "getCommitmentOrganization",
     data: BytesLike
   ): Result;
-}
-
-export namespace CommitmentCompletedEvent {
-  export type InputTuple = [id: BigNumberish, timestamp: BigNumberish];
-  export type OutputTuple = [id: bigint, timestamp: bigint];
-  export interface OutputObject {
-    id: bigint;
-    timestamp: bigint;
+  decodeFunctionResult(
+    functionFragment: "getCommitmentStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCommitmentsByFileDigest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCommitmentsByFileHash",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCommitmentsByOrganization",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCommitmentsByParticipant",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCompletionInfo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getContentCid",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDeclineInfo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDisputeInfo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getExpiringMembers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getFileDigest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getFreezeInfo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getInitiatorInfo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleMember",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleMemberCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleMembers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSignerCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getSigners", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getSigningDeadline",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUnsignedWitnesses",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getVersionChain",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getWitnessCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getWitnessThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getWitnesses",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "grantRoleWithExpiry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "hasSignerSigned",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasWitnessSigned",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "initializeRoleAdmins",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "nonces", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "organizationCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "organizationNames",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "organizationOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingImplementation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposeUpgrade",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proxiableUUID",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rejectVerification",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "replaceWitness",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resolveDispute",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "roleExpiresAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAccountOrganization",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setContentCid",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setUniqueFileHashRequired",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setUpgradeDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "signAsSigner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "signAsSignerBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "signAsSignerBySignature",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "signAsWitness",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "signAsWitnessBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "signAsWitnessBySignature",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unfreezeCommitment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "uniqueFileHashRequired",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "upgradeDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "upgradeReadyAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "upgradeToAndCall",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verifyCommitment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verifyInclusion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "version", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "witnessSigned",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AccountOrganizationSetEvent {
+  export type InputTuple = [
+    account: AddressLike,
+    organizationId: BigNumberish,
+    updatedBy: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    account: string,
+    organizationId: bigint,
+    updatedBy: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    account: string;
+    organizationId: bigint;
+    updatedBy: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitmentAmendedEvent {
+  export type InputTuple = [
+    parentId: BigNumberish,
+    childId: BigNumberish,
+    initiator: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    parentId: bigint,
+    childId: bigint,
+    initiator: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    parentId: bigint;
+    childId: bigint;
+    initiator: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitmentCancelledEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    canceller: AddressLike,
+    reasonHash: BytesLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    canceller: string,
+    reasonHash: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    canceller: string;
+    reasonHash: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitmentCompletedEvent {
+  export type InputTuple = [id: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [id: bigint, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    timestamp: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -316,21 +1092,52 @@ export namespace CommitmentCreatedEvent {
     id: BigNumberish,
     initiator: AddressLike,
     signer: AddressLike,
-    fileHash: string,
+    fileDigest: BytesLike,
+    hashAlgorithm: BigNumberish,
     timestamp: BigNumberish
   ];
   export type OutputTuple = [
     id: bigint,
     initiator: string,
     signer: string,
-    fileHash: string,
+    fileDigest: string,
+    hashAlgorithm: bigint,
     timestamp: bigint
   ];
   export interface OutputObject {
     id: bigint;
     initiator: string;
     signer: string;
-    fileHash: string;
+    fileDigest: string;
+    hashAlgorithm: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitmentDeclinedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    decliner: AddressLike,
+    role: string,
+    reasonHash: BytesLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    decliner: string,
+    role: string,
+    reasonHash: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    decliner: string;
+    role: string;
+    reasonHash: string;
     timestamp: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
@@ -343,12 +1150,25 @@ export namespace CommitmentFrozenEvent {
   export type InputTuple = [
     id: BigNumberish,
     freezer: AddressLike,
+    reason: BigNumberish,
+    caseRef: BytesLike,
+    unfreezeAt: BigNumberish,
     timestamp: BigNumberish
   ];
-  export type OutputTuple = [id: bigint, freezer: string, timestamp: bigint];
+  export type OutputTuple = [
+    id: bigint,
+    freezer: string,
+    reason: bigint,
+    caseRef: string,
+    unfreezeAt: bigint,
+    timestamp: bigint
+  ];
   export interface OutputObject {
     id: bigint;
     freezer: string;
+    reason: bigint;
+    caseRef: string;
+    unfreezeAt: bigint;
     timestamp: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
@@ -382,6 +1202,28 @@ export namespace CommitmentSignedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace CommitmentSupersededEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    supersededBy: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    supersededBy: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    supersededBy: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace CommitmentUnfrozenEvent {
   export type InputTuple = [
     id: BigNumberish,
@@ -418,6 +1260,31 @@ export namespace CommitmentVerifiedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace ContentCidSetEvent {
+  export type InputTuple = [
+    commitmentId: BigNumberish,
+    codec: BigNumberish,
+    digest: BytesLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    commitmentId: bigint,
+    codec: bigint,
+    digest: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    commitmentId: bigint;
+    codec: bigint;
+    digest: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace ContractUpgradedEvent {
   export type InputTuple = [
     previousImplementation: AddressLike,
@@ -440,6 +1307,88 @@ export namespace ContractUpgradedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace DeadlineExtendedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    oldDeadline: BigNumberish,
+    newDeadline: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    oldDeadline: bigint,
+    newDeadline: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    oldDeadline: bigint;
+    newDeadline: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeResolvedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    resolvedBy: AddressLike,
+    upheld: boolean,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    resolvedBy: string,
+    upheld: boolean,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    resolvedBy: string;
+    upheld: boolean;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EIP712DomainChangedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FileHashPolicyUpdatedEvent {
+  export type InputTuple = [
+    uniqueFileHashRequired: boolean,
+    updatedBy: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    uniqueFileHashRequired: boolean,
+    updatedBy: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    uniqueFileHashRequired: boolean;
+    updatedBy: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace InitializedEvent {
   export type InputTuple = [version: BigNumberish];
   export type OutputTuple = [version: bigint];
@@ -452,6 +1401,56 @@ export namespace InitializedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace MerkleRootAnchoredEvent {
+  export type InputTuple = [
+    commitmentId: BigNumberish,
+    merkleRoot: BytesLike,
+    leafCount: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    commitmentId: bigint,
+    merkleRoot: string,
+    leafCount: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    commitmentId: bigint;
+    merkleRoot: string;
+    leafCount: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OrganizationCreatedEvent {
+  export type InputTuple = [
+    organizationId: BigNumberish,
+    name: string,
+    createdBy: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    organizationId: bigint,
+    name: string,
+    createdBy: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    organizationId: bigint;
+    name: string;
+    createdBy: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace PausedEvent {
   export type InputTuple = [account: AddressLike];
   export type OutputTuple = [account: string];
@@ -486,6 +1485,24 @@ export namespace RoleAdminChangedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace RoleExpirySetEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    expiresAt: BigNumberish
+  ];
+  export type OutputTuple = [role: string, account: string, expiresAt: bigint];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    expiresAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace RoleGrantedEvent {
   export type InputTuple = [
     role: BytesLike,
@@ -512,9 +1529,84 @@ export namespace RoleRevokedEvent {
   ];
   export type OutputTuple = [role: string, account: string, sender: string];
   export interface OutputObject {
-    role: string;
-    account: string;
-    sender: string;
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UpgradeCancelledEvent {
+  export type InputTuple = [
+    implementation: AddressLike,
+    cancelledBy: AddressLike
+  ];
+  export type OutputTuple = [implementation: string, cancelledBy: string];
+  export interface OutputObject {
+    implementation: string;
+    cancelledBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UpgradeDelayUpdatedEvent {
+  export type InputTuple = [oldDelay: BigNumberish, newDelay: BigNumberish];
+  export type OutputTuple = [oldDelay: bigint, newDelay: bigint];
+  export interface OutputObject {
+    oldDelay: bigint;
+    newDelay: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UpgradeProposedEvent {
+  export type InputTuple = [
+    implementation: AddressLike,
+    proposedBy: AddressLike,
+    readyAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    implementation: string,
+    proposedBy: string,
+    readyAt: bigint
+  ];
+  export interface OutputObject {
+    implementation: string;
+    proposedBy: string;
+    readyAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UpgradedEvent {
+  export type InputTuple = [implementation: AddressLike];
+  export type OutputTuple = [implementation: string];
+  export interface OutputObject {
+    implementation: string;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -522,11 +1614,24 @@ export namespace RoleRevokedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace UnpausedEvent {
-  export type InputTuple = [account: AddressLike];
-  export type OutputTuple = [account: string];
+export namespace VerificationRejectedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    verifier: AddressLike,
+    reasonHash: BytesLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    verifier: string,
+    reasonHash: string,
+    timestamp: bigint
+  ];
   export interface OutputObject {
-    account: string;
+    id: bigint;
+    verifier: string;
+    reasonHash: string;
+    timestamp: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -534,11 +1639,27 @@ export namespace UnpausedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace UpgradedEvent {
-  export type InputTuple = [implementation: AddressLike];
-  export type OutputTuple = [implementation: string];
+export namespace WitnessReplacedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    oldWitness: AddressLike,
+    newWitness: AddressLike,
+    replacedBy: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    oldWitness: string,
+    newWitness: string,
+    replacedBy: string,
+    timestamp: bigint
+  ];
   export interface OutputObject {
-    implementation: string;
+    id: bigint;
+    oldWitness: string;
+    newWitness: string;
+    replacedBy: string;
+    timestamp: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -589,55 +1710,155 @@ export interface CommitmentChain extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
+  BAR_ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
   DEFAULT_ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
 
   EMERGENCY_ROLE: TypedContractMethod<[], [string], "view">;
 
   LAWYER_ROLE: TypedContractMethod<[], [string], "view">;
 
+  MAX_BATCH_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_UPGRADE_DELAY: TypedContractMethod<[], [bigint], "view">;
+
+  POLICE_ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
   POLICE_ROLE: TypedContractMethod<[], [string], "view">;
 
+  SIGNATURE_ROLE_SIGNER: TypedContractMethod<[], [bigint], "view">;
+
+  SIGNATURE_ROLE_WITNESS: TypedContractMethod<[], [bigint], "view">;
+
+  SIGN_COMMITMENT_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
   UPGRADE_INTERFACE_VERSION: TypedContractMethod<[], [string], "view">;
 
+  VERIFIER_ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
   VERIFIER_ROLE: TypedContractMethod<[], [string], "view">;
 
+  amendCommitment: TypedContractMethod<
+    [
+      _parentId: BigNumberish,
+      _newFileDigest: BytesLike,
+      _hashAlgorithm: BigNumberish,
+      _signers: AddressLike[],
+      _witnesses: AddressLike[],
+      _witnessThreshold: BigNumberish,
+      _deadline: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  cancelCommitment: TypedContractMethod<
+    [_commitmentId: BigNumberish, _reasonHash: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  cancelUpgrade: TypedContractMethod<[], [void], "nonpayable">;
+
   commitmentCount: TypedContractMethod<[], [bigint], "view">;
 
-  commitments: TypedContractMethod<
-    [arg0: BigNumberish],
+  createCommitment: TypedContractMethod<
     [
-      [
-        bigint,
-        string,
-        string,
-        string,
-        bigint,
-        boolean,
-        boolean,
-        bigint,
-        boolean,
-        boolean,
-        boolean
-      ] & {
-        id: bigint;
-        initiator: string;
-        signer: string;
-        fileHash: string;
-        createdAt: bigint;
-        initiatorSigned: boolean;
-        signerSigned: boolean;
-        witnessSignedCount: bigint;
-        isCompleted: boolean;
-        isFrozen: boolean;
-        isVerified: boolean;
+      _fileDigest: BytesLike,
+      _hashAlgorithm: BigNumberish,
+      _signer: AddressLike,
+      _witnesses: AddressLike[]
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createCommitmentWithDeadline: TypedContractMethod<
+    [
+      _fileDigest: BytesLike,
+      _hashAlgorithm: BigNumberish,
+      _signer: AddressLike,
+      _witnesses: AddressLike[],
+      _deadline: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createCommitmentWithSigners: TypedContractMethod<
+    [
+      _fileDigest: BytesLike,
+      _hashAlgorithm: BigNumberish,
+      _signers: AddressLike[],
+      _witnesses: AddressLike[],
+      _witnessThreshold: BigNumberish,
+      _deadline: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createCommitmentsBatch: TypedContractMethod<
+    [
+      _fileDigests: BytesLike[],
+      _hashAlgorithm: BigNumberish,
+      _signers: AddressLike[][],
+      _witnesses: AddressLike[][]
+    ],
+    [bigint[]],
+    "nonpayable"
+  >;
+
+  createMerkleCommitment: TypedContractMethod<
+    [
+      _merkleRoot: BytesLike,
+      _leafCount: BigNumberish,
+      _signers: AddressLike[],
+      _witnesses: AddressLike[],
+      _witnessThreshold: BigNumberish,
+      _deadline: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createOrganization: TypedContractMethod<
+    [_name: string],
+    [bigint],
+    "nonpayable"
+  >;
+
+  declineAsSigner: TypedContractMethod<
+    [_commitmentId: BigNumberish, _reasonHash: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  declineAsWitness: TypedContractMethod<
+    [_commitmentId: BigNumberish, _reasonHash: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  eip712Domain: TypedContractMethod<
+    [],
+    [
+      [string, string, string, bigint, string, string, bigint[]] & {
+        fields: string;
+        name: string;
+        version: string;
+        chainId: bigint;
+        verifyingContract: string;
+        salt: string;
+        extensions: bigint[];
       }
     ],
     "view"
   >;
 
-  createCommitment: TypedContractMethod<
-    [_fileHash: string, _signer: AddressLike, _witnesses: AddressLike[]],
-    [bigint],
+  extendDeadline: TypedContractMethod<
+    [_commitmentId: BigNumberish, _newDeadline: BigNumberish],
+    [void],
     "nonpayable"
   >;
 
@@ -647,35 +1868,189 @@ export interface CommitmentChain extends BaseContract {
     "nonpayable"
   >;
 
+  freezeCommitmentWithReason: TypedContractMethod<
+    [
+      _commitmentId: BigNumberish,
+      _reason: BigNumberish,
+      _caseRef: BytesLike,
+      _unfreezeAt: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getCancellationInfo: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [
+      [string, string, bigint] & {
+        cancelledBy: string;
+        reasonHash: string;
+        cancelledAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
   getCommitment: TypedContractMethod<
     [_commitmentId: BigNumberish],
     [
       [
         bigint,
         string,
-        string,
+        string[],
         string[],
         string,
         bigint,
         boolean,
         boolean,
         bigint,
+        bigint,
+        boolean,
         boolean,
         boolean,
         boolean
       ] & {
         id: bigint;
         initiator: string;
-        signer: string;
+        signers: string[];
         witnesses: string[];
         fileHash: string;
         createdAt: bigint;
         initiatorSigned: boolean;
         signerSigned: boolean;
+        signerSignedCount: bigint;
         witnessSignedCount: bigint;
         isCompleted: boolean;
         isFrozen: boolean;
         isVerified: boolean;
+        isCancelled: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getCommitmentOrganization: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getCommitmentStatus: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getCommitmentsByFileDigest: TypedContractMethod<
+    [_fileDigest: BytesLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getCommitmentsByFileHash: TypedContractMethod<
+    [_fileHash: string],
+    [bigint[]],
+    "view"
+  >;
+
+  getCommitmentsByOrganization: TypedContractMethod<
+    [
+      _organizationId: BigNumberish,
+      _offset: BigNumberish,
+      _limit: BigNumberish
+    ],
+    [[bigint[], bigint] & { ids: bigint[]; total: bigint }],
+    "view"
+  >;
+
+  getCommitmentsByParticipant: TypedContractMethod<
+    [
+      _participant: AddressLike,
+      _role: BigNumberish,
+      _offset: BigNumberish,
+      _limit: BigNumberish
+    ],
+    [[bigint[], bigint] & { ids: bigint[]; total: bigint }],
+    "view"
+  >;
+
+  getCompletionInfo: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [
+      [boolean, bigint, bigint] & {
+        isCompleted: boolean;
+        completedAt: bigint;
+        completedBlock: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getContentCid: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [[bigint, string] & { codec: bigint; digest: string }],
+    "view"
+  >;
+
+  getDeclineInfo: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [
+      [string, string, bigint] & {
+        declinedBy: string;
+        reasonHash: string;
+        declinedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getDisputeInfo: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [
+      [string, string, bigint, boolean] & {
+        disputedBy: string;
+        reasonHash: string;
+        disputedAt: bigint;
+        resolved: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getExpiringMembers: TypedContractMethod<
+    [_role: BytesLike, _before: BigNumberish],
+    [[string[], bigint[]] & { accounts: string[]; expiresAt: bigint[] }],
+    "view"
+  >;
+
+  getFileDigest: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [[string, bigint] & { fileDigest: string; hashAlgorithm: bigint }],
+    "view"
+  >;
+
+  getFreezeInfo: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [
+      [boolean, bigint, string, string, bigint, bigint] & {
+        frozen: boolean;
+        reason: bigint;
+        caseRef: string;
+        frozenBy: string;
+        frozenAt: bigint;
+        unfreezeAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getInitiatorInfo: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [
+      [string, bigint, bigint] & {
+        initiator: string;
+        signedAt: bigint;
+        signedBlock: bigint;
       }
     ],
     "view"
@@ -689,24 +2064,88 @@ export interface CommitmentChain extends BaseContract {
 
   getRoleAdmin: TypedContractMethod<[role: BytesLike], [string], "view">;
 
+  getRoleMember: TypedContractMethod<
+    [role: BytesLike, index: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getRoleMemberCount: TypedContractMethod<[role: BytesLike], [bigint], "view">;
+
+  getRoleMembers: TypedContractMethod<[role: BytesLike], [string[]], "view">;
+
+  getSignerCount: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getSigners: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [CommitmentChain.SignerInfoStructOutput[]],
+    "view"
+  >;
+
+  getSigningDeadline: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getUnsignedWitnesses: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getVersionChain: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
   getWitnessCount: TypedContractMethod<
     [_commitmentId: BigNumberish],
     [bigint],
     "view"
   >;
 
+  getWitnessThreshold: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getWitnesses: TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [CommitmentChain.WitnessInfoStructOutput[]],
+    "view"
+  >;
+
   grantRole: TypedContractMethod<
     [role: BytesLike, account: AddressLike],
     [void],
     "nonpayable"
   >;
 
+  grantRoleWithExpiry: TypedContractMethod<
+    [_role: BytesLike, _account: AddressLike, _expiresAt: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   hasRole: TypedContractMethod<
     [role: BytesLike, account: AddressLike],
     [boolean],
     "view"
   >;
 
+  hasSignerSigned: TypedContractMethod<
+    [_commitmentId: BigNumberish, _signer: AddressLike],
+    [boolean],
+    "view"
+  >;
+
   hasWitnessSigned: TypedContractMethod<
     [_commitmentId: BigNumberish, _witness: AddressLike],
     [boolean],
@@ -715,36 +2154,148 @@ export interface CommitmentChain extends BaseContract {
 
   initialize: TypedContractMethod<[admin: AddressLike], [void], "nonpayable">;
 
+  initializeRoleAdmins: TypedContractMethod<
+    [_roles: BytesLike[], _accounts: AddressLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  nonces: TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+
+  organizationCount: TypedContractMethod<[], [bigint], "view">;
+
+  organizationNames: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  organizationOf: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
   pause: TypedContractMethod<[], [void], "nonpayable">;
 
   paused: TypedContractMethod<[], [boolean], "view">;
 
+  pendingImplementation: TypedContractMethod<[], [string], "view">;
+
+  proposeUpgrade: TypedContractMethod<
+    [_implementation: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
   proxiableUUID: TypedContractMethod<[], [string], "view">;
 
+  rejectVerification: TypedContractMethod<
+    [_commitmentId: BigNumberish, _reasonHash: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
   renounceRole: TypedContractMethod<
     [role: BytesLike, callerConfirmation: AddressLike],
     [void],
     "nonpayable"
   >;
 
+  replaceWitness: TypedContractMethod<
+    [
+      _commitmentId: BigNumberish,
+      _oldWitness: AddressLike,
+      _newWitness: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  resolveDispute: TypedContractMethod<
+    [_commitmentId: BigNumberish, _upheld: boolean],
+    [void],
+    "nonpayable"
+  >;
+
   revokeRole: TypedContractMethod<
     [role: BytesLike, account: AddressLike],
     [void],
     "nonpayable"
   >;
 
+  roleExpiresAt: TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  setAccountOrganization: TypedContractMethod<
+    [_account: AddressLike, _organizationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setContentCid: TypedContractMethod<
+    [_commitmentId: BigNumberish, _codec: BigNumberish, _digest: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setUniqueFileHashRequired: TypedContractMethod<
+    [_required: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setUpgradeDelay: TypedContractMethod<
+    [_delay: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   signAsSigner: TypedContractMethod<
     [_commitmentId: BigNumberish],
     [void],
     "nonpayable"
   >;
 
+  signAsSignerBatch: TypedContractMethod<
+    [_commitmentIds: BigNumberish[]],
+    [boolean[]],
+    "nonpayable"
+  >;
+
+  signAsSignerBySignature: TypedContractMethod<
+    [
+      _commitmentId: BigNumberish,
+      _signer: AddressLike,
+      _deadline: BigNumberish,
+      _signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
   signAsWitness: TypedContractMethod<
     [_commitmentId: BigNumberish],
     [void],
     "nonpayable"
   >;
 
+  signAsWitnessBatch: TypedContractMethod<
+    [_commitmentIds: BigNumberish[]],
+    [boolean[]],
+    "nonpayable"
+  >;
+
+  signAsWitnessBySignature: TypedContractMethod<
+    [
+      _commitmentId: BigNumberish,
+      _witness: AddressLike,
+      _deadline: BigNumberish,
+      _signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
   supportsInterface: TypedContractMethod<
     [interfaceId: BytesLike],
     [boolean],
@@ -757,8 +2308,14 @@ export interface CommitmentChain extends BaseContract {
     "nonpayable"
   >;
 
+  uniqueFileHashRequired: TypedContractMethod<[], [boolean], "view">;
+
   unpause: TypedContractMethod<[], [void], "nonpayable">;
 
+  upgradeDelay: TypedContractMethod<[], [bigint], "view">;
+
+  upgradeReadyAt: TypedContractMethod<[], [bigint], "view">;
+
   upgradeToAndCall: TypedContractMethod<
     [newImplementation: AddressLike, data: BytesLike],
     [void],
@@ -771,6 +2328,12 @@ export interface CommitmentChain extends BaseContract {
     "nonpayable"
   >;
 
+  verifyInclusion: TypedContractMethod<
+    [_commitmentId: BigNumberish, _leafHash: BytesLike, _proof: BytesLike[]],
+    [boolean],
+    "view"
+  >;
+
   version: TypedContractMethod<[], [string], "view">;
 
   witnessSigned: TypedContractMethod<
@@ -783,6 +2346,9 @@ export interface CommitmentChain extends BaseContract {
     key: string | FunctionFragment
   ): T;
 
+  getFunction(
+    nameOrSignature: "BAR_ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "DEFAULT_ADMIN_ROLE"
   ): TypedContractMethod<[], [string], "view">;
@@ -792,92 +2358,358 @@ export interface CommitmentChain extends BaseContract {
   getFunction(
     nameOrSignature: "LAWYER_ROLE"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BATCH_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_UPGRADE_DELAY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "POLICE_ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "POLICE_ROLE"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "SIGNATURE_ROLE_SIGNER"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SIGNATURE_ROLE_WITNESS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SIGN_COMMITMENT_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "UPGRADE_INTERFACE_VERSION"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "VERIFIER_ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "VERIFIER_ROLE"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "amendCommitment"
+  ): TypedContractMethod<
+    [
+      _parentId: BigNumberish,
+      _newFileDigest: BytesLike,
+      _hashAlgorithm: BigNumberish,
+      _signers: AddressLike[],
+      _witnesses: AddressLike[],
+      _witnessThreshold: BigNumberish,
+      _deadline: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cancelCommitment"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish, _reasonHash: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cancelUpgrade"
+  ): TypedContractMethod<[], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "commitmentCount"
   ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
-    nameOrSignature: "commitments"
+    nameOrSignature: "createCommitment"
+  ): TypedContractMethod<
+    [
+      _fileDigest: BytesLike,
+      _hashAlgorithm: BigNumberish,
+      _signer: AddressLike,
+      _witnesses: AddressLike[]
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createCommitmentWithDeadline"
   ): TypedContractMethod<
-    [arg0: BigNumberish],
+    [
+      _fileDigest: BytesLike,
+      _hashAlgorithm: BigNumberish,
+      _signer: AddressLike,
+      _witnesses: AddressLike[],
+      _deadline: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createCommitmentWithSigners"
+  ): TypedContractMethod<
+    [
+      _fileDigest: BytesLike,
+      _hashAlgorithm: BigNumberish,
+      _signers: AddressLike[],
+      _witnesses: AddressLike[],
+      _witnessThreshold: BigNumberish,
+      _deadline: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createCommitmentsBatch"
+  ): TypedContractMethod<
+    [
+      _fileDigests: BytesLike[],
+      _hashAlgorithm: BigNumberish,
+      _signers: AddressLike[][],
+      _witnesses: AddressLike[][]
+    ],
+    [bigint[]],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createMerkleCommitment"
+  ): TypedContractMethod<
+    [
+      _merkleRoot: BytesLike,
+      _leafCount: BigNumberish,
+      _signers: AddressLike[],
+      _witnesses: AddressLike[],
+      _witnessThreshold: BigNumberish,
+      _deadline: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createOrganization"
+  ): TypedContractMethod<[_name: string], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "declineAsSigner"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish, _reasonHash: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "declineAsWitness"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish, _reasonHash: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "eip712Domain"
+  ): TypedContractMethod<
+    [],
+    [
+      [string, string, string, bigint, string, string, bigint[]] & {
+        fields: string;
+        name: string;
+        version: string;
+        chainId: bigint;
+        verifyingContract: string;
+        salt: string;
+        extensions: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "extendDeadline"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish, _newDeadline: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "freezeCommitment"
+  ): TypedContractMethod<[_commitmentId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "freezeCommitmentWithReason"
+  ): TypedContractMethod<
+    [
+      _commitmentId: BigNumberish,
+      _reason: BigNumberish,
+      _caseRef: BytesLike,
+      _unfreezeAt: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getCancellationInfo"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [
+      [string, string, bigint] & {
+        cancelledBy: string;
+        reasonHash: string;
+        cancelledAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCommitment"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish],
     [
       [
         bigint,
         string,
-        string,
+        string[],
+        string[],
         string,
         bigint,
         boolean,
         boolean,
         bigint,
+        bigint,
+        boolean,
         boolean,
         boolean,
         boolean
       ] & {
         id: bigint;
         initiator: string;
-        signer: string;
+        signers: string[];
+        witnesses: string[];
         fileHash: string;
         createdAt: bigint;
         initiatorSigned: boolean;
         signerSigned: boolean;
+        signerSignedCount: bigint;
         witnessSignedCount: bigint;
         isCompleted: boolean;
         isFrozen: boolean;
         isVerified: boolean;
+        isCancelled: boolean;
       }
     ],
     "view"
   >;
   getFunction(
-    nameOrSignature: "createCommitment"
+    nameOrSignature: "getCommitmentOrganization"
+  ): TypedContractMethod<[_commitmentId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getCommitmentStatus"
+  ): TypedContractMethod<[_commitmentId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getCommitmentsByFileDigest"
+  ): TypedContractMethod<[_fileDigest: BytesLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getCommitmentsByFileHash"
+  ): TypedContractMethod<[_fileHash: string], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getCommitmentsByOrganization"
   ): TypedContractMethod<
-    [_fileHash: string, _signer: AddressLike, _witnesses: AddressLike[]],
-    [bigint],
-    "nonpayable"
+    [
+      _organizationId: BigNumberish,
+      _offset: BigNumberish,
+      _limit: BigNumberish
+    ],
+    [[bigint[], bigint] & { ids: bigint[]; total: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCommitmentsByParticipant"
+  ): TypedContractMethod<
+    [
+      _participant: AddressLike,
+      _role: BigNumberish,
+      _offset: BigNumberish,
+      _limit: BigNumberish
+    ],
+    [[bigint[], bigint] & { ids: bigint[]; total: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCompletionInfo"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [
+      [boolean, bigint, bigint] & {
+        isCompleted: boolean;
+        completedAt: bigint;
+        completedBlock: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getContentCid"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [[bigint, string] & { codec: bigint; digest: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDeclineInfo"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [
+      [string, string, bigint] & {
+        declinedBy: string;
+        reasonHash: string;
+        declinedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDisputeInfo"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [
+      [string, string, bigint, boolean] & {
+        disputedBy: string;
+        reasonHash: string;
+        disputedAt: bigint;
+        resolved: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getExpiringMembers"
+  ): TypedContractMethod<
+    [_role: BytesLike, _before: BigNumberish],
+    [[string[], bigint[]] & { accounts: string[]; expiresAt: bigint[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getFileDigest"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [[string, bigint] & { fileDigest: string; hashAlgorithm: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getFreezeInfo"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [
+      [boolean, bigint, string, string, bigint, bigint] & {
+        frozen: boolean;
+        reason: bigint;
+        caseRef: string;
+        frozenBy: string;
+        frozenAt: bigint;
+        unfreezeAt: bigint;
+      }
+    ],
+    "view"
   >;
   getFunction(
-    nameOrSignature: "freezeCommitment"
-  ): TypedContractMethod<[_commitmentId: BigNumberish], [void], "nonpayable">;
-  getFunction(
-    nameOrSignature: "getCommitment"
+    nameOrSignature: "getInitiatorInfo"
   ): TypedContractMethod<
     [_commitmentId: BigNumberish],
     [
-      [
-        bigint,
-        string,
-        string,
-        string[],
-        string,
-        bigint,
-        boolean,
-        boolean,
-        bigint,
-        boolean,
-        boolean,
-        boolean
-      ] & {
-        id: bigint;
+      [string, bigint, bigint] & {
         initiator: string;
-        signer: string;
-        witnesses: string[];
-        fileHash: string;
-        createdAt: bigint;
-        initiatorSigned: boolean;
-        signerSigned: boolean;
-        witnessSignedCount: bigint;
-        isCompleted: boolean;
-        isFrozen: boolean;
-        isVerified: boolean;
+        signedAt: bigint;
+        signedBlock: bigint;
       }
     ],
     "view"
@@ -892,9 +2724,51 @@ export interface CommitmentChain extends BaseContract {
   getFunction(
     nameOrSignature: "getRoleAdmin"
   ): TypedContractMethod<[role: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getRoleMember"
+  ): TypedContractMethod<
+    [role: BytesLike, index: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRoleMemberCount"
+  ): TypedContractMethod<[role: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getRoleMembers"
+  ): TypedContractMethod<[role: BytesLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getSignerCount"
+  ): TypedContractMethod<[_commitmentId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getSigners"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [CommitmentChain.SignerInfoStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSigningDeadline"
+  ): TypedContractMethod<[_commitmentId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getUnsignedWitnesses"
+  ): TypedContractMethod<[_commitmentId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getVersionChain"
+  ): TypedContractMethod<[_commitmentId: BigNumberish], [bigint[]], "view">;
   getFunction(
     nameOrSignature: "getWitnessCount"
   ): TypedContractMethod<[_commitmentId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getWitnessThreshold"
+  ): TypedContractMethod<[_commitmentId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getWitnesses"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish],
+    [CommitmentChain.WitnessInfoStructOutput[]],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "grantRole"
   ): TypedContractMethod<
@@ -902,6 +2776,13 @@ export interface CommitmentChain extends BaseContract {
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "grantRoleWithExpiry"
+  ): TypedContractMethod<
+    [_role: BytesLike, _account: AddressLike, _expiresAt: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "hasRole"
   ): TypedContractMethod<
@@ -909,6 +2790,13 @@ export interface CommitmentChain extends BaseContract {
     [boolean],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "hasSignerSigned"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish, _signer: AddressLike],
+    [boolean],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "hasWitnessSigned"
   ): TypedContractMethod<
@@ -919,15 +2807,47 @@ export interface CommitmentChain extends BaseContract {
   getFunction(
     nameOrSignature: "initialize"
   ): TypedContractMethod<[admin: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "initializeRoleAdmins"
+  ): TypedContractMethod<
+    [_roles: BytesLike[], _accounts: AddressLike[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "nonces"
+  ): TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "organizationCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "organizationNames"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "organizationOf"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
   getFunction(
     nameOrSignature: "pause"
   ): TypedContractMethod<[], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "paused"
   ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingImplementation"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "proposeUpgrade"
+  ): TypedContractMethod<[_implementation: AddressLike], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "proxiableUUID"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "rejectVerification"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish, _reasonHash: BytesLike],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "renounceRole"
   ): TypedContractMethod<
@@ -935,6 +2855,24 @@ export interface CommitmentChain extends BaseContract {
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "replaceWitness"
+  ): TypedContractMethod<
+    [
+      _commitmentId: BigNumberish,
+      _oldWitness: AddressLike,
+      _newWitness: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "resolveDispute"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish, _upheld: boolean],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "revokeRole"
   ): TypedContractMethod<
@@ -942,21 +2880,95 @@ export interface CommitmentChain extends BaseContract {
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "roleExpiresAt"
+  ): TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "setAccountOrganization"
+  ): TypedContractMethod<
+    [_account: AddressLike, _organizationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setContentCid"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish, _codec: BigNumberish, _digest: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setUniqueFileHashRequired"
+  ): TypedContractMethod<[_required: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setUpgradeDelay"
+  ): TypedContractMethod<[_delay: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "signAsSigner"
   ): TypedContractMethod<[_commitmentId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "signAsSignerBatch"
+  ): TypedContractMethod<
+    [_commitmentIds: BigNumberish[]],
+    [boolean[]],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "signAsSignerBySignature"
+  ): TypedContractMethod<
+    [
+      _commitmentId: BigNumberish,
+      _signer: AddressLike,
+      _deadline: BigNumberish,
+      _signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "signAsWitness"
   ): TypedContractMethod<[_commitmentId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "signAsWitnessBatch"
+  ): TypedContractMethod<
+    [_commitmentIds: BigNumberish[]],
+    [boolean[]],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "signAsWitnessBySignature"
+  ): TypedContractMethod<
+    [
+      _commitmentId: BigNumberish,
+      _witness: AddressLike,
+      _deadline: BigNumberish,
+      _signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "supportsInterface"
   ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
   getFunction(
     nameOrSignature: "unfreezeCommitment"
   ): TypedContractMethod<[_commitmentId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "uniqueFileHashRequired"
+  ): TypedContractMethod<[], [boolean], "view">;
   getFunction(
     nameOrSignature: "unpause"
   ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "upgradeDelay"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "upgradeReadyAt"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "upgradeToAndCall"
   ): TypedContractMethod<
@@ -967,6 +2979,13 @@ export interface CommitmentChain extends BaseContract {
   getFunction(
     nameOrSignature: "verifyCommitment"
   ): TypedContractMethod<[_commitmentId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "verifyInclusion"
+  ): TypedContractMethod<
+    [_commitmentId: BigNumberish, _leafHash: BytesLike, _proof: BytesLike[]],
+    [boolean],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "version"
   ): TypedContractMethod<[], [string], "view">;
@@ -978,6 +2997,27 @@ export interface CommitmentChain extends BaseContract {
     "view"
   >;
 
+  getEvent(
+    key: "AccountOrganizationSet"
+  ): TypedContractEvent<
+    AccountOrganizationSetEvent.InputTuple,
+    AccountOrganizationSetEvent.OutputTuple,
+    AccountOrganizationSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommitmentAmended"
+  ): TypedContractEvent<
+    CommitmentAmendedEvent.InputTuple,
+    CommitmentAmendedEvent.OutputTuple,
+    CommitmentAmendedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommitmentCancelled"
+  ): TypedContractEvent<
+    CommitmentCancelledEvent.InputTuple,
+    CommitmentCancelledEvent.OutputTuple,
+    CommitmentCancelledEvent.OutputObject
+  >;
   getEvent(
     key: "CommitmentCompleted"
   ): TypedContractEvent<
@@ -992,6 +3032,13 @@ export interface CommitmentChain extends BaseContract {
     CommitmentCreatedEvent.OutputTuple,
     CommitmentCreatedEvent.OutputObject
   >;
+  getEvent(
+    key: "CommitmentDeclined"
+  ): TypedContractEvent<
+    CommitmentDeclinedEvent.InputTuple,
+    CommitmentDeclinedEvent.OutputTuple,
+    CommitmentDeclinedEvent.OutputObject
+  >;
   getEvent(
     key: "CommitmentFrozen"
   ): TypedContractEvent<
@@ -1006,6 +3053,13 @@ export interface CommitmentChain extends BaseContract {
     CommitmentSignedEvent.OutputTuple,
     CommitmentSignedEvent.OutputObject
   >;
+  getEvent(
+    key: "CommitmentSuperseded"
+  ): TypedContractEvent<
+    CommitmentSupersededEvent.InputTuple,
+    CommitmentSupersededEvent.OutputTuple,
+    CommitmentSupersededEvent.OutputObject
+  >;
   getEvent(
     key: "CommitmentUnfrozen"
   ): TypedContractEvent<
@@ -1020,6 +3074,13 @@ export interface CommitmentChain extends BaseContract {
     CommitmentVerifiedEvent.OutputTuple,
     CommitmentVerifiedEvent.OutputObject
   >;
+  getEvent(
+    key: "ContentCidSet"
+  ): TypedContractEvent<
+    ContentCidSetEvent.InputTuple,
+    ContentCidSetEvent.OutputTuple,
+    ContentCidSetEvent.OutputObject
+  >;
   getEvent(
     key: "ContractUpgraded"
   ): TypedContractEvent<
@@ -1027,6 +3088,34 @@ export interface CommitmentChain extends BaseContract {
     ContractUpgradedEvent.OutputTuple,
     ContractUpgradedEvent.OutputObject
   >;
+  getEvent(
+    key: "DeadlineExtended"
+  ): TypedContractEvent<
+    DeadlineExtendedEvent.InputTuple,
+    DeadlineExtendedEvent.OutputTuple,
+    DeadlineExtendedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeResolved"
+  ): TypedContractEvent<
+    DisputeResolvedEvent.InputTuple,
+    DisputeResolvedEvent.OutputTuple,
+    DisputeResolvedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EIP712DomainChanged"
+  ): TypedContractEvent<
+    EIP712DomainChangedEvent.InputTuple,
+    EIP712DomainChangedEvent.OutputTuple,
+    EIP712DomainChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FileHashPolicyUpdated"
+  ): TypedContractEvent<
+    FileHashPolicyUpdatedEvent.InputTuple,
+    FileHashPolicyUpdatedEvent.OutputTuple,
+    FileHashPolicyUpdatedEvent.OutputObject
+  >;
   getEvent(
     key: "Initialized"
   ): TypedContractEvent<
@@ -1034,6 +3123,20 @@ export interface CommitmentChain extends BaseContract {
     InitializedEvent.OutputTuple,
     InitializedEvent.OutputObject
   >;
+  getEvent(
+    key: "MerkleRootAnchored"
+  ): TypedContractEvent<
+    MerkleRootAnchoredEvent.InputTuple,
+    MerkleRootAnchoredEvent.OutputTuple,
+    MerkleRootAnchoredEvent.OutputObject
+  >;
+  getEvent(
+    key: "OrganizationCreated"
+  ): TypedContractEvent<
+    OrganizationCreatedEvent.InputTuple,
+    OrganizationCreatedEvent.OutputTuple,
+    OrganizationCreatedEvent.OutputObject
+  >;
   getEvent(
     key: "Paused"
   ): TypedContractEvent<
@@ -1048,6 +3151,13 @@ export interface CommitmentChain extends BaseContract {
     RoleAdminChangedEvent.OutputTuple,
     RoleAdminChangedEvent.OutputObject
   >;
+  getEvent(
+    key: "RoleExpirySet"
+  ): TypedContractEvent<
+    RoleExpirySetEvent.InputTuple,
+    RoleExpirySetEvent.OutputTuple,
+    RoleExpirySetEvent.OutputObject
+  >;
   getEvent(
     key: "RoleGranted"
   ): TypedContractEvent<
@@ -1069,6 +3179,27 @@ export interface CommitmentChain extends BaseContract {
     UnpausedEvent.OutputTuple,
     UnpausedEvent.OutputObject
   >;
+  getEvent(
+    key: "UpgradeCancelled"
+  ): TypedContractEvent<
+    UpgradeCancelledEvent.InputTuple,
+    UpgradeCancelledEvent.OutputTuple,
+    UpgradeCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "UpgradeDelayUpdated"
+  ): TypedContractEvent<
+    UpgradeDelayUpdatedEvent.InputTuple,
+    UpgradeDelayUpdatedEvent.OutputTuple,
+    UpgradeDelayUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UpgradeProposed"
+  ): TypedContractEvent<
+    UpgradeProposedEvent.InputTuple,
+    UpgradeProposedEvent.OutputTuple,
+    UpgradeProposedEvent.OutputObject
+  >;
   getEvent(
     key: "Upgraded"
   ): TypedContractEvent<
@@ -1076,8 +3207,55 @@ export interface CommitmentChain extends BaseContract {
     UpgradedEvent.OutputTuple,
     UpgradedEvent.OutputObject
   >;
+  getEvent(
+    key: "VerificationRejected"
+  ): TypedContractEvent<
+    VerificationRejectedEvent.InputTuple,
+    VerificationRejectedEvent.OutputTuple,
+    VerificationRejectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WitnessReplaced"
+  ): TypedContractEvent<
+    WitnessReplacedEvent.InputTuple,
+    WitnessReplacedEvent.OutputTuple,
+    WitnessReplacedEvent.OutputObject
+  >;
 
   filters: {
+    "AccountOrganizationSet(address,uint256,address,uint256)": TypedContractEvent<
+      AccountOrganizationSetEvent.InputTuple,
+      AccountOrganizationSetEvent.OutputTuple,
+      AccountOrganizationSetEvent.OutputObject
+    >;
+    AccountOrganizationSet: TypedContractEvent<
+      AccountOrganizationSetEvent.InputTuple,
+      AccountOrganizationSetEvent.OutputTuple,
+      AccountOrganizationSetEvent.OutputObject
+    >;
+
+    "CommitmentAmended(uint256,uint256,address,uint256)": TypedContractEvent<
+      CommitmentAmendedEvent.InputTuple,
+      CommitmentAmendedEvent.OutputTuple,
+      CommitmentAmendedEvent.OutputObject
+    >;
+    CommitmentAmended: TypedContractEvent<
+      CommitmentAmendedEvent.InputTuple,
+      CommitmentAmendedEvent.OutputTuple,
+      CommitmentAmendedEvent.OutputObject
+    >;
+
+    "CommitmentCancelled(uint256,address,bytes32,uint256)": TypedContractEvent<
+      CommitmentCancelledEvent.InputTuple,
+      CommitmentCancelledEvent.OutputTuple,
+      CommitmentCancelledEvent.OutputObject
+    >;
+    CommitmentCancelled: TypedContractEvent<
+      CommitmentCancelledEvent.InputTuple,
+      CommitmentCancelledEvent.OutputTuple,
+      CommitmentCancelledEvent.OutputObject
+    >;
+
     "CommitmentCompleted(uint256,uint256)": TypedContractEvent<
       CommitmentCompletedEvent.InputTuple,
       CommitmentCompletedEvent.OutputTuple,
@@ -1089,7 +3267,7 @@ export interface CommitmentChain extends BaseContract {
       CommitmentCompletedEvent.OutputObject
     >;
 
-    "CommitmentCreated(uint256,address,address,string,uint256)": TypedContractEvent<
+    "CommitmentCreated(uint256,address,address,bytes32,uint8,uint256)": TypedContractEvent<
       CommitmentCreatedEvent.InputTuple,
       CommitmentCreatedEvent.OutputTuple,
       CommitmentCreatedEvent.OutputObject
@@ -1100,7 +3278,18 @@ export interface CommitmentChain extends BaseContract {
       CommitmentCreatedEvent.OutputObject
     >;
 
-    "CommitmentFrozen(uint256,address,uint256)": TypedContractEvent<
+    "CommitmentDeclined(uint256,address,string,bytes32,uint256)": TypedContractEvent<
+      CommitmentDeclinedEvent.InputTuple,
+      CommitmentDeclinedEvent.OutputTuple,
+      CommitmentDeclinedEvent.OutputObject
+    >;
+    CommitmentDeclined: TypedContractEvent<
+      CommitmentDeclinedEvent.InputTuple,
+      CommitmentDeclinedEvent.OutputTuple,
+      CommitmentDeclinedEvent.OutputObject
+    >;
+
+    "CommitmentFrozen(uint256,address,uint8,bytes32,uint256,uint256)": TypedContractEvent<
       CommitmentFrozenEvent.InputTuple,
       CommitmentFrozenEvent.OutputTuple,
       CommitmentFrozenEvent.OutputObject
@@ -1122,6 +3311,17 @@ export interface CommitmentChain extends BaseContract {
       CommitmentSignedEvent.OutputObject
     >;
 
+    "CommitmentSuperseded(uint256,uint256,uint256)": TypedContractEvent<
+      CommitmentSupersededEvent.InputTuple,
+      CommitmentSupersededEvent.OutputTuple,
+      CommitmentSupersededEvent.OutputObject
+    >;
+    CommitmentSuperseded: TypedContractEvent<
+      CommitmentSupersededEvent.InputTuple,
+      CommitmentSupersededEvent.OutputTuple,
+      CommitmentSupersededEvent.OutputObject
+    >;
+
     "CommitmentUnfrozen(uint256,address,uint256)": TypedContractEvent<
       CommitmentUnfrozenEvent.InputTuple,
       CommitmentUnfrozenEvent.OutputTuple,
@@ -1144,6 +3344,17 @@ export interface CommitmentChain extends BaseContract {
       CommitmentVerifiedEvent.OutputObject
     >;
 
+    "ContentCidSet(uint256,uint64,bytes32,uint256)": TypedContractEvent<
+      ContentCidSetEvent.InputTuple,
+      ContentCidSetEvent.OutputTuple,
+      ContentCidSetEvent.OutputObject
+    >;
+    ContentCidSet: TypedContractEvent<
+      ContentCidSetEvent.InputTuple,
+      ContentCidSetEvent.OutputTuple,
+      ContentCidSetEvent.OutputObject
+    >;
+
     "ContractUpgraded(address,address,uint256)": TypedContractEvent<
       ContractUpgradedEvent.InputTuple,
       ContractUpgradedEvent.OutputTuple,
@@ -1155,6 +3366,50 @@ export interface CommitmentChain extends BaseContract {
       ContractUpgradedEvent.OutputObject
     >;
 
+    "DeadlineExtended(uint256,uint256,uint256,uint256)": TypedContractEvent<
+      DeadlineExtendedEvent.InputTuple,
+      DeadlineExtendedEvent.OutputTuple,
+      DeadlineExtendedEvent.OutputObject
+    >;
+    DeadlineExtended: TypedContractEvent<
+      DeadlineExtendedEvent.InputTuple,
+      DeadlineExtendedEvent.OutputTuple,
+      DeadlineExtendedEvent.OutputObject
+    >;
+
+    "DisputeResolved(uint256,address,bool,uint256)": TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+    DisputeResolved: TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+
+    "EIP712DomainChanged()": TypedContractEvent<
+      EIP712DomainChangedEvent.InputTuple,
+      EIP712DomainChangedEvent.OutputTuple,
+      EIP712DomainChangedEvent.OutputObject
+    >;
+    EIP712DomainChanged: TypedContractEvent<
+      EIP712DomainChangedEvent.InputTuple,
+      EIP712DomainChangedEvent.OutputTuple,
+      EIP712DomainChangedEvent.OutputObject
+    >;
+
+    "FileHashPolicyUpdated(bool,address,uint256)": TypedContractEvent<
+      FileHashPolicyUpdatedEvent.InputTuple,
+      FileHashPolicyUpdatedEvent.OutputTuple,
+      FileHashPolicyUpdatedEvent.OutputObject
+    >;
+    FileHashPolicyUpdated: TypedContractEvent<
+      FileHashPolicyUpdatedEvent.InputTuple,
+      FileHashPolicyUpdatedEvent.OutputTuple,
+      FileHashPolicyUpdatedEvent.OutputObject
+    >;
+
     "Initialized(uint64)": TypedContractEvent<
       InitializedEvent.InputTuple,
       InitializedEvent.OutputTuple,
@@ -1166,6 +3421,28 @@ export interface CommitmentChain extends BaseContract {
       InitializedEvent.OutputObject
     >;
 
+    "MerkleRootAnchored(uint256,bytes32,uint256,uint256)": TypedContractEvent<
+      MerkleRootAnchoredEvent.InputTuple,
+      MerkleRootAnchoredEvent.OutputTuple,
+      MerkleRootAnchoredEvent.OutputObject
+    >;
+    MerkleRootAnchored: TypedContractEvent<
+      MerkleRootAnchoredEvent.InputTuple,
+      MerkleRootAnchoredEvent.OutputTuple,
+      MerkleRootAnchoredEvent.OutputObject
+    >;
+
+    "OrganizationCreated(uint256,string,address,uint256)": TypedContractEvent<
+      OrganizationCreatedEvent.InputTuple,
+      OrganizationCreatedEvent.OutputTuple,
+      OrganizationCreatedEvent.OutputObject
+    >;
+    OrganizationCreated: TypedContractEvent<
+      OrganizationCreatedEvent.InputTuple,
+      OrganizationCreatedEvent.OutputTuple,
+      OrganizationCreatedEvent.OutputObject
+    >;
+
     "Paused(address)": TypedContractEvent<
       PausedEvent.InputTuple,
       PausedEvent.OutputTuple,
@@ -1188,6 +3465,17 @@ export interface CommitmentChain extends BaseContract {
       RoleAdminChangedEvent.OutputObject
     >;
 
+    "RoleExpirySet(bytes32,address,uint256)": TypedContractEvent<
+      RoleExpirySetEvent.InputTuple,
+      RoleExpirySetEvent.OutputTuple,
+      RoleExpirySetEvent.OutputObject
+    >;
+    RoleExpirySet: TypedContractEvent<
+      RoleExpirySetEvent.InputTuple,
+      RoleExpirySetEvent.OutputTuple,
+      RoleExpirySetEvent.OutputObject
+    >;
+
     "RoleGranted(bytes32,address,address)": TypedContractEvent<
       RoleGrantedEvent.InputTuple,
       RoleGrantedEvent.OutputTuple,
@@ -1221,6 +3509,39 @@ export interface CommitmentChain extends BaseContract {
       UnpausedEvent.OutputObject
     >;
 
+    "UpgradeCancelled(address,address)": TypedContractEvent<
+      UpgradeCancelledEvent.InputTuple,
+      UpgradeCancelledEvent.OutputTuple,
+      UpgradeCancelledEvent.OutputObject
+    >;
+    UpgradeCancelled: TypedContractEvent<
+      UpgradeCancelledEvent.InputTuple,
+      UpgradeCancelledEvent.OutputTuple,
+      UpgradeCancelledEvent.OutputObject
+    >;
+
+    "UpgradeDelayUpdated(uint256,uint256)": TypedContractEvent<
+      UpgradeDelayUpdatedEvent.InputTuple,
+      UpgradeDelayUpdatedEvent.OutputTuple,
+      UpgradeDelayUpdatedEvent.OutputObject
+    >;
+    UpgradeDelayUpdated: TypedContractEvent<
+      UpgradeDelayUpdatedEvent.InputTuple,
+      UpgradeDelayUpdatedEvent.OutputTuple,
+      UpgradeDelayUpdatedEvent.OutputObject
+    >;
+
+    "UpgradeProposed(address,address,uint256)": TypedContractEvent<
+      UpgradeProposedEvent.InputTuple,
+      UpgradeProposedEvent.OutputTuple,
+      UpgradeProposedEvent.OutputObject
+    >;
+    UpgradeProposed: TypedContractEvent<
+      UpgradeProposedEvent.InputTuple,
+      UpgradeProposedEvent.OutputTuple,
+      UpgradeProposedEvent.OutputObject
+    >;
+
     "Upgraded(address)": TypedContractEvent<
       UpgradedEvent.InputTuple,
       UpgradedEvent.OutputTuple,
@@ -1231,5 +3552,27 @@ export interface CommitmentChain extends BaseContract {
       UpgradedEvent.OutputTuple,
       UpgradedEvent.OutputObject
     >;
+
+    "VerificationRejected(uint256,address,bytes32,uint256)": TypedContractEvent<
+      VerificationRejectedEvent.InputTuple,
+      VerificationRejectedEvent.OutputTuple,
+      VerificationRejectedEvent.OutputObject
+    >;
+    VerificationRejected: TypedContractEvent<
+      VerificationRejectedEvent.InputTuple,
+      VerificationRejectedEvent.OutputTuple,
+      VerificationRejectedEvent.OutputObject
+    >;
+
+    "WitnessReplaced(uint256,address,address,address,uint256)": TypedContractEvent<
+      WitnessReplacedEvent.InputTuple,
+      WitnessReplacedEvent.OutputTuple,
+      WitnessReplacedEvent.OutputObject
+    >;
+    WitnessReplaced: TypedContractEvent<
+      WitnessReplacedEvent.InputTuple,
+      WitnessReplacedEvent.OutputTuple,
+      WitnessReplacedEvent.OutputObject
+    >;
   };
 }
@@ -0,0 +1,310 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace ProfileRegistry {
+  export type ProfileStruct = {
+    role: BytesLike;
+    displayNameHash: BytesLike;
+    badgeNumber: string;
+    organization: string;
+    credentialHash: BytesLike;
+    updatedBy: AddressLike;
+    updatedAt: BigNumberish;
+  };
+
+  export type ProfileStructOutput = [
+    role: string,
+    displayNameHash: string,
+    badgeNumber: string,
+    organization: string,
+    credentialHash: string,
+    updatedBy: string,
+    updatedAt: bigint
+  ] & {
+    role: string;
+    displayNameHash: string;
+    badgeNumber: string;
+    organization: string;
+    credentialHash: string;
+    updatedBy: string;
+    updatedAt: bigint;
+  };
+}
+
+export interface ProfileRegistryInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "commitmentChain"
+      | "getProfile"
+      | "getProfiles"
+      | "removeProfile"
+      | "setProfile"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic: "ProfileRemoved" | "ProfileUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "commitmentChain",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProfile",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProfiles",
+    values: [AddressLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProfile",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setProfile",
+    values: [AddressLike, BytesLike, BytesLike, string, string, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "commitmentChain",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getProfile", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getProfiles",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProfile",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setProfile", data: BytesLike): Result;
+}
+
+export namespace ProfileRemovedEvent {
+  export type InputTuple = [
+    account: AddressLike,
+    role: BytesLike,
+    removedBy: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    account: string,
+    role: string,
+    removedBy: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    account: string;
+    role: string;
+    removedBy: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProfileUpdatedEvent {
+  export type InputTuple = [
+    account: AddressLike,
+    role: BytesLike,
+    updatedBy: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    account: string,
+    role: string,
+    updatedBy: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    account: string;
+    role: string;
+    updatedBy: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ProfileRegistry extends BaseContract {
+  connect(runner?: ContractRunner | null): ProfileRegistry;
+  waitForDeployment(): Promise<this>;
+
+  interface: ProfileRegistryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  commitmentChain: TypedContractMethod<[], [string], "view">;
+
+  getProfile: TypedContractMethod<
+    [_account: AddressLike],
+    [ProfileRegistry.ProfileStructOutput],
+    "view"
+  >;
+
+  getProfiles: TypedContractMethod<
+    [_accounts: AddressLike[]],
+    [ProfileRegistry.ProfileStructOutput[]],
+    "view"
+  >;
+
+  removeProfile: TypedContractMethod<
+    [_account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setProfile: TypedContractMethod<
+    [
+      _account: AddressLike,
+      _role: BytesLike,
+      _displayNameHash: BytesLike,
+      _badgeNumber: string,
+      _organization: string,
+      _credentialHash: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "commitmentChain"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getProfile"
+  ): TypedContractMethod<
+    [_account: AddressLike],
+    [ProfileRegistry.ProfileStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getProfiles"
+  ): TypedContractMethod<
+    [_accounts: AddressLike[]],
+    [ProfileRegistry.ProfileStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "removeProfile"
+  ): TypedContractMethod<[_account: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setProfile"
+  ): TypedContractMethod<
+    [
+      _account: AddressLike,
+      _role: BytesLike,
+      _displayNameHash: BytesLike,
+      _badgeNumber: string,
+      _organization: string,
+      _credentialHash: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "ProfileRemoved"
+  ): TypedContractEvent<
+    ProfileRemovedEvent.InputTuple,
+    ProfileRemovedEvent.OutputTuple,
+    ProfileRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProfileUpdated"
+  ): TypedContractEvent<
+    ProfileUpdatedEvent.InputTuple,
+    ProfileUpdatedEvent.OutputTuple,
+    ProfileUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "ProfileRemoved(address,bytes32,address,uint256)": TypedContractEvent<
+      ProfileRemovedEvent.InputTuple,
+      ProfileRemovedEvent.OutputTuple,
+      ProfileRemovedEvent.OutputObject
+    >;
+    ProfileRemoved: TypedContractEvent<
+      ProfileRemovedEvent.InputTuple,
+      ProfileRemovedEvent.OutputTuple,
+      ProfileRemovedEvent.OutputObject
+    >;
+
+    "ProfileUpdated(address,bytes32,address,uint256)": TypedContractEvent<
+      ProfileUpdatedEvent.InputTuple,
+      ProfileUpdatedEvent.OutputTuple,
+      ProfileUpdatedEvent.OutputObject
+    >;
+    ProfileUpdated: TypedContractEvent<
+      ProfileUpdatedEvent.InputTuple,
+      ProfileUpdatedEvent.OutputTuple,
+      ProfileUpdatedEvent.OutputObject
+    >;
+  };
+}
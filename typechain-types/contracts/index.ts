@@ -1,4 +1,7 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as libraries from "./libraries";
+export type { libraries };
 export type { CommitmentChain } from "./CommitmentChain";
+export type { ProfileRegistry } from "./ProfileRegistry";
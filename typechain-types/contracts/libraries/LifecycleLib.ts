@@ -0,0 +1,393 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+} from "../../common";
+
+export interface LifecycleLibInterface extends Interface {
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "CommitmentAmended"
+      | "CommitmentCancelled"
+      | "CommitmentCreated"
+      | "CommitmentSigned"
+      | "ContentCidSet"
+      | "DeadlineExtended"
+      | "MerkleRootAnchored"
+  ): EventFragment;
+}
+
+export namespace CommitmentAmendedEvent {
+  export type InputTuple = [
+    parentId: BigNumberish,
+    childId: BigNumberish,
+    initiator: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    parentId: bigint,
+    childId: bigint,
+    initiator: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    parentId: bigint;
+    childId: bigint;
+    initiator: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitmentCancelledEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    canceller: AddressLike,
+    reasonHash: BytesLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    canceller: string,
+    reasonHash: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    canceller: string;
+    reasonHash: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitmentCreatedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    initiator: AddressLike,
+    signer: AddressLike,
+    fileDigest: BytesLike,
+    hashAlgorithm: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    initiator: string,
+    signer: string,
+    fileDigest: string,
+    hashAlgorithm: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    initiator: string;
+    signer: string;
+    fileDigest: string;
+    hashAlgorithm: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitmentSignedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    signer: AddressLike,
+    role: string,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    signer: string,
+    role: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    signer: string;
+    role: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContentCidSetEvent {
+  export type InputTuple = [
+    commitmentId: BigNumberish,
+    codec: BigNumberish,
+    digest: BytesLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    commitmentId: bigint,
+    codec: bigint,
+    digest: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    commitmentId: bigint;
+    codec: bigint;
+    digest: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DeadlineExtendedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    oldDeadline: BigNumberish,
+    newDeadline: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    oldDeadline: bigint,
+    newDeadline: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    oldDeadline: bigint;
+    newDeadline: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MerkleRootAnchoredEvent {
+  export type InputTuple = [
+    commitmentId: BigNumberish,
+    merkleRoot: BytesLike,
+    leafCount: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    commitmentId: bigint,
+    merkleRoot: string,
+    leafCount: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    commitmentId: bigint;
+    merkleRoot: string;
+    leafCount: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface LifecycleLib extends BaseContract {
+  connect(runner?: ContractRunner | null): LifecycleLib;
+  waitForDeployment(): Promise<this>;
+
+  interface: LifecycleLibInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getEvent(
+    key: "CommitmentAmended"
+  ): TypedContractEvent<
+    CommitmentAmendedEvent.InputTuple,
+    CommitmentAmendedEvent.OutputTuple,
+    CommitmentAmendedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommitmentCancelled"
+  ): TypedContractEvent<
+    CommitmentCancelledEvent.InputTuple,
+    CommitmentCancelledEvent.OutputTuple,
+    CommitmentCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommitmentCreated"
+  ): TypedContractEvent<
+    CommitmentCreatedEvent.InputTuple,
+    CommitmentCreatedEvent.OutputTuple,
+    CommitmentCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommitmentSigned"
+  ): TypedContractEvent<
+    CommitmentSignedEvent.InputTuple,
+    CommitmentSignedEvent.OutputTuple,
+    CommitmentSignedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContentCidSet"
+  ): TypedContractEvent<
+    ContentCidSetEvent.InputTuple,
+    ContentCidSetEvent.OutputTuple,
+    ContentCidSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DeadlineExtended"
+  ): TypedContractEvent<
+    DeadlineExtendedEvent.InputTuple,
+    DeadlineExtendedEvent.OutputTuple,
+    DeadlineExtendedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MerkleRootAnchored"
+  ): TypedContractEvent<
+    MerkleRootAnchoredEvent.InputTuple,
+    MerkleRootAnchoredEvent.OutputTuple,
+    MerkleRootAnchoredEvent.OutputObject
+  >;
+
+  filters: {
+    "CommitmentAmended(uint256,uint256,address,uint256)": TypedContractEvent<
+      CommitmentAmendedEvent.InputTuple,
+      CommitmentAmendedEvent.OutputTuple,
+      CommitmentAmendedEvent.OutputObject
+    >;
+    CommitmentAmended: TypedContractEvent<
+      CommitmentAmendedEvent.InputTuple,
+      CommitmentAmendedEvent.OutputTuple,
+      CommitmentAmendedEvent.OutputObject
+    >;
+
+    "CommitmentCancelled(uint256,address,bytes32,uint256)": TypedContractEvent<
+      CommitmentCancelledEvent.InputTuple,
+      CommitmentCancelledEvent.OutputTuple,
+      CommitmentCancelledEvent.OutputObject
+    >;
+    CommitmentCancelled: TypedContractEvent<
+      CommitmentCancelledEvent.InputTuple,
+      CommitmentCancelledEvent.OutputTuple,
+      CommitmentCancelledEvent.OutputObject
+    >;
+
+    "CommitmentCreated(uint256,address,address,bytes32,uint8,uint256)": TypedContractEvent<
+      CommitmentCreatedEvent.InputTuple,
+      CommitmentCreatedEvent.OutputTuple,
+      CommitmentCreatedEvent.OutputObject
+    >;
+    CommitmentCreated: TypedContractEvent<
+      CommitmentCreatedEvent.InputTuple,
+      CommitmentCreatedEvent.OutputTuple,
+      CommitmentCreatedEvent.OutputObject
+    >;
+
+    "CommitmentSigned(uint256,address,string,uint256)": TypedContractEvent<
+      CommitmentSignedEvent.InputTuple,
+      CommitmentSignedEvent.OutputTuple,
+      CommitmentSignedEvent.OutputObject
+    >;
+    CommitmentSigned: TypedContractEvent<
+      CommitmentSignedEvent.InputTuple,
+      CommitmentSignedEvent.OutputTuple,
+      CommitmentSignedEvent.OutputObject
+    >;
+
+    "ContentCidSet(uint256,uint64,bytes32,uint256)": TypedContractEvent<
+      ContentCidSetEvent.InputTuple,
+      ContentCidSetEvent.OutputTuple,
+      ContentCidSetEvent.OutputObject
+    >;
+    ContentCidSet: TypedContractEvent<
+      ContentCidSetEvent.InputTuple,
+      ContentCidSetEvent.OutputTuple,
+      ContentCidSetEvent.OutputObject
+    >;
+
+    "DeadlineExtended(uint256,uint256,uint256,uint256)": TypedContractEvent<
+      DeadlineExtendedEvent.InputTuple,
+      DeadlineExtendedEvent.OutputTuple,
+      DeadlineExtendedEvent.OutputObject
+    >;
+    DeadlineExtended: TypedContractEvent<
+      DeadlineExtendedEvent.InputTuple,
+      DeadlineExtendedEvent.OutputTuple,
+      DeadlineExtendedEvent.OutputObject
+    >;
+
+    "MerkleRootAnchored(uint256,bytes32,uint256,uint256)": TypedContractEvent<
+      MerkleRootAnchoredEvent.InputTuple,
+      MerkleRootAnchoredEvent.OutputTuple,
+      MerkleRootAnchoredEvent.OutputObject
+    >;
+    MerkleRootAnchored: TypedContractEvent<
+      MerkleRootAnchoredEvent.InputTuple,
+      MerkleRootAnchoredEvent.OutputTuple,
+      MerkleRootAnchoredEvent.OutputObject
+    >;
+  };
+}
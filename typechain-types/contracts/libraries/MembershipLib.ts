@@ -0,0 +1,204 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+} from "../../common";
+
+export interface MembershipLibInterface extends Interface {
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AccountOrganizationSet"
+      | "OrganizationCreated"
+      | "RoleExpirySet"
+  ): EventFragment;
+}
+
+export namespace AccountOrganizationSetEvent {
+  export type InputTuple = [
+    account: AddressLike,
+    organizationId: BigNumberish,
+    updatedBy: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    account: string,
+    organizationId: bigint,
+    updatedBy: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    account: string;
+    organizationId: bigint;
+    updatedBy: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OrganizationCreatedEvent {
+  export type InputTuple = [
+    organizationId: BigNumberish,
+    name: string,
+    createdBy: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    organizationId: bigint,
+    name: string,
+    createdBy: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    organizationId: bigint;
+    name: string;
+    createdBy: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleExpirySetEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    expiresAt: BigNumberish
+  ];
+  export type OutputTuple = [role: string, account: string, expiresAt: bigint];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    expiresAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface MembershipLib extends BaseContract {
+  connect(runner?: ContractRunner | null): MembershipLib;
+  waitForDeployment(): Promise<this>;
+
+  interface: MembershipLibInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getEvent(
+    key: "AccountOrganizationSet"
+  ): TypedContractEvent<
+    AccountOrganizationSetEvent.InputTuple,
+    AccountOrganizationSetEvent.OutputTuple,
+    AccountOrganizationSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "OrganizationCreated"
+  ): TypedContractEvent<
+    OrganizationCreatedEvent.InputTuple,
+    OrganizationCreatedEvent.OutputTuple,
+    OrganizationCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleExpirySet"
+  ): TypedContractEvent<
+    RoleExpirySetEvent.InputTuple,
+    RoleExpirySetEvent.OutputTuple,
+    RoleExpirySetEvent.OutputObject
+  >;
+
+  filters: {
+    "AccountOrganizationSet(address,uint256,address,uint256)": TypedContractEvent<
+      AccountOrganizationSetEvent.InputTuple,
+      AccountOrganizationSetEvent.OutputTuple,
+      AccountOrganizationSetEvent.OutputObject
+    >;
+    AccountOrganizationSet: TypedContractEvent<
+      AccountOrganizationSetEvent.InputTuple,
+      AccountOrganizationSetEvent.OutputTuple,
+      AccountOrganizationSetEvent.OutputObject
+    >;
+
+    "OrganizationCreated(uint256,string,address,uint256)": TypedContractEvent<
+      OrganizationCreatedEvent.InputTuple,
+      OrganizationCreatedEvent.OutputTuple,
+      OrganizationCreatedEvent.OutputObject
+    >;
+    OrganizationCreated: TypedContractEvent<
+      OrganizationCreatedEvent.InputTuple,
+      OrganizationCreatedEvent.OutputTuple,
+      OrganizationCreatedEvent.OutputObject
+    >;
+
+    "RoleExpirySet(bytes32,address,uint256)": TypedContractEvent<
+      RoleExpirySetEvent.InputTuple,
+      RoleExpirySetEvent.OutputTuple,
+      RoleExpirySetEvent.OutputObject
+    >;
+    RoleExpirySet: TypedContractEvent<
+      RoleExpirySetEvent.InputTuple,
+      RoleExpirySetEvent.OutputTuple,
+      RoleExpirySetEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,122 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  FunctionFragment,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+} from "../../common";
+
+export interface ParticipantLibInterface extends Interface {
+  getEvent(nameOrSignatureOrTopic: "WitnessReplaced"): EventFragment;
+}
+
+export namespace WitnessReplacedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    oldWitness: AddressLike,
+    newWitness: AddressLike,
+    replacedBy: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    oldWitness: string,
+    newWitness: string,
+    replacedBy: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    oldWitness: string;
+    newWitness: string;
+    replacedBy: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ParticipantLib extends BaseContract {
+  connect(runner?: ContractRunner | null): ParticipantLib;
+  waitForDeployment(): Promise<this>;
+
+  interface: ParticipantLibInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getEvent(
+    key: "WitnessReplaced"
+  ): TypedContractEvent<
+    WitnessReplacedEvent.InputTuple,
+    WitnessReplacedEvent.OutputTuple,
+    WitnessReplacedEvent.OutputObject
+  >;
+
+  filters: {
+    "WitnessReplaced(uint256,address,address,address,uint256)": TypedContractEvent<
+      WitnessReplacedEvent.InputTuple,
+      WitnessReplacedEvent.OutputTuple,
+      WitnessReplacedEvent.OutputObject
+    >;
+    WitnessReplaced: TypedContractEvent<
+      WitnessReplacedEvent.InputTuple,
+      WitnessReplacedEvent.OutputTuple,
+      WitnessReplacedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,291 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+} from "../../common";
+
+export interface ReviewLibInterface extends Interface {
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "CommitmentFrozen"
+      | "CommitmentUnfrozen"
+      | "CommitmentVerified"
+      | "DisputeResolved"
+      | "VerificationRejected"
+  ): EventFragment;
+}
+
+export namespace CommitmentFrozenEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    freezer: AddressLike,
+    reason: BigNumberish,
+    caseRef: BytesLike,
+    unfreezeAt: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    freezer: string,
+    reason: bigint,
+    caseRef: string,
+    unfreezeAt: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    freezer: string;
+    reason: bigint;
+    caseRef: string;
+    unfreezeAt: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitmentUnfrozenEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    unfreezer: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [id: bigint, unfreezer: string, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    unfreezer: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitmentVerifiedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    verifier: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [id: bigint, verifier: string, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    verifier: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeResolvedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    resolvedBy: AddressLike,
+    upheld: boolean,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    resolvedBy: string,
+    upheld: boolean,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    resolvedBy: string;
+    upheld: boolean;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VerificationRejectedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    verifier: AddressLike,
+    reasonHash: BytesLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    verifier: string,
+    reasonHash: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    verifier: string;
+    reasonHash: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ReviewLib extends BaseContract {
+  connect(runner?: ContractRunner | null): ReviewLib;
+  waitForDeployment(): Promise<this>;
+
+  interface: ReviewLibInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getEvent(
+    key: "CommitmentFrozen"
+  ): TypedContractEvent<
+    CommitmentFrozenEvent.InputTuple,
+    CommitmentFrozenEvent.OutputTuple,
+    CommitmentFrozenEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommitmentUnfrozen"
+  ): TypedContractEvent<
+    CommitmentUnfrozenEvent.InputTuple,
+    CommitmentUnfrozenEvent.OutputTuple,
+    CommitmentUnfrozenEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommitmentVerified"
+  ): TypedContractEvent<
+    CommitmentVerifiedEvent.InputTuple,
+    CommitmentVerifiedEvent.OutputTuple,
+    CommitmentVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeResolved"
+  ): TypedContractEvent<
+    DisputeResolvedEvent.InputTuple,
+    DisputeResolvedEvent.OutputTuple,
+    DisputeResolvedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VerificationRejected"
+  ): TypedContractEvent<
+    VerificationRejectedEvent.InputTuple,
+    VerificationRejectedEvent.OutputTuple,
+    VerificationRejectedEvent.OutputObject
+  >;
+
+  filters: {
+    "CommitmentFrozen(uint256,address,uint8,bytes32,uint256,uint256)": TypedContractEvent<
+      CommitmentFrozenEvent.InputTuple,
+      CommitmentFrozenEvent.OutputTuple,
+      CommitmentFrozenEvent.OutputObject
+    >;
+    CommitmentFrozen: TypedContractEvent<
+      CommitmentFrozenEvent.InputTuple,
+      CommitmentFrozenEvent.OutputTuple,
+      CommitmentFrozenEvent.OutputObject
+    >;
+
+    "CommitmentUnfrozen(uint256,address,uint256)": TypedContractEvent<
+      CommitmentUnfrozenEvent.InputTuple,
+      CommitmentUnfrozenEvent.OutputTuple,
+      CommitmentUnfrozenEvent.OutputObject
+    >;
+    CommitmentUnfrozen: TypedContractEvent<
+      CommitmentUnfrozenEvent.InputTuple,
+      CommitmentUnfrozenEvent.OutputTuple,
+      CommitmentUnfrozenEvent.OutputObject
+    >;
+
+    "CommitmentVerified(uint256,address,uint256)": TypedContractEvent<
+      CommitmentVerifiedEvent.InputTuple,
+      CommitmentVerifiedEvent.OutputTuple,
+      CommitmentVerifiedEvent.OutputObject
+    >;
+    CommitmentVerified: TypedContractEvent<
+      CommitmentVerifiedEvent.InputTuple,
+      CommitmentVerifiedEvent.OutputTuple,
+      CommitmentVerifiedEvent.OutputObject
+    >;
+
+    "DisputeResolved(uint256,address,bool,uint256)": TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+    DisputeResolved: TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+
+    "VerificationRejected(uint256,address,bytes32,uint256)": TypedContractEvent<
+      VerificationRejectedEvent.InputTuple,
+      VerificationRejectedEvent.OutputTuple,
+      VerificationRejectedEvent.OutputObject
+    >;
+    VerificationRejected: TypedContractEvent<
+      VerificationRejectedEvent.InputTuple,
+      VerificationRejectedEvent.OutputTuple,
+      VerificationRejectedEvent.OutputObject
+    >;
+  };
+}
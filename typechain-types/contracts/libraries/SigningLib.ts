@@ -0,0 +1,243 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+} from "../../common";
+
+export interface SigningLibInterface extends Interface {
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "CommitmentCompleted"
+      | "CommitmentDeclined"
+      | "CommitmentSigned"
+      | "CommitmentSuperseded"
+  ): EventFragment;
+}
+
+export namespace CommitmentCompletedEvent {
+  export type InputTuple = [id: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [id: bigint, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitmentDeclinedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    decliner: AddressLike,
+    role: string,
+    reasonHash: BytesLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    decliner: string,
+    role: string,
+    reasonHash: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    decliner: string;
+    role: string;
+    reasonHash: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitmentSignedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    signer: AddressLike,
+    role: string,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    signer: string,
+    role: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    signer: string;
+    role: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitmentSupersededEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    supersededBy: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    supersededBy: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    supersededBy: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface SigningLib extends BaseContract {
+  connect(runner?: ContractRunner | null): SigningLib;
+  waitForDeployment(): Promise<this>;
+
+  interface: SigningLibInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getEvent(
+    key: "CommitmentCompleted"
+  ): TypedContractEvent<
+    CommitmentCompletedEvent.InputTuple,
+    CommitmentCompletedEvent.OutputTuple,
+    CommitmentCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommitmentDeclined"
+  ): TypedContractEvent<
+    CommitmentDeclinedEvent.InputTuple,
+    CommitmentDeclinedEvent.OutputTuple,
+    CommitmentDeclinedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommitmentSigned"
+  ): TypedContractEvent<
+    CommitmentSignedEvent.InputTuple,
+    CommitmentSignedEvent.OutputTuple,
+    CommitmentSignedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommitmentSuperseded"
+  ): TypedContractEvent<
+    CommitmentSupersededEvent.InputTuple,
+    CommitmentSupersededEvent.OutputTuple,
+    CommitmentSupersededEvent.OutputObject
+  >;
+
+  filters: {
+    "CommitmentCompleted(uint256,uint256)": TypedContractEvent<
+      CommitmentCompletedEvent.InputTuple,
+      CommitmentCompletedEvent.OutputTuple,
+      CommitmentCompletedEvent.OutputObject
+    >;
+    CommitmentCompleted: TypedContractEvent<
+      CommitmentCompletedEvent.InputTuple,
+      CommitmentCompletedEvent.OutputTuple,
+      CommitmentCompletedEvent.OutputObject
+    >;
+
+    "CommitmentDeclined(uint256,address,string,bytes32,uint256)": TypedContractEvent<
+      CommitmentDeclinedEvent.InputTuple,
+      CommitmentDeclinedEvent.OutputTuple,
+      CommitmentDeclinedEvent.OutputObject
+    >;
+    CommitmentDeclined: TypedContractEvent<
+      CommitmentDeclinedEvent.InputTuple,
+      CommitmentDeclinedEvent.OutputTuple,
+      CommitmentDeclinedEvent.OutputObject
+    >;
+
+    "CommitmentSigned(uint256,address,string,uint256)": TypedContractEvent<
+      CommitmentSignedEvent.InputTuple,
+      CommitmentSignedEvent.OutputTuple,
+      CommitmentSignedEvent.OutputObject
+    >;
+    CommitmentSigned: TypedContractEvent<
+      CommitmentSignedEvent.InputTuple,
+      CommitmentSignedEvent.OutputTuple,
+      CommitmentSignedEvent.OutputObject
+    >;
+
+    "CommitmentSuperseded(uint256,uint256,uint256)": TypedContractEvent<
+      CommitmentSupersededEvent.InputTuple,
+      CommitmentSupersededEvent.OutputTuple,
+      CommitmentSupersededEvent.OutputObject
+    >;
+    CommitmentSuperseded: TypedContractEvent<
+      CommitmentSupersededEvent.InputTuple,
+      CommitmentSupersededEvent.OutputTuple,
+      CommitmentSupersededEvent.OutputObject
+    >;
+  };
+}
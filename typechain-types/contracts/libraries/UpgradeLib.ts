@@ -0,0 +1,227 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  FunctionFragment,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+} from "../../common";
+
+export interface UpgradeLibInterface extends Interface {
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "ContractUpgraded"
+      | "UpgradeCancelled"
+      | "UpgradeDelayUpdated"
+      | "UpgradeProposed"
+  ): EventFragment;
+}
+
+export namespace ContractUpgradedEvent {
+  export type InputTuple = [
+    previousImplementation: AddressLike,
+    newImplementation: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    previousImplementation: string,
+    newImplementation: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    previousImplementation: string;
+    newImplementation: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UpgradeCancelledEvent {
+  export type InputTuple = [
+    implementation: AddressLike,
+    cancelledBy: AddressLike
+  ];
+  export type OutputTuple = [implementation: string, cancelledBy: string];
+  export interface OutputObject {
+    implementation: string;
+    cancelledBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UpgradeDelayUpdatedEvent {
+  export type InputTuple = [oldDelay: BigNumberish, newDelay: BigNumberish];
+  export type OutputTuple = [oldDelay: bigint, newDelay: bigint];
+  export interface OutputObject {
+    oldDelay: bigint;
+    newDelay: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UpgradeProposedEvent {
+  export type InputTuple = [
+    implementation: AddressLike,
+    proposedBy: AddressLike,
+    readyAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    implementation: string,
+    proposedBy: string,
+    readyAt: bigint
+  ];
+  export interface OutputObject {
+    implementation: string;
+    proposedBy: string;
+    readyAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface UpgradeLib extends BaseContract {
+  connect(runner?: ContractRunner | null): UpgradeLib;
+  waitForDeployment(): Promise<this>;
+
+  interface: UpgradeLibInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getEvent(
+    key: "ContractUpgraded"
+  ): TypedContractEvent<
+    ContractUpgradedEvent.InputTuple,
+    ContractUpgradedEvent.OutputTuple,
+    ContractUpgradedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UpgradeCancelled"
+  ): TypedContractEvent<
+    UpgradeCancelledEvent.InputTuple,
+    UpgradeCancelledEvent.OutputTuple,
+    UpgradeCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "UpgradeDelayUpdated"
+  ): TypedContractEvent<
+    UpgradeDelayUpdatedEvent.InputTuple,
+    UpgradeDelayUpdatedEvent.OutputTuple,
+    UpgradeDelayUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UpgradeProposed"
+  ): TypedContractEvent<
+    UpgradeProposedEvent.InputTuple,
+    UpgradeProposedEvent.OutputTuple,
+    UpgradeProposedEvent.OutputObject
+  >;
+
+  filters: {
+    "ContractUpgraded(address,address,uint256)": TypedContractEvent<
+      ContractUpgradedEvent.InputTuple,
+      ContractUpgradedEvent.OutputTuple,
+      ContractUpgradedEvent.OutputObject
+    >;
+    ContractUpgraded: TypedContractEvent<
+      ContractUpgradedEvent.InputTuple,
+      ContractUpgradedEvent.OutputTuple,
+      ContractUpgradedEvent.OutputObject
+    >;
+
+    "UpgradeCancelled(address,address)": TypedContractEvent<
+      UpgradeCancelledEvent.InputTuple,
+      UpgradeCancelledEvent.OutputTuple,
+      UpgradeCancelledEvent.OutputObject
+    >;
+    UpgradeCancelled: TypedContractEvent<
+      UpgradeCancelledEvent.InputTuple,
+      UpgradeCancelledEvent.OutputTuple,
+      UpgradeCancelledEvent.OutputObject
+    >;
+
+    "UpgradeDelayUpdated(uint256,uint256)": TypedContractEvent<
+      UpgradeDelayUpdatedEvent.InputTuple,
+      UpgradeDelayUpdatedEvent.OutputTuple,
+      UpgradeDelayUpdatedEvent.OutputObject
+    >;
+    UpgradeDelayUpdated: TypedContractEvent<
+      UpgradeDelayUpdatedEvent.InputTuple,
+      UpgradeDelayUpdatedEvent.OutputTuple,
+      UpgradeDelayUpdatedEvent.OutputObject
+    >;
+
+    "UpgradeProposed(address,address,uint256)": TypedContractEvent<
+      UpgradeProposedEvent.InputTuple,
+      UpgradeProposedEvent.OutputTuple,
+      UpgradeProposedEvent.OutputObject
+    >;
+    UpgradeProposed: TypedContractEvent<
+      UpgradeProposedEvent.InputTuple,
+      UpgradeProposedEvent.OutputTuple,
+      UpgradeProposedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,9 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { LifecycleLib } from "./LifecycleLib";
+export type { MembershipLib } from "./MembershipLib";
+export type { ParticipantLib } from "./ParticipantLib";
+export type { ReviewLib } from "./ReviewLib";
+export type { SigningLib } from "./SigningLib";
+export type { UpgradeLib } from "./UpgradeLib";
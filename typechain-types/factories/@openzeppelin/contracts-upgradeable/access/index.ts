@@ -1,4 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as extensions from "./extensions";
 export { AccessControlUpgradeable__factory } from "./AccessControlUpgradeable__factory";
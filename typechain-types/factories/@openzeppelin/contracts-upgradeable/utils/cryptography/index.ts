@@ -0,0 +1,4 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { EIP712Upgradeable__factory } from "./EIP712Upgradeable__factory";
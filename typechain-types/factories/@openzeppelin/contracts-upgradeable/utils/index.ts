@@ -1,7 +1,9 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as cryptography from "./cryptography";
 export * as introspection from "./introspection";
 export { ContextUpgradeable__factory } from "./ContextUpgradeable__factory";
+export { NoncesUpgradeable__factory } from "./NoncesUpgradeable__factory";
 export { PausableUpgradeable__factory } from "./PausableUpgradeable__factory";
 export { ReentrancyGuardUpgradeable__factory } from "./ReentrancyGuardUpgradeable__factory";
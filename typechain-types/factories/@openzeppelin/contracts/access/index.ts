@@ -1,4 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as extensions from "./extensions";
 export { IAccessControl__factory } from "./IAccessControl__factory";
@@ -3,3 +3,4 @@
 /* eslint-disable */
 export * as draftIerc1822Sol from "./draft-IERC1822.sol";
 export { IERC1967__factory } from "./IERC1967__factory";
+export { IERC5267__factory } from "./IERC5267__factory";
@@ -0,0 +1,69 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../../../common";
+import type {
+  MerkleProof,
+  MerkleProofInterface,
+} from "../../../../../@openzeppelin/contracts/utils/cryptography/MerkleProof";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "MerkleProofInvalidMultiproof",
+    type: "error",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523460175760399081601c823930815050f35b5f80fdfe5f80fdfea26469706673582212201c44aceccf952bbb87c123e971046219099e79dfe9d971bc3c06eea8948d3cd164736f6c634300081c0033";
+
+type MerkleProofConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MerkleProofConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MerkleProof__factory extends ContractFactory {
+  constructor(...args: MerkleProofConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MerkleProof & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MerkleProof__factory {
+    return super.connect(runner) as MerkleProof__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MerkleProofInterface {
+    return new Interface(_abi) as MerkleProofInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): MerkleProof {
+    return new Contract(address, _abi, runner) as unknown as MerkleProof;
+  }
+}
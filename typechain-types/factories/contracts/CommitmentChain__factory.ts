@@ -78,6 +78,22 @@ const _abi = [
     name: "FailedCall",
     type: "error",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "currentNonce",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidAccountNonce",
+    type: "error",
+  },
   {
     inputs: [],
     name: "InvalidInitialization",
@@ -112,12 +128,24 @@ const _abi = [
   {
     anonymous: false,
     inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
       {
         indexed: true,
         internalType: "uint256",
-        name: "id",
+        name: "organizationId",
         type: "uint256",
       },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "updatedBy",
+        type: "address",
+      },
       {
         indexed: false,
         internalType: "uint256",
@@ -125,7 +153,7 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "CommitmentCompleted",
+    name: "AccountOrganizationSet",
     type: "event",
   },
   {
@@ -134,7 +162,13 @@ const _abi = [
       {
         indexed: true,
         internalType: "uint256",
-        name: "id",
+        name: "parentId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "childId",
         type: "uint256",
       },
       {
@@ -143,17 +177,36 @@ const _abi = [
         name: "initiator",
         type: "address",
       },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CommitmentAmended",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
       {
         indexed: true,
         internalType: "address",
-        name: "signer",
+        name: "canceller",
         type: "address",
       },
       {
         indexed: false,
-        internalType: "string",
-        name: "fileHash",
-        type: "string",
+        internalType: "bytes32",
+        name: "reasonHash",
+        type: "bytes32",
       },
       {
         indexed: false,
@@ -162,7 +215,7 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "CommitmentCreated",
+    name: "CommitmentCancelled",
     type: "event",
   },
   {
@@ -174,12 +227,6 @@ const _abi = [
         name: "id",
         type: "uint256",
       },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "freezer",
-        type: "address",
-      },
       {
         indexed: false,
         internalType: "uint256",
@@ -187,7 +234,7 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "CommitmentFrozen",
+    name: "CommitmentCompleted",
     type: "event",
   },
   {
@@ -199,6 +246,12 @@ const _abi = [
         name: "id",
         type: "uint256",
       },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "initiator",
+        type: "address",
+      },
       {
         indexed: true,
         internalType: "address",
@@ -207,9 +260,15 @@ const _abi = [
       },
       {
         indexed: false,
-        internalType: "string",
-        name: "role",
-        type: "string",
+        internalType: "bytes32",
+        name: "fileDigest",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "enum CommitmentChain.HashAlgorithm",
+        name: "hashAlgorithm",
+        type: "uint8",
       },
       {
         indexed: false,
@@ -218,7 +277,7 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "CommitmentSigned",
+    name: "CommitmentCreated",
     type: "event",
   },
   {
@@ -233,9 +292,21 @@ const _abi = [
       {
         indexed: true,
         internalType: "address",
-        name: "unfreezer",
+        name: "decliner",
         type: "address",
       },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "role",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "reasonHash",
+        type: "bytes32",
+      },
       {
         indexed: false,
         internalType: "uint256",
@@ -243,7 +314,7 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "CommitmentUnfrozen",
+    name: "CommitmentDeclined",
     type: "event",
   },
   {
@@ -258,9 +329,27 @@ const _abi = [
       {
         indexed: true,
         internalType: "address",
-        name: "verifier",
+        name: "freezer",
         type: "address",
       },
+      {
+        indexed: false,
+        internalType: "enum CommitmentChain.FreezeReason",
+        name: "reason",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "caseRef",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "unfreezeAt",
+        type: "uint256",
+      },
       {
         indexed: false,
         internalType: "uint256",
@@ -268,7 +357,7 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "CommitmentVerified",
+    name: "CommitmentFrozen",
     type: "event",
   },
   {
@@ -276,16 +365,22 @@ const _abi = [
     inputs: [
       {
         indexed: true,
-        internalType: "address",
-        name: "previousImplementation",
-        type: "address",
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
       },
       {
         indexed: true,
         internalType: "address",
-        name: "newImplementation",
+        name: "signer",
         type: "address",
       },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "role",
+        type: "string",
+      },
       {
         indexed: false,
         internalType: "uint256",
@@ -293,33 +388,32 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "ContractUpgraded",
+    name: "CommitmentSigned",
     type: "event",
   },
   {
     anonymous: false,
     inputs: [
       {
-        indexed: false,
-        internalType: "uint64",
-        name: "version",
-        type: "uint64",
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "supersededBy",
+        type: "uint256",
       },
-    ],
-    name: "Initialized",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
       {
         indexed: false,
-        internalType: "address",
-        name: "account",
-        type: "address",
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
       },
     ],
-    name: "Paused",
+    name: "CommitmentSuperseded",
     type: "event",
   },
   {
@@ -327,24 +421,24 @@ const _abi = [
     inputs: [
       {
         indexed: true,
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
       },
       {
         indexed: true,
-        internalType: "bytes32",
-        name: "previousAdminRole",
-        type: "bytes32",
+        internalType: "address",
+        name: "unfreezer",
+        type: "address",
       },
       {
-        indexed: true,
-        internalType: "bytes32",
-        name: "newAdminRole",
-        type: "bytes32",
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
       },
     ],
-    name: "RoleAdminChanged",
+    name: "CommitmentUnfrozen",
     type: "event",
   },
   {
@@ -352,24 +446,24 @@ const _abi = [
     inputs: [
       {
         indexed: true,
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
       },
       {
         indexed: true,
         internalType: "address",
-        name: "account",
+        name: "verifier",
         type: "address",
       },
       {
-        indexed: true,
-        internalType: "address",
-        name: "sender",
-        type: "address",
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
       },
     ],
-    name: "RoleGranted",
+    name: "CommitmentVerified",
     type: "event",
   },
   {
@@ -377,37 +471,86 @@ const _abi = [
     inputs: [
       {
         indexed: true,
+        internalType: "uint256",
+        name: "commitmentId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "codec",
+        type: "uint64",
+      },
+      {
+        indexed: false,
         internalType: "bytes32",
-        name: "role",
+        name: "digest",
         type: "bytes32",
       },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ContentCidSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
       {
         indexed: true,
         internalType: "address",
-        name: "account",
+        name: "previousImplementation",
         type: "address",
       },
       {
         indexed: true,
         internalType: "address",
-        name: "sender",
+        name: "newImplementation",
         type: "address",
       },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
     ],
-    name: "RoleRevoked",
+    name: "ContractUpgraded",
     type: "event",
   },
   {
     anonymous: false,
     inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
       {
         indexed: false,
-        internalType: "address",
-        name: "account",
-        type: "address",
+        internalType: "uint256",
+        name: "oldDeadline",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newDeadline",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
       },
     ],
-    name: "Unpaused",
+    name: "DeadlineExtended",
     type: "event",
   },
   {
@@ -415,43 +558,1566 @@ const _abi = [
     inputs: [
       {
         indexed: true,
-        internalType: "address",
-        name: "implementation",
-        type: "address",
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "resolvedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "upheld",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "DisputeResolved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "EIP712DomainChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "uniqueFileHashRequired",
+        type: "bool",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "updatedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "FileHashPolicyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "version",
+        type: "uint64",
+      },
+    ],
+    name: "Initialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "commitmentId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "merkleRoot",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "leafCount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "MerkleRootAnchored",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "organizationId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "createdBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "OrganizationCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "previousAdminRole",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "newAdminRole",
+        type: "bytes32",
+      },
+    ],
+    name: "RoleAdminChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "RoleExpirySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "cancelledBy",
+        type: "address",
+      },
+    ],
+    name: "UpgradeCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldDelay",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newDelay",
+        type: "uint256",
+      },
+    ],
+    name: "UpgradeDelayUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "proposedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "readyAt",
+        type: "uint256",
+      },
+    ],
+    name: "UpgradeProposed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    name: "Upgraded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "reasonHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "VerificationRejected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "oldWitness",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newWitness",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "replacedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "WitnessReplaced",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "BAR_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "EMERGENCY_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "LAWYER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_UPGRADE_DELAY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "POLICE_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "POLICE_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SIGNATURE_ROLE_SIGNER",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SIGNATURE_ROLE_WITNESS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SIGN_COMMITMENT_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "UPGRADE_INTERFACE_VERSION",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VERIFIER_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VERIFIER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_parentId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "_newFileDigest",
+        type: "bytes32",
+      },
+      {
+        internalType: "enum CommitmentChain.HashAlgorithm",
+        name: "_hashAlgorithm",
+        type: "uint8",
+      },
+      {
+        internalType: "address[]",
+        name: "_signers",
+        type: "address[]",
+      },
+      {
+        internalType: "address[]",
+        name: "_witnesses",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256",
+        name: "_witnessThreshold",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_deadline",
+        type: "uint256",
+      },
+    ],
+    name: "amendCommitment",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "_reasonHash",
+        type: "bytes32",
+      },
+    ],
+    name: "cancelCommitment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cancelUpgrade",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "commitmentCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_fileDigest",
+        type: "bytes32",
+      },
+      {
+        internalType: "enum CommitmentChain.HashAlgorithm",
+        name: "_hashAlgorithm",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "_signer",
+        type: "address",
+      },
+      {
+        internalType: "address[]",
+        name: "_witnesses",
+        type: "address[]",
+      },
+    ],
+    name: "createCommitment",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_fileDigest",
+        type: "bytes32",
+      },
+      {
+        internalType: "enum CommitmentChain.HashAlgorithm",
+        name: "_hashAlgorithm",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "_signer",
+        type: "address",
+      },
+      {
+        internalType: "address[]",
+        name: "_witnesses",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256",
+        name: "_deadline",
+        type: "uint256",
+      },
+    ],
+    name: "createCommitmentWithDeadline",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_fileDigest",
+        type: "bytes32",
+      },
+      {
+        internalType: "enum CommitmentChain.HashAlgorithm",
+        name: "_hashAlgorithm",
+        type: "uint8",
+      },
+      {
+        internalType: "address[]",
+        name: "_signers",
+        type: "address[]",
+      },
+      {
+        internalType: "address[]",
+        name: "_witnesses",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256",
+        name: "_witnessThreshold",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_deadline",
+        type: "uint256",
+      },
+    ],
+    name: "createCommitmentWithSigners",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32[]",
+        name: "_fileDigests",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "enum CommitmentChain.HashAlgorithm",
+        name: "_hashAlgorithm",
+        type: "uint8",
+      },
+      {
+        internalType: "address[][]",
+        name: "_signers",
+        type: "address[][]",
+      },
+      {
+        internalType: "address[][]",
+        name: "_witnesses",
+        type: "address[][]",
+      },
+    ],
+    name: "createCommitmentsBatch",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_merkleRoot",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "_leafCount",
+        type: "uint256",
+      },
+      {
+        internalType: "address[]",
+        name: "_signers",
+        type: "address[]",
+      },
+      {
+        internalType: "address[]",
+        name: "_witnesses",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256",
+        name: "_witnessThreshold",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_deadline",
+        type: "uint256",
+      },
+    ],
+    name: "createMerkleCommitment",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "commitmentId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+    ],
+    name: "createOrganization",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "_reasonHash",
+        type: "bytes32",
+      },
+    ],
+    name: "declineAsSigner",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "_reasonHash",
+        type: "bytes32",
+      },
+    ],
+    name: "declineAsWitness",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      {
+        internalType: "bytes1",
+        name: "fields",
+        type: "bytes1",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "version",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "chainId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "verifyingContract",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256[]",
+        name: "extensions",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_newDeadline",
+        type: "uint256",
+      },
+    ],
+    name: "extendDeadline",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "freezeCommitment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum CommitmentChain.FreezeReason",
+        name: "_reason",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "_caseRef",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "_unfreezeAt",
+        type: "uint256",
+      },
+    ],
+    name: "freezeCommitmentWithReason",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getCancellationInfo",
+    outputs: [
+      {
+        internalType: "address",
+        name: "cancelledBy",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "reasonHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "cancelledAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getCommitment",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "initiator",
+        type: "address",
+      },
+      {
+        internalType: "address[]",
+        name: "signers",
+        type: "address[]",
+      },
+      {
+        internalType: "address[]",
+        name: "witnesses",
+        type: "address[]",
+      },
+      {
+        internalType: "string",
+        name: "fileHash",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "initiatorSigned",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "signerSigned",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "signerSignedCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "witnessSignedCount",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isCompleted",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isFrozen",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isVerified",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isCancelled",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getCommitmentOrganization",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getCommitmentStatus",
+    outputs: [
+      {
+        internalType: "enum CommitmentChain.CommitmentStatus",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_fileDigest",
+        type: "bytes32",
+      },
+    ],
+    name: "getCommitmentsByFileDigest",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_fileHash",
+        type: "string",
+      },
+    ],
+    name: "getCommitmentsByFileHash",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_organizationId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+    ],
+    name: "getCommitmentsByOrganization",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_participant",
+        type: "address",
+      },
+      {
+        internalType: "enum CommitmentChain.ParticipantRole",
+        name: "_role",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+    ],
+    name: "getCommitmentsByParticipant",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getCompletionInfo",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "isCompleted",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "completedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "completedBlock",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getContentCid",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "codec",
+        type: "uint64",
+      },
+      {
+        internalType: "bytes32",
+        name: "digest",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getDeclineInfo",
+    outputs: [
+      {
+        internalType: "address",
+        name: "declinedBy",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "reasonHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "declinedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getDisputeInfo",
+    outputs: [
+      {
+        internalType: "address",
+        name: "disputedBy",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "reasonHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "disputedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "resolved",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_role",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "_before",
+        type: "uint256",
       },
     ],
-    name: "Upgraded",
-    type: "event",
+    name: "getExpiringMembers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "accounts",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "expiresAt",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
   },
   {
-    inputs: [],
-    name: "DEFAULT_ADMIN_ROLE",
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getFileDigest",
     outputs: [
       {
         internalType: "bytes32",
-        name: "",
+        name: "fileDigest",
         type: "bytes32",
       },
+      {
+        internalType: "enum CommitmentChain.HashAlgorithm",
+        name: "hashAlgorithm",
+        type: "uint8",
+      },
     ],
     stateMutability: "view",
     type: "function",
   },
   {
-    inputs: [],
-    name: "EMERGENCY_ROLE",
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getFreezeInfo",
     outputs: [
+      {
+        internalType: "bool",
+        name: "frozen",
+        type: "bool",
+      },
+      {
+        internalType: "enum CommitmentChain.FreezeReason",
+        name: "reason",
+        type: "uint8",
+      },
       {
         internalType: "bytes32",
-        name: "",
+        name: "caseRef",
         type: "bytes32",
       },
+      {
+        internalType: "address",
+        name: "frozenBy",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "frozenAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "unfreezeAt",
+        type: "uint256",
+      },
     ],
     stateMutability: "view",
     type: "function",
   },
   {
-    inputs: [],
-    name: "LAWYER_ROLE",
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getInitiatorInfo",
+    outputs: [
+      {
+        internalType: "address",
+        name: "initiator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "signedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "signedBlock",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_address",
+        type: "address",
+      },
+    ],
+    name: "getRole",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleAdmin",
     outputs: [
       {
         internalType: "bytes32",
@@ -463,47 +2129,212 @@ const _abi = [
     type: "function",
   },
   {
-    inputs: [],
-    name: "POLICE_ROLE",
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getRoleMember",
     outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMemberCount",
+    outputs: [
+      {
+        internalType: "uint256",
         name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
         type: "bytes32",
       },
     ],
+    name: "getRoleMembers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
     stateMutability: "view",
     type: "function",
   },
   {
-    inputs: [],
-    name: "UPGRADE_INTERFACE_VERSION",
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getSignerCount",
     outputs: [
       {
-        internalType: "string",
+        internalType: "uint256",
         name: "",
-        type: "string",
+        type: "uint256",
       },
     ],
     stateMutability: "view",
     type: "function",
   },
   {
-    inputs: [],
-    name: "VERIFIER_ROLE",
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getSigners",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "signerAddress",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "hasSigned",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "signedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "signedBlock",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct CommitmentChain.SignerInfo[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getSigningDeadline",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getUnsignedWitnesses",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getVersionChain",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getWitnessCount",
     outputs: [
       {
-        internalType: "bytes32",
+        internalType: "uint256",
         name: "",
-        type: "bytes32",
+        type: "uint256",
       },
     ],
     stateMutability: "view",
     type: "function",
   },
   {
-    inputs: [],
-    name: "commitmentCount",
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getWitnessThreshold",
     outputs: [
       {
         internalType: "uint256",
@@ -518,65 +2349,126 @@ const _abi = [
     inputs: [
       {
         internalType: "uint256",
-        name: "",
+        name: "_commitmentId",
         type: "uint256",
       },
     ],
-    name: "commitments",
+    name: "getWitnesses",
     outputs: [
       {
-        internalType: "uint256",
-        name: "id",
-        type: "uint256",
+        components: [
+          {
+            internalType: "address",
+            name: "witnessAddress",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "hasSigned",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "signedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "signedBlock",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct CommitmentChain.WitnessInfo[]",
+        name: "",
+        type: "tuple[]",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        internalType: "address",
-        name: "initiator",
-        type: "address",
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
       },
       {
         internalType: "address",
-        name: "signer",
+        name: "account",
         type: "address",
       },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        internalType: "string",
-        name: "fileHash",
-        type: "string",
+        internalType: "bytes32",
+        name: "_role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
       },
       {
         internalType: "uint256",
-        name: "createdAt",
+        name: "_expiresAt",
         type: "uint256",
       },
+    ],
+    name: "grantRoleWithExpiry",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        internalType: "bool",
-        name: "initiatorSigned",
-        type: "bool",
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
       },
+    ],
+    name: "hasRole",
+    outputs: [
       {
         internalType: "bool",
-        name: "signerSigned",
+        name: "",
         type: "bool",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "witnessSignedCount",
+        name: "_commitmentId",
         type: "uint256",
       },
       {
-        internalType: "bool",
-        name: "isCompleted",
-        type: "bool",
-      },
-      {
-        internalType: "bool",
-        name: "isFrozen",
-        type: "bool",
+        internalType: "address",
+        name: "_signer",
+        type: "address",
       },
+    ],
+    name: "hasSignerSigned",
+    outputs: [
       {
         internalType: "bool",
-        name: "isVerified",
+        name: "",
         type: "bool",
       },
     ],
@@ -586,41 +2478,36 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "string",
-        name: "_fileHash",
-        type: "string",
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
       },
       {
         internalType: "address",
-        name: "_signer",
+        name: "_witness",
         type: "address",
       },
-      {
-        internalType: "address[]",
-        name: "_witnesses",
-        type: "address[]",
-      },
     ],
-    name: "createCommitment",
+    name: "hasWitnessSigned",
     outputs: [
       {
-        internalType: "uint256",
+        internalType: "bool",
         name: "",
-        type: "uint256",
+        type: "bool",
       },
     ],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
     inputs: [
       {
-        internalType: "uint256",
-        name: "_commitmentId",
-        type: "uint256",
+        internalType: "address",
+        name: "admin",
+        type: "address",
       },
     ],
-    name: "freezeCommitment",
+    name: "initialize",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -628,72 +2515,119 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "uint256",
-        name: "_commitmentId",
-        type: "uint256",
-      },
-    ],
-    name: "getCommitment",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "id",
-        type: "uint256",
+        internalType: "bytes32[]",
+        name: "_roles",
+        type: "bytes32[]",
       },
       {
-        internalType: "address",
-        name: "initiator",
-        type: "address",
+        internalType: "address[]",
+        name: "_accounts",
+        type: "address[]",
       },
+    ],
+    name: "initializeRoleAdmins",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "address",
-        name: "signer",
+        name: "owner",
         type: "address",
       },
+    ],
+    name: "nonces",
+    outputs: [
       {
-        internalType: "address[]",
-        name: "witnesses",
-        type: "address[]",
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "organizationCount",
+    outputs: [
       {
-        internalType: "string",
-        name: "fileHash",
-        type: "string",
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "createdAt",
+        name: "",
         type: "uint256",
       },
+    ],
+    name: "organizationNames",
+    outputs: [
       {
-        internalType: "bool",
-        name: "initiatorSigned",
-        type: "bool",
+        internalType: "string",
+        name: "",
+        type: "string",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        internalType: "bool",
-        name: "signerSigned",
-        type: "bool",
+        internalType: "address",
+        name: "",
+        type: "address",
       },
+    ],
+    name: "organizationOf",
+    outputs: [
       {
         internalType: "uint256",
-        name: "witnessSignedCount",
+        name: "",
         type: "uint256",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
       {
         internalType: "bool",
-        name: "isCompleted",
-        type: "bool",
-      },
-      {
-        internalType: "bool",
-        name: "isFrozen",
+        name: "",
         type: "bool",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingImplementation",
+    outputs: [
       {
-        internalType: "bool",
-        name: "isVerified",
-        type: "bool",
+        internalType: "address",
+        name: "",
+        type: "address",
       },
     ],
     stateMutability: "view",
@@ -701,23 +2635,25 @@ const _abi = [
   },
   {
     inputs: [
-      {
-        internalType: "uint256",
-        name: "_commitmentId",
-        type: "uint256",
-      },
       {
         internalType: "address",
-        name: "_address",
+        name: "_implementation",
         type: "address",
       },
     ],
-    name: "getRole",
+    name: "proposeUpgrade",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "proxiableUUID",
     outputs: [
       {
-        internalType: "string",
+        internalType: "bytes32",
         name: "",
-        type: "string",
+        type: "bytes32",
       },
     ],
     stateMutability: "view",
@@ -725,21 +2661,38 @@ const _abi = [
   },
   {
     inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
       {
         internalType: "bytes32",
-        name: "role",
+        name: "_reasonHash",
         type: "bytes32",
       },
     ],
-    name: "getRoleAdmin",
-    outputs: [
+    name: "rejectVerification",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "bytes32",
-        name: "",
+        name: "role",
         type: "bytes32",
       },
+      {
+        internalType: "address",
+        name: "callerConfirmation",
+        type: "address",
+      },
     ],
-    stateMutability: "view",
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
@@ -749,16 +2702,38 @@ const _abi = [
         name: "_commitmentId",
         type: "uint256",
       },
+      {
+        internalType: "address",
+        name: "_oldWitness",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_newWitness",
+        type: "address",
+      },
     ],
-    name: "getWitnessCount",
-    outputs: [
+    name: "replaceWitness",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "",
+        name: "_commitmentId",
         type: "uint256",
       },
+      {
+        internalType: "bool",
+        name: "_upheld",
+        type: "bool",
+      },
     ],
-    stateMutability: "view",
+    name: "resolveDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
@@ -774,7 +2749,7 @@ const _abi = [
         type: "address",
       },
     ],
-    name: "grantRole",
+    name: "revokeRole",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -783,21 +2758,21 @@ const _abi = [
     inputs: [
       {
         internalType: "bytes32",
-        name: "role",
+        name: "",
         type: "bytes32",
       },
       {
         internalType: "address",
-        name: "account",
+        name: "",
         type: "address",
       },
     ],
-    name: "hasRole",
+    name: "roleExpiresAt",
     outputs: [
       {
-        internalType: "bool",
+        internalType: "uint256",
         name: "",
-        type: "bool",
+        type: "uint256",
       },
     ],
     stateMutability: "view",
@@ -805,106 +2780,127 @@ const _abi = [
   },
   {
     inputs: [
-      {
-        internalType: "uint256",
-        name: "_commitmentId",
-        type: "uint256",
-      },
       {
         internalType: "address",
-        name: "_witness",
+        name: "_account",
         type: "address",
       },
-    ],
-    name: "hasWitnessSigned",
-    outputs: [
       {
-        internalType: "bool",
-        name: "",
-        type: "bool",
+        internalType: "uint256",
+        name: "_organizationId",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
+    name: "setAccountOrganization",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
       {
-        internalType: "address",
-        name: "admin",
-        type: "address",
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "_codec",
+        type: "uint64",
+      },
+      {
+        internalType: "bytes32",
+        name: "_digest",
+        type: "bytes32",
       },
     ],
-    name: "initialize",
+    name: "setContentCid",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [],
-    name: "pause",
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_required",
+        type: "bool",
+      },
+    ],
+    name: "setUniqueFileHashRequired",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [],
-    name: "paused",
-    outputs: [
+    inputs: [
       {
-        internalType: "bool",
-        name: "",
-        type: "bool",
+        internalType: "uint256",
+        name: "_delay",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
+    name: "setUpgradeDelay",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [],
-    name: "proxiableUUID",
-    outputs: [
+    inputs: [
       {
-        internalType: "bytes32",
-        name: "",
-        type: "bytes32",
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
+    name: "signAsSigner",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
       {
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
+        internalType: "uint256[]",
+        name: "_commitmentIds",
+        type: "uint256[]",
       },
+    ],
+    name: "signAsSignerBatch",
+    outputs: [
       {
-        internalType: "address",
-        name: "callerConfirmation",
-        type: "address",
+        internalType: "bool[]",
+        name: "",
+        type: "bool[]",
       },
     ],
-    name: "renounceRole",
-    outputs: [],
     stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
       {
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
       },
       {
         internalType: "address",
-        name: "account",
+        name: "_signer",
         type: "address",
       },
+      {
+        internalType: "uint256",
+        name: "_deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "_signature",
+        type: "bytes",
+      },
     ],
-    name: "revokeRole",
+    name: "signAsSignerBySignature",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -917,11 +2913,30 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "signAsSigner",
+    name: "signAsWitness",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "_commitmentIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "signAsWitnessBatch",
+    outputs: [
+      {
+        internalType: "bool[]",
+        name: "",
+        type: "bool[]",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -929,8 +2944,23 @@ const _abi = [
         name: "_commitmentId",
         type: "uint256",
       },
+      {
+        internalType: "address",
+        name: "_witness",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "_signature",
+        type: "bytes",
+      },
     ],
-    name: "signAsWitness",
+    name: "signAsWitnessBySignature",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -967,6 +2997,19 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "uniqueFileHashRequired",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "unpause",
@@ -974,6 +3017,32 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "upgradeDelay",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "upgradeReadyAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -1005,6 +3074,35 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_commitmentId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "_leafHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "_proof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "verifyInclusion",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "version",
@@ -1045,25 +3143,90 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x60a0806040523460295730608052612464908161002e823960805181818161133501526113d80152f35b5f80fdfe6080806040526004361015610012575f80fd5b5f3560e01c90816301ffc9a714611b1c575080631610c87c14611ad35780631de49e6114611a065780632087a00e146119cc57806320df435914611992578063248a9ca3146119535780632f2ff15d146119095780633521e9f5146117d757806336568abe1461179357806338e6a621146117495780633f4ba83a1461168657806349ce8997146115b25780634f1ef2861461138957806352d1902d1461132357806354fd4d50146112dc578063550f08c9146111815780635c975abb146111535780636208b61d1461108a57806369bcdb7d14610efa5780638456cb5914610e245780638ec6269e14610dea57806391d1485414610d9557806393552a3d14610d3c578063a217fddf14610d22578063a2b3d41a14610cbb578063ad3cb1cc14610c70578063bd165b84146105a5578063c44956d114610589578063c4d66de8146103ab578063c914a0af1461020b578063d547741f146101ba5763e7705db61461017c575f80fd5b346101b6575f3660031901126101b65760206040517f0ce23c3e399818cfee81a7ab0880f714e53d7672b08df0fa62f2843416e1ea098152f35b5f80fd5b346101b65760403660031901126101b6576102096004356101d9611b6f565b906102046101ff825f525f5160206123af5f395f51905f52602052600160405f20015490565b611f9a565b612133565b005b346101b65760203660031901126101b6576004356102276121cf565b801515806103a0575b61023990611d0b565b805f52600160205261025860ff600860405f20015460081c1615611d66565b805f52600160205260405f209061027560ff600684015416611e0c565b61027f33826122b2565b1561034957600761033692825f52600260205260405f2060018060a01b0333165f526020526102b560ff60405f20541615611dc0565b5f8381526002602090815260408083203384529091529020805460ff191660011790550180546102e490611f76565b90556040516040815260076040820152667769746e65737360c81b6060820152426020820152817ffc116c372529f33e892d2d216df6aebdd725520520d7fc13163ddf825e1bd79c60803393a361222e565b60015f5160206123ef5f395f51905f5255005b60405162461bcd60e51b815260206004820152602960248201527f436f6d6d69746d656e74436861696e3a204e6f7420612064657369676e61746560448201526864207769746e65737360b81b6064820152608490fd5b505f54811115610230565b346101b65760203660031901126101b6576103c4611b85565b5f51602061240f5f395f51905f52549060ff8260401c16159167ffffffffffffffff811680159081610581575b6001149081610577575b15908161056e575b5061055f5767ffffffffffffffff1981166001175f51602061240f5f395f51905f525582610533575b506001600160a01b038116156104df5761047e90610448612305565b610450612305565b610458612305565b60015f5160206123ef5f395f51905f5255610471612305565b610479612305565b611fe0565b505f805561048857005b68ff0000000000000000195f51602061240f5f395f51905f5254165f51602061240f5f395f51905f52557fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d2602060405160018152a1005b60405162461bcd60e51b815260206004820152602660248201527f436f6d6d69746d656e74436861696e3a20496e76616c69642061646d696e206160448201526564647265737360d01b6064820152608490fd5b68ffffffffffffffffff191668010000000000000001175f51602061240f5f395f51905f52558261042c565b63f92ee8a960e01b5f5260045ffd5b90501584610403565b303b1591506103fb565b8491506103f1565b346101b6575f3660031901126101b65760205f54604051908152f35b346101b65760603660031901126101b65760043567ffffffffffffffff81116101b657366023820112156101b6576105e7903690602481600401359101611cd5565b6105ef611b6f565b60443567ffffffffffffffff81116101b657366023820112156101b65780600401359067ffffffffffffffff8211610b00578160051b90604051926106376020840185611bd3565b8352602083019060248293820101903682116101b657602401915b818310610c50575050506040925f80855161066d8782611bd3565b601081526f46696c6520686173682069733a20257360801b602082015286516106d5816106c76106b56020830195634b5c427760e01b87528c60248501526064840190611c95565b8281036023190160448401528c611c95565b03601f198101835282611bd3565b51906a636f6e736f6c652e6c6f675afa50845115610bf9576001600160a01b0316908115610ba557338214610b4d5790935f945b83518610156108b1576001600160a01b036107248786611f4e565b51161561085c57806001600160a01b0361073e8887611f4e565b51161461080657600186018087116107f2575b84518110156107e6576001600160a01b0361076c8887611f4e565b51166001600160a01b036107808388611f4e565b51161461078f57600101610751565b855162461bcd60e51b815260206004820152602a60248201527f436f6d6d69746d656e74436861696e3a204475706c6963617465207769746e656044820152697373206164647265737360b01b6064820152608490fd5b50600190950194610709565b634e487b7160e01b5f52601160045260245ffd5b845162461bcd60e51b815260206004820152602960248201527f436f6d6d69746d656e74436861696e3a205769746e6573732063616e6e6f742060448201526831329039b4b3b732b960b91b6064820152608490fd5b845162461bcd60e51b815260206004820152602860248201527f436f6d6d69746d656e74436861696e3a20496e76616c6964207769746e657373604482015267206164647265737360c01b6064820152608490fd5b84916108bd5f54611f76565b5f818155818152600160208190529085902082815590810180546001600160a01b031990811633179091556002820180549091168517905595519094600387019067ffffffffffffffff8311610b0057680100000000000000008311610b00578154838355808410610b31575b50905f5260205f205f5b838110610b145750505050600485019481519567ffffffffffffffff8711610b00576020966109638254611b9b565b601f8111610ac7575b5087601f8211600114610a6457908060089493925f91610a59575b508160011b915f199060031b1c19161790555b42600582015560068101600161ffff198254161790555f60078201550162ffffff198154169055837ffb06d413d202232f8cc03e5afc2473dcb7a10639c4110a4c4ad7f739bd2463f26109f585519386855286850190611c95565b9242888201528033940390a480518181526009828201526834b734ba34b0ba37b960b91b60608201524284820152827ffc116c372529f33e892d2d216df6aebdd725520520d7fc13163ddf825e1bd79c60803393a3610a538261222e565b51908152f35b90508501518a610987565b601f19821690835f52805f20915f5b818110610ab05750918391600896959460019410610a98575b5050811b01905561099a565b8701515f1960f88460031b161c191690558a80610a8c565b91928b60018192868b015181550194019201610a73565b610af090835f52895f20601f840160051c8101918b8510610af6575b601f0160051c0190611f84565b8861096c565b9091508190610ae3565b634e487b7160e01b5f52604160045260245ffd5b82516001600160a01b031681830155602090920191600101610934565b610b4790835f528460205f209182019101611f84565b8861092a565b835162461bcd60e51b815260206004820152602b60248201527f436f6d6d69746d656e74436861696e3a205369676e65722063616e6e6f74206260448201526a329034b734ba34b0ba37b960a91b6064820152608490fd5b835162461bcd60e51b815260206004820152602760248201527f436f6d6d69746d656e74436861696e3a20496e76616c6964207369676e6572206044820152666164647265737360c81b6064820152608490fd5b835162461bcd60e51b815260206004820152602a60248201527f436f6d6d69746d656e74436861696e3a2046696c6520686173682063616e6e6f6044820152697420626520656d70747960b01b6064820152608490fd5b82356001600160a01b03811681036101b657815260209283019201610652565b346101b6575f3660031901126101b657610cb7604051610c91604082611bd3565b60058152640352e302e360dc1b6020820152604051918291602083526020830190611c95565b0390f35b346101b65760403660031901126101b657600435610cd7611b6f565b9080151580610d17575b610cea90611d0b565b5f52600260205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b505f54811115610ce1565b346101b6575f3660031901126101b65760206040515f8152f35b346101b65760403660031901126101b657610cb7610d76600435610d5e611b6f565b9080151580610d8a575b610d7190611d0b565b611e6b565b604051918291602083526020830190611c95565b505f54811115610d68565b346101b65760403660031901126101b657610dae611b6f565b6004355f525f5160206123af5f395f51905f5260205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b346101b6575f3660031901126101b65760206040517f16cedf8f601395ad37b8f7ac016395362fad21dfdd3152a47a294d9c5a3c29748152f35b346101b6575f3660031901126101b657335f9081527f762c7c328dd70a077c65c77b60e4c38eed3d2f6aa056d4d0fa114aeff8234b56602052604090205460ff1615610ec357610e72612207565b600160ff195f5160206123cf5f395f51905f525416175f5160206123cf5f395f51905f52557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586020604051338152a1005b63e2517d3f60e01b5f52336004527fbf233dd2aafeb4d50879c4aa5c81e96d92f6e6945c906a58f9f2d1c1631b4b2660245260445ffd5b346101b65760203660031901126101b6576004358015158061107f575b610f2090611d0b565b5f52600160205260405f2080549060018060a01b036001820154169060018060a01b036002820154169060038101936005820154926006830154906007840154926008850154946040519081809260208c54918281520190819c5f5260205f20905f5b81811061105d5750505091610f9f600492610fa5940385611bd3565b01611bf5565b92604051986101808a01938a5260208a015260408901526101806060890152518091526101a0870197905f5b81811061103e5750505060ff939291610ff488869389809b0360808b0152611c95565b9560a0880152818116151560c088015260081c16151560e08601526101008501528181161515610120850152818160081c16151561014085015260101c1615156101608301520390f35b82516001600160a01b03168a526020998a019990920191600101610fd1565b82546001600160a01b0316845286945060209093019260019283019201610f83565b505f54811115610f17565b346101b65760203660031901126101b65760043580151580611148575b6110b090611d0b565b805f526001602052600860405f2001805460ff8160081c16156111035761ff0019169055604051904282527fba2300499c0979431a4ef0eef31bc8bd7aacda2a6412a984b32ee0ae14547c4a60203393a3005b60405162461bcd60e51b815260206004820152601b60248201527f436f6d6d69746d656e74436861696e3a204e6f742066726f7a656e00000000006044820152606490fd5b505f548111156110a7565b346101b6575f3660031901126101b657602060ff5f5160206123cf5f395f51905f5254166040519015158152f35b346101b65760203660031901126101b65760043561119d6121cf565b6111a5612207565b801515806112d1575b6111b790611d0b565b805f5260016020526111d660ff600860405f20015460081c1615611d66565b5f81815260016020526040902060028101549091906001600160a01b031633036112795760066103369201610100815461121660ff8260081c1615611dc0565b61122260ff8216611e0c565b61ff00191617905560405160408152600660408201526539b4b3b732b960d11b6060820152426020820152817ffc116c372529f33e892d2d216df6aebdd725520520d7fc13163ddf825e1bd79c60803393a361222e565b60405162461bcd60e51b815260206004820152602a60248201527f436f6d6d69746d656e74436861696e3a204e6f74207468652064657369676e616044820152693a32b21039b4b3b732b960b11b6064820152608490fd5b505f548111156111ae565b346101b6575f3660031901126101b657610cb76040516112fd604082611bd3565b60058152640312e302e360dc1b6020820152604051918291602083526020830190611c95565b346101b6575f3660031901126101b6577f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316300361137a5760206040515f51602061238f5f395f51905f528152f35b63703e46dd60e11b5f5260045ffd5b60403660031901126101b65761139d611b85565b60243567ffffffffffffffff81116101b657366023820112156101b6576113ce903690602481600401359101611cd5565b6001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016308114908115611590575b5061137a5760018060a01b03821691826040514281527f81daf9335a6378204a43cc5467ad9282348d3864c1e3788e40b879f41b187aa560203092a36040516352d1902d60e01b8152602081600481875afa5f918161155c575b506114755783634c9c8ce360e01b5f5260045260245ffd5b805f51602061238f5f395f51905f5285920361154a5750813b15611538575f51602061238f5f395f51905f5280546001600160a01b031916821790557fbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b5f80a2815115611520575f8083602061020995519101845af43d15611518573d916114fc83611cb9565b9261150a6040519485611bd3565b83523d5f602085013e612330565b606091612330565b50503461152957005b63b398979f60e01b5f5260045ffd5b634c9c8ce360e01b5f5260045260245ffd5b632a87526960e21b5f5260045260245ffd5b9091506020813d602011611588575b8161157860209383611bd3565b810103126101b65751908561145d565b3d915061156b565b5f51602061238f5f395f51905f52546001600160a01b03161415905083611403565b346101b65760203660031901126101b6576004355f52600160205260405f20805460018060a01b036001830154169160ff60018060a01b036002830154166115fc60048401611bf5565b928260058201549461163d60068401549160086007860154950154956040519a8b9a8b5260208b015260408a015261016060608a0152610160890190611c95565b956080880152818116151560a088015260081c16151560c086015260e08501528181161515610100850152818160081c16151561012085015260101c1615156101408301520390f35b346101b6575f3660031901126101b657335f9081527fb7db2dd08fcb62d0c9e08c51941cae53c267786a0b75803fb7960902fc8ef97d602052604090205460ff1615611732575f5160206123cf5f395f51905f525460ff8116156117235760ff19165f5160206123cf5f395f51905f52557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa6020604051338152a1005b638dfc202b60e01b5f5260045ffd5b63e2517d3f60e01b5f52336004525f60245260445ffd5b346101b65760203660031901126101b65760043580151580611788575b61176f90611d0b565b5f5260016020526020600360405f200154604051908152f35b505f54811115611766565b346101b65760403660031901126101b6576117ac611b6f565b336001600160a01b038216036117c85761020990600435612133565b63334bd91960e11b5f5260045ffd5b346101b65760203660031901126101b657600435801515806118fe575b6117fd90611d0b565b805f526001602052600860405f2001805460ff8160101c166118af5760ff81161561185f57620100009062ff00001916179055604051904282527fab4ac46f9db1898358941f305fc2c3c4f3d205ec36506cc14863fdf50b2eea1b60203393a3005b60405162461bcd60e51b815260206004820152602260248201527f436f6d6d69746d656e74436861696e3a204e6f7420636f6d706c657465642079604482015261195d60f21b6064820152608490fd5b60405162461bcd60e51b815260206004820152602160248201527f436f6d6d69746d656e74436861696e3a20416c726561647920766572696669656044820152601960fa1b6064820152608490fd5b505f548111156117f4565b346101b65760403660031901126101b657610209600435611928611b6f565b9061194e6101ff825f525f5160206123af5f395f51905f52602052600160405f20015490565b61208f565b346101b65760203660031901126101b657602061198a6004355f525f5160206123af5f395f51905f52602052600160405f20015490565b604051908152f35b346101b6575f3660031901126101b65760206040517fbf233dd2aafeb4d50879c4aa5c81e96d92f6e6945c906a58f9f2d1c1631b4b268152f35b346101b6575f3660031901126101b65760206040517f3c897272fb756004d8a8588422a9ce6e04768b2d705bbde7a87ceb35e9b9c5d98152f35b346101b65760203660031901126101b65760043580151580611ac8575b611a2c90611d0b565b805f526001602052600860405f2001805460ff8160081c16611a83576101009061ff001916179055604051904282527f050e3a4118269cbcb6cdc5455a43a7f53ae78bed6b83ee6b19de36ab129b470a60203393a3005b60405162461bcd60e51b815260206004820152601f60248201527f436f6d6d69746d656e74436861696e3a20416c72656164792066726f7a656e006044820152606490fd5b505f54811115611a23565b346101b65760403660031901126101b657611aec611b6f565b6004355f52600260205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b346101b65760203660031901126101b6576004359063ffffffff60e01b82168092036101b657602091637965db0b60e01b8114908115611b5e575b5015158152f35b6301ffc9a760e01b14905083611b57565b602435906001600160a01b03821682036101b657565b600435906001600160a01b03821682036101b657565b90600182811c92168015611bc9575b6020831014611bb557565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611baa565b90601f8019910116810190811067ffffffffffffffff821117610b0057604052565b9060405191825f825492611c0884611b9b565b8084529360018116908115611c735750600114611c2f575b50611c2d92500383611bd3565b565b90505f9291925260205f20905f915b818310611c57575050906020611c2d928201015f611c20565b6020919350806001915483858901015201910190918492611c3e565b905060209250611c2d94915060ff191682840152151560051b8201015f611c20565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b67ffffffffffffffff8111610b0057601f01601f191660200190565b929192611ce182611cb9565b91611cef6040519384611bd3565b8294818452818301116101b6578281602093845f960137010152565b15611d1257565b60405162461bcd60e51b815260206004820152602660248201527f436f6d6d69746d656e74436861696e3a20496e76616c696420636f6d6d69746d604482015265195b9d08125160d21b6064820152608490fd5b15611d6d57565b60405162461bcd60e51b815260206004820152602560248201527f436f6d6d69746d656e74436861696e3a20436f6d6d69746d656e7420697320666044820152643937bd32b760d91b6064820152608490fd5b15611dc757565b60405162461bcd60e51b815260206004820152601f60248201527f436f6d6d69746d656e74436861696e3a20416c7265616479207369676e6564006044820152606490fd5b15611e1357565b60405162461bcd60e51b815260206004820152602a60248201527f436f6d6d69746d656e74436861696e3a20496e69746961746f72206d757374206044820152691cda59db88199a5c9cdd60b21b6064820152608490fd5b5f818152600160208190526040909120908101549192916001600160a01b038084169291168203611ec15750505050604051611ea8604082611bd3565b600981526834b734ba34b0ba37b960b91b602082015290565b600201546001600160a01b031603611ef9575050604051611ee3604082611bd3565b600681526539b4b3b732b960d11b602082015290565b611f02916122b2565b15611f2c57604051611f15604082611bd3565b60078152667769746e65737360c81b602082015290565b604051611f3a604082611bd3565b60048152636e6f6e6560e01b602082015290565b8051821015611f625760209160051b010190565b634e487b7160e01b5f52603260045260245ffd5b5f1981146107f25760010190565b818110611f8f575050565b5f8155600101611f84565b5f8181525f5160206123af5f395f51905f526020908152604080832033845290915290205460ff1615611fca5750565b63e2517d3f60e01b5f523360045260245260445ffd5b6001600160a01b0381165f9081527fb7db2dd08fcb62d0c9e08c51941cae53c267786a0b75803fb7960902fc8ef97d602052604090205460ff1661208a576001600160a01b03165f8181527fb7db2dd08fcb62d0c9e08c51941cae53c267786a0b75803fb7960902fc8ef97d60205260408120805460ff191660011790553391907f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d8180a4600190565b505f90565b5f8181525f5160206123af5f395f51905f52602090815260408083206001600160a01b038616845290915290205460ff1661212d575f8181525f5160206123af5f395f51905f52602090815260408083206001600160a01b0395909516808452949091528120805460ff19166001179055339291907f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d9080a4600190565b50505f90565b5f8181525f5160206123af5f395f51905f52602090815260408083206001600160a01b038616845290915290205460ff161561212d575f8181525f5160206123af5f395f51905f52602090815260408083206001600160a01b0395909516808452949091528120805460ff19169055339291907ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9080a4600190565b60025f5160206123ef5f395f51905f5254146121f85760025f5160206123ef5f395f51905f5255565b633ee5aeb560e01b5f5260045ffd5b60ff5f5160206123cf5f395f51905f52541661221f57565b63d93c066560e01b5f5260045ffd5b805f52600160205260405f20600681015460ff811690816122a4575b5080612293575b612259575050565b600801600160ff198254161790557fa7a05d35729767a8b5b06c572b490501c2eaac0998d347fdf52f34b748c550786020604051428152a2565b506007810154600382015414612251565b60ff915060081c165f61224a565b5f52600160205260405f209060035f92018054925b838110156122fd575f828152602090208101546001600160a01b038481169116146122f4576001016122c7565b50505050600190565b505050505f90565b60ff5f51602061240f5f395f51905f525460401c161561232157565b631afcd79f60e31b5f5260045ffd5b90612354575080511561234557602081519101fd5b63d6bda27560e01b5f5260045ffd5b81511580612385575b612365575090565b639996b31560e01b5f9081526001600160a01b0391909116600452602490fd5b50803b1561235d56fe360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc02dd7bc7dec4dceedda775e58dd541e08a116c6c53815c0bd028192f7b626800cd5ed15c6e187e77e9aee88184c21f4f2182ab5827cb3b7e07fbedcd63f033009b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f00f0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00a264697066735822122038aed86929893c6a2f2e2454f89a3e00c215a76d14e9954a77f9703c4612483864736f6c634300081c0033";
+  "0x60a0806040523460295730608052615fc0908161002e823960805181818161363101526137e60152f35b5f80fdfe6080806040526004361015610012575f80fd5b5f905f3560e01c90816301ffc9a7146146e157508063023ca4dd14614680578063034d7b131461466357806310d1d735146145dc5780631610c87c146145935780631de49e61146144da5780632087a00e146144b257806320df4359146144775780632427490b14614413578063245ca528146143c2578063248a9ca3146143a357806326776d47146143375780632b4f80781461431b5780632d1fdef61461427c5780632f2ff15d1461424a5780632f8ec34714613f9057806334b25ee214613efc5780633521e9f514613e6a57806336568abe14613e2557806338e6a62114613e00578063396f7b2314613dd75780633a225a1114613c7f5780633c0949aa14613c445780633cee141914613bf35780633e7d53b114613b535780633f4ba83a14613ad257806344d13ff714613a7357806349b50a5414613a4e5780634f1ef2861461376b5780634fb152961461371f57806351410e4b1461368557806352d1902d1461361e57806354fd4d50146135d6578063550f08c91461359e57806355f29166146134fe57806359608e571461349b5780635c975abb1461346c5780635cdc99eb146133e25780635ce4eae5146133a35780636169c3081461333e5780636208b61d146132b057806363919aa3146131c05780636427acca146130ed57806369bcdb7d14612fb157806371885dd014612f76578063792b024d14612f535780637add90e514612f005780637d38047b14612c8f5780637e48d4ea14612c715780637ecebe0014612c195780637edb2e4a14612b735780638279a22414612b4e5780638456cb5914612a6f5780638499f23b14612a2657806384b0196e1461290557806389c4e930146127ae5780638b567506146127735780638ec6269e1461274b5780639010d07c1461270157806390c536c4146125fa57806391d14854146125c957806392175af514612536578063925a6568146124fb57806393552a3d146123e85780639606d201146123605780639874e9fc1461230a5780639af83c2a146122d45780639bf83e2414612221578063a217fddf14612205578063a2b3d41a146121b1578063a2cbf50d1461216c578063a3246ad3146120e8578063a63a10c314611ea4578063a81c33c414611ba8578063ab0c895714611aaa578063ad3cb1cc14611a62578063afc1b2ba14611a46578063b5d8f2de14611a0d578063b8c8b44c1461193b578063beeecff7146117ca578063c193f4111461170c578063c44956d1146116ef578063c4d66de814611050578063c914a0af1461100f578063c915fc9314610f2d578063ca15c87314610ef7578063ca9e376614610e4c578063cd21aa0814610d79578063ce819be414610c79578063cfdbf25414610c5d578063d4e36d1314610adc578063d547741f14610aa6578063d5d06fc014610a5b578063dc6394a1146108b9578063dde56f1a14610882578063ddf94660146107a7578063dfceceae1461065b578063e68cba801461063d578063e7705db614610615578063eead2b6d14610555578063f1c62104146105375763f8b2afed14610480575f80fd5b346105345760203660031901126105345760043561049d81614fd4565b60405190630967f01f60e01b825260016004830152601160248301526044820152818160648173__$b7c9f6db27740c304406f5d0d0984347cc$__5af490811561052957826105029392610506575b505060405191829160208352602083019061479d565b0390f35b61052292503d8091833e61051a818361484b565b810190614b8f565b5f806104ec565b6040513d84823e3d90fd5b80fd5b50346105345780600319360112610534576020600c54604051908152f35b5034610534576060366003190112610534578060043561057361475b565b9061058761058082614bb4565b3390615a64565b610591828261521c565b50808352600b602052604083209073__$7bc9023a51ce5dc91400a62e6e5ca22d2b$__803b15610611578492608491604051958694859363019d42c560e01b85526004850152602484015260018060a01b0316604483015260443560648301525af48015610529576106005750f35b8161060a9161484b565b6105345780f35b8480fd5b503461053457806003193601126105345760206040515f516020615f4b5f395f51905f528152f35b50346105345780600319360112610534576020604051620151808152f35b50346105345760203660031901126105345760043561067981614fd4565b8082526001602052601760408320019082526004602052604082206040519163524cae0f60e01b835260048301526024820152818160448173__$51ce930a20b173648b4a94630a0692dbd0$__5af490811561052957829161074f575b5090604051918291602083016020845282518091526020604085019301915b818110610703575050500390f35b91935091602060808261074160019488516060809160018060a01b038151168452602081015115156020850152604081015160408501520151910152565b0194019101918493926106f5565b90503d8083833e610760818361484b565b81019060208183031261079f578051906001600160401b0382116107a357019080601f8301121561079f57815161079992602001614ce2565b5f6106d6565b8280fd5b8380fd5b5034610534576080366003190112610534576107c1614771565b60243590600382101561079f5760018060a01b0316825260056020526040822090825260205260408120604051638bb68bc960e01b815282818061081f60643560443587600485016040919493926060820195825260208201520152565b038173__$51ce930a20b173648b4a94630a0692dbd0$__5af4928315610876578093610859575b50505490610502604051928392836147d0565b61086e9293503d8091833e61051a818361484b565b905f80610846565b604051903d90823e3d90fd5b50346105345760203660031901126105345760206108aa6004356108a581614fd4565b615103565b6108b76040518092614b25565bf35b503461053457806108c936614ada565b90916108d795939495615366565b6108df6150dc565b6108e88661574a565b6108f185615a14565b73__$6942be374d9289071b9972621d59129786$__86855260016020526040852061091a615d7b565b610922615de5565b6040519060208201927f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f8452604083015260608201524660808201523060a082015260a0815261097360c08261484b565b5190206001600160a01b0388168088527f5ab42ced628888259c08ac98db1eb0cf702fc1501344311d8b100cd1bfe4bb00602052604088208054600181019091559096919291843b15610a575788968b96610a14936040519a8b998a98899863cc45621960e01b8a5260048a01526024890152604488015260648701526002608487015260a486015260c485015261010060e4850152610104840191614c5d565b03915af4801561052957610a42575b5050610a2e9161584d565b60015f516020615f2b5f395f51905f525580f35b81610a4c9161484b565b61079f57825f610a23565b8880fd5b503461053457602036600319011261053457602090600435610a7c81614fd4565b8152600182526040902060198101549081610aa0576003915001545b604051908152f35b50610a98565b503461053457604036600319011261053457610ad8600435610ac661475b565b90610ad361058082614bb4565b615291565b5080f35b50346105345780610aec36614ada565b9091610afa95939495615366565b610b026150dc565b610b0b8661574a565b73__$6942be374d9289071b9972621d59129786$__868552600160205260408520610b34615d7b565b610b3c615de5565b6040519060208201927f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f8452604083015260608201524660808201523060a082015260a08152610b8d60c08261484b565b5190206001600160a01b0388168088527f5ab42ced628888259c08ac98db1eb0cf702fc1501344311d8b100cd1bfe4bb00602052604088208054600181019091559096919291843b15610a575788968b96610c2e936040519a8b998a98899863cc45621960e01b8a5260048a01526024890152604488015260648701526001608487015260a486015260c485015261010060e4850152610104840191614c5d565b03915af4801561052957610c48575b5050610a2e916157ae565b81610c529161484b565b61079f57825f610c3d565b5034610534578060031936011261053457602060405160328152f35b503461053457602036600319011261053457600435816001600160401b03821161053457610cae610cff9236906004016147ec565b610cb733615a14565b610cbf615366565b610cc76150dc565b604051636a96196f60e01b815260016004820152600260248201526003604482015260c06064820152938492839260c4840191614c17565b336084830152600160a4830152038173__$6942be374d9289071b9972621d59129786$__5af490811561052957826105029392610d56575b505060015f516020615f2b5f395f51905f525560405191829182614a9f565b610d7292503d8091833e610d6a818361484b565b810190614f07565b5f80610d37565b50346105345780610d8936614944565b90610d92615366565b610d9a6150dc565b610da38161574a565b73__$6942be374d9289071b9972621d59129786$__9080845260016020526040842091818552600260205260408520813b15610e4857604051630815b50d60e41b8152600481019490945260248401526044830191909152606482019290925290829082908180608481015b03915af4801561052957610e33575b5060015f516020615f2b5f395f51905f525580f35b81610e3d9161484b565b61053457805f610e1e565b8580fd5b50346105345780610e5c36614944565b90610e65615366565b610e6d6150dc565b610e7681614fd4565b73__$b7c9f6db27740c304406f5d0d0984347cc$__90808452600160205260408420610ea133614d87565b90833b15610e485785936084926040519687958694638c7902ed60e01b8652600486015260248501526044840152151560648301525af4801561052957610e33575060015f516020615f2b5f395f51905f525580f35b503461053457602036600319011261053457604060209160043581525f516020615e2b5f395f51905f5283522054604051908152f35b503461053457602036600319011261053457610f47614771565b610f5033615944565b600954600854604051636631e0b160e11b81526001600160a01b0384811660048301529092166024830152604482015260208160648173__$066294f9079f954e7f6525263538d3a862$__5af4908115611004578391610fd2575b50600a5560018060a01b03166bffffffffffffffffffffffff60a01b600954161760095580f35b90506020813d602011610ffc575b81610fed6020938361484b565b8101031261079f57515f610fab565b3d9150610fe0565b6040513d85823e3d90fd5b503461053457602036600319011261053457610a2e60043561103033615a14565b611038615366565b6110406150dc565b6110498161574a565b339061584d565b50346105345760203660031901126105345761106a614771565b905f516020615f6b5f395f51905f52546001600160401b0360ff8260401c16159116801590816116e7575b60011490816116dd575b1590816116d4575b506116c5578060016001600160401b03195f516020615f6b5f395f51905f525416175f516020615f6b5f395f51905f5255611695575b6001600160a01b03831615611641576110f4615ad1565b6110fc615ad1565b611104615ad1565b60015f516020615f2b5f395f51905f525561111d615ad1565b611125614f88565b9261112e614fb5565b93611137615ad1565b61113f615ad1565b8051906001600160401b03821161162d5781906111695f516020615e4b5f395f51905f525461497e565b601f81116115b3575b50602090601f831160011461153757869261152c575b50508160011b915f199060031b1c1916175f516020615e4b5f395f51905f52555b83516001600160401b038111611518576111d05f516020615eab5f395f51905f525461497e565b601f81116114a9575b50602094601f821160011461142e579484958293949592611423575b50508160011b915f199060031b1c1916175f516020615eab5f395f51905f52555b827fa16a46d94261c7517cc8ff89f61c0ce93598e3c849801011dee649a6a557d10055827fa16a46d94261c7517cc8ff89f61c0ce93598e3c849801011dee649a6a557d10155611264615ad1565b61126c615ad1565b61127581615187565b50604051906112838261481c565b5f516020615e8b5f395f51905f5282525f516020615e6b5f395f51905f5260208301525f516020615f4b5f395f51905f5260408301526040516112c58161481c565b7f2f7c2e62f9034d03c365b789209dc11a25b4e37ba3afb96fffc3061ea6d6d9e081527f4b1543f2d09a40df1dea5823b536d39f6820d24fd4387e828760e8c014ff2ed560208201527fb194a0b06484f8a501e0bef8877baf2a303f803540f5ddeb9d985c0cd76f3e706040820152845b600381106113a4578585818055620151806008556113515780f35b60ff60401b195f516020615f6b5f395f51905f5254165f516020615f6b5f395f51905f52557fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d2602060405160018152a180f35b806113b160019286615280565b516113bc8285615280565b51906113c781614bb4565b90808a525f516020615eeb5f395f51905f52602052828560408c2001557fbd79b86ffe0ab8e8776151514217cd7cacd52c909f66475c3af44e129f0b00ff8a80a461141c846114168386615280565b5161521c565b5001611336565b015190505f806111f5565b601f198216955f516020615eab5f395f51905f52865280862091865b88811061149157508360019596979810611479575b505050811b015f516020615eab5f395f51905f5255611216565b01515f1960f88460031b161c191690555f808061145f565b9192602060018192868501518155019401920161144a565b5f516020615eab5f395f51905f5285527f5f9ce34815f8e11431c7bb75a8e6886a91478f7ffc1dbb0a98dc240fddd76b75601f830160051c8101916020841061150e575b601f0160051c01905b81811061150357506111d9565b8581556001016114f6565b90915081906114ed565b634e487b7160e01b84526041600452602484fd5b015190505f80611188565b5f516020615e4b5f395f51905f5287528187209250601f198416875b81811061159b5750908460019594939210611583575b505050811b015f516020615e4b5f395f51905f52556111a9565b01515f1960f88460031b161c191690555f8080611569565b92936020600181928786015181550195019301611553565b5f516020615e4b5f395f51905f5287529091507f42ad5d3e1f2e6e70edcf6d991b8a3023d3fca8047a131592f9edb9fd9b89d57d601f840160051c81019160208510611623575b90601f859493920160051c01905b8181106116155750611172565b878155849350600101611608565b90915081906115fa565b634e487b7160e01b85526041600452602485fd5b60405162461bcd60e51b815260206004820152602660248201527f436f6d6d69746d656e74436861696e3a20496e76616c69642061646d696e206160448201526564647265737360d01b6064820152608490fd5b600160401b60ff60401b195f516020615f6b5f395f51905f525416175f516020615f6b5f395f51905f52556110dd565b63f92ee8a960e01b8252600482fd5b9050155f6110a7565b303b15915061109f565b829150611095565b503461053457806003193601126105345760209054604051908152f35b50346105345760603660031901126105345780600435602435906001600160401b0382168092036117c65761173f6150dc565b61174881614fd4565b73__$b7c9f6db27740c304406f5d0d0984347cc$__908084526001602052604084209261177482615103565b93833b15610e4857859360a4926117aa6040519788968795636f08ef1160e01b8752600487015260248601526044850190614b25565b606483015260443560848301525af48015610529576106005750f35b5050fd5b503461053457806117da36614944565b91908082525f516020615e2b5f395f51905f52602052604082209060405191826020825491828152019185526020852090855b8181106119225750505090611828836118569493038361484b565b8352600b60205260408084209051632bb149c160e11b81526060600482015294859384936064850190614a56565b9160248401526044830152038173__$7bc9023a51ce5dc91400a62e6e5ca22d2b$__5af491821561087657809181936118b4575b6118a68361050286604051938493604085526040850190614a56565b90838203602085015261479d565b915091503d8083833e6118c7818361484b565b8101916040828403126105345781516001600160401b03811161191e57836118f0918401614ea2565b916020810151916001600160401b03831161053457506118a693610502926119189201614b32565b9261188a565b5080fd5b825484528896506020909301926001928301920161180d565b503461053457602036600319011261053457600435816001600160401b038211610534576119706119b89236906004016147ec565b611978615366565b6119806150dc565b6040519384928392636a96196f60e01b845260016004850152600260248501526004604485015260c0606485015260c4840191614c17565b3360848301528360a4830152038173__$6942be374d9289071b9972621d59129786$__5af490811561052957826105029392610d5657505060015f516020615f2b5f395f51905f525560405191829182614a9f565b5034610534576020366003190112610534576020906040906001600160a01b03611a35614771565b168152600e83522054604051908152f35b5034610534578060031936011261053457602060405160028152f35b5034610534578060031936011261053457610502604051611a8460408261484b565b60058152640352e302e360dc1b602082015260405191829160208352602083019061495a565b50346105345760203660031901126105345760043590611ac982614fd4565b81815260016020528060036040822001928082526002602052604082209082526001602052600760408320015493611b266040519586938493632e2cc3a560e11b8552600485016040919493926060820195825260208201520152565b038173__$51ce930a20b173648b4a94630a0692dbd0$__5af4908115610876578091611b63575b6040516020808252819061050290820185614a56565b90503d8082843e611b74818461484b565b82019160208184031261191e578051916001600160401b038311610534575091611ba2916105029301614ea2565b5f611b4d565b50346105345760c0366003190112610534576004356044356001600160401b03811161079f57611bdc9036906004016148de565b6064356001600160401b0381116107a357611bfb9036906004016148de565b9160843590611c09336159c4565b611c11615366565b611c196150dc565b611c238554614c3b565b938486558573__$51ce930a20b173648b4a94630a0692dbd0$__803b1561191e5781604051809263a437294960e01b82526005600483015289602483015260a060448301528180611c8c611c7a60a483018d614a56565b82810360031901606484015289614a56565b8a608483015203915af4801561052957611e8f575b5050338652600e602052604086205473__$b7c9f6db27740c304406f5d0d0984347cc$__948688526001602052604088209260ff60075416873b15611e8b57604051630e70b94560e31b8152600481019590955260106024860152600f6044860152151560648501526084840188905260a4840185905288958693611d54869493611d418695600260c488015261018060e4880152610184870190614a56565b8581036003190161010487015290614a56565b9161012484015260a4356101448401526101648301520381875af4908115611004578391611e62575b505073__$6942be374d9289071b9972621d59129786$__803b1561079f5782604491604051928380926355a3131f60e01b8252600160048301528960248301525af4908115611004578391611e4d575b5050838252600160205260408220833b1561079f57608490604051948593849263738ba89160e11b84526004840152876024840152604483015260243560648301525af4801561100457611e38575b60208260015f516020615f2b5f395f51905f5255604051908152f35b611e4383809261484b565b61191e5781611e1c565b81611e579161484b565b61191e57815f611dcd565b81611e6c9161484b565b61191e57815f611d7d565b634e487b7160e01b5f52602160045260245ffd5b8980fd5b81611e999161484b565b610e4857855f611ca1565b5034610534576080366003190112610534576004356001600160401b03811161191e57611ed59036906004016147ec565b91602435600581101561191e576044356001600160401b03811161079f57611f019036906004016147ec565b90916064356001600160401b03811161061157611f229036906004016147ec565b9092611f2d336159c4565b611f35615366565b611f3d6150dc565b871515806120dd575b1561208c5787811480612083575b1561202f57611f628861486c565b97611f70604051998a61484b565b808952601f19611f7f8261486c565b013660208b0137865b818110611fb65760015f516020615f2b5f395f51905f5255604051602080825281906105029082018d61479d565b611fff878787611ff988611ff18f88611fdf818d611fd8828f611fe797614bd2565b359a614e5e565b949097614e5e565b9590923691614883565b933691614883565b9261539e565b8a5182101561201b57600582901b8b0160200152600101611f88565b634e487b7160e01b89526032600452602489fd5b60405162461bcd60e51b815260206004820152602660248201527f436f6d6d69746d656e74436861696e3a204261746368206c656e677468206d696044820152650e6dac2e8c6d60d31b6064820152608490fd5b50878214611f54565b60405162461bcd60e51b815260206004820152602360248201527f436f6d6d69746d656e74436861696e3a20496e76616c69642062617463682073604482015262697a6560e81b6064820152608490fd5b506032881115611f46565b50346105345760203660031901126105345760043581525f516020615e2b5f395f51905f5260205260408120604051918260208354918281520192825260208220915b81811061215657610502856121428187038261484b565b604051918291602083526020830190614a56565b825484526020909301926001928301920161212b565b503461053457604036600319011261053457604061218861475b565b916004358152600b602052209060018060a01b03165f52602052602060405f2054604051908152f35b5034610534576040366003190112610534576040600435916121d161475b565b926121db81614fd4565b81526002602052209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b5034610534578060031936011261053457602090604051908152f35b5034610534576080366003190112610534578060243560043560068210156117c65761224c336158ce565b61225581614fd4565b61225e81615046565b8083526001602052604083209073__$cd24a03950abe0e2c0eebe0ae52ea029e0$__803b1561061157849260a4916122b56040519687958694630648504b60e01b865260048601526024850152604484019061474e565b604435606483015260643560848301525af48015610529576106005750f35b503461053457602036600319011261053457601760406020926004356122f981614fd4565b815260018452200154604051908152f35b503461053457602036600319011261053457604060609160043561232d81614fd4565b815260016020522060018060a01b0360018201541690600c600b8201549101549060405192835260208301526040820152f35b50346105345760203660031901126105345760043561237e33615944565b8173__$066294f9079f954e7f6525263538d3a862$__600854813b1561079f578290604460405180948193631d32e03b60e01b835260048301528760248301525af48015610529576123d3575b505060085580f35b816123dd9161484b565b61191e57815f6123cb565b50346105345760403660031901126105345760043561240561475b565b9061240f81614fd4565b8252600160205260408083209051633bb9390d60e01b815260048101919091526001600160a01b039091166024820152818160448173__$51ce930a20b173648b4a94630a0692dbd0$__5af490811561052957829161247f575b604051602080825281906105029082018561495a565b90503d8083833e612490818361484b565b81019060208183031261079f578051906001600160401b0382116107a3570181601f8201121561079f578051906124c682614929565b926124d4604051948561484b565b828452602083830101116107a35781610502949260208093018386015e830101525f612469565b503461053457806003193601126105345760206040517fe1a4ba9f56a6e1675df469c3e6010e0d74826707eeddc2bd5a6115692bcbf3b18152f35b5034610534578061254636614944565b9061255033615974565b61255981614fd4565b61256281615046565b61256b816152f5565b8083526001602052604083209073__$cd24a03950abe0e2c0eebe0ae52ea029e0$__803b156106115784926064916040519586948593637cf0be4160e01b85526004850152602484015260448301525af48015610529576106005750f35b50346105345760403660031901126105345760206125f06125e861475b565b600435614e0b565b6040519015158152f35b5034610534576060366003190112610534578060043561261861475b565b612620614787565b612628615366565b6126306150dc565b61263983614fd4565b73__$51ce930a20b173648b4a94630a0692dbd0$__908385526001602052604085208486526002602052604086209261267186615103565b9461267b33614d87565b90823b15610a57578896610104956126d9926040519a8b998a98630c3ef1eb60e01b8a5260048a0152602489015260056044890152606488015260018060a01b0316608487015260018060a01b031660a486015260c4850190614b25565b151560e48301525af4801561052957610e33575060015f516020615f2b5f395f51905f525580f35b503461053457612732602091604061271836614944565b929081525f516020615e2b5f395f51905f52855220615abc565b905460405160039290921b1c6001600160a01b03168152f35b503461053457806003193601126105345760206040515f516020615e6b5f395f51905f528152f35b503461053457806003193601126105345760206040517f2f7c2e62f9034d03c365b789209dc11a25b4e37ba3afb96fffc3061ea6d6d9e08152f35b5034610534576020366003190112610534576004356127cc81614fd4565b80825260016020526003604083200190808352600260205260408320908352600360205260408320906040519263a2b8f6a560e01b8452600484015260248301526044820152818160648173__$51ce930a20b173648b4a94630a0692dbd0$__5af49081156105295782916128b5575b5090604051918291602083016020845282518091526020604085019301915b818110612869575050500390f35b9193509160206080826128a760019488516060809160018060a01b038151168452602081015115156020850152604081015160408501520151910152565b01940191019184939261285b565b90503d8083833e6128c6818361484b565b81019060208183031261079f578051906001600160401b0382116107a357019080601f8301121561079f5781516128ff92602001614ce2565b5f61283c565b50346105345780600319360112610534577fa16a46d94261c7517cc8ff89f61c0ce93598e3c849801011dee649a6a557d1005415806129fd575b156129c05761299390610502612953614f88565b9161295c614fb5565b6129a16040519161296e60208461484b565b8383525f368137604051968796600f60f81b885260e0602089015260e088019061495a565b90868203604088015261495a565b9146606086015230608086015260a085015283820360c085015261479d565b60405162461bcd60e51b81526020600482015260156024820152741152540dcc4c8e88155b9a5b9a5d1a585b1a5e9959605a1b6044820152606490fd5b507fa16a46d94261c7517cc8ff89f61c0ce93598e3c849801011dee649a6a557d101541561293f565b50346105345760203660031901126105345760408091600435612a4881614fd4565b81526001602052206108b760ff602460238401549301541683519283526020830190614a92565b5034610534578060031936011261053457612a89336158ce565b338152600e6020526040812054612af457612aa26150dc565b600160ff195f516020615f0b5f395f51905f525416175f516020615f0b5f395f51905f52557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586020604051338152a180f35b60405162461bcd60e51b815260206004820152602c60248201527f436f6d6d69746d656e74436861696e3a204f7267616e697a6174696f6e2d736360448201526b1bdc1959081858d8dbdd5b9d60a21b6064820152608490fd5b503461053457602036600319011261053457602160406020926004356122f981614fd4565b50346105345760c036600319011261053457602435600581101561191e576044356001600160401b03811161079f57612bb09036906004016148de565b91606435906001600160401b038211610534576020612c008585612bd736600488016148de565b612be0336159c4565b612be8615366565b612bf06150dc565b60a4359260843592600435615572565b60015f516020615f2b5f395f51905f5255604051908152f35b5034610534576020366003190112610534576020906040906001600160a01b03612c41614771565b1681527f5ab42ced628888259c08ac98db1eb0cf702fc1501344311d8b100cd1bfe4bb0083522054604051908152f35b50346105345780600319360112610534576020600854604051908152f35b50346105345760a036600319011261053457602435600581101561191e5781612cb6614787565b916064356001600160401b03811161079f57612cd9612cf89136906004016148de565b93612ce3336159c4565b612ceb615366565b612cf36150dc565b61581b565b612d028354614c3b565b9384845573__$51ce930a20b173648b4a94630a0692dbd0$__803b156106115784604051809263a437294960e01b82526005600483015288602483015260a060448301528180612d6a612d5860a483018a614a56565b82810360031901606484015288614a56565b85608483015203915af4908115612ef5578591612ee0575b5050338452600e602052604084205473__$b7c9f6db27740c304406f5d0d0984347cc$__9086865260016020526040862060ff6007541691833b15612edc57612e398995612e268a98612e136040519b8c9a8b998a99630e70b94560e31b8b5260048b0152601060248b0152600f60448b0152151560648a0152608489015260043560a489015260c4880190614a92565b61018060e4870152610184860190614a56565b8481036003190161010486015290614a56565b908661012484015260843561014484015261016483015203915af4801561052957612ec7575b505073__$6942be374d9289071b9972621d59129786$__82813b1561053457604491604051928380926355a3131f60e01b8252600160048301528660248301525af4801561100457611e385760208260015f516020615f2b5f395f51905f5255604051908152f35b81612ed19161484b565b61191e57815f612e5f565b8780fd5b81612eea9161484b565b6107a357835f612d82565b6040513d87823e3d90fd5b5034610534576020366003190112610534576040606091600435612f2381614fd4565b815260016020522060ff600882015416906010600f82015491015490604051921515835260208301526040820152f35b5034610534578060031936011261053457602060ff600754166040519015158152f35b503461053457806003193601126105345760206040517fb194a0b06484f8a501e0bef8877baf2a303f803540f5ddeb9d985c0cd76f3e708152f35b503461053457602036600319011261053457600435612fcf81614fd4565b80825260016020526040822091825491600160a01b60019003600185015416936005810154926006820154601883015490600784015492600885015495815260016020526040902061302090615a95565b9361302d60178201614c7d565b9061303a60038201614c7d565b90600401613047906149b6565b916040519a8b9a8b5260208b015260408a016101c090526101c08a0161306c91614a56565b89810360608b015261307d91614a56565b88810360808a015261308e9161495a565b9560a088015260ff8116151560c088015260081c60ff16151560e087015261010086015261012085015260ff8216151561014085015215156101608401528060101c60ff16151561018084015260181c60ff1615156101a08301520390f35b503461053457602036600319011261053457806004356001600160401b0381116131bd5761311f9036906004016148fc565b919061312a33615944565b613135600c54614c3b565b9283600c5573__$7bc9023a51ce5dc91400a62e6e5ca22d2b$__90813b156107a35761318c946040519586948593849363f61ac45d60e01b8552600d60048601526024850152606060448501526064840191614c5d565b03915af48015610529576131a8575b6020600c54604051908152f35b6131b382809261484b565b610534578061319b565b50fd5b503461053457606036600319011261053457600435906044356001600160401b03811161191e576131f760209136906004016147ec565b909361320281614fd4565b8352600182526040832061323f604051958693849363b785e3e360e01b855260048501526024356024850152606060448501526064840191614c17565b038173__$b7c9f6db27740c304406f5d0d0984347cc$__5af4908115610876578091613273575b6020826040519015158152f35b90506020823d6020116132a8575b8161328e6020938361484b565b8101031261053457506132a2602091614c0a565b5f613266565b3d9150613281565b503461053457602036600319011261053457806004356132cf336158ce565b6132d881614fd4565b6132e181615046565b80825260016020526040822073__$cd24a03950abe0e2c0eebe0ae52ea029e0$__91823b15613339576044849260405194859384926310993e7360e11b8452600484015260248301525af48015610529576106005750f35b505050fd5b503461053457602036600319011261053457604060809160043561336181614fd4565b815260016020522060ff601a820154601c601b8401549301546040519360018060a01b038360101c1685526020850152604084015260081c1615156060820152f35b5034610534576020366003190112610534576133ce6040610502926004358152600d602052206149b6565b60405191829160208352602083019061495a565b503461053457604036600319011261053457806133fd614771565b61340633615944565b600c5473__$7bc9023a51ce5dc91400a62e6e5ca22d2b$__91823b15613339576084849260405194859384926311c7d62f60e01b8452600e6004850152602484015260018060a01b0316604483015260243560648301525af48015610529576106005750f35b5034610534578060031936011261053457602060ff5f516020615f0b5f395f51905f5254166040519015158152f35b503461053457608036600319011261053457602435600581101561191e576134c1614787565b91606435906001600160401b038211610534576020612c0085856134f56134eb36600489016148de565b92612ce3336159c4565b9060043561539e565b503461053457806003193601126105345761351833615944565b600954819073__$066294f9079f954e7f6525263538d3a862$__906001600160a01b0316813b156117c6578290602460405180948193633113ee3b60e21b835260048301525af4801561052957613589575b506bffffffffffffffffffffffff60a01b6009541660095580600a5580f35b816135939161484b565b61053457805f61356a565b503461053457602036600319011261053457610a2e6004356135be615366565b6135c66150dc565b6135cf8161574a565b33906157ae565b50346105345780600319360112610534576105026040516135f860408261484b565b60058152640312e302e360dc1b602082015260405191829160208352602083019061495a565b50346105345780600319360112610534577f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031630036136765760206040515f516020615ecb5f395f51905f528152f35b63703e46dd60e11b8152600490fd5b5034610534578061369536614944565b9061369e615366565b6136a66150dc565b6136af8161574a565b73__$6942be374d9289071b9972621d59129786$__9080845260016020526040842091818552600460205260408520813b15610e48576040516328d128b960e11b815260048101949094526024840152604483019190915260648201929092529082908290818060848101610e0f565b5034610534576020366003190112610534576040809160043561374181614fd4565b815260016020522060256001600160401b03602483015460081c1691015482519182526020820152f35b50604036600319011261053457613780614771565b602435906001600160401b03821161079f573660238301121561079f57816004013590836137ad83614929565b936137bb604051958661484b565b8385526020850193366024828401011161079f57806024602093018637850101526001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016308114908115613a2c575b50613a1d5761381f33615944565b8373__$066294f9079f954e7f6525263538d3a862$__60018060a01b0360095416600a54823b156107a357604051639da2df8560e01b81526001600160a01b0386811660048301529290921660248301526044820152908290829060649082905af4801561052957613a08575b5050600980546001600160a01b0319169055600a8490556040516352d1902d60e01b81526001600160a01b0382169390602081600481885afa8691816139d0575b506138e657634c9c8ce360e01b86526004859052602486fd5b93845f516020615ecb5f395f51905f528796036139be5750823b156139ac575f516020615ecb5f395f51905f5280546001600160a01b031916821790558491907fbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b8380a280511561399157610ad89382915190845af43d15613989573d9161396d83614929565b9261397b604051948561484b565b83523d85602085013e615d1d565b606091615d1d565b505050503461399d5780f35b63b398979f60e01b8152600490fd5b634c9c8ce360e01b8552600452602484fd5b632a87526960e21b8652600452602485fd5b9091506020813d602011613a00575b816139ec6020938361484b565b810103126139fc5751905f6138cd565b8680fd5b3d91506139df565b81613a129161484b565b6107a357835f61388c565b63703e46dd60e11b8452600484fd5b5f516020615ecb5f395f51905f52546001600160a01b0316141590505f613811565b503461053457602036600319011261053457601160406020926004356122f981614fd4565b503461053457602036600319011261053457604090600435613a9481614fd4565b81526001602090815291902060088101546009820154600a909201546040805192851c6001600160a01b031683529382019290925291820152606090f35b5034610534578060031936011261053457613aec33615944565b5f516020615f0b5f395f51905f525460ff811615613b445760ff19165f516020615f0b5f395f51905f52557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa6020604051338152a180f35b638dfc202b60e01b8252600482fd5b5034610534576020366003190112610534576004356001600160401b03811161191e57613b8660209136906004016148fc565b919082604051938492833781016006815203019020604051918260208354918281520192825260208220915b818110613bdd5761050285613bc98187038261484b565b60405191829160208352602083019061479d565b8254845260209093019260019283019201613bb2565b503461053457604036600319011261053457604060043591613c1361475b565b92613c1d81614fd4565b81526004602052209060018060a01b03165f52602052602060405f20541515604051908152f35b503461053457806003193601126105345760206040517f4b1543f2d09a40df1dea5823b536d39f6820d24fd4387e828760e8c014ff2ed58152f35b50346105345760e036600319011261053457600435604435600581101561079f57826064356001600160401b03811161191e57613cc09036906004016148de565b6084356001600160401b03811161079f57613cdf9036906004016148de565b90613ce9336159c4565b613cf1615366565b613cf96150dc565b613d0285614fd4565b73__$b7c9f6db27740c304406f5d0d0984347cc$__93843b156107a3576040516395065ca960e01b815260016004820152602481018790528481604481895af4908115612ef5578591613dc2575b5050613d669260c4359260a43592602435615572565b92823b1561191e5760846040518094819363fae1e67760e01b8352600160048401526011602484015260448301528660648301525af4801561100457611e385760208260015f516020615f2b5f395f51905f5255604051908152f35b81613dcc9161484b565b6107a357835f613d50565b50346105345780600319360112610534576009546040516001600160a01b039091168152602090f35b503461053457602036600319011261053457600360406020926004356122f981614fd4565b503461053457604036600319011261053457613e3f61475b565b336001600160a01b03821603613e5b57610ad890600435615291565b63334bd91960e11b8252600482fd5b50346105345760203660031901126105345780600435613e8933615974565b613e9281614fd4565b613e9b81615046565b613ea4816152f5565b80825260016020526040822073__$cd24a03950abe0e2c0eebe0ae52ea029e0$__91823b1561333957604484926040519485938492634d29bbdf60e01b8452600484015260248301525af48015610529576106005750f35b50346105345760403660031901126105345780600435602435908115158092036117c657613f2933615944565b613f3281614fd4565b8083526001602052604083209073__$cd24a03950abe0e2c0eebe0ae52ea029e0$__803b15610611578492606491604051958694859363a8bf462160e01b85526004850152602484015260448301525af48015610529576106005750f35b5034610534576040366003190112610534576004356001600160401b03811161191e57613fc19036906004016147ec565b6024356001600160401b0381116107a357613fe09036906004016147ec565b91613fea33615944565b5f516020615f6b5f395f51905f525460ff8160401c16908115614235575b50614226575f516020615f6b5f395f51905f52805468ffffffffffffffffff1916680100000000000000021790556040516140428161481c565b5f516020615e8b5f395f51905f5281525f516020615e6b5f395f51905f5260208201525f516020615f4b5f395f51905f5260408201526040516140848161481c565b7f2f7c2e62f9034d03c365b789209dc11a25b4e37ba3afb96fffc3061ea6d6d9e081527f4b1543f2d09a40df1dea5823b536d39f6820d24fd4387e828760e8c014ff2ed560208201527fb194a0b06484f8a501e0bef8877baf2a303f803540f5ddeb9d985c0cd76f3e706040820152865b600381106141bc57505050845b81811061415d578560ff60401b195f516020615f6b5f395f51905f5254165f516020615f6b5f395f51905f52557fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d2602060405160028152a180f35b8061418861416e6001938589614bd2565b3561418261417d848989614bd2565b614bf6565b90615291565b614193575b01614102565b6141b66141a1828589614bd2565b356141b061417d848989614bd2565b9061521c565b5061418d565b806141c960019285615280565b51896141d58386615280565b5191828560406141e484614bb4565b948481525f516020615eeb5f395f51905f526020522001557fbd79b86ffe0ab8e8776151514217cd7cacd52c909f66475c3af44e129f0b00ff8c80a4016140f5565b63f92ee8a960e01b8552600485fd5b600291506001600160401b031610155f614008565b503461053457604036600319011261053457610ad860043561426a61475b565b9061427761058082614bb4565b61521c565b5034610534576040366003190112610534578060043561429a6150dc565b6142a381614fd4565b80825260016020526040822073__$b7c9f6db27740c304406f5d0d0984347cc$__916142ce81615103565b92803b1561061157849260849161430460405196879586946339b1e80960e11b8652600486015260248501526044840190614b25565b60243560648301525af48015610529576106005750f35b5034610534578060031936011261053457602060405160018152f35b50346105345760203660031901126105345760043580151580910361191e5761435f33615944565b60ff196007541660ff8216176007556040519081524260208201527fa7070fc9ca58af00c6baac6c6954048a037bac98bee92de69c2c0f88b5267cbd60403392a280f35b5034610534576020366003190112610534576020610a98600435614bb4565b503461053457606036600319011261053457600480358252600f60205260408083209051638bb68bc960e01b815291820181905260248035908301526044803590830152908281806064810161081f565b5034610534576020366003190112610534576004358152601060205260408120604051918260208354918281520192825260208220915b8181106144615761050285613bc98187038261484b565b825484526020909301926001928301920161444a565b503461053457806003193601126105345760206040517fbf233dd2aafeb4d50879c4aa5c81e96d92f6e6945c906a58f9f2d1c1631b4b268152f35b503461053457806003193601126105345760206040515f516020615e8b5f395f51905f528152f35b503461458f57602036600319011261458f576004356144f8336158ce565b61450181614fd4565b61450a81615046565b73__$cd24a03950abe0e2c0eebe0ae52ea029e0$__90805f52600160205260405f2090823b1561458f5760a45f926040519485938492630648504b60e01b8452600484015260248301528460448301528460648301528460848301525af4801561458457614576575080f35b61458291505f9061484b565b005b6040513d5f823e3d90fd5b5f80fd5b3461458f57604036600319011261458f576145ac61475b565b6004355f52600260205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b3461458f57602036600319011261458f5760c06004356145fb81614fd4565b5f90815260016020526040902061461181615a95565b90601d81015490601e810154916020601f8301549201549260405194151585526146416020860160ff841661474e565b604085015260081c6001600160a01b03166060840152608083015260a0820152f35b3461458f575f36600319011261458f576020600a54604051908152f35b3461458f57602036600319011261458f5760043561469d81614fd4565b5f9081526001602090815260409182902060148101546015820154601690920154845160109290921c6001600160a01b031682529281019190915291820152606090f35b3461458f57602036600319011261458f576004359063ffffffff60e01b821680920361458f57602091635a05180f60e01b8114908115614723575b5015158152f35b637965db0b60e01b81149150811561473d575b508361471c565b6301ffc9a760e01b14905083614736565b906006821015611e775752565b602435906001600160a01b038216820361458f57565b600435906001600160a01b038216820361458f57565b604435906001600160a01b038216820361458f57565b90602080835192838152019201905f5b8181106147ba5750505090565b82518452602093840193909201916001016147ad565b9291906147e760209160408652604086019061479d565b930152565b9181601f8401121561458f578235916001600160401b03831161458f576020808501948460051b01011161458f57565b606081019081106001600160401b0382111761483757604052565b634e487b7160e01b5f52604160045260245ffd5b90601f801991011681019081106001600160401b0382111761483757604052565b6001600160401b0381116148375760051b60200190565b929161488e8261486c565b9361489c604051958661484b565b602085848152019260051b810191821161458f57915b8183106148be57505050565b82356001600160a01b038116810361458f578152602092830192016148b2565b9080601f8301121561458f578160206148f993359101614883565b90565b9181601f8401121561458f578235916001600160401b03831161458f576020838186019501011161458f57565b6001600160401b03811161483757601f01601f191660200190565b604090600319011261458f576004359060243590565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b90600182811c921680156149ac575b602083101461499857565b634e487b7160e01b5f52602260045260245ffd5b91607f169161498d565b9060405191825f8254926149c98461497e565b8084529360018116908115614a3457506001146149f0575b506149ee9250038361484b565b565b90505f9291925260205f20905f915b818310614a185750509060206149ee928201015f6149e1565b60209193508060019154838589010152019101909184926149ff565b9050602092506149ee94915060ff191682840152151560051b8201015f6149e1565b90602080835192838152019201905f5b818110614a735750505090565b82516001600160a01b0316845260209384019390920191600101614a66565b906005821015611e775752565b60206040818301928281528451809452019201905f5b818110614ac25750505090565b82511515845260209384019390920191600101614ab5565b90608060031983011261458f57600435916024356001600160a01b038116810361458f579160443591606435906001600160401b03821161458f57614b21916004016148fc565b9091565b90600a821015611e775752565b9080601f8301121561458f578151614b498161486c565b92614b57604051948561484b565b81845260208085019260051b82010192831161458f57602001905b828210614b7f5750505090565b8151815260209182019101614b72565b9060208282031261458f5781516001600160401b03811161458f576148f99201614b32565b5f525f516020615eeb5f395f51905f52602052600160405f20015490565b9190811015614be25760051b0190565b634e487b7160e01b5f52603260045260245ffd5b356001600160a01b038116810361458f5790565b5190811515820361458f57565b81835290916001600160fb1b03831161458f5760209260051b809284830137010190565b5f198114614c495760010190565b634e487b7160e01b5f52601160045260245ffd5b908060209392818452848401375f828201840152601f01601f1916010190565b90604051918281549182825260208201905f5260205f20925f5b818110614cac5750506149ee9250038361484b565b84546001600160a01b0316835260019485019487945060209093019201614c97565b51906001600160a01b038216820361458f57565b929192614cee8261486c565b93614cfc604051958661484b565b602085848152019260071b82019181831161458f57925b828410614d205750505050565b60808483031261458f576040519060808201908282106001600160401b0383111761483757608092602092604052614d5787614cce565b8152614d64838801614c0a565b838201526040870151604082015260608701516060820152815201930192614d13565b6001600160a01b03165f9081527fdf7de25b7f1fd6d0b5205f0e18f1f35bd7b8d84cce336588d184533ce43a6f7660209081526040808320547fb7db2dd08fcb62d0c9e08c51941cae53c267786a0b75803fb7960902fc8ef97d9092529091205460ff169081614df5575090565b801591508115614e04575b5090565b9050421090565b5f818152600b602090815260408083206001600160a01b03909516808452948252808320549383525f516020615eeb5f395f51905f528252808320948352939052919091205460ff169081614df5575090565b9190811015614be25760051b81013590601e198136030182121561458f5701908135916001600160401b03831161458f576020018260051b3603811361458f579190565b9080601f8301121561458f578151614eb98161486c565b92614ec7604051948561484b565b81845260208085019260051b82010192831161458f57602001905b828210614eef5750505090565b60208091614efc84614cce565b815201910190614ee2565b60208183031261458f578051906001600160401b03821161458f57019080601f8301121561458f578151614f3a8161486c565b92614f48604051948561484b565b81845260208085019260051b82010192831161458f57602001905b828210614f705750505090565b60208091614f7d84614c0a565b815201910190614f63565b60405190614f9760408361484b565b600f82526e21b7b6b6b4ba36b2b73a21b430b4b760891b6020830152565b60405190614fc460408361484b565b60018252603160f81b6020830152565b801515908161503a575b5015614fe657565b60405162461bcd60e51b815260206004820152602660248201527f436f6d6d69746d656e74436861696e3a20496e76616c696420636f6d6d69746d604482015265195b9d08125160d21b6064820152608490fd5b90505f5410155f614fde565b335f52600e60205260405f205480159182156150c2575b50501561506657565b60405162461bcd60e51b815260206004820152602e60248201527f436f6d6d69746d656e74436861696e3a204f7574736964652063616c6c65722760448201526d399037b933b0b734bd30ba34b7b760911b6064820152608490fd5b9091505f526001602052602160405f200154145f8061505d565b60ff5f516020615f0b5f395f51905f5254166150f457565b63d93c066560e01b5f5260045ffd5b5f52600160205260405f20604051906361aeaf3160e11b8252600482015260208160248173__$b7c9f6db27740c304406f5d0d0984347cc$__5af4908115614584575f9161514f575090565b90506020813d60201161517f575b8161516a6020938361484b565b8101031261458f5751600a81101561458f5790565b3d915061515d565b6001600160a01b0381165f9081527fdf7de25b7f1fd6d0b5205f0e18f1f35bd7b8d84cce336588d184533ce43a6f76602052604081208190556151cb908290615afc565b90816151d5575090565b5f80525f516020615e2b5f395f51905f52602052614e00906001600160a01b03167f615f0f9e84155bea8cc509fe18befeb1baf65611e38a6ba60964480fb29dfd44615bee565b5f818152600b602090815260408083206001600160a01b03861684529091528120556152488282615afc565b918261525357505090565b5f9182525f516020615e2b5f395f51905f526020526040909120614e00916001600160a01b031690615bee565b906003811015614be25760051b0190565b5f818152600b602090815260408083206001600160a01b03861684529091528120556152bd8282615b79565b91826152c857505090565b5f9182525f516020615e2b5f395f51905f526020526040909120614e00916001600160a01b031690615c58565b5f52600160205260ff600860405f20015460181c1661531057565b60405162461bcd60e51b815260206004820152602860248201527f436f6d6d69746d656e74436861696e3a20436f6d6d69746d656e742069732063604482015267185b98d95b1b195960c21b6064820152608490fd5b60025f516020615f2b5f395f51905f52541461538f5760025f516020615f2b5f395f51905f5255565b633ee5aeb560e01b5f5260045ffd5b9091925f926153ad5f54614c3b565b94855f5573__$51ce930a20b173648b4a94630a0692dbd0$__803b1561458f575f604051809263a437294960e01b82526005600483015289602483015260a06044830152818061541561540360a4830189614a56565b8281036003190160648401528a614a56565b85608483015203915af480156145845761555d575b50338552600e602052604085205473__$b7c9f6db27740c304406f5d0d0984347cc$__938787526001602052604087209260ff6007541694863b15610a575788969492612e268b979593612e136154bd946040519c8d9b8c9a8b9a630e70b94560e31b8c5260048c0152601060248c0152600f60448c0152151560648b015260848a015260a489015260c4880190614a92565b90866101248401528661014484015261016483015203915af4801561052957908291615548575b505073__$6942be374d9289071b9972621d59129786$__803b1561191e5781604491604051928380926355a3131f60e01b8252600160048301528760248301525af480156105295761553557505090565b61554082809261484b565b610534575090565b816155529161484b565b61053457805f6154e4565b61556a9195505f9061484b565b5f935f61542a565b92915f946155805f54614c3b565b96875f5573__$51ce930a20b173648b4a94630a0692dbd0$__803b1561458f575f604051809263a437294960e01b8252600560048301528b602483015260a0604483015281806155e86155d660a483018b614a56565b8281036003190160648401528c614a56565b88608483015203915af4801561458457615735575b50338752600e60205260408720549073__$b7c9f6db27740c304406f5d0d0984347cc$__958989526001602052604089209460ff6007541696883b1561573157918b979593918b999795936040519b8c9a8b998a99630e70b94560e31b8b5260048b015260248a016010905260448a01600f9052151560648a0152608489015260a488015260c4870161568f91614a92565b60e48601610180905261018486016156a691614a56565b858103600319016101048701526156bc91614a56565b9261012485015261014484015261016483015203915af480156105295790829161554857505073__$6942be374d9289071b9972621d59129786$__803b1561191e5781604491604051928380926355a3131f60e01b8252600160048301528760248301525af480156105295761553557505090565b8a80fd5b6157429197505f9061484b565b5f955f6155fd565b61575381614fd4565b73__$b7c9f6db27740c304406f5d0d0984347cc$__905f52600160205260405f20813b1561458f575f906024604051809481936376e7a83760e01b835260048301525af48015614584576157a45750565b5f6149ee9161484b565b73__$6942be374d9289071b9972621d59129786$__90805f52600460205260405f2091803b1561458f575f926084916040519586948593626a451160e41b8552600160048601526024850152604484015260018060a01b031660648301525af48015614584576157a45750565b6040519061582a60408361484b565b6001825260208083019190368337825115614be2576001600160a01b0316905290565b9073__$6942be374d9289071b9972621d59129786$__90825f52600260205260405f2090835f52600360205260405f2091833b1561458f575f9360a49260405196879586946349990a6360e01b86526001600487015260248601526044850152606484015260018060a01b031660848301525af48015614584576157a45750565b6158f8817fbf233dd2aafeb4d50879c4aa5c81e96d92f6e6945c906a58f9f2d1c1631b4b26614e0b565b156159005750565b63e2517d3f60e01b5f9081526001600160a01b03919091166004527fbf233dd2aafeb4d50879c4aa5c81e96d92f6e6945c906a58f9f2d1c1631b4b26602452604490fd5b61594e815f614e0b565b156159565750565b63e2517d3f60e01b5f5260018060a01b03166004525f60245260445ffd5b61598b815f516020615f4b5f395f51905f52614e0b565b156159935750565b63e2517d3f60e01b5f9081526001600160a01b03919091166004525f516020615f4b5f395f51905f52602452604490fd5b6159db815f516020615e8b5f395f51905f52614e0b565b156159e35750565b63e2517d3f60e01b5f9081526001600160a01b03919091166004525f516020615e8b5f395f51905f52602452604490fd5b615a2b815f516020615e6b5f395f51905f52614e0b565b15615a335750565b63e2517d3f60e01b5f9081526001600160a01b03919091166004525f516020615e6b5f395f51905f52602452604490fd5b90615a6f8183614e0b565b15615a78575050565b63e2517d3f60e01b5f5260018060a01b031660045260245260445ffd5b60ff600882015460081c169081615aaa575090565b60200154801591508115614e04575090565b8054821015614be2575f5260205f2001905f90565b60ff5f516020615f6b5f395f51905f525460401c1615615aed57565b631afcd79f60e31b5f5260045ffd5b615b068282614e0b565b615b73575f8181525f516020615eeb5f395f51905f52602090815260408083206001600160a01b0395909516808452949091528120805460ff19166001179055339291907f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d9080a4600190565b50505f90565b615b838282614e0b565b15615b73575f8181525f516020615eeb5f395f51905f52602090815260408083206001600160a01b0395909516808452949091528120805460ff19169055339291907ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9080a4600190565b6001810190825f528160205260405f2054155f14615c51578054600160401b81101561483757615c3e615c28826001879401855584615abc565b819391549060031b91821b915f19901b19161790565b905554915f5260205260405f2055600190565b5050505f90565b906001820191815f528260205260405f20548015155f14615d15575f198101818111614c495782545f19810191908211614c4957818103615ce0575b50505080548015615ccc575f190190615cad8282615abc565b8154905f199060031b1b19169055555f526020525f6040812055600190565b634e487b7160e01b5f52603160045260245ffd5b615d00615cf0615c289386615abc565b90549060031b1c92839286615abc565b90555f528360205260405f20555f8080615c94565b505050505f90565b90615d415750805115615d3257602081519101fd5b63d6bda27560e01b5f5260045ffd5b81511580615d72575b615d52575090565b639996b31560e01b5f9081526001600160a01b0391909116600452602490fd5b50803b15615d4a565b615d83614f88565b8051908115615d93576020012090565b50507fa16a46d94261c7517cc8ff89f61c0ce93598e3c849801011dee649a6a557d100548015615dc05790565b507fc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a47090565b615ded614fb5565b8051908115615dfd576020012090565b50507fa16a46d94261c7517cc8ff89f61c0ce93598e3c849801011dee649a6a557d101548015615dc0579056fec1f6fe24621ce81ec5827caf0253cadb74709b061630e6b55e82371705932000a16a46d94261c7517cc8ff89f61c0ce93598e3c849801011dee649a6a557d10216cedf8f601395ad37b8f7ac016395362fad21dfdd3152a47a294d9c5a3c29743c897272fb756004d8a8588422a9ce6e04768b2d705bbde7a87ceb35e9b9c5d9a16a46d94261c7517cc8ff89f61c0ce93598e3c849801011dee649a6a557d103360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc02dd7bc7dec4dceedda775e58dd541e08a116c6c53815c0bd028192f7b626800cd5ed15c6e187e77e9aee88184c21f4f2182ab5827cb3b7e07fbedcd63f033009b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f000ce23c3e399818cfee81a7ab0880f714e53d7672b08df0fa62f2843416e1ea09f0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00a2646970667358221220b5534d80aaa22713db82f59132570aa7dd434438430147e0accc3e8fb48b87aa64736f6c634300081c0033";
 
 type CommitmentChainConstructorParams =
-  | [signer?: Signer]
+  | [linkLibraryAddresses: CommitmentChainLibraryAddresses, signer?: Signer]
   | ConstructorParameters<typeof ContractFactory>;
 
 const isSuperArgs = (
   xs: CommitmentChainConstructorParams
-): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+): xs is ConstructorParameters<typeof ContractFactory> => {
+  return (
+    typeof xs[0] === "string" ||
+    (Array.isArray as (arg: any) => arg is readonly any[])(xs[0]) ||
+    "_isInterface" in xs[0]
+  );
+};
 
 export class CommitmentChain__factory extends ContractFactory {
   constructor(...args: CommitmentChainConstructorParams) {
     if (isSuperArgs(args)) {
       super(...args);
     } else {
-      super(_abi, _bytecode, args[0]);
+      const [linkLibraryAddresses, signer] = args;
+      super(
+        _abi,
+        CommitmentChain__factory.linkBytecode(linkLibraryAddresses),
+        signer
+      );
     }
   }
 
+  static linkBytecode(
+    linkLibraryAddresses: CommitmentChainLibraryAddresses
+  ): string {
+    let linkedBytecode = _bytecode;
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$b7c9f6db27740c304406f5d0d0984347cc\\$__", "g"),
+      linkLibraryAddresses["contracts/libraries/LifecycleLib.sol:LifecycleLib"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$7bc9023a51ce5dc91400a62e6e5ca22d2b\\$__", "g"),
+      linkLibraryAddresses[
+        "contracts/libraries/MembershipLib.sol:MembershipLib"
+      ]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$51ce930a20b173648b4a94630a0692dbd0\\$__", "g"),
+      linkLibraryAddresses[
+        "contracts/libraries/ParticipantLib.sol:ParticipantLib"
+      ]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$6942be374d9289071b9972621d59129786\\$__", "g"),
+      linkLibraryAddresses["contracts/libraries/SigningLib.sol:SigningLib"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$066294f9079f954e7f6525263538d3a862\\$__", "g"),
+      linkLibraryAddresses["contracts/libraries/UpgradeLib.sol:UpgradeLib"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$cd24a03950abe0e2c0eebe0ae52ea029e0\\$__", "g"),
+      linkLibraryAddresses["contracts/libraries/ReviewLib.sol:ReviewLib"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    return linkedBytecode;
+  }
+
   override getDeployTransaction(
     overrides?: NonPayableOverrides & { from?: string }
   ): Promise<ContractDeployTransaction> {
@@ -1092,3 +3255,12 @@ export class CommitmentChain__factory extends ContractFactory {
     return new Contract(address, _abi, runner) as unknown as CommitmentChain;
   }
 }
+
+export interface CommitmentChainLibraryAddresses {
+  ["contracts/libraries/LifecycleLib.sol:LifecycleLib"]: string;
+  ["contracts/libraries/MembershipLib.sol:MembershipLib"]: string;
+  ["contracts/libraries/ParticipantLib.sol:ParticipantLib"]: string;
+  ["contracts/libraries/SigningLib.sol:SigningLib"]: string;
+  ["contracts/libraries/UpgradeLib.sol:UpgradeLib"]: string;
+  ["contracts/libraries/ReviewLib.sol:ReviewLib"]: string;
+}
@@ -0,0 +1,325 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  ProfileRegistry,
+  ProfileRegistryInterface,
+} from "../../contracts/ProfileRegistry";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_commitmentChain",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "removedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ProfileRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "updatedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ProfileUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "commitmentChain",
+    outputs: [
+      {
+        internalType: "contract IAccessControl",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "getProfile",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "role",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes32",
+            name: "displayNameHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "badgeNumber",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "organization",
+            type: "string",
+          },
+          {
+            internalType: "bytes32",
+            name: "credentialHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "address",
+            name: "updatedBy",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "updatedAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct ProfileRegistry.Profile",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "_accounts",
+        type: "address[]",
+      },
+    ],
+    name: "getProfiles",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "role",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes32",
+            name: "displayNameHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "badgeNumber",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "organization",
+            type: "string",
+          },
+          {
+            internalType: "bytes32",
+            name: "credentialHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "address",
+            name: "updatedBy",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "updatedAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct ProfileRegistry.Profile[]",
+        name: "profiles",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "removeProfile",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "_role",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "_displayNameHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "_badgeNumber",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_organization",
+        type: "string",
+      },
+      {
+        internalType: "bytes32",
+        name: "_credentialHash",
+        type: "bytes32",
+      },
+    ],
+    name: "setProfile",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0346100dd57601f610eb238819003918201601f19168301916001600160401b038311848410176100e1578084926020946040528339810103126100dd57516001600160a01b038116908190036100dd57801561007f57608052604051610dbc90816100f6823960805181818160680152818161029f01526105690152f35b60405162461bcd60e51b815260206004820152603060248201527f50726f66696c6552656769737472793a20496e76616c696420436f6d6d69746d60448201526f656e74436861696e206164647265737360801b6064820152608490fd5b5f80fd5b634e487b7160e01b5f52604160045260245ffdfe6080806040526004361015610012575f80fd5b5f3560e01c9081630f2ce5b7146104f6575080630f53a470146104425780631483eab01461024d5780639d3a539e1461009b5763bf05f0ff14610053575f80fd5b34610097575f366003190112610097576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b5f80fd5b346100975760203660031901126100975760043567ffffffffffffffff8111610097573660238201121561009757806004013567ffffffffffffffff8111610097573660248260051b84010111610097576100f581610d46565b916101036040519384610b4d565b818352601f1961011283610d46565b015f5b8181106102365750505f5b828110156101cf576024600582901b830101356001600160a01b0381169190829003610097576001915f525f60205260405f2060066040519161016283610b31565b8054835284810154602084015261017b60028201610c58565b604084015261018c60038201610c58565b606084015260048101546080840152848060a01b0360058201541660a0840152015460c08201526101bd8287610d5e565b526101c88186610d5e565b5001610120565b836040518091602082016020835281518091526040830190602060408260051b8601019301915f905b82821061020757505050500390f35b919360019193955060206102268192603f198a82030186528851610acb565b96019201920185949391926101f8565b602090610241610c21565b82828801015201610115565b34610097576020366003190112610097576001600160a01b0361026e610a63565b165f8181526020819052604090208054600690910154156103fd5760405163248a9ca360e01b8152600481018290527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031690602081602481855afa9081156103be575f916103c9575b50604051632474521560e21b815260048101919091523360248201529060209082908180604481015b03915afa80156103be57610323915f9161038f575b50610b87565b815f525f6020525f60066040822082815582600182015561034660028201610cf8565b61035260038201610cf8565b8260048201558260058201550155604051914283527ff11b39a5c6428f20e9b69cc7e10fb65a98e8109d643b5f2b8598f9fe37a4e0d960203394a4005b6103b1915060203d6020116103b7575b6103a98183610b4d565b810190610b6f565b8461031d565b503d61039f565b6040513d5f823e3d90fd5b90506020813d6020116103f5575b816103e460209383610b4d565b8101031261009757516103086102df565b3d91506103d7565b60405162461bcd60e51b815260206004820152601b60248201527f50726f66696c6552656769737472793a204e6f2070726f66696c6500000000006044820152606490fd5b346100975760203660031901126100975761045b610a63565b610463610c21565b5060018060a01b03165f525f6020526104f260405f2060066040519161048883610b31565b80548352600181015460208401526104a260028201610c58565b60408401526104b360038201610c58565b60608401526004810154608084015260058101546001600160a01b031660a0840152015460c08201526040516020808252909283929091830190610acb565b0390f35b346100975760c03660031901126100975761050f610a63565b906024359060643567ffffffffffffffff811161009757610534903690600401610a79565b909360843567ffffffffffffffff811161009757610556903690600401610a79565b63248a9ca360e01b8552600485018690527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03169491929091602081602481895afa9081156103be575f91610a30575b50604051632474521560e21b81526004810191909152336024820152602081604481895afa80156103be576105e8915f91610a115750610b87565b604051632474521560e21b8152600481018790526001600160a01b0382166024820152602081604481895afa9081156103be575f916109f2575b50156109995760018060a01b031695865f525f60205260405f20936006850195865415158061098e575b6108c6575b508685556044356001860155600285019167ffffffffffffffff82116108135761067b8354610bd3565b601f8111610896575b505f90601f8311600114610832576106b392915f9183610827575b50508160011b915f199060031b1c19161790565b90555b600383019167ffffffffffffffff8211610813576106d48354610bd3565b601f81116107d8575b505f90601f83116001146107705791806107109260059695945f926107655750508160011b915f199060031b1c19161790565b90555b60a435600482015501336bffffffffffffffffffffffff60a01b825416179055429055604051914283527fb628661f797593783f2e033992f485e685a3239388f37f47df834cf32214837760203394a4005b01359050898061069f565b601f19831691845f5260205f20925f5b8181106107c05750916001939185600598979694106107a7575b505050811b019055610713565b01355f19600384901b60f8161c1916905588808061079a565b91936020600181928787013581550195019201610780565b61080390845f5260205f20601f850160051c81019160208610610809575b601f0160051c0190610c0b565b876106dd565b90915081906107f6565b634e487b7160e01b5f52604160045260245ffd5b013590508a8061069f565b601f19831691845f5260205f20925f5b81811061087e5750908460019594939210610865575b505050811b0190556106b6565b01355f19600384901b60f8161c19169055898080610858565b91936020600181928787013581550195019201610842565b6108c090845f5260205f20601f850160051c8101916020861061080957601f0160051c0190610c0b565b89610684565b85546040519063248a9ca360e01b82526004820152602081602481855afa9081156103be575f9161095a575b50604051632474521560e21b815260048101919091523360248201529060209082908180604481015b03915afa80156103be57610935915f9161093b5750610b87565b88610651565b610954915060203d6020116103b7576103a98183610b4d565b8a61031d565b90506020813d602011610986575b8161097560209383610b4d565b81010312610097575161091b6108f2565b3d9150610968565b50878654141561064c565b60405162461bcd60e51b815260206004820152602b60248201527f50726f66696c6552656769737472793a204163636f756e7420646f6573206e6f60448201526a7420686f6c6420726f6c6560a81b6064820152608490fd5b610a0b915060203d6020116103b7576103a98183610b4d565b88610622565b610a2a915060203d6020116103b7576103a98183610b4d565b8961031d565b90506020813d602011610a5b575b81610a4b60209383610b4d565b81010312610097575160206105ad565b3d9150610a3e565b600435906001600160a01b038216820361009757565b9181601f840112156100975782359167ffffffffffffffff8311610097576020838186019501011161009757565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b90815181526020820151602082015260c080610b0b610af9604086015160e0604087015260e0860190610aa7565b60608601518582036060870152610aa7565b6080808601519085015260a0808601516001600160a01b03169085015293015191015290565b60e0810190811067ffffffffffffffff82111761081357604052565b90601f8019910116810190811067ffffffffffffffff82111761081357604052565b90816020910312610097575180151581036100975790565b15610b8e57565b60405162461bcd60e51b815260206004820152601f60248201527f50726f66696c6552656769737472793a204e6f7420726f6c652061646d696e006044820152606490fd5b90600182811c92168015610c01575b6020831014610bed57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610be2565b818110610c16575050565b5f8155600101610c0b565b60405190610c2e82610b31565b5f60c083828152826020820152606060408201526060808201528260808201528260a08201520152565b9060405191825f825492610c6b84610bd3565b8084529360018116908115610cd65750600114610c92575b50610c9092500383610b4d565b565b90505f9291925260205f20905f915b818310610cba575050906020610c90928201015f610c83565b6020919350806001915483858901015201910190918492610ca1565b905060209250610c9094915060ff191682840152151560051b8201015f610c83565b610d028154610bd3565b9081610d0c575050565b81601f5f9311600114610d1d575055565b81835260208320610d3991601f0160051c810190600101610c0b565b8082528160208120915555565b67ffffffffffffffff81116108135760051b60200190565b8051821015610d725760209160051b010190565b634e487b7160e01b5f52603260045260245ffdfea264697066735822122011ad2e39c8789a4e59a5bc368a1131e53f0a521affcfd9766dfdb17d1930c43464736f6c634300081c0033";
+
+type ProfileRegistryConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ProfileRegistryConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ProfileRegistry__factory extends ContractFactory {
+  constructor(...args: ProfileRegistryConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _commitmentChain: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_commitmentChain, overrides || {});
+  }
+  override deploy(
+    _commitmentChain: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_commitmentChain, overrides || {}) as Promise<
+      ProfileRegistry & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ProfileRegistry__factory {
+    return super.connect(runner) as ProfileRegistry__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ProfileRegistryInterface {
+    return new Interface(_abi) as ProfileRegistryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ProfileRegistry {
+    return new Contract(address, _abi, runner) as unknown as ProfileRegistry;
+  }
+}
@@ -1,4 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as libraries from "./libraries";
 export { CommitmentChain__factory } from "./CommitmentChain__factory";
+export { ProfileRegistry__factory } from "./ProfileRegistry__factory";
@@ -0,0 +1,296 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  LifecycleLib,
+  LifecycleLibInterface,
+} from "../../../contracts/libraries/LifecycleLib";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "parentId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "childId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "initiator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CommitmentAmended",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "canceller",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "reasonHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CommitmentCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "initiator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "signer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "fileDigest",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "enum CommitmentChain.HashAlgorithm",
+        name: "hashAlgorithm",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CommitmentCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "signer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "role",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CommitmentSigned",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "commitmentId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "codec",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "digest",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ContentCidSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldDeadline",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newDeadline",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "DeadlineExtended",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "commitmentId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "merkleRoot",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "leafCount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "MerkleRootAnchored",
+    type: "event",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234601b5761157b90816100208239308160070152f35b5f80fdfe6080604052307f0000000000000000000000000000000000000000000000000000000000000000146004361015610034575f80fd5b5f3560e01c80630967f01f14610f91578063199225ce14610f785780636f08ef1114610ccd5780637363d01214610b845780637385ca28146106b057806376e7a837146106345780638c7902ed146104ca57806395065ca914610358578063b785e3e314610239578063c35d5e62146101fb578063e7175122146101435763fae1e677146100c0575f80fd5b61013f57608036600319011261013f576004356044359060643590815f528060205282601260405f200155825f5260205280601360405f200155815f526024356020526101108160405f206113f0565b604051914283527f116cafb9ff9fef45418c38f2efeb3955e83ccdb0334b84f886a1f55cb5b0f88f60203394a4005b5f80fd5b5061013f57608036600319011261013f5760443560643580156101a357816022600435015560405191825260208201524260408201527fa61daa7a04876aae7f9cfefdb9fcf6d5cf58d6107d69c19980f2cc39ba50ec1d606060243592a2005b60405162461bcd60e51b815260206004820152602a60248201527f436f6d6d69746d656e74436861696e3a204c65616620636f756e742063616e6e6044820152696f74206265207a65726f60b01b6064820152608490fd5b602036600319011261013f57610212600435611424565b604051600a821015610225576020918152f35b634e487b7160e01b5f52602160045260245ffd5b606036600319011261013f5760443567ffffffffffffffff811161013f573660238201121561013f57806004013567ffffffffffffffff811161013f573660248260051b8401011161013f576022600435015480156103025760405160208101906024358252602081526102ae604082611149565b519020905f915b838310156102f65760248360051b86010135908181105f146102e5575f52602052600160405f205b9201916102b5565b905f52602052600160405f206102dd565b60209160405191148152f35b60405162461bcd60e51b815260206004820152602860248201527f436f6d6d69746d656e74436861696e3a204e6f742061204d65726b6c6520636f6044820152671b5b5a5d1b595b9d60c21b6064820152608490fd5b604036600319011261013f576004356024355f528060205260405f2061038b60018060a01b03600183015416331461133d565b61039481611424565b600a811015908161022557600281149182156104bd575b82156104ac575b5050156104595760130154806103c457005b5f526020526103d560405f20611424565b600a811015610225576005811490811561044e575b50156103f257005b60405162461bcd60e51b815260206004820152602e60248201527f436f6d6d69746d656e74436861696e3a20416d656e646d656e7420616c72656160448201526d647920696e2070726f677265737360901b6064820152608490fd5b6006915014816103ea565b60405162461bcd60e51b815260206004820152602560248201527f436f6d6d69746d656e74436861696e3a20506172656e74206e6f7420636f6d706044820152641b195d195960da1b6064820152608490fd5b9091506102255760091483806103b2565b506003811491505f6103ab565b5061013f57608036600319011261013f576044356004356104e961113a565b6104f282611213565b60018201546001600160a01b0316331490811561062c575b50156105d75760088101805460ff811661058757630100000090640100000000600160c01b033360201b169082600160c01b03191617179055816009820155600a4291015560405190815242602082015233907f5f39b3f842290c53b0fca640b2632000ce54d9b25a562370b773ee40ea55de06604060243592a3005b60405162461bcd60e51b815260206004820152602260248201527f436f6d6d69746d656e74436861696e3a20416c726561647920636f6d706c6574604482015261195960f21b6064820152608490fd5b60405162461bcd60e51b815260206004820152602760248201527f436f6d6d69746d656e74436861696e3a204e6f7420696e69746961746f72206f604482015266391030b236b4b760c91b6064820152608490fd5b90505f61050a565b602036600319011261013f5761065460043561064f81611213565b611514565b61065a57005b60405162461bcd60e51b815260206004820152602860248201527f436f6d6d69746d656e74436861696e3a205369676e696e6720646561646c696e60448201526719481c185cdcd95960c21b6064820152608490fd5b5061013f5761018036600319011261013f576004356024356106d061113a565b6084359260a4359160c43593600585101561013f5760e43567ffffffffffffffff811161013f57610705903690600401611183565b926101043567ffffffffffffffff811161013f57610727903690600401611183565b610144359061016435948715610b2c578815610ad757158015610ac4575b15610a695781158015610a60575b15610a03578883556001830180546001600160a01b031916331790556001600160a01b03610780876111f1565b516002850180546001600160a01b0319166001600160a01b03939092169290921617905585516017840167ffffffffffffffff821161096957600160401b82116109695780548282558083106109dd575b5060208801905f5260205f205f5b8381106109c057505050506003830181519167ffffffffffffffff831161096957600160401b831161096957815483835580841061099a575b50602001905f5260205f205f5b83811061097d57505050508560238301556024820160ff1981541660ff891617905542600583015560068201600160ff1982541617905560405191604083019183831067ffffffffffffffff84111761096957859360219360405242815260204391015242600b83015543600c83015560118201556101243560198201550155835f526020526108b88560405f206113f0565b5f526044356020526108cd8460405f206113f0565b6001600160a01b03906108df906111f1565b5116916040519182526020820152426040820152827fb3bba23cfb790b0b3268cf680b45d809dab990cffa37d18793f18e3a97a705eb60603393a46040519060408252600960408301526834b734ba34b0ba37b960b91b60608301524260208301527ffc116c372529f33e892d2d216df6aebdd725520520d7fc13163ddf825e1bd79c60803393a3005b634e487b7160e01b5f52604160045260245ffd5b82516001600160a01b031681830155602090920191600101610825565b825f528360205f2091820191015b8181106109b55750610818565b5f81556001016109a8565b82516001600160a01b0316818301556020909201916001016107df565b815f528260205f2091820191015b8181106109f857506107d1565b5f81556001016109eb565b60405162461bcd60e51b815260206004820152602f60248201527f436f6d6d69746d656e74436861696e3a20446561646c696e65206d757374206260448201526e6520696e207468652066757475726560881b6064820152608490fd5b50428211610753565b60405162461bcd60e51b815260206004820152602d60248201527f436f6d6d69746d656e74436861696e3a2046696c65206861736820616c72656160448201526c191e481c9959da5cdd195c9959609a1b6064820152608490fd5b50865f528360205260405f205415610745565b60405162461bcd60e51b815260206004820152602760248201527f436f6d6d69746d656e74436861696e3a20496e76616c6964206861736820616c604482015266676f726974686d60c81b6064820152608490fd5b60405162461bcd60e51b815260206004820152602a60248201527f436f6d6d69746d656e74436861696e3a2046696c6520686173682063616e6e6f6044820152697420626520656d70747960b01b6064820152608490fd5b5061013f57608036600319011261013f57604435600435600a82101561013f57601160643591610bc160018060a01b03600183015416331461133d565b018054928315610c8957610bdf908015908115610c7e575b50611394565b82821115610c255781905560405191825260208201524260408201527fe80fcca2684d14236263d222bcfa9a90f6031f7167dc3fd3c9b45ad54a808c39606060243592a2005b60405162461bcd60e51b815260206004820152602b60248201527f436f6d6d69746d656e74436861696e3a204e657720646561646c696e65206d7560448201526a39ba103132903630ba32b960a91b6064820152608490fd5b60019150145f610bd9565b606460405162461bcd60e51b815260206004820152602060248201527f436f6d6d69746d656e74436861696e3a204e6f20646561646c696e65207365746044820152fd5b5061013f5760a036600319011261013f57600435604435600a81101561013f576064359167ffffffffffffffff83169283810361013f57610d2860843593610d2260018060a01b03600186015416331461133d565b15611394565b602482019182549267ffffffffffffffff8460081c16610f34576022820154610ed55760558614808015610ecb575b80610ec2575b15610e7d5760ff8516600581101561022557600181149182610e75575b508115610e5a575b50158015610e4d575b15610df057849368ffffffffffffffff0060259460081b169068ffffffffffffffff001916179055015560405191825260208201524260408201527fd790a14037ad8c5ffb1f0043a6e286dddd75ef224bc1ba73e13d329863d1d99c606060243592a2005b60405162461bcd60e51b815260206004820152602f60248201527f436f6d6d69746d656e74436861696e3a2043494420646f6573206e6f74206d6160448201526e1d18da08199a5b1948191a59d95cdd608a1b6064820152608490fd5b5060238201548514610d8b565b600491501480610e6b575b5f610d82565b5060708614610e65565b91505f610d7a565b60405162461bcd60e51b815260206004820152601c60248201527f436f6d6d69746d656e74436861696e3a20496e76616c696420434944000000006044820152606490fd5b50851515610d5d565b5060708714610d57565b60405162461bcd60e51b815260206004820152603160248201527f436f6d6d69746d656e74436861696e3a204e6f7420612073696e676c652d646f60448201527018dd5b595b9d0818dbdb5b5a5d1b595b9d607a1b6064820152608490fd5b606460405162461bcd60e51b815260206004820152602060248201527f436f6d6d69746d656e74436861696e3a2043494420616c7265616479207365746044820152fd5b602036600319011261013f57610f8f600435611213565b005b606036600319011261013f576004356024356044355b805f5282602052601260405f20015415610fce575f5281602052601260405f200154610fa7565b90819060015b825f528160205260405f20541561102357825f528160205260405f2054810180911161100f57915f5283602052601360405f20015491610fd4565b634e487b7160e01b5f52601160045260245ffd5b9150916110486110328361116b565b926110406040519485611149565b80845261116b565b602083019390601f19013685378161105f846111f1565b526001915b805f528160205260405f2054156110f657805f528160205260405f205f908054905b8183106110a3575050505f5284602052601360405f200154611064565b9091946110b086836111fe565b90549060031b1c95815f19811461100f576001019688518310156110e257602060019360051b8a010152019190611086565b634e487b7160e01b5f52603260045260245ffd5b8484604051918291602083019060208452518091526040830191905f5b818110611121575050500390f35b8251845285945060209384019390920191600101611113565b60643590811515820361013f57565b90601f8019910116810190811067ffffffffffffffff82111761096957604052565b67ffffffffffffffff81116109695760051b60200190565b9080601f8301121561013f5781359061119b8261116b565b926111a96040519485611149565b82845260208085019360051b82010191821161013f57602001915b8183106111d15750505090565b82356001600160a01b038116810361013f578152602092830192016111c4565b8051156110e25760200190565b80548210156110e2575f5260205f2001905f90565b61121c816114e6565b6112ea5760ff600882015460181c16611294576014015460081c60ff1661123f57565b60405162461bcd60e51b815260206004820152602760248201527f436f6d6d69746d656e74436861696e3a20436f6d6d69746d656e7420697320646044820152661958db1a5b995960ca1b6064820152608490fd5b60405162461bcd60e51b815260206004820152602860248201527f436f6d6d69746d656e74436861696e3a20436f6d6d69746d656e742069732063604482015267185b98d95b1b195960c21b6064820152608490fd5b60405162461bcd60e51b815260206004820152602560248201527f436f6d6d69746d656e74436861696e3a20436f6d6d69746d656e7420697320666044820152643937bd32b760d91b6064820152608490fd5b1561134457565b60405162461bcd60e51b815260206004820152602260248201527f436f6d6d69746d656e74436861696e3a204e6f742074686520696e697469617460448201526137b960f11b6064820152608490fd5b1561139b57565b60405162461bcd60e51b815260206004820152602760248201527f436f6d6d69746d656e74436861696e3a20436f6d6d69746d656e74206e6f742060448201526670656e64696e6760c81b6064820152608490fd5b8054600160401b8110156109695761140d916001820181556111fe565b819291549060031b91821b915f19901b1916179055565b600881015460ff8160181c166114df57601482015460ff8160081c166114d75761144d836114e6565b6114cf5760ff166114c85760ff601a830154166114c15760ff8160101c166114ba5760ff166114b45761147f81611514565b6114ae57601881015415908115916114a0575b5061149b575f90565b600190565b60079150015415155f611492565b50600690565b50600290565b5050600390565b5050600990565b5050600790565b505050600490565b505050600890565b5050600590565b60ff600882015460081c1690816114fb575090565b6020015480159150811561150d575090565b9050421090565b601181015490811515918261153b575b508161152e575090565b60ff915060080154161590565b421191505f61152456fea26469706673582212204ad8aaf13895d62ebb9c46981c219c785557c126b1b597edf6048ac6fd43cf9264736f6c634300081c0033";
+
+type LifecycleLibConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: LifecycleLibConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class LifecycleLib__factory extends ContractFactory {
+  constructor(...args: LifecycleLibConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      LifecycleLib & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): LifecycleLib__factory {
+    return super.connect(runner) as LifecycleLib__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): LifecycleLibInterface {
+    return new Interface(_abi) as LifecycleLibInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): LifecycleLib {
+    return new Contract(address, _abi, runner) as unknown as LifecycleLib;
+  }
+}
@@ -0,0 +1,154 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MembershipLib,
+  MembershipLibInterface,
+} from "../../../contracts/libraries/MembershipLib";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "organizationId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "updatedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "AccountOrganizationSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "organizationId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "createdBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "OrganizationCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "RoleExpirySet",
+    type: "event",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234601b576108e190816100208239308160070152f35b5f80fdfe6080604052307f0000000000000000000000000000000000000000000000000000000000000000146004361015610034575f80fd5b5f3560e01c8063019d42c51461008157806311c7d62f1461007757806357629382146100725763f61ac45d14610068575f80fd5b1561043c575b5f80fd5b61039c565b5015610209575f80fd5b5061006e57608036600319011261006e576004356024356100a06101df565b606435927f3c897272fb756004d8a8588422a9ce6e04768b2d705bbde7a87ceb35e9b9c5d9831480156101b6575b801561018d575b156101455781846101257f396d4276e4180b555b766000a243e40089e50633799d8452fe3927c99124368c94610140946101104285116104be565b9060018060a01b03165f5260205260405f2090565b556040519485526001600160a01b0316939081906020820190565b0390a3005b62461bcd60e51b6080526020608452602360a4527f436f6d6d69746d656e74436861696e3a20526f6c652063616e6e6f742065787060c4526269726560e81b60e45260846080fd5b507f0ce23c3e399818cfee81a7ab0880f714e53d7672b08df0fa62f2843416e1ea0983146100d5565b507f16cedf8f601395ad37b8f7ac016395362fad21dfdd3152a47a294d9c5a3c297483146100ce565b604435906001600160a01b038216820361006e57565b35906001600160a01b038216820361006e57565b608036600319011261006e576004356024356102236101df565b91606435918211610277576001600160a01b03929092165f81815260209384526040908190208390555142815233937fcd80b336f5e54c93c15ff5369ec2d0ae3459a0908b05c351e7bcfa9bc88cd51591a4005b60405162461bcd60e51b815260206004820152602560248201527f436f6d6d69746d656e74436861696e3a20496e76616c6964206f7267616e697a60448201526430ba34b7b760d91b6064820152608490fd5b634e487b7160e01b5f52604160045260245ffd5b6040519190601f01601f1916820167ffffffffffffffff81118382101761030457604052565b6102ca565b67ffffffffffffffff81116103045760051b60200190565b604081016040825282518091526020606083019301905f5b81811061037d575050506020818303910152602080835192838152019201905f5b8181106103675750505090565b825184526020938401939092019160010161035a565b82516001600160a01b0316855260209485019490920191600101610339565b606036600319011261006e5760043567ffffffffffffffff811161006e573660238201121561006e578060040135906103dc6103d783610309565b6102de565b916024602084838152019160051b8301019136831161006e57602401905b8282106104245761041060443560243586610592565b9061042060405192839283610321565b0390f35b60208091610431846101f5565b8152019101906103fa565b606036600319011261006e5760443560243567ffffffffffffffff821161006e573660238301121561006e5781600401359067ffffffffffffffff821161030457610490601f8301601f19166020016102de565b91808352366024828601011161006e576020815f9260246104bc9701838701378401015260043561073c565b005b156104c557565b60405162461bcd60e51b815260206004820152602d60248201527f436f6d6d69746d656e74436861696e3a20457870697279206d7573742062652060448201526c696e207468652066757475726560981b6064820152608490fd5b9061052d6103d783610309565b828152809261053e601f1991610309565b0190602036910137565b805182101561055c5760209160051b010190565b634e487b7160e01b5f52603260045260245ffd5b5f19811461057e5760010190565b634e487b7160e01b5f52601160045260245ffd5b9092918151906105a46103d783610309565b918083526105b4601f1991610309565b01366020840137816105c68451610520565b955f935f5b86518110156106745761060a6105f16105e4838a610548565b516001600160a01b031690565b6001600160a01b03165f90815260208590526040902090565b548015158061066a575b610622575b506001016105cb565b81966106639161065361063a6105e46001968d610548565b610644848a610548565b6001600160a01b039091169052565b61065d828d610548565b52610570565b9590610619565b5085811115610614565b509695945050829150528252565b90600182811c921680156106b0575b602083101461069c57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610691565b601f82116106c757505050565b5f5260205f20906020601f840160051c830193106106ff575b601f0160051c01905b8181106106f4575050565b5f81556001016106e9565b90915081906106e0565b9291906060602080926040875280519182918260408a0152018388015e5f828288010152601f8019910116850101930152565b82511561084b57815f5260205260405f20825167ffffffffffffffff8111610304576107728161076c8454610682565b846106ba565b6020601f82116001146107e457908061079f925f916107d9575b508160011b915f199060031b1c19161790565b90555b7f31072114df98e12ccf83d9b28453fe6a93c1d946b0089a9c0a1b5b7c435854c9604051806107d43395429083610709565b0390a3565b90508501515f61078c565b601f198216906107f7845f5260205f2090565b915f5b8181106108335750908360019493921061081b575b5050811b0190556107a2565b8601515f1960f88460031b161c191690555f8061080f565b9192602060018192868b0151815501940192016107fa565b60405162461bcd60e51b815260206004820152603260248201527f436f6d6d69746d656e74436861696e3a204f7267616e697a6174696f6e206e616044820152716d652063616e6e6f7420626520656d70747960701b6064820152608490fdfea26469706673582212202070fe8671de10f746d644c70ae8692d260b3e35f3e4adafe3c87f9763eb7f4664736f6c634300081c0033";
+
+type MembershipLibConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MembershipLibConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MembershipLib__factory extends ContractFactory {
+  constructor(...args: MembershipLibConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MembershipLib & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MembershipLib__factory {
+    return super.connect(runner) as MembershipLib__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MembershipLibInterface {
+    return new Interface(_abi) as MembershipLibInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MembershipLib {
+    return new Contract(address, _abi, runner) as unknown as MembershipLib;
+  }
+}
@@ -0,0 +1,104 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ParticipantLib,
+  ParticipantLibInterface,
+} from "../../../contracts/libraries/ParticipantLib";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "oldWitness",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newWitness",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "replacedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "WitnessReplaced",
+    type: "event",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234601b5761138a90816100208239308160080152f35b5f80fdfe608080604052307f000000000000000000000000000000000000000000000000000000000000000014906004361015610036575f80fd5b5f3560e01c9081630c3ef1eb14610a14575080633bb9390d146109b9578063524cae0f146108525780635c59874a1461072f5780638bb68bc9146106ce578063a2b8f6a5146105375763a43729491461008d575f80fd5b6105335760a03660031901126105335760043560243560443567ffffffffffffffff8111610533576100c3903690600401610dce565b9060643567ffffffffffffffff8111610533576100e4903690600401610dce565b908251156104d85790925f935b835185101561029c576001600160a01b0361010c868661116a565b51161561024757336001600160a01b03610126878761116a565b5116146101ee57600185018086116101da575b84518110156101ce576001600160a01b03610154878761116a565b51166001600160a01b03610168838861116a565b51161461017757600101610139565b60405162461bcd60e51b815260206004820152602960248201527f436f6d6d69746d656e74436861696e3a204475706c6963617465207369676e6560448201526872206164647265737360b81b6064820152608490fd5b506001909401936100f1565b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260206004820152602b60248201527f436f6d6d69746d656e74436861696e3a205369676e65722063616e6e6f74206260448201526a329034b734ba34b0ba37b960a91b6064820152608490fd5b60405162461bcd60e51b815260206004820152602760248201527f436f6d6d69746d656e74436861696e3a20496e76616c6964207369676e6572206044820152666164647265737360c81b6064820152608490fd5b9290915f925b84518410156103a9576102c96001600160a01b036102c0868861116a565b51161515610e3c565b6102e8336001600160a01b036102df878961116a565b51161415610e99565b5f5b835181101561032c576001906103266001600160a01b0361030b888a61116a565b5116838060a01b0361031d848961116a565b51161415610f23565b016102ea565b5091600184018085116101da575b855181101561037c576001906103766001600160a01b0361035b888a61116a565b5116838060a01b0361036d848b61116a565b51161415610f81565b0161033a565b5090929091906001906103a16001600160a01b0361039a838961116a565b5116611250565b0192906102a2565b84828482516084351161047a5760018060a01b0333165f528360205260405f205f80526020526103dc8260405f20610fe0565b5f5b8151811015610428576001906001600160a01b036103fc828561116a565b5116828060a01b03165f528560205260405f20825f526020526104228460405f20610fe0565b016103de565b5050905f5b8151811015610478576001906001600160a01b0361044b828561116a565b5116828060a01b03165f528460205260405f2060025f526020526104728460405f20610fe0565b0161042d565b005b60405162461bcd60e51b815260206004820152603060248201527f436f6d6d69746d656e74436861696e3a205468726573686f6c6420657863656560448201526f191cc81dda5d1b995cdcc818dbdd5b9d60821b6064820152608490fd5b60405162461bcd60e51b815260206004820152602d60248201527f436f6d6d69746d656e74436861696e3a204174206c65617374206f6e6520736960448201526c19db995c881c995c5d5a5c9959609a1b6064820152608490fd5b5f80fd5b606036600319011261053357600435805461055181610db6565b9161055f6040519384610d94565b818352601f1961056e83610db6565b015f5b8181106106b75750506024356044355f5b84811061060157856040518091602082016020835281518091526020604084019201905f5b8181106105b5575050500390f35b9193509160206080826105f360019488516060809160018060a01b038151168452602081015115156020850152604081015160408501520151910152565b0194019101918493926105a7565b8061060e60019286610efa565b838060a01b0391549060031b1c16828060a01b03165f528260205260405f206106378287610efa565b848060a01b0391549060031b1c16906106508388610efa565b858060a01b0391549060031b1c16848060a01b03165f528560205260ff60405f20541690848154910154916040519361068885610d64565b845215156020840152604083015260608201526106a5828961116a565b526106b0818861116a565b5001610582565b6020906106c2611146565b82828801015201610571565b6060366003190112610533576106eb60443560243560043561118b565b6040518091602082016020835281518091526020604084019201905f5b818110610716575050500390f35b8251845285945060209384019390920191600101610708565b60603660031901126105335760043580549061074d6044358361117e565b9161077061075a84610db6565b936107686040519586610d94565b808552610db6565b602084019290601f19013684375f90602435825b8481106107d8578587604051918291602083019060208452518091526040830191905f5b8181106107b6575050500390f35b82516001600160a01b03168452859450602093840193909201916001016107a8565b6107e28184610efa565b905460039190911b1c6001600160a01b03165f9081526020839052604090205460ff1615610813575b600101610784565b9261081e8484610efa565b905491948592909160031b1c6001600160a01b03165f1983146101da5761084a6001809401968a61116a565b52905061080b565b604036600319011261053357600435805461086c81610db6565b9161087a6040519384610d94565b818352601f1961088983610db6565b015f5b8181106109a25750506024355f5b83811061091957846040518091602082016020835281518091526020604084019201905f5b8181106108cd575050500390f35b91935091602060808261090b60019488516060809160018060a01b038151168452602081015115156020850152604081015160408501520151910152565b0194019101918493926108bf565b8061092660019285610efa565b838060a01b0391549060031b1c16828060a01b03165f528260205260405f2061094f8286610efa565b848060a01b0391549060031b1c1690838154910154906040519261097284610d64565b8352801515602084015260408301526060820152610990828861116a565b5261099b818761116a565b500161089a565b6020906109ad611146565b8282880101520161088c565b6040366003190112610533576024356001600160a01b03811681036105335760406109e8602092600435611019565b815192839181835280519182918282860152018484015e5f828201840152601f01601f19168101030190f35b8261053357610100366003190112610533576084356001600160a01b0381169060643590600435908390036105335760a4356001600160a01b038116948582036105335760c435600a8110156105335760e4359182151583036105335760018501546001600160a01b031692338414908115610d5c575b5015610d0a57508015908115610cff575b5015610caa57845f5260243560205260ff60405f205416610c5557610ac3610ad692611250565b610ace861515610e3c565b851415610e99565b601781018054905f5b828110610c295750505060030180545f19905f5b818110610bcf5750505f198114610b7857610b0d91610efa565b81549060031b9085821b9160018060a01b03901b1916179055825f5260443560205260405f2060025f52602052610b478160405f20610fe0565b7fff4f75d8ac7c88f490cafa03d72707be2d740998af848e8bdc3ab717ccfd3cf760408051338152426020820152a4005b60405162461bcd60e51b815260206004820152602960248201527f436f6d6d69746d656e74436861696e3a204e6f7420612064657369676e61746560448201526864207769746e65737360b81b6064820152608490fd5b610bf6610bdc8286610efa565b905460039190911b1c6001600160a01b0316881415610f81565b85610c018286610efa565b905460039190911b1c6001600160a01b031614610c21575b600101610af3565b915081610c19565b80610c4f610c3960019385610efa565b848060a01b0391549060031b1c16891415610f23565b01610adf565b60405162461bcd60e51b815260206004820152602760248201527f436f6d6d69746d656e74436861696e3a205769746e65737320616c7265616479604482015266081cda59db995960ca1b6064820152608490fd5b60405162461bcd60e51b815260206004820152602760248201527f436f6d6d69746d656e74436861696e3a20436f6d6d69746d656e74206e6f742060448201526670656e64696e6760c81b6064820152608490fd5b600191501487610a9c565b62461bcd60e51b815260206004820152602760248201527f436f6d6d69746d656e74436861696e3a204e6f7420696e69746961746f72206f604482015266391030b236b4b760c91b6064820152608490fd5b905089610a8b565b6080810190811067ffffffffffffffff821117610d8057604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff821117610d8057604052565b67ffffffffffffffff8111610d805760051b60200190565b9080601f8301121561053357813590610de682610db6565b92610df46040519485610d94565b82845260208085019360051b82010191821161053357602001915b818310610e1c5750505090565b82356001600160a01b038116810361053357815260209283019201610e0f565b15610e4357565b60405162461bcd60e51b815260206004820152602860248201527f436f6d6d69746d656e74436861696e3a20496e76616c6964207769746e657373604482015267206164647265737360c01b6064820152608490fd5b15610ea057565b60405162461bcd60e51b815260206004820152602c60248201527f436f6d6d69746d656e74436861696e3a205769746e6573732063616e6e6f742060448201526b31329034b734ba34b0ba37b960a11b6064820152608490fd5b8054821015610f0f575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b15610f2a57565b60405162461bcd60e51b815260206004820152602960248201527f436f6d6d69746d656e74436861696e3a205769746e6573732063616e6e6f742060448201526831329039b4b3b732b960b91b6064820152608490fd5b15610f8857565b60405162461bcd60e51b815260206004820152602a60248201527f436f6d6d69746d656e74436861696e3a204475706c6963617465207769746e656044820152697373206164647265737360b01b6064820152608490fd5b805468010000000000000000811015610d805761100291600182018155610efa565b819291549060031b91821b915f19901b1916179055565b600181015490916001600160a01b039081169116811461111d575f5b81601784018054831015611093578261104d91610efa565b905460039190911b1c6001600160a01b03161461106c57600101611035565b50505060405161107d604082610d94565b600681526539b4b3b732b960d11b602082015290565b5050505f5b6003830180548210156110f7576110b0828492610efa565b905460039190911b1c6001600160a01b0316146110cf57600101611098565b5050506040516110e0604082610d94565b60078152667769746e65737360c81b602082015290565b50505050604051611109604082610d94565b60048152636e6f6e6560e01b602082015290565b505060405161112d604082610d94565b600981526834b734ba34b0ba37b960b91b602082015290565b6040519061115382610d64565b5f6060838281528260208201528260408201520152565b8051821015610f0f5760209160051b010190565b919082039182116101da57565b929183548083101561123357816111a2848361117e565b111561122b575081018082116101da57905b6111be818361117e565b6111c781610db6565b906111d56040519283610d94565b8082526111e4601f1991610db6565b013660208301378094825b8481106111fd575050505050565b8061120a60019284610efa565b90549060031b1c61122461121e878461117e565b8661116a565b52016111ef565b9050906111b4565b5050509050604051611246602082610d94565b5f81525f36813790565b604051632474521560e21b81527f16cedf8f601395ad37b8f7ac016395362fad21dfdd3152a47a294d9c5a3c297460048201526001600160a01b039091166024820152602081604481305afa908115611349575f9161130e575b50156112b257565b60405162461bcd60e51b815260206004820152602e60248201527f436f6d6d69746d656e74436861696e3a205769746e657373206d75737420686160448201526d7665204c41575945525f524f4c4560901b6064820152608490fd5b90506020813d602011611341575b8161132960209383610d94565b8101031261053357518015158103610533575f6112aa565b3d915061131c565b6040513d5f823e3d90fdfea2646970667358221220cf2294ae2376c77fcc82ae57693ea805d4b207d0ea0e4027d125fa9448c4e64164736f6c634300081c0033";
+
+type ParticipantLibConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ParticipantLibConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ParticipantLib__factory extends ContractFactory {
+  constructor(...args: ParticipantLibConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      ParticipantLib & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ParticipantLib__factory {
+    return super.connect(runner) as ParticipantLib__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ParticipantLibInterface {
+    return new Interface(_abi) as ParticipantLibInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ParticipantLib {
+    return new Contract(address, _abi, runner) as unknown as ParticipantLib;
+  }
+}
@@ -0,0 +1,219 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ReviewLib,
+  ReviewLibInterface,
+} from "../../../contracts/libraries/ReviewLib";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "freezer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum CommitmentChain.FreezeReason",
+        name: "reason",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "caseRef",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "unfreezeAt",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CommitmentFrozen",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "unfreezer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CommitmentUnfrozen",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CommitmentVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "resolvedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "upheld",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "DisputeResolved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "reasonHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "VerificationRejected",
+    type: "event",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234601b5761066890816100208239308160080152f35b5f80fdfe608080604052307f000000000000000000000000000000000000000000000000000000000000000014906004361015610036575f80fd5b5f3560e01c9081630648504b146103645750806321327ce6146102c75780634d29bbdf1461024a5780637cf0be411461019d5763a8bf462114610077575f80fd5b610199576060366003190112610199576004356024356044358015159283820361019957601a81019182549060ff82168061018b575b1561014757156100fb575050805461ff0019166101001790555b6040519182524260208301527f53cddb6a5f925a3aa8339a277f6586fa68ecf2f6a1b1bcddc4d2c5f3eb7f375760403393a3005b9160089260ff19169055016201000062ff000019825416179055604051428152817fab4ac46f9db1898358941f305fc2c3c4f3d205ec36506cc14863fdf50b2eea1b60203393a36100c7565b606460405162461bcd60e51b815260206004820152602060248201527f436f6d6d69746d656e74436861696e3a204e6f206f70656e20646973707574656044820152fd5b5060ff8260081c16156100ad565b5f80fd5b5061019957606036600319011261019957600435604435906101d460ff60088301546101ca828216610555565b60101c16156104ff565b601a8101600181546101e960ff8216156105ac565b620100008260b01b033360101b169061ff018360b01b0319161717905581601b820155601c4291015560405190815242602082015233907fea387a4ef14f549ed8e41cceeb9a164c348ba86814081fa79dc8d84bc21b9d4b604060243592a3005b5061019957610258366104e9565b9062010000600882019161028f60ff601a85549361027b838660101c16156104ff565b610286838616610555565b015416156105ac565b62ff00001916179055604051904282527fab4ac46f9db1898358941f305fc2c3c4f3d205ec36506cc14863fdf50b2eea1b60203393a3005b50610199576102d5366104e9565b906102df81610604565b1561031f5760080161ff00198154169055604051904282527fba2300499c0979431a4ef0eef31bc8bd7aacda2a6412a984b32ee0ae14547c4a60203393a3005b60405162461bcd60e51b815260206004820152601b60248201527f436f6d6d69746d656e74436861696e3a204e6f742066726f7a656e00000000006044820152606490fd5b826101995760a03660031901126101995760443590600435600683101561019957606435906084359261039682610604565b6104a757508215801561049e575b1561043c57602081600885930161010061ff0019825416179055601d81018054610100600160a81b033360081b169060ff8916906affffffffffffffffffffff60a81b161717905583601e82015542601f82015501556040519283526020830152604082015242606082015233907f86dcf31957c65070a5bb8b26825a177101ad4a6c026832f1b59c43b51c4123b0608060243592a3005b60405162461bcd60e51b815260206004820152603460248201527f436f6d6d69746d656e74436861696e3a20556e667265657a652074696d65206d60448201527375737420626520696e207468652066757475726560601b6064820152608490fd5b504283116103a4565b62461bcd60e51b815260206004820152601f60248201527f436f6d6d69746d656e74436861696e3a20416c72656164792066726f7a656e006044820152606490fd5b6040906003190112610199576004359060243590565b1561050657565b60405162461bcd60e51b815260206004820152602160248201527f436f6d6d69746d656e74436861696e3a20416c726561647920766572696669656044820152601960fa1b6064820152608490fd5b1561055c57565b60405162461bcd60e51b815260206004820152602260248201527f436f6d6d69746d656e74436861696e3a204e6f7420636f6d706c657465642079604482015261195d60f21b6064820152608490fd5b156105b357565b60405162461bcd60e51b8152602060048201526024808201527f436f6d6d69746d656e74436861696e3a20436f6d6d69746d656e7420646973706044820152631d5d195960e21b6064820152608490fd5b60ff600882015460081c169081610619575090565b6020015480159150811561062b575090565b905042109056fea26469706673582212204169e1626fecbd2293988f1629109ea7e086d7592bea5ea22d99b7dbdd0f958264736f6c634300081c0033";
+
+type ReviewLibConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ReviewLibConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ReviewLib__factory extends ContractFactory {
+  constructor(...args: ReviewLibConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      ReviewLib & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ReviewLib__factory {
+    return super.connect(runner) as ReviewLib__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ReviewLibInterface {
+    return new Interface(_abi) as ReviewLibInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): ReviewLib {
+    return new Contract(address, _abi, runner) as unknown as ReviewLib;
+  }
+}
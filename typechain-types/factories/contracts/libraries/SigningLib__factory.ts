@@ -0,0 +1,203 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  SigningLib,
+  SigningLibInterface,
+} from "../../../contracts/libraries/SigningLib";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "ECDSAInvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "length",
+        type: "uint256",
+      },
+    ],
+    name: "ECDSAInvalidSignatureLength",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "ECDSAInvalidSignatureS",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CommitmentCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "decliner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "role",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "reasonHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CommitmentDeclined",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "signer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "role",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CommitmentSigned",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "supersededBy",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CommitmentSuperseded",
+    type: "event",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234601b576110d390816100208239308160070152f35b5f80fdfe6080604052307f0000000000000000000000000000000000000000000000000000000000000000146004361015610034575f80fd5b5f3560e01c90816306a451101461089957816349990a631461086d57816351a25172146107fa57816355a3131f146107dc5781636a96196f14610404578163815b50d01461037a575063cc4562191461008b575f80fd5b610100366003190112610376576004356100a36108c2565b6084359160ff83168093036103765760e4359060c43567ffffffffffffffff831161037657366023840112156103765782600401359167ffffffffffffffff8311610376573660248486010111610376578142116103265760ff6024820154166005811015610312576102f85760040194604051955f8154918260011c90600184169384156102ee575b6020831085146102da57828b5260208b01949081156102bf5750600114610283575b50506102169594935f936020938a61016e61021f9c6042960382610a28565b519020915b60405191858301937fe1a4ba9f56a6e1675df469c3e6010e0d74826707eeddc2bd5a6115692bcbf3b1855260443560408501526060840152608083015260a43560a083015260c082015260c081526101cc60e082610a28565b5190206040519061190160f01b825260243560028301526022820152209280602483601f19601f84011601966102056040519889610a28565b828852018387013784010152610f76565b90939193610fb0565b6001600160a01b0390811691160361023357005b60405162461bcd60e51b815260206004820152602260248201527f436f6d6d69746d656e74436861696e3a20496e76616c6964207369676e617475604482015261726560f01b6064820152608490fd5b5f908152602081209092505b8183106102a45750508701602001835f61014f565b6001818b60208681959796975492010152019101919061028f565b60ff191685525050151560051b88016020019050835f61014f565b634e487b7160e01b5f52602260045260245ffd5b91607f169161012d565b6020604261021695949361021f9860235f95015491610173565b634e487b7160e01b5f52602160045260245ffd5b60405162461bcd60e51b815260206004820152602260248201527f436f6d6d69746d656e74436861696e3a205369676e6174757265206578706972604482015261195960f21b6064820152608490fd5b5f80fd5b610376576080366003190112610376576104026004356103a56103a03360038401610e9a565b610b9a565b335f90815260243560205260409020546103c29060ff161561094d565b6103d360ff60088301541615610bf8565b6040516103e1604082610a28565b60078152667769746e65737360c81b60208201526064359160443590610eda565b005b6103765760c03660031901126103765760643560443560243560043567ffffffffffffffff841161037657366023850112156103765783600401359267ffffffffffffffff8411610376573660248560051b87010111610376576104666108d8565b9160a43591821515830361037657851515806107d1575b156107805761048b86610e82565b946104996040519687610a28565b8686526104a587610e82565b6020870190601f19013682375f5f5b898110156106ef578a8860248360051b8093010135805f528860205260405f2081151590816106e4575b816106d5575b816106c2575b816106af575b81610675575b8161063c575b50156105955789156105d457805f528860205260405f20815f528760205260405f209061052c8460038301610e9a565b91826105b0575b50816105a0575b50156105955761056492939450805f528660205260405f20815f528860205260405f20908a610c4f565b6001918951811015610581578260206001938c0101525b016104b4565b634e487b7160e01b5f52603260045260245ffd5b50505060019061057b565b60ff91506008015416158f61053a565b6001600160a01b0385165f908152602091909152604081205460ff16159250610533565b805f52886020526105eb82601760405f2001610e9a565b158015610614575b6105955761060f92939450805f528760205260405f2089610a6c565b610564565b505f818152602089815260408083206001600160a01b038616845290915290205415156105f3565b601181015480151592508261066b575b508161065b575b50158f6104fc565b60ff91506008015416158f610653565b421191505f61064c565b905060ff600882015460081c168061068f575b15906104f6565b50602081015480159081156106a5575b50610688565b905042105f61069f565b601481015460081c60ff161591506104f0565b600881015460181c60ff161591506104ea565b600681015460ff1691506104e4565b8054831491506104de565b8883831561073c5790604051918291602083019060208452518091526040830191905f5b818110610721575050500390f35b82511515845285945060209384019390920191600101610713565b606460405162461bcd60e51b815260206004820152602060248201527f436f6d6d69746d656e74436861696e3a204e6f7468696e6720746f207369676e6044820152fd5b60405162461bcd60e51b815260206004820152602360248201527f436f6d6d69746d656e74436861696e3a20496e76616c69642062617463682073604482015262697a6560e81b6064820152608490fd5b50603286111561047d565b61037657604036600319011261037657610402602435600435610d66565b610376576080366003190112610376576104026004356108256108203360178401610e9a565b6108ee565b335f908152602435602052604090205461083f901561094d565b60405161084d604082610a28565b600681526539b4b3b732b960d11b60208201526064359160443590610eda565b6103765760a0366003190112610376576104026108886108d8565b606435604435602435600435610c4f565b610376576080366003190112610376576104026108b46108c2565b604435602435600435610a6c565b606435906001600160a01b038216820361037657565b608435906001600160a01b038216820361037657565b156108f557565b60405162461bcd60e51b815260206004820152602a60248201527f436f6d6d69746d656e74436861696e3a204e6f74207468652064657369676e616044820152693a32b21039b4b3b732b960b11b6064820152608490fd5b1561095457565b60405162461bcd60e51b815260206004820152601f60248201527f436f6d6d69746d656e74436861696e3a20416c7265616479207369676e6564006044820152606490fd5b156109a057565b60405162461bcd60e51b815260206004820152602a60248201527f436f6d6d69746d656e74436861696e3a20496e69746961746f72206d757374206044820152691cda59db88199a5c9cdd60b21b6064820152608490fd5b6040810190811067ffffffffffffffff821117610a1457604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff821117610a1457604052565b5f198114610a585760010190565b634e487b7160e01b5f52601160045260245ffd5b9092610b6393835f528260205260405f209060178201610a8f6108208583610e9a565b60018060a01b0384165f5281602052610aac60405f20541561094d565b6006830191610abe60ff845416610999565b600160405191610acd836109f8565b4283526020830190438252828060a01b0388165f5260205260405f2092518355519101556018830190610b008254610a4a565b8092555414610b65575b5050827ffc116c372529f33e892d2d216df6aebdd725520520d7fc13163ddf825e1bd79c60806040519360408552600660408601526539b4b3b732b960d11b606086015242602086015260018060a01b031693a3610d66565b565b805461ff001916610100179055604051610b7e816109f8565b42815260204391015242600d820155600e439101555f80610b0a565b15610ba157565b60405162461bcd60e51b815260206004820152602960248201527f436f6d6d69746d656e74436861696e3a204e6f7420612064657369676e61746560448201526864207769746e65737360b81b6064820152608490fd5b15610bff57565b60405162461bcd60e51b815260206004820152602260248201527f436f6d6d69746d656e74436861696e3a20416c726561647920636f6d706c6574604482015261195960f21b6064820152608490fd5b91610b639491600791855f528460205260405f2091610c7460ff600685015416610999565b610c846103a08660038601610e9a565b60018060a01b0385165f5280602052610ca460ff60405f2054161561094d565b610cb560ff60088501541615610bf8565b60018060a01b0385165f5260205260405f20600160ff19825416179055600160405191610ce1836109f8565b4283526020830190438252828060a01b0387165f5260205260405f20925183555191015501610d108154610a4a565b9055827ffc116c372529f33e892d2d216df6aebdd725520520d7fc13163ddf825e1bd79c6080604051936040855260076040860152667769746e65737360c81b606086015242602086015260018060a01b031693a35b815f528060205260405f20601981015480155f14610e7d575060038101545b60068201549060ff82169182610e6f575b5081610e60575b50610da757505050565b80600860129201600160ff19825416179055604051610dc5816109f8565b42815260204391015242600f820155436010820155837fa7a05d35729767a8b5b06c572b490501c2eaac0998d347fdf52f34b748c550786020604051428152a20190815480610e15575b50505050565b5f52602052601460405f2001600160ff19825416179055547f997a49272ae8ff84ecc86148041ee7ce24a240db668e52b0e1eb3b6485df735a6020604051428152a35f808080610e0f565b9050600782015410155f610d9d565b60081c60ff1691505f610d96565b610d85565b67ffffffffffffffff8111610a145760051b60200190565b905f5b8254811015610ed3575f838152602090208101546001600160a01b03838116911614610ecb57600101610e9d565b505050600190565b5050505f90565b601481018054610100600160b01b0319163360101b62010000600160b01b0316176101001790556015810184905542601690910155604051606080825283519082018190529391927f65f5c096a8e4497330a7908d23fa138555bd83bea8d73e3c10ec0e9f7cbaeb1c92908590602001608084015e5f6080868401015260208201524260408201526080813395601f80199101168101030190a3565b8151919060418303610fa657610f9f9250602082015190606060408401519301515f1a90611010565b9192909190565b50505f9160029190565b60048110156103125780610fc2575050565b60018103610fd95763f645eedf60e01b5f5260045ffd5b60028103610ff4575063fce698f760e01b5f5260045260245ffd5b600314610ffe5750565b6335e2f38360e21b5f5260045260245ffd5b91907f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08411611092579160209360809260ff5f9560405194855216868401526040830152606082015282805260015afa15611087575f516001600160a01b0381161561107d57905f905f90565b505f906001905f90565b6040513d5f823e3d90fd5b5050505f916003919056fea26469706673582212205d6a0e5e36089f1bf1f6c1fe70d1766e00e04eb09b7be5692c93e530a629c25c64736f6c634300081c0033";
+
+type SigningLibConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: SigningLibConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class SigningLib__factory extends ContractFactory {
+  constructor(...args: SigningLibConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      SigningLib & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): SigningLib__factory {
+    return super.connect(runner) as SigningLib__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): SigningLibInterface {
+    return new Interface(_abi) as SigningLibInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): SigningLib {
+    return new Contract(address, _abi, runner) as unknown as SigningLib;
+  }
+}
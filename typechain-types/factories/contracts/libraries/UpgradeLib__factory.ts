@@ -0,0 +1,152 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  UpgradeLib,
+  UpgradeLibInterface,
+} from "../../../contracts/libraries/UpgradeLib";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousImplementation",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newImplementation",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ContractUpgraded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "cancelledBy",
+        type: "address",
+      },
+    ],
+    name: "UpgradeCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldDelay",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newDelay",
+        type: "uint256",
+      },
+    ],
+    name: "UpgradeDelayUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "proposedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "readyAt",
+        type: "uint256",
+      },
+    ],
+    name: "UpgradeProposed",
+    type: "event",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234601b576104ac90816100208239308160080152f35b5f80fdfe608080604052307f000000000000000000000000000000000000000000000000000000000000000014906004361015610036575f80fd5b5f3560e01c9081631d32e03b1461039b575080639da2df851461025e578063c44fb8ec146101b95763cc63c1621461006c575f80fd5b6101b5576100793661043c565b90823b15610156576001600160a01b031661010057620151808110156100fb5750620151805b42018042116100e7576020916040518281527f5f7c4c14cf69aa181912f5f4f56c2540026e896540d272d303f753a7353a152184339360018060a01b031692a3604051908152f35b634e487b7160e01b5f52601160045260245ffd5b61009f565b60405162461bcd60e51b815260206004820152602860248201527f436f6d6d69746d656e74436861696e3a205570677261646520616c72656164796044820152672070656e64696e6760c01b6064820152608490fd5b60405162461bcd60e51b815260206004820152603160248201527f436f6d6d69746d656e74436861696e3a20496d706c656d656e746174696f6e206044820152701a5cc81b9bdd08184818dbdb9d1c9858dd607a1b6064820152608490fd5b5f80fd5b506101b55760203660031901126101b5576004356001600160a01b038116908190036101b557801561020d5733907fa6698f935ea3cb05304828ddd237d7f7b2ee8f2d7733962bbba67888985e1a2c5f80a3005b60405162461bcd60e51b815260206004820152602360248201527f436f6d6d69746d656e74436861696e3a204e6f20757067726164652070656e64604482015262696e6760e81b6064820152608490fd5b506101b55761026c3661043c565b6001600160a01b0392831692909116821480610392575b1561033f5742106102e45760018060a01b037f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc54167f81daf9335a6378204a43cc5467ad9282348d3864c1e3788e40b879f41b187aa56020604051428152a3005b60405162461bcd60e51b815260206004820152602d60248201527f436f6d6d69746d656e74436861696e3a20557067726164652074696d656c6f6360448201526c1ac81b9bdd08195e1c1a5c9959609a1b6064820152608490fd5b60405162461bcd60e51b815260206004820152602560248201527f436f6d6d69746d656e74436861696e3a2055706772616465206e6f742070726f6044820152641c1bdcd95960da1b6064820152608490fd5b50811515610283565b826101b55760403660031901126101b557602435906201518082106103ee577f460e10c89f7fa39a35b0b6bd68e6a834bc423a08a5b10fc1bda0dff3276e269460408381519060043582526020820152a1005b62461bcd60e51b8152602060048201526024808201527f436f6d6d69746d656e74436861696e3a2044656c61792062656c6f77206d696e604482015263696d756d60e01b6064820152608490fd5b60609060031901126101b5576004356001600160a01b03811681036101b557906024356001600160a01b03811681036101b557906044359056fea2646970667358221220b7654429b7fbda7d72993e875a8e11a0279d30a60a291eceb2c3d0e6e543d4e564736f6c634300081c0033";
+
+type UpgradeLibConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: UpgradeLibConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class UpgradeLib__factory extends ContractFactory {
+  constructor(...args: UpgradeLibConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      UpgradeLib & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): UpgradeLib__factory {
+    return super.connect(runner) as UpgradeLib__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): UpgradeLibInterface {
+    return new Interface(_abi) as UpgradeLibInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): UpgradeLib {
+    return new Contract(address, _abi, runner) as unknown as UpgradeLib;
+  }
+}
@@ -0,0 +1,9 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { LifecycleLib__factory } from "./LifecycleLib__factory";
+export { MembershipLib__factory } from "./MembershipLib__factory";
+export { ParticipantLib__factory } from "./ParticipantLib__factory";
+export { ReviewLib__factory } from "./ReviewLib__factory";
+export { SigningLib__factory } from "./SigningLib__factory";
+export { UpgradeLib__factory } from "./UpgradeLib__factory";
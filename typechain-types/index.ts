@@ -8,33 +8,65 @@ export type { contracts };
 export * as factories from "./factories";
 export type { AccessControlUpgradeable } from "./@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable";
 export { AccessControlUpgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable__factory";
+export type { AccessControlEnumerableUpgradeable } from "./@openzeppelin/contracts-upgradeable/access/extensions/AccessControlEnumerableUpgradeable";
+export { AccessControlEnumerableUpgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/access/extensions/AccessControlEnumerableUpgradeable__factory";
 export type { Initializable } from "./@openzeppelin/contracts-upgradeable/proxy/utils/Initializable";
 export { Initializable__factory } from "./factories/@openzeppelin/contracts-upgradeable/proxy/utils/Initializable__factory";
 export type { UUPSUpgradeable } from "./@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable";
 export { UUPSUpgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable__factory";
 export type { ContextUpgradeable } from "./@openzeppelin/contracts-upgradeable/utils/ContextUpgradeable";
 export { ContextUpgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/utils/ContextUpgradeable__factory";
+export type { EIP712Upgradeable } from "./@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable";
+export { EIP712Upgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable__factory";
 export type { ERC165Upgradeable } from "./@openzeppelin/contracts-upgradeable/utils/introspection/ERC165Upgradeable";
 export { ERC165Upgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/utils/introspection/ERC165Upgradeable__factory";
+export type { NoncesUpgradeable } from "./@openzeppelin/contracts-upgradeable/utils/NoncesUpgradeable";
+export { NoncesUpgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/utils/NoncesUpgradeable__factory";
 export type { PausableUpgradeable } from "./@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable";
 export { PausableUpgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable__factory";
 export type { ReentrancyGuardUpgradeable } from "./@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable";
 export { ReentrancyGuardUpgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable__factory";
+export type { IAccessControlEnumerable } from "./@openzeppelin/contracts/access/extensions/IAccessControlEnumerable";
+export { IAccessControlEnumerable__factory } from "./factories/@openzeppelin/contracts/access/extensions/IAccessControlEnumerable__factory";
 export type { IAccessControl } from "./@openzeppelin/contracts/access/IAccessControl";
 export { IAccessControl__factory } from "./factories/@openzeppelin/contracts/access/IAccessControl__factory";
 export type { IERC1822Proxiable } from "./@openzeppelin/contracts/interfaces/draft-IERC1822.sol/IERC1822Proxiable";
 export { IERC1822Proxiable__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC1822.sol/IERC1822Proxiable__factory";
 export type { IERC1967 } from "./@openzeppelin/contracts/interfaces/IERC1967";
 export { IERC1967__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC1967__factory";
+export type { IERC5267 } from "./@openzeppelin/contracts/interfaces/IERC5267";
+export { IERC5267__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC5267__factory";
 export type { IBeacon } from "./@openzeppelin/contracts/proxy/beacon/IBeacon";
 export { IBeacon__factory } from "./factories/@openzeppelin/contracts/proxy/beacon/IBeacon__factory";
 export type { ERC1967Utils } from "./@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils";
 export { ERC1967Utils__factory } from "./factories/@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils__factory";
 export type { Address } from "./@openzeppelin/contracts/utils/Address";
 export { Address__factory } from "./factories/@openzeppelin/contracts/utils/Address__factory";
+export type { ECDSA } from "./@openzeppelin/contracts/utils/cryptography/ECDSA";
+export { ECDSA__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/ECDSA__factory";
+export type { MerkleProof } from "./@openzeppelin/contracts/utils/cryptography/MerkleProof";
+export { MerkleProof__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/MerkleProof__factory";
 export type { Errors } from "./@openzeppelin/contracts/utils/Errors";
 export { Errors__factory } from "./factories/@openzeppelin/contracts/utils/Errors__factory";
 export type { IERC165 } from "./@openzeppelin/contracts/utils/introspection/IERC165";
 export { IERC165__factory } from "./factories/@openzeppelin/contracts/utils/introspection/IERC165__factory";
+export type { SafeCast } from "./@openzeppelin/contracts/utils/math/SafeCast";
+export { SafeCast__factory } from "./factories/@openzeppelin/contracts/utils/math/SafeCast__factory";
+export type { Strings } from "./@openzeppelin/contracts/utils/Strings";
+export { Strings__factory } from "./factories/@openzeppelin/contracts/utils/Strings__factory";
 export type { CommitmentChain } from "./contracts/CommitmentChain";
 export { CommitmentChain__factory } from "./factories/contracts/CommitmentChain__factory";
+export type { LifecycleLib } from "./contracts/libraries/LifecycleLib";
+export { LifecycleLib__factory } from "./factories/contracts/libraries/LifecycleLib__factory";
+export type { MembershipLib } from "./contracts/libraries/MembershipLib";
+export { MembershipLib__factory } from "./factories/contracts/libraries/MembershipLib__factory";
+export type { ParticipantLib } from "./contracts/libraries/ParticipantLib";
+export { ParticipantLib__factory } from "./factories/contracts/libraries/ParticipantLib__factory";
+export type { ReviewLib } from "./contracts/libraries/ReviewLib";
+export { ReviewLib__factory } from "./factories/contracts/libraries/ReviewLib__factory";
+export type { SigningLib } from "./contracts/libraries/SigningLib";
+export { SigningLib__factory } from "./factories/contracts/libraries/SigningLib__factory";
+export type { UpgradeLib } from "./contracts/libraries/UpgradeLib";
+export { UpgradeLib__factory } from "./factories/contracts/libraries/UpgradeLib__factory";
+export type { ProfileRegistry } from "./contracts/ProfileRegistry";
+export { ProfileRegistry__factory } from "./factories/contracts/ProfileRegistry__factory";